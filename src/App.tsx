@@ -1,20 +1,35 @@
-import { useState, useEffect, useCallback, useId, useMemo } from 'react';
-import { X } from 'lucide-react';
+import { useState, useEffect, useCallback, useId, useMemo, useRef, type ChangeEvent } from 'react';
+import { X, AlertCircle } from 'lucide-react';
 import FocusTrap from 'focus-trap-react';
-import { CalendarGrid, MonthNavigation } from './components/calendar';
+import { CalendarGrid, MonthNavigation, SummerSelectionPanel, ScheduleExceptionsPanel, ThirdPartyTimePanel } from './components/calendar';
 import { Header, Container } from './components/layout';
-import { StatsPanel } from './components/stats';
-import { CourtDocumentPreview } from './components/export';
+import { StatsPanel, PlanProjectionPanel, type OvernightSettings } from './components/stats';
+import { CourtDocumentPreview, CalendarExportPanel, type CalendarExportRequest } from './components/export';
+import { ScenarioPanel, ScenarioComparisonView } from './components/scenarios';
+import { ProvisionLibraryPanel } from './components/provisions';
+import { SchoolCalendarImportPanel } from './components/settings';
 import { COLOR_OPTIONS, DEFAULT_PARENT_A_COLOR, DEFAULT_PARENT_B_COLOR } from './components/shared/colorOptions';
 import { WizardContainer, PatternPicker, HolidaySelector, TemplateSelector } from './components/wizard';
 import type { TemplateOption } from './components/wizard/steps/TemplateSelector';
-import { WizardProvider, useWizard, AppStateProvider, useAppState } from './context';
-import { getPatternByType, getSplitPercentages } from './data/patterns';
-import { syncBirthdaysWithChildren } from './utils/familyUtils';
-import { useCustodyEngine } from './hooks';
-import type { PatternType, AppConfig, HolidayUserConfig, BirthdayConfig, HolidayPresetType, AppState } from './types';
-import type { SplitPeriodConfig, SelectionPriorityConfig } from './types/holidays';
-import type { SplitType } from './data/patterns';
+import { WizardProvider, useWizard, AppStateProvider, useAppState, ScenarioProvider, useScenarios } from './context';
+import { getPatternByType, getSplitPercentages, getCustomPatternPercentages } from './data/patterns';
+import { DEFAULT_SUMMER_VACATION_CONFIG, createDefaultHolidayConfigs } from './data/holidays';
+import { getAvailableTemplates } from './data/templates';
+import { syncBirthdaysWithChildren, getPlanDateRange } from './utils/familyUtils';
+import { getSelectionForYear } from './utils/summerSelection';
+import { detectCustodyConflicts } from './utils/custodyConflicts';
+import { getNextDraftName } from './reducers/scenarioReducer';
+import { mergeWizardConfig } from './reducers/wizardReducer';
+import { parsePlanFile, serializePlanFile, getPlanFileName } from './utils/planFile';
+import { restoreImportedTemplates } from './utils/templateFile';
+import { applySchoolCalendarImport, type SchoolCalendarImportItem } from './utils/schoolCalendarImport';
+import { generateIcsCalendar, getIcsFileName } from './utils/icsExport';
+import { downloadFile } from './utils/download';
+import { useCustodyEngine, useLocalStorage, type PlanStats } from './hooks';
+import { getTodayDateString } from './hooks/useCustodyEngine';
+import type { CourtTemplate, PatternType, AppConfig, HolidayUserConfig, BirthdayConfig, HolidayPresetType, AppState, CalculationMode, ScheduleException, ThirdPartyBlock, Scenario, SelectedProvision } from './types';
+import type { SplitPeriodConfig, SelectionPriorityConfig, SummerVacationPick } from './types/holidays';
+import type { SplitType, PatternParent } from './data/patterns';
 import type { ParentSetupData } from './components/wizard';
 
 /** Static wizard steps configuration - defined outside component to avoid recreation on each render */
@@ -24,6 +39,9 @@ const WIZARD_STEPS = [
   { title: 'Holiday Settings', description: 'Set holiday custody rules' },
 ];
 
+/** localStorage key for court templates imported from files */
+const TEMPLATE_STORAGE_KEY = 'custody-calculator-templates';
+
 /**
  * Wizard modal overlay component.
  * Shows the wizard as a modal dialog over the main content.
@@ -32,12 +50,15 @@ function WizardModal({
   isOpen,
   onClose,
   onFinish,
+  appState,
 }: {
   isOpen: boolean;
   onClose: () => void;
   onFinish: () => void;
+  /** Current plan, for the school calendar layers the wizard does not edit */
+  appState: AppState;
 }) {
-  const { state, dispatch } = useWizard();
+  const { state, dispatch, toAppState } = useWizard();
   const titleId = useId();
 
   // Handle escape key to close modal
@@ -67,6 +88,10 @@ function WizardModal({
     dispatch({ type: 'SET_PATTERN', payload: { pattern, split } });
   };
 
+  const handleCustomPatternChange = (customPattern: PatternParent[]) => {
+    dispatch({ type: 'SET_CUSTOM_PATTERN', payload: customPattern });
+  };
+
   const handleParentSetupChange = (parentSetup: ParentSetupData) => {
     dispatch({ type: 'SET_PARENTS', payload: parentSetup });
     
@@ -79,6 +104,20 @@ function WizardModal({
     dispatch({ type: 'SET_ENHANCED_BIRTHDAYS', payload: syncedBirthdays });
   };
 
+  // Templates imported from files are kept across sessions, checked again on every load
+  const [storedTemplates, setStoredTemplates] = useLocalStorage<unknown[]>(TEMPLATE_STORAGE_KEY, []);
+  const templates = useMemo(
+    () => getAvailableTemplates(restoreImportedTemplates(storedTemplates)),
+    [storedTemplates]
+  );
+
+  const handleImportTemplate = (template: CourtTemplate) => {
+    setStoredTemplates((prev) => [
+      ...restoreImportedTemplates(prev).filter((t) => t.id !== template.id),
+      template,
+    ]);
+  };
+
   // Template selection handler
   const handleTemplateOptionSelect = (option: TemplateOption) => {
     if (option.type === 'template') {
@@ -121,7 +160,36 @@ function WizardModal({
   };
 
   // Calculate base percentages for holiday impact preview
-  const basePercentages = useMemo(() => getSplitPercentages(state.split), [state.split]);
+  // Custom cycles report their actual split relative to the starting parent
+  const basePercentages = useMemo(() => {
+    if (state.pattern === 'custom' && state.customPattern) {
+      const { parentA, parentB } = getCustomPatternPercentages(state.customPattern);
+      return state.parentSetup.startingParent === 'parentB'
+        ? { parentA: parentB, parentB: parentA }
+        : { parentA, parentB };
+    }
+    return getSplitPercentages(state.split);
+  }, [state.split, state.pattern, state.customPattern, state.parentSetup.startingParent]);
+
+  // Dates this year where the chosen holiday and birthday rules overlap with different parents,
+  // or with the plan's in-service days and track breaks
+  const { inServiceDays, inServiceConfig, trackBreaks, schoolType } = appState;
+  // Skipped while the modal is closed, since this component stays mounted
+  const holidayConflicts = useMemo(() => {
+    if (!isOpen) return [];
+    const preview = toAppState();
+    const year = new Date().getFullYear();
+    return detectCustodyConflicts(
+      `${year}-01-01`,
+      `${year}-12-31`,
+      preview.config,
+      preview.holidays,
+      inServiceDays,
+      inServiceConfig,
+      trackBreaks,
+      schoolType
+    );
+  }, [isOpen, toAppState, inServiceDays, inServiceConfig, trackBreaks, schoolType]);
 
   if (!isOpen) return null;
 
@@ -165,6 +233,8 @@ function WizardModal({
                   <TemplateSelector
                     selectedOption={selectedTemplateOption}
                     onOptionSelect={handleTemplateOptionSelect}
+                    templates={templates}
+                    onImportTemplate={handleImportTemplate}
                   />
                 );
               }
@@ -175,6 +245,8 @@ function WizardModal({
                     onPatternSelect={handlePatternSelect}
                     parentSetupData={state.parentSetup}
                     onParentSetupChange={handleParentSetupChange}
+                    customPattern={state.customPattern}
+                    onCustomPatternChange={handleCustomPatternChange}
                   />
                 );
               }
@@ -196,6 +268,7 @@ function WizardModal({
                   parentBColor={state.parentSetup.parentBColor || DEFAULT_PARENT_B_COLOR}
                   basePercentageA={basePercentages.parentA}
                   basePercentageB={basePercentages.parentB}
+                  conflicts={holidayConflicts}
                 />
               );
             }}
@@ -287,6 +360,94 @@ function DocumentPreviewModal({
   );
 }
 
+/**
+ * Modal wrapper for comparing two scenarios side by side.
+ */
+function ScenarioComparisonModal({
+  isOpen,
+  onClose,
+  scenarios,
+  activeScenarioId,
+  year,
+  parentAName,
+  parentBName,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  scenarios: Scenario[];
+  activeScenarioId: string | null;
+  year: number;
+  parentAName: string;
+  parentBName: string;
+}) {
+  const titleId = useId();
+
+  // Handle escape key to close modal
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FocusTrap>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+      >
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm transition-opacity"
+          aria-hidden="true"
+        />
+
+        <div className="relative z-10 w-full max-w-5xl max-h-[90vh] overflow-y-auto mx-4 rounded-xl bg-white shadow-2xl" tabIndex={-1}>
+          <div className="border-b border-gray-100 px-6 py-4">
+            <h2 id={titleId} className="text-lg font-bold text-gray-900">Compare Scenarios</h2>
+          </div>
+
+          {/* Close button */}
+          <button
+            onClick={onClose}
+            className="absolute top-3 right-3 z-20 flex h-8 w-8 items-center justify-center rounded-full bg-gray-100 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Close scenario comparison"
+          >
+            <X className="h-4 w-4 text-gray-600" />
+          </button>
+
+          <ScenarioComparisonView
+            scenarios={scenarios}
+            defaultFirstId={activeScenarioId}
+            defaultYear={year}
+            parentAName={parentAName}
+            parentBName={parentBName}
+          />
+        </div>
+      </div>
+    </FocusTrap>
+  );
+}
+
 /**
  * Main application content component.
  * Uses WizardContext for wizard state management and AppStateContext for persistence.
@@ -294,8 +455,32 @@ function DocumentPreviewModal({
 function AppContent() {
   const [currentMonth, setCurrentMonth] = useState(() => new Date());
   const [showDocumentPreview, setShowDocumentPreview] = useState(false);
+  const [showScenarioComparison, setShowScenarioComparison] = useState(false);
+  const [planImportErrors, setPlanImportErrors] = useState<string[] | null>(null);
+  const planFileInputRef = useRef<HTMLInputElement>(null);
+  // Custom projection range; null follows the plan's own start and end dates
+  const [projectionRange, setProjectionRange] = useState<{ startDate: string; endDate: string } | null>(null);
+  const [calculatedProjection, setCalculatedProjection] = useState<{
+    stats: PlanStats;
+    getPlanStats: (startDate: string, endDate: string) => PlanStats;
+    startDate: string;
+    endDate: string;
+  } | null>(null);
   const { toAppState, reset } = useWizard();
-  const { state: appState, dispatch: dispatchAppState, isLoaded } = useAppState();
+  const { state: appState, dispatch: dispatchAppState, isLoaded, restoreErrors, unrestoredPlan } = useAppState();
+  const [showRestoreNotice, setShowRestoreNotice] = useState(true);
+  const {
+    scenarios,
+    activeScenarioId,
+    createScenario,
+    duplicateScenario,
+    renameScenario,
+    deleteScenario,
+    switchScenario,
+    restoreErrors: scenarioRestoreErrors,
+    unrestoredScenarios,
+  } = useScenarios();
+  const [showScenarioRestoreNotice, setShowScenarioRestoreNotice] = useState(true);
 
   // Determine if wizard should be shown:
   // - Show on first load if AppState is still at default (no customization saved)
@@ -317,13 +502,116 @@ function AppContent() {
   const appConfig: AppConfig = useMemo(() => appState.config, [appState.config]);
 
   // Use the custody engine for calculations with holiday support
-  const { getYearlyStats } = useCustodyEngine(appConfig, appState.holidays);
+  const { getYearlyStats, getPlanStats } = useCustodyEngine(
+    appConfig,
+    appState.holidays,
+    appState.inServiceDays,
+    appState.inServiceConfig,
+    appState.trackBreaks,
+    appState.schoolType,
+    appState.scheduleExceptions,
+    appState.thirdPartyBlocks
+  );
 
   // Calculate yearly stats for the current year
   const yearlyStats = useMemo(() => {
     return getYearlyStats(currentMonth.getFullYear());
   }, [getYearlyStats, currentMonth]);
 
+  // Project stats over the plan lifetime (or the custom range) with a per-year breakdown
+  const planRange = useMemo(() => getPlanDateRange(appState.familyInfo), [appState.familyInfo]);
+  const activeProjectionRange = projectionRange ?? planRange;
+  const canProject = Boolean(
+    activeProjectionRange?.startDate &&
+    activeProjectionRange.endDate &&
+    activeProjectionRange.endDate >= activeProjectionRange.startDate
+  );
+
+  // The projection covers many years, so it runs on request and is dropped
+  // once the schedule (and so getPlanStats) or the range changes
+  const handleCalculateProjection = useCallback(() => {
+    if (!activeProjectionRange) return;
+    const { startDate, endDate } = activeProjectionRange;
+    setCalculatedProjection({ stats: getPlanStats(startDate, endDate), getPlanStats, startDate, endDate });
+  }, [getPlanStats, activeProjectionRange]);
+
+  const planProjection =
+    calculatedProjection &&
+    calculatedProjection.getPlanStats === getPlanStats &&
+    calculatedProjection.startDate === activeProjectionRange?.startDate &&
+    calculatedProjection.endDate === activeProjectionRange.endDate
+      ? calculatedProjection.stats
+      : null;
+
+  // Summer vacation week selection applies when Summer Vacation uses selection priority
+  const summerYear = currentMonth.getFullYear();
+  const isSummerSelectionEnabled = appState.holidays?.holidayConfigs.some(
+    (c) => c.holidayId === 'summer-vacation' && c.enabled && c.assignment === 'selection-priority'
+  ) ?? false;
+
+  const handleSummerPick = useCallback((pick: SummerVacationPick) => {
+    dispatchAppState({ type: 'ADD_SUMMER_PICK', payload: { year: summerYear, pick } });
+  }, [dispatchAppState, summerYear]);
+
+  const handleSummerUndo = useCallback(() => {
+    dispatchAppState({ type: 'UNDO_SUMMER_PICK', payload: summerYear });
+  }, [dispatchAppState, summerYear]);
+
+  const handleCalculationModeChange = useCallback((mode: CalculationMode) => {
+    dispatchAppState({ type: 'UPDATE_CALCULATION_MODE', payload: mode });
+  }, [dispatchAppState]);
+
+  const handleOvernightSettingsChange = useCallback((settings: OvernightSettings) => {
+    dispatchAppState({ type: 'UPDATE_OVERNIGHT_SETTINGS', payload: settings });
+  }, [dispatchAppState]);
+
+  const handleDeductThirdPartyTimeChange = useCallback((deduct: boolean) => {
+    dispatchAppState({ type: 'UPDATE_DEDUCT_THIRD_PARTY_TIME', payload: deduct });
+  }, [dispatchAppState]);
+
+  const handleAddException = useCallback((exception: ScheduleException) => {
+    dispatchAppState({ type: 'ADD_SCHEDULE_EXCEPTION', payload: exception });
+  }, [dispatchAppState]);
+
+  const handleRemoveException = useCallback((id: string) => {
+    dispatchAppState({ type: 'REMOVE_SCHEDULE_EXCEPTION', payload: id });
+  }, [dispatchAppState]);
+
+  const handleAddThirdPartyBlock = useCallback((block: ThirdPartyBlock) => {
+    dispatchAppState({ type: 'ADD_THIRD_PARTY_BLOCK', payload: block });
+  }, [dispatchAppState]);
+
+  const handleRemoveThirdPartyBlock = useCallback((id: string) => {
+    dispatchAppState({ type: 'REMOVE_THIRD_PARTY_BLOCK', payload: id });
+  }, [dispatchAppState]);
+
+  const handleApplySchoolCalendar = useCallback((items: SchoolCalendarImportItem[]) => {
+    const changes = applySchoolCalendarImport(items, {
+      inServiceDays: appState.inServiceDays ?? [],
+      trackBreaks: appState.trackBreaks ?? [],
+      holidayConfigs: appState.holidays?.holidayConfigs ?? createDefaultHolidayConfigs(),
+    });
+    dispatchAppState({ type: 'SET_IN_SERVICE_DAYS', payload: changes.inServiceDays });
+    dispatchAppState({ type: 'SET_TRACK_BREAKS', payload: changes.trackBreaks });
+    dispatchAppState({ type: 'UPDATE_HOLIDAY_CONFIGS', payload: changes.holidayConfigs });
+    // Track breaks only apply to year-round schools
+    if (items.some((item) => item.category === 'track-break')) {
+      dispatchAppState({ type: 'SET_SCHOOL_TYPE', payload: 'year-round' });
+    }
+  }, [dispatchAppState, appState.inServiceDays, appState.trackBreaks, appState.holidays?.holidayConfigs]);
+
+  const handleAddProvision = useCallback((provision: SelectedProvision) => {
+    dispatchAppState({ type: 'ADD_PROVISION', payload: provision });
+  }, [dispatchAppState]);
+
+  const handleUpdateProvision = useCallback((provision: SelectedProvision) => {
+    dispatchAppState({ type: 'UPDATE_PROVISION', payload: provision });
+  }, [dispatchAppState]);
+
+  const handleRemoveProvision = useCallback((provisionId: string) => {
+    dispatchAppState({ type: 'REMOVE_PROVISION', payload: provisionId });
+  }, [dispatchAppState]);
+
   const handleExportClick = useCallback(() => {
     setShowDocumentPreview(true);
   }, []);
@@ -337,6 +625,55 @@ function AppContent() {
     reset();
   }, [reset]);
 
+  const handleSavePlanClick = useCallback(() => {
+    downloadFile(serializePlanFile(appState), getPlanFileName(getTodayDateString()), 'application/json');
+  }, [appState]);
+
+  const handleCalendarDownload = useCallback((request: CalendarExportRequest) => {
+    const parentName = request.parent ? appState.parents[request.parent].name : undefined;
+    downloadFile(
+      generateIcsCalendar(appState, request),
+      getIcsFileName(request.startDate, request.endDate, parentName),
+      'text/calendar'
+    );
+  }, [appState]);
+
+  const handleDownloadUnrestoredPlan = useCallback(() => {
+    downloadFile(
+      JSON.stringify(unrestoredPlan, null, 2),
+      getPlanFileName(`unrestored-${getTodayDateString()}`),
+      'application/json'
+    );
+  }, [unrestoredPlan]);
+
+  const handleDownloadUnrestoredScenarios = useCallback(() => {
+    downloadFile(
+      JSON.stringify(unrestoredScenarios, null, 2),
+      getPlanFileName(`scenarios-unrestored-${getTodayDateString()}`),
+      'application/json'
+    );
+  }, [unrestoredScenarios]);
+
+  const handleOpenPlanClick = useCallback(() => {
+    planFileInputRef.current?.click();
+  }, []);
+
+  const handlePlanFileChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so the same file can be chosen again after fixing it
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parsePlanFile(await file.text());
+    if (!result.valid) {
+      setPlanImportErrors(result.errors);
+      return;
+    }
+    setPlanImportErrors(null);
+    dispatchAppState({ type: 'LOAD_STATE', payload: result.state });
+    setShowWizard(false);
+  }, [dispatchAppState]);
+
   const handleResetClick = useCallback(() => {
     // Reset AppState to defaults and show wizard
     dispatchAppState({ type: 'RESET' });
@@ -365,10 +702,15 @@ function AppContent() {
     const newAppState = toAppState();
     
     // Dispatch to AppState for persistence
-    dispatchAppState({ type: 'SET_CONFIG', payload: newAppState.config });
+    // Keep the stats calculation settings chosen outside the wizard
+    dispatchAppState({ type: 'SET_CONFIG', payload: mergeWizardConfig(newAppState.config, appState.config) });
     dispatchAppState({ type: 'SET_PARENTS', payload: newAppState.parents });
     if (newAppState.holidays) {
-      dispatchAppState({ type: 'SET_HOLIDAYS', payload: newAppState.holidays });
+      // Keep summer vacation picks already recorded outside the wizard
+      dispatchAppState({
+        type: 'SET_HOLIDAYS',
+        payload: { ...newAppState.holidays, summerSelections: appState.holidays?.summerSelections },
+      });
     }
     if (newAppState.familyInfo) {
       dispatchAppState({ type: 'SET_FAMILY_INFO', payload: newAppState.familyInfo });
@@ -377,6 +719,14 @@ function AppContent() {
     console.log('Wizard finished with AppState:', newAppState);
   };
 
+  const handleCreateScenario = useCallback(() => {
+    createScenario(getNextDraftName(scenarios));
+  }, [createScenario, scenarios]);
+
+  const handleScenarioComparisonClose = useCallback(() => {
+    setShowScenarioComparison(false);
+  }, []);
+
   const handleWizardClose = () => {
     reset();
     setShowWizard(false);
@@ -398,6 +748,17 @@ function AppContent() {
         onExportClick={handleExportClick}
         onNewScheduleClick={handleNewScheduleClick}
         onResetClick={handleResetClick}
+        onSavePlanClick={handleSavePlanClick}
+        onOpenPlanClick={handleOpenPlanClick}
+      />
+      <input
+        ref={planFileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handlePlanFileChange}
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
       />
 
       {/* Wizard modal overlay */}
@@ -405,6 +766,7 @@ function AppContent() {
         isOpen={showWizard}
         onClose={handleWizardClose}
         onFinish={handleWizardFinish}
+        appState={appState}
       />
 
       {/* Document preview modal overlay */}
@@ -414,8 +776,106 @@ function AppContent() {
         appState={appState}
       />
 
+      {/* Scenario comparison modal overlay */}
+      <ScenarioComparisonModal
+        isOpen={showScenarioComparison}
+        onClose={handleScenarioComparisonClose}
+        scenarios={scenarios}
+        activeScenarioId={activeScenarioId}
+        year={currentMonth.getFullYear()}
+        parentAName={appState.parents.parentA.name}
+        parentBName={appState.parents.parentB.name}
+      />
+
       {/* Main content area */}
       <Container>
+        {/* Saved plan that could not be restored */}
+        {showRestoreNotice && restoreErrors.length > 0 && (
+          <div className="mb-6 flex items-start gap-3 rounded-xl bg-amber-50 p-4 text-sm text-amber-800 shadow-md" role="alert">
+            <AlertCircle className="mt-0.5 h-5 w-5 flex-shrink-0" aria-hidden="true" />
+            <div className="flex-1">
+              <p className="font-semibold">
+                Your saved plan could not be loaded, so a new plan was started. A copy of the saved plan has been kept.
+              </p>
+              <ul className="mt-1 list-disc space-y-0.5 pl-5">
+                {restoreErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={handleDownloadUnrestoredPlan}
+                className="mt-2 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-sm font-medium text-amber-800 hover:bg-amber-100 focus:outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                Download saved copy
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowRestoreNotice(false)}
+              className="rounded-md p-1 hover:bg-amber-100 focus:outline-none focus:ring-2 focus:ring-amber-500"
+              aria-label="Dismiss saved plan notice"
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </button>
+          </div>
+        )}
+
+        {/* Saved scenarios that could not be restored */}
+        {showScenarioRestoreNotice && scenarioRestoreErrors.length > 0 && (
+          <div className="mb-6 flex items-start gap-3 rounded-xl bg-amber-50 p-4 text-sm text-amber-800 shadow-md" role="alert">
+            <AlertCircle className="mt-0.5 h-5 w-5 flex-shrink-0" aria-hidden="true" />
+            <div className="flex-1">
+              <p className="font-semibold">
+                Some saved scenarios could not be loaded and were removed. A copy of them has been kept.
+              </p>
+              <ul className="mt-1 list-disc space-y-0.5 pl-5">
+                {scenarioRestoreErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={handleDownloadUnrestoredScenarios}
+                className="mt-2 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-sm font-medium text-amber-800 hover:bg-amber-100 focus:outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                Download saved copy
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowScenarioRestoreNotice(false)}
+              className="rounded-md p-1 hover:bg-amber-100 focus:outline-none focus:ring-2 focus:ring-amber-500"
+              aria-label="Dismiss saved scenarios notice"
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </button>
+          </div>
+        )}
+
+        {/* Plan file import errors */}
+        {planImportErrors && (
+          <div className="mb-6 flex items-start gap-3 rounded-xl bg-red-50 p-4 text-sm text-red-700 shadow-md" role="alert">
+            <AlertCircle className="mt-0.5 h-5 w-5 flex-shrink-0" aria-hidden="true" />
+            <div className="flex-1">
+              <p className="font-semibold">The plan file could not be opened. Your current plan has not changed.</p>
+              <ul className="mt-1 list-disc space-y-0.5 pl-5">
+                {planImportErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              type="button"
+              onClick={() => setPlanImportErrors(null)}
+              className="rounded-md p-1 hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-500"
+              aria-label="Dismiss import errors"
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </button>
+          </div>
+        )}
+
         {/* Current schedule info - using AppState */}
         {!showWizard && (
           <section aria-labelledby="schedule-info-heading" className="mb-6 rounded-xl bg-white p-4 shadow-md">
@@ -463,17 +923,24 @@ function AppContent() {
                   parentAName={appState.parents.parentA.name}
                   parentBName={appState.parents.parentB.name}
                   holidays={appState.holidays}
+                  scheduleExceptions={appState.scheduleExceptions}
+                  thirdPartyBlocks={appState.thirdPartyBlocks}
+                  inServiceDays={appState.inServiceDays}
+                  inServiceConfig={appState.inServiceConfig}
+                  trackBreaks={appState.trackBreaks}
+                  schoolType={appState.schoolType}
                 />
               </div>
             </div>
           </div>
 
           {/* Stats panel - takes 1/3 on desktop - reads from AppState */}
-          <div className="sticky top-6 lg:col-span-1">
+          <div className="sticky top-6 space-y-6 lg:col-span-1">
             <StatsPanel
               stats={{
                 parentA: yearlyStats.parentA,
                 parentB: yearlyStats.parentB,
+                method: yearlyStats.method,
               }}
               parentA={{
                 name: appState.parents.parentA.name,
@@ -486,6 +953,84 @@ function AppContent() {
               monthlyData={yearlyStats.monthlyBreakdown}
               parentAColor={COLOR_OPTIONS.find(opt => opt.value === appState.parents.parentA.colorClass)?.preview || '#3b82f6'}
               parentBColor={COLOR_OPTIONS.find(opt => opt.value === appState.parents.parentB.colorClass)?.preview || '#ec4899'}
+              calculationMode={appConfig.calculationMode}
+              onCalculationModeChange={handleCalculationModeChange}
+              overnightCutoffTime={appConfig.overnightCutoffTime}
+              weightedVisitRuleId={appConfig.weightedVisitRuleId}
+              onOvernightSettingsChange={handleOvernightSettingsChange}
+              deductThirdPartyTime={appConfig.deductThirdPartyTime}
+              onDeductThirdPartyTimeChange={handleDeductThirdPartyTimeChange}
+            />
+
+            <PlanProjectionPanel
+              projection={planProjection}
+              startDate={activeProjectionRange?.startDate ?? ''}
+              endDate={activeProjectionRange?.endDate ?? ''}
+              onRangeChange={setProjectionRange}
+              onResetToPlan={projectionRange && planRange ? () => setProjectionRange(null) : undefined}
+              onCalculate={canProject ? handleCalculateProjection : undefined}
+              parentAName={appState.parents.parentA.name}
+              parentBName={appState.parents.parentB.name}
+              calculationMode={appConfig.calculationMode}
+            />
+
+            <ScenarioPanel
+              scenarios={scenarios}
+              activeScenarioId={activeScenarioId}
+              onCreate={handleCreateScenario}
+              onDuplicate={duplicateScenario}
+              onRename={renameScenario}
+              onDelete={deleteScenario}
+              onSwitch={switchScenario}
+              onCompare={() => setShowScenarioComparison(true)}
+            />
+
+            <CalendarExportPanel
+              defaultStartDate={`${currentMonth.getFullYear()}-01-01`}
+              defaultEndDate={`${currentMonth.getFullYear()}-12-31`}
+              parentAName={appState.parents.parentA.name}
+              parentBName={appState.parents.parentB.name}
+              onDownload={handleCalendarDownload}
+            />
+
+            {isSummerSelectionEnabled && (
+              <SummerSelectionPanel
+                year={summerYear}
+                config={appState.holidays?.summerVacationConfig ?? DEFAULT_SUMMER_VACATION_CONFIG}
+                picks={getSelectionForYear(appState.holidays?.summerSelections, summerYear)?.picks ?? []}
+                dateOverrides={appState.holidays?.holidayConfigs.find((c) => c.holidayId === 'summer-vacation')?.dateOverrides}
+                onPick={handleSummerPick}
+                onUndo={handleSummerUndo}
+                parentAName={appState.parents.parentA.name}
+                parentBName={appState.parents.parentB.name}
+                parentAColor={appState.parents.parentA.colorClass}
+                parentBColor={appState.parents.parentB.colorClass}
+              />
+            )}
+
+            <ScheduleExceptionsPanel
+              exceptions={appState.scheduleExceptions ?? []}
+              onAdd={handleAddException}
+              onRemove={handleRemoveException}
+              parentAName={appState.parents.parentA.name}
+              parentBName={appState.parents.parentB.name}
+              parentAColor={appState.parents.parentA.colorClass}
+              parentBColor={appState.parents.parentB.colorClass}
+            />
+
+            <ThirdPartyTimePanel
+              blocks={appState.thirdPartyBlocks ?? []}
+              onAdd={handleAddThirdPartyBlock}
+              onRemove={handleRemoveThirdPartyBlock}
+            />
+
+            <SchoolCalendarImportPanel onApply={handleApplySchoolCalendar} />
+
+            <ProvisionLibraryPanel
+              selected={appState.provisions ?? []}
+              onAdd={handleAddProvision}
+              onUpdate={handleUpdateProvision}
+              onRemove={handleRemoveProvision}
             />
           </div>
         </div>
@@ -497,9 +1042,11 @@ function AppContent() {
 function App() {
   return (
     <AppStateProvider>
-      <WizardProvider>
-        <AppContent />
-      </WizardProvider>
+      <ScenarioProvider>
+        <WizardProvider>
+          <AppContent />
+        </WizardProvider>
+      </ScenarioProvider>
     </AppStateProvider>
   );
 }
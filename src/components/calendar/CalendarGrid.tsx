@@ -1,7 +1,9 @@
 import { useMemo } from 'react';
-import { CalendarDay, ParentId, AppConfig, HolidayState } from '../../types';
+import { AlertTriangle } from 'lucide-react';
+import { CalendarDay, ParentId, AppConfig, HolidayState, ScheduleException, ThirdPartyBlock, InServiceDayConfig, TrackBreak, SchoolType } from '../../types';
 import { DayCell } from './DayCell';
 import { useCustodyEngine } from '../../hooks';
+import { detectCustodyConflicts, describeConflict, formatDateRange } from '../../utils/custodyConflicts';
 
 interface CalendarGridProps {
   /** The month to display. If not provided, uses the current month. */
@@ -19,6 +21,18 @@ interface CalendarGridProps {
   appConfig?: AppConfig;
   /** Holiday configuration for holiday override display */
   holidays?: HolidayState;
+  /** One-time schedule exceptions layered over the schedule */
+  scheduleExceptions?: ScheduleException[];
+  /** Recurring school or daycare time, drawn as hatching */
+  thirdPartyBlocks?: ThirdPartyBlock[];
+  /** School in-service days (YYYY-MM-DD) */
+  inServiceDays?: string[];
+  /** How in-service days attach to weekends */
+  inServiceConfig?: InServiceDayConfig;
+  /** Track breaks for year-round school */
+  trackBreaks?: TrackBreak[];
+  /** Traditional or year-round school */
+  schoolType?: SchoolType;
 }
 
 const DAY_HEADERS_SUNDAY_START = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -91,6 +105,12 @@ export function CalendarGrid({
   parentBName = 'Parent B',
   appConfig,
   holidays,
+  scheduleExceptions,
+  thirdPartyBlocks,
+  inServiceDays,
+  inServiceConfig,
+  trackBreaks,
+  schoolType,
 }: CalendarGridProps) {
   // Memoize displayMonth to avoid recreating on every render
   const displayMonth = useMemo(() => currentMonth ?? new Date(), [currentMonth]);
@@ -105,7 +125,13 @@ export function CalendarGrid({
       startingParent: 'parentA',
       exchangeTime: '18:00',
     },
-    holidays
+    holidays,
+    inServiceDays,
+    inServiceConfig,
+    trackBreaks,
+    schoolType,
+    scheduleExceptions,
+    thirdPartyBlocks
   );
 
   // Calculate days using useMemo for performance
@@ -118,6 +144,45 @@ export function CalendarGrid({
     return generateMockDays(displayMonth, weekStartsOnMonday);
   }, [appConfig, getMonthDays, displayMonth, weekStartsOnMonday]);
 
+  // Overlapping rules across the visible grid, shown as warnings
+  const conflicts = useMemo(() => {
+    if (!appConfig || days.length === 0) return [];
+    return detectCustodyConflicts(
+      days[0].date,
+      days[days.length - 1].date,
+      appConfig,
+      holidays,
+      inServiceDays,
+      inServiceConfig,
+      trackBreaks,
+      schoolType,
+      scheduleExceptions
+    );
+  }, [appConfig, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, scheduleExceptions, days]);
+
+  const conflictWarningsByDate = useMemo(() => {
+    const parentNames = { parentA: parentAName, parentB: parentBName };
+    const byDate = new Map<string, string[]>();
+    for (const day of days) {
+      const warnings = conflicts
+        .filter((c) => day.date >= c.startDate && day.date <= c.endDate)
+        .map((c) => describeConflict(c, parentNames));
+      if (warnings.length > 0) {
+        byDate.set(day.date, warnings);
+      }
+    }
+    return byDate;
+  }, [conflicts, days, parentAName, parentBName]);
+
+  // Conflicts touching the displayed month
+  const monthConflicts = useMemo(() => {
+    const monthDates = days.filter((d) => d.isCurrentMonth).map((d) => d.date);
+    if (monthDates.length === 0) return [];
+    const first = monthDates[0];
+    const last = monthDates[monthDates.length - 1];
+    return conflicts.filter((c) => c.startDate <= last && c.endDate >= first);
+  }, [conflicts, days]);
+
   return (
     <div className="rounded-xl bg-white p-6 shadow-lg">
       {/* Month Title - shown when hideTitle is false */}
@@ -147,10 +212,29 @@ export function CalendarGrid({
             day={day}
             parentAColor={parentAColor}
             parentBColor={parentBColor}
+            conflictWarnings={conflictWarningsByDate.get(day.date)}
           />
         ))}
       </div>
 
+      {/* Conflict warnings for the displayed month */}
+      {monthConflicts.length > 0 && (
+        <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3" role="status">
+          <div className="flex items-center gap-2 text-sm font-medium text-amber-700">
+            <AlertTriangle className="h-4 w-4 text-amber-500" aria-hidden="true" />
+            {monthConflicts.length === 1 ? '1 schedule conflict' : `${monthConflicts.length} schedule conflicts`} this month
+          </div>
+          <ul className="mt-2 space-y-1 text-sm text-amber-700">
+            {monthConflicts.map((conflict) => (
+              <li key={`${conflict.startDate}-${conflict.winner.layer}-${conflict.loser.layer}-${conflict.loser.label}`}>
+                {formatDateRange(conflict.startDate, conflict.endDate)}:{' '}
+                {describeConflict(conflict, { parentA: parentAName, parentB: parentBName })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Legend */}
       <div className="mt-6 flex items-center justify-center gap-6 border-t border-gray-100 pt-4">
         <div className="flex items-center gap-2">
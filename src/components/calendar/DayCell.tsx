@@ -1,18 +1,35 @@
 import clsx from 'clsx';
-import { Star, BookOpen, Umbrella } from 'lucide-react';
+import { Star, BookOpen, Umbrella, Gift, Sun, ArrowLeftRight, AlertTriangle } from 'lucide-react';
 import type { CalendarDay } from '../../types';
 
 interface DayCellProps {
   day: CalendarDay;
   parentAColor: string;
   parentBColor: string;
+  /** Descriptions of rules that overlap on this day with different owners */
+  conflictWarnings?: string[];
 }
 
-export function DayCell({ day, parentAColor, parentBColor }: DayCellProps) {
+/**
+ * Diagonal grey stripes drawn over days with third-party time.
+ */
+const THIRD_PARTY_HATCH =
+  'repeating-linear-gradient(135deg, rgba(75, 85, 99, 0.35) 0, rgba(75, 85, 99, 0.35) 2px, transparent 2px, transparent 7px)';
+
+export function DayCell({ day, parentAColor, parentBColor, conflictWarnings }: DayCellProps) {
   const backgroundColor = day.owner === 'parentA' ? parentAColor : parentBColor;
 
   // Build tooltip text
   const tooltipParts: string[] = [];
+  if (day.isException) {
+    tooltipParts.push(day.exceptionReason ? `Exception: ${day.exceptionReason}` : 'Exception');
+  }
+  if (day.isSummerVacation) {
+    tooltipParts.push('Summer Vacation (picked week)');
+  }
+  if (day.birthdayName) {
+    tooltipParts.push(day.birthdayName);
+  }
   if (day.holidayName) {
     tooltipParts.push(day.holidayName);
   }
@@ -30,6 +47,12 @@ export function DayCell({ day, parentAColor, parentBColor }: DayCellProps) {
       tooltipParts.push(day.trackBreakName);
     }
   }
+  if (day.thirdPartyLabel) {
+    tooltipParts.push(day.thirdPartyLabel);
+  }
+  for (const warning of conflictWarnings ?? []) {
+    tooltipParts.push(`Conflict: ${warning}`);
+  }
   const tooltipText = tooltipParts.length > 0 ? tooltipParts.join(' • ') : undefined;
 
   return (
@@ -46,10 +69,44 @@ export function DayCell({ day, parentAColor, parentBColor }: DayCellProps) {
           'border-2 border-dashed border-white/60': day.isTrackBreak && !day.isTrackBreakVacationClaimed,
           // Track break with vacation claimed: solid thick border
           'border-2 border-solid border-white': day.isTrackBreak && day.isTrackBreakVacationClaimed,
+          // Schedule exception: dotted outline
+          'outline outline-2 outline-dotted outline-white -outline-offset-4': day.isException,
         }
       )}
       title={tooltipText}
     >
+      {/* Third-party time (school, daycare): grey hatching over the parent's color */}
+      {day.thirdPartyLabel && (
+        <div
+          className="pointer-events-none absolute inset-0 rounded-lg"
+          style={{ backgroundImage: THIRD_PARTY_HATCH }}
+          role="img"
+          aria-label={day.thirdPartyLabel}
+        />
+      )}
+
+      {/* Schedule exception indicator (top center) */}
+      {day.isException && (
+        <div
+          className="absolute top-0.5 left-1/2 -translate-x-1/2"
+          role="img"
+          aria-label={day.exceptionReason ? `Exception: ${day.exceptionReason}` : 'Exception'}
+        >
+          <ArrowLeftRight className="h-3 w-3 text-white" aria-hidden="true" />
+        </div>
+      )}
+
+      {/* Conflict warning indicator (bottom center) */}
+      {conflictWarnings && conflictWarnings.length > 0 && (
+        <div
+          className="absolute bottom-0.5 left-1/2 -translate-x-1/2"
+          role="img"
+          aria-label={`Conflict: ${conflictWarnings.join('; ')}`}
+        >
+          <AlertTriangle className="h-3 w-3 text-amber-300 fill-amber-500" aria-hidden="true" />
+        </div>
+      )}
+
       {/* Holiday indicator (top right) */}
       {day.isHolidayOverride && (
         <div className="absolute top-0.5 right-0.5">
@@ -57,6 +114,32 @@ export function DayCell({ day, parentAColor, parentBColor }: DayCellProps) {
         </div>
       )}
 
+      {/* Summer vacation pick indicator (top right, holidays don't override picks) */}
+      {day.isSummerVacation && (
+        <div className="absolute top-0.5 right-0.5" role="img" aria-label="Summer Vacation (picked week)">
+          <Sun className="h-3 w-3 text-yellow-300 fill-yellow-300" aria-hidden="true" />
+        </div>
+      )}
+
+      {/* Birthday indicator (bottom left) */}
+      {day.birthdayName && (
+        <div
+          className="absolute bottom-0.5 left-0.5"
+          role="img"
+          aria-label={day.birthdayName}
+        >
+          <Gift
+            className={clsx(
+              'h-3 w-3',
+              day.isBirthdayOverride
+                ? 'text-yellow-300'
+                : 'text-white/70'
+            )}
+            aria-hidden="true"
+          />
+        </div>
+      )}
+
       {/* In-Service day indicator (top left) */}
       {day.isInServiceDay && (
         <div 
@@ -97,7 +180,7 @@ export function DayCell({ day, parentAColor, parentBColor }: DayCellProps) {
       
       <span
         className={clsx(
-          'text-base font-semibold text-white drop-shadow-sm',
+          'relative text-base font-semibold text-white drop-shadow-sm',
           {
             'text-lg font-bold': day.isToday,
           }
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import clsx from 'clsx';
+import { ArrowLeftRight, Trash2, AlertCircle } from 'lucide-react';
+import type { ParentId, ScheduleException } from '../../types';
+import { validateScheduleException, sortScheduleExceptions } from '../../utils/scheduleExceptions';
+
+export interface ScheduleExceptionsPanelProps {
+  /** Recorded exceptions */
+  exceptions: ScheduleException[];
+  /** Callback when a new exception is added */
+  onAdd: (exception: ScheduleException) => void;
+  /** Callback to remove an exception by ID */
+  onRemove: (id: string) => void;
+  /** Name of Parent A for display */
+  parentAName?: string;
+  /** Name of Parent B for display */
+  parentBName?: string;
+  /** Color class for Parent A */
+  parentAColor?: string;
+  /** Color class for Parent B */
+  parentBColor?: string;
+}
+
+/**
+ * Format a date string for display (e.g., "Nov 27, 2025").
+ */
+function formatShortDate(dateStr: string): string {
+  const date = new Date(dateStr + 'T00:00:00');
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+const INPUT_CLASS =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Panel for recording one-time schedule exceptions and swaps.
+ * Each exception gives a date range to one parent, with the reason for the change.
+ */
+export function ScheduleExceptionsPanel({
+  exceptions,
+  onAdd,
+  onRemove,
+  parentAName = 'Parent A',
+  parentBName = 'Parent B',
+  parentAColor = 'bg-blue-500',
+  parentBColor = 'bg-pink-500',
+}: ScheduleExceptionsPanelProps) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [parent, setParent] = useState<ParentId>('parentA');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const nameOf = (id: ParentId) => (id === 'parentA' ? parentAName : parentBName);
+  const colorOf = (id: ParentId) => (id === 'parentA' ? parentAColor : parentBColor);
+
+  const handleAdd = () => {
+    const exception: ScheduleException = {
+      id: `exception-${Date.now()}`,
+      startDate,
+      endDate: endDate || startDate,
+      parent,
+      reason: reason.trim(),
+    };
+    const result = validateScheduleException(exception);
+    if (!result.valid) {
+      setError(result.reason ?? 'This exception is not valid');
+      return;
+    }
+    setError(null);
+    onAdd(exception);
+    setStartDate('');
+    setEndDate('');
+    setReason('');
+  };
+
+  return (
+    <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
+      <div className="border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white px-6 py-4">
+        <h2 id="schedule-exceptions-heading" className="flex items-center gap-2 text-lg font-bold text-gray-900">
+          <ArrowLeftRight className="h-5 w-5 text-purple-500" aria-hidden="true" />
+          Exceptions &amp; Swaps
+        </h2>
+        <p className="text-sm text-gray-500">One-time changes that override the schedule</p>
+      </div>
+
+      <div className="space-y-4 p-6" role="region" aria-labelledby="schedule-exceptions-heading">
+        {/* New exception form */}
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs font-medium text-gray-600">
+            From
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            To
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="col-span-2 text-xs font-medium text-gray-600">
+            Goes to
+            <select
+              value={parent}
+              onChange={(e) => setParent(e.target.value as ParentId)}
+              className={INPUT_CLASS}
+            >
+              <option value="parentA">{parentAName}</option>
+              <option value="parentB">{parentBName}</option>
+            </select>
+          </label>
+          <label className="col-span-2 text-xs font-medium text-gray-600">
+            Reason
+            <input
+              type="text"
+              value={reason}
+              placeholder="e.g., Swapped weekend for a family wedding"
+              onChange={(e) => setReason(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700" role="alert">
+            <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" aria-hidden="true" />
+            {error}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="w-full rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        >
+          Add Exception
+        </button>
+
+        {/* Recorded exceptions */}
+        {exceptions.length > 0 && (
+          <ul className="space-y-2">
+            {sortScheduleExceptions(exceptions).map((exception) => (
+              <li key={exception.id} className="flex items-start justify-between gap-2 rounded-lg bg-gray-50 p-3 text-sm">
+                <div>
+                  <p className="text-gray-900">
+                    {formatShortDate(exception.startDate)}
+                    {exception.endDate !== exception.startDate && ` – ${formatShortDate(exception.endDate)}`}{' '}
+                    <span
+                      className={clsx(
+                        'ml-1 rounded-full px-2 py-0.5 text-xs font-medium text-white',
+                        colorOf(exception.parent)
+                      )}
+                    >
+                      {nameOf(exception.parent)}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">{exception.reason}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onRemove(exception.id)}
+                  className="rounded-md p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Remove exception: ${exception.reason}`}
+                >
+                  <Trash2 className="h-4 w-4" aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
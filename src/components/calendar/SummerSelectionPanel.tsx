@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { Sun, Undo2, AlertCircle } from 'lucide-react';
+import type { ParentId } from '../../types';
+import type { HolidayDateOverride, SelectionPriorityConfig, SummerVacationPick } from '../../types/holidays';
+import { getTodayDateString } from '../../hooks/useCustodyEngine';
+import {
+  getSummerWeeks,
+  getNextPicker,
+  getPickEndDate,
+  getSelectionDeadlineDate,
+  canPickSummerWeeks,
+} from '../../utils/summerSelection';
+
+export interface SummerSelectionPanelProps {
+  /** Summer year being selected */
+  year: number;
+  /** Summer vacation selection rules */
+  config: SelectionPriorityConfig;
+  /** Picks already made this year, in order */
+  picks: SummerVacationPick[];
+  /** Per-year Summer Vacation dates, when the district's summer moves */
+  dateOverrides?: HolidayDateOverride[];
+  /** Callback when the current picker picks a block */
+  onPick: (pick: SummerVacationPick) => void;
+  /** Callback to undo the most recent pick */
+  onUndo: () => void;
+  /** Name of Parent A for display */
+  parentAName?: string;
+  /** Name of Parent B for display */
+  parentBName?: string;
+  /** Color class for Parent A */
+  parentAColor?: string;
+  /** Color class for Parent B */
+  parentBColor?: string;
+}
+
+/**
+ * Format a date string for display (e.g., "Jun 1").
+ */
+function formatShortDate(dateStr: string): string {
+  const date = new Date(dateStr + 'T00:00:00');
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Panel for recording summer vacation week picks in draft order.
+ * Shows whose turn it is, lets that parent pick a block of weeks and
+ * validates the pick order, remaining weeks, consecutive-week limit and deadline.
+ */
+export function SummerSelectionPanel({
+  year,
+  config,
+  picks,
+  dateOverrides,
+  onPick,
+  onUndo,
+  parentAName = 'Parent A',
+  parentBName = 'Parent B',
+  parentAColor = 'bg-blue-500',
+  parentBColor = 'bg-pink-500',
+}: SummerSelectionPanelProps) {
+  const [blockWeeks, setBlockWeeks] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  const weeks = useMemo(() => getSummerWeeks(year, dateOverrides), [year, dateOverrides]);
+  const nextPicker = getNextPicker(config, picks, year);
+  const deadline = getSelectionDeadlineDate(config.selectionDeadline, year);
+
+  const parentNames = useMemo(
+    () => ({ parentA: parentAName, parentB: parentBName }),
+    [parentAName, parentBName]
+  );
+  const nameOf = (parent: ParentId) => (parent === 'parentA' ? parentAName : parentBName);
+  const colorOf = (parent: ParentId) => (parent === 'parentA' ? parentAColor : parentBColor);
+
+  const maxBlockWeeks = Math.max(1, config.maxConsecutiveWeeks ?? config.weeksPerParent);
+
+  const getPickForWeek = (startDate: string) =>
+    picks.find((p) => startDate >= p.startDate && startDate <= getPickEndDate(p));
+
+  const handlePick = (startDate: string) => {
+    if (!nextPicker) return;
+    const pick: SummerVacationPick = {
+      parent: nextPicker,
+      startDate,
+      weeks: blockWeeks,
+      pickedOn: getTodayDateString(),
+    };
+    const result = canPickSummerWeeks(pick, picks, config, year, parentNames, dateOverrides);
+    if (!result.valid) {
+      setError(result.reason ?? 'This pick is not allowed');
+      return;
+    }
+    setError(null);
+    onPick(pick);
+  };
+
+  const handleUndo = () => {
+    setError(null);
+    onUndo();
+  };
+
+  return (
+    <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
+      <div className="border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 id="summer-selection-heading" className="flex items-center gap-2 text-lg font-bold text-gray-900">
+              <Sun className="h-5 w-5 text-yellow-500" aria-hidden="true" />
+              Summer Vacation {year}
+            </h2>
+            <p className="text-sm text-gray-500">
+              {deadline ? `Picks due by ${formatShortDate(deadline)}` : `Picks due by ${config.selectionDeadline}`}
+            </p>
+          </div>
+          {picks.length > 0 && (
+            <button
+              type="button"
+              onClick={handleUndo}
+              className="inline-flex items-center gap-1 rounded-lg bg-gray-100 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <Undo2 className="h-4 w-4" aria-hidden="true" />
+              Undo
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4 p-6" role="region" aria-labelledby="summer-selection-heading">
+        {/* Turn indicator and block length */}
+        {nextPicker ? (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-gray-50 p-3">
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold">{nameOf(nextPicker)}</span>&apos;s turn to pick
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Weeks
+              <select
+                value={blockWeeks}
+                onChange={(e) => setBlockWeeks(parseInt(e.target.value, 10))}
+                className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {Array.from({ length: maxBlockWeeks }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        ) : (
+          <p className="rounded-lg bg-green-50 p-3 text-sm text-green-700">
+            All summer vacation picks have been made.
+          </p>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700" role="alert">
+            <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" aria-hidden="true" />
+            {error}
+          </div>
+        )}
+
+        {/* Week list */}
+        <ul className="space-y-1">
+          {weeks.map((week) => {
+            const pick = getPickForWeek(week.startDate);
+            return (
+              <li key={week.startDate} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-gray-700">
+                  Week {week.index + 1}: {formatShortDate(week.startDate)} – {formatShortDate(week.endDate)}
+                </span>
+                {pick ? (
+                  <span
+                    className={clsx(
+                      'rounded-full px-2 py-0.5 text-xs font-medium text-white',
+                      colorOf(pick.parent)
+                    )}
+                  >
+                    {nameOf(pick.parent)}
+                  </span>
+                ) : (
+                  nextPicker && (
+                    <button
+                      type="button"
+                      onClick={() => handlePick(week.startDate)}
+                      className="rounded-md px-2 py-0.5 text-xs font-medium text-blue-600 hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      aria-label={`Pick ${blockWeeks} week${blockWeeks === 1 ? '' : 's'} starting ${formatShortDate(week.startDate)} for ${nameOf(nextPicker)}`}
+                    >
+                      Pick
+                    </button>
+                  )
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import clsx from 'clsx';
+import { School, Trash2, AlertCircle } from 'lucide-react';
+import type { ThirdPartyBlock } from '../../types';
+import { validateThirdPartyBlock, formatWeekdays, WEEKDAY_NAMES } from '../../utils/thirdPartyTime';
+import { getThirdPartyLabel } from '../../hooks';
+
+export interface ThirdPartyTimePanelProps {
+  /** Recorded third-party blocks */
+  blocks: ThirdPartyBlock[];
+  /** Callback when a new block is added */
+  onAdd: (block: ThirdPartyBlock) => void;
+  /** Callback to remove a block by ID */
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Format a date string for display (e.g., "Aug 11, 2025").
+ */
+function formatShortDate(dateStr: string): string {
+  const date = new Date(dateStr + 'T00:00:00');
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+const INPUT_CLASS =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/** Monday through Friday */
+const SCHOOL_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Panel for recording recurring third-party time such as school or daycare.
+ * Blocks do not change custody; they are shown hatched on the calendar and
+ * can be deducted from duration stats.
+ */
+export function ThirdPartyTimePanel({ blocks, onAdd, onRemove }: ThirdPartyTimePanelProps) {
+  const [label, setLabel] = useState('School');
+  const [weekdays, setWeekdays] = useState<number[]>(SCHOOL_DAYS);
+  const [startTime, setStartTime] = useState('08:00');
+  const [endTime, setEndTime] = useState('15:00');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [followsSchoolCalendar, setFollowsSchoolCalendar] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)));
+  };
+
+  const handleAdd = () => {
+    const block: ThirdPartyBlock = {
+      id: `third-party-${Date.now()}`,
+      label: label.trim(),
+      weekdays,
+      startTime,
+      endTime,
+      ...(startDate && { startDate }),
+      ...(endDate && { endDate }),
+      followsSchoolCalendar,
+    };
+    const result = validateThirdPartyBlock(block);
+    if (!result.valid) {
+      setError(result.reason ?? 'This block is not valid');
+      return;
+    }
+    setError(null);
+    onAdd(block);
+  };
+
+  return (
+    <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
+      <div className="border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white px-6 py-4">
+        <h2 id="third-party-time-heading" className="flex items-center gap-2 text-lg font-bold text-gray-900">
+          <School className="h-5 w-5 text-gray-500" aria-hidden="true" />
+          School &amp; Daycare
+        </h2>
+        <p className="text-sm text-gray-500">Third-party time that does not change custody</p>
+      </div>
+
+      <div className="space-y-4 p-6" role="region" aria-labelledby="third-party-time-heading">
+        {/* New block form */}
+        <div className="grid grid-cols-2 gap-3">
+          <label className="col-span-2 text-xs font-medium text-gray-600">
+            Label
+            <input
+              type="text"
+              value={label}
+              placeholder="e.g., School or Daycare"
+              onChange={(e) => setLabel(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <fieldset className="col-span-2">
+            <legend className="text-xs font-medium text-gray-600">Days</legend>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {WEEKDAY_NAMES.map((name, day) => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  aria-pressed={weekdays.includes(day)}
+                  className={clsx(
+                    'rounded-md px-2 py-1 text-xs font-medium focus:outline-none focus:ring-2 focus:ring-blue-500',
+                    weekdays.includes(day) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  )}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+          <label className="text-xs font-medium text-gray-600">
+            From
+            <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={INPUT_CLASS} />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Until
+            <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={INPUT_CLASS} />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            First day (optional)
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={INPUT_CLASS} />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Last day (optional)
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="col-span-2 flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={followsSchoolCalendar}
+              onChange={(e) => setFollowsSchoolCalendar(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Skip in-service days and track breaks
+          </label>
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700" role="alert">
+            <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" aria-hidden="true" />
+            {error}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="w-full rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        >
+          Add Block
+        </button>
+
+        {/* Recorded blocks */}
+        {blocks.length > 0 && (
+          <ul className="space-y-2">
+            {blocks.map((block) => (
+              <li key={block.id} className="flex items-start justify-between gap-2 rounded-lg bg-gray-50 p-3 text-sm">
+                <div>
+                  <p className="text-gray-900">
+                    {formatWeekdays(block.weekdays)} · {getThirdPartyLabel([block])}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {block.startDate || block.endDate
+                      ? `${block.startDate ? formatShortDate(block.startDate) : 'Any time'} – ${block.endDate ? formatShortDate(block.endDate) : 'ongoing'}`
+                      : 'Every week'}
+                    {block.followsSchoolCalendar && ' · skips in-service days and track breaks'}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onRemove(block.id)}
+                  className="rounded-md p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Remove ${block.label}`}
+                >
+                  <Trash2 className="h-4 w-4" aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -58,4 +58,10 @@ describe('DayCell', () => {
     expect(mockParentADay.dayOfMonth).toBe(15);
     expect(mockPreviousMonthDay.dayOfMonth).toBe(31);
   });
+
+  test('CalendarDay carries third-party time for the hatched overlay', () => {
+    const schoolDay: CalendarDay = { ...mockParentADay, thirdPartyLabel: 'School 8:00 AM – 3:00 PM' };
+    expect(schoolDay.thirdPartyLabel).toBe('School 8:00 AM – 3:00 PM');
+    expect(mockParentADay.thirdPartyLabel).toBeUndefined();
+  });
 });
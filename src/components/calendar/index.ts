@@ -3,3 +3,9 @@ export { DayCell } from './DayCell';
 export { MonthNavigation } from './MonthNavigation';
 export type { MonthNavigationProps } from './MonthNavigation';
 export { TrackBreakClaimModal } from './TrackBreakClaimModal';
+export { SummerSelectionPanel } from './SummerSelectionPanel';
+export type { SummerSelectionPanelProps } from './SummerSelectionPanel';
+export { ScheduleExceptionsPanel } from './ScheduleExceptionsPanel';
+export type { ScheduleExceptionsPanelProps } from './ScheduleExceptionsPanel';
+export { ThirdPartyTimePanel } from './ThirdPartyTimePanel';
+export type { ThirdPartyTimePanelProps } from './ThirdPartyTimePanel';
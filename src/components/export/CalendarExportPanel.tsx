@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { CalendarPlus, Download } from 'lucide-react';
+import type { ParentId } from '../../types';
+
+/**
+ * Range and parent filter chosen for a calendar export.
+ */
+export interface CalendarExportRequest {
+  /** First date to export (YYYY-MM-DD) */
+  startDate: string;
+  /** Last date to export (YYYY-MM-DD) */
+  endDate: string;
+  /** Only export this parent's time; both parents when omitted */
+  parent?: ParentId;
+}
+
+export interface CalendarExportPanelProps {
+  /** Initial first date of the export range (YYYY-MM-DD) */
+  defaultStartDate: string;
+  /** Initial last date of the export range (YYYY-MM-DD) */
+  defaultEndDate: string;
+  /** Name of Parent A for display */
+  parentAName: string;
+  /** Name of Parent B for display */
+  parentBName: string;
+  /** Callback to download the .ics file for the chosen range and parent */
+  onDownload: (request: CalendarExportRequest) => void;
+}
+
+const INPUT_CLASS =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Panel for downloading the custody schedule as an iCalendar (.ics) file,
+ * for a chosen date range and optionally one parent's time only.
+ */
+export function CalendarExportPanel({
+  defaultStartDate,
+  defaultEndDate,
+  parentAName,
+  parentBName,
+  onDownload,
+}: CalendarExportPanelProps) {
+  const [startDate, setStartDate] = useState(defaultStartDate);
+  const [endDate, setEndDate] = useState(defaultEndDate);
+  const [parent, setParent] = useState<ParentId | 'both'>('both');
+
+  const isRangeValid = Boolean(startDate && endDate && startDate <= endDate);
+
+  return (
+    <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
+      <div className="border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white px-6 py-4">
+        <h2 id="calendar-export-heading" className="flex items-center gap-2 text-lg font-bold text-gray-900">
+          <CalendarPlus className="h-5 w-5 text-emerald-500" aria-hidden="true" />
+          Calendar Export
+        </h2>
+        <p className="text-sm text-gray-500">Add the schedule to a phone calendar</p>
+      </div>
+
+      <div className="space-y-4 p-6" role="region" aria-labelledby="calendar-export-heading">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs font-medium text-gray-600">
+            From
+            <input
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            To
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        <label className="block text-xs font-medium text-gray-600">
+          Include
+          <select
+            value={parent}
+            onChange={(e) => setParent(e.target.value as ParentId | 'both')}
+            className={INPUT_CLASS}
+          >
+            <option value="both">Both parents</option>
+            <option value="parentA">{parentAName}&apos;s time only</option>
+            <option value="parentB">{parentBName}&apos;s time only</option>
+          </select>
+        </label>
+
+        <button
+          type="button"
+          onClick={() => onDownload({ startDate, endDate, parent: parent === 'both' ? undefined : parent })}
+          disabled={!isRangeValid}
+          className="inline-flex w-full items-center justify-center gap-2 rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" aria-hidden="true" />
+          Download .ics
+        </button>
+      </div>
+    </div>
+  );
+}
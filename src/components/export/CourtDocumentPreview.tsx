@@ -1,14 +1,20 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { Printer, Copy, X, Check } from 'lucide-react';
+import { Printer, Copy, X, Check, FileDown, FileText } from 'lucide-react';
 import clsx from 'clsx';
 import type { AppState } from '../../types';
 import {
   generateCourtDocument,
   generatePlainText,
+  getDocumentSignatories,
   type CourtDocument,
   type CourtDocumentSection,
   type TableData,
 } from '../../utils/courtDocumentGenerator';
+import { generateDocx, getDocxFileName, DOCX_MIME_TYPE } from '../../utils/docxExport';
+import { generatePlanPdf, getPdfFileName } from '../../utils/pdfExport';
+import { downloadFile } from '../../utils/download';
+import { getTodayDateString } from '../../hooks/useCustodyEngine';
+import { COLOR_OPTIONS } from '../shared/colorOptions';
 
 export interface CourtDocumentPreviewProps {
   /** Application state used to generate the document */
@@ -19,6 +25,17 @@ export interface CourtDocumentPreviewProps {
   onPrint?: () => void;
   /** Callback when copy text button is clicked */
   onCopyText?: () => void;
+  /** Callback when the Word download button is clicked */
+  onDownloadDocx?: () => void;
+  /** Callback when the PDF download button is clicked */
+  onDownloadPdf?: () => void;
+}
+
+/**
+ * Get the hex color for a parent's Tailwind color class, for the PDF calendar.
+ */
+function getPreviewColor(colorClass: string, fallback: string): string {
+  return COLOR_OPTIONS.find((option) => option.value === colorClass)?.preview || fallback;
 }
 
 /**
@@ -119,7 +136,7 @@ function Footnotes({ footnotes }: { footnotes: string[] }) {
  * Court Document Preview Component
  *
  * Renders a preview of the court document with court-style formatting.
- * Provides toolbar buttons for printing, copying text, and closing.
+ * Provides toolbar buttons for printing, downloading a Word file, copying text, and closing.
  *
  * Features:
  * - Centered header with court name
@@ -134,6 +151,8 @@ export function CourtDocumentPreview({
   onClose,
   onPrint,
   onCopyText,
+  onDownloadDocx,
+  onDownloadPdf,
 }: CourtDocumentPreviewProps) {
   const [copySuccess, setCopySuccess] = useState(false);
   const copyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -166,6 +185,27 @@ export function CourtDocumentPreview({
     window.print();
   }, [onPrint]);
 
+  const handleDownloadDocx = useCallback(() => {
+    if (onDownloadDocx) {
+      onDownloadDocx();
+    }
+    const bytes = generateDocx(courtDocument, { signatories: getDocumentSignatories(appState) });
+    downloadFile(bytes, getDocxFileName(courtDocument.title, getTodayDateString()), DOCX_MIME_TYPE);
+  }, [courtDocument, appState, onDownloadDocx]);
+
+  const handleDownloadPdf = useCallback(() => {
+    if (onDownloadPdf) {
+      onDownloadPdf();
+    }
+    const bytes = generatePlanPdf(appState, {
+      parentColors: {
+        parentA: getPreviewColor(appState.parents.parentA.colorClass, '#3b82f6'),
+        parentB: getPreviewColor(appState.parents.parentB.colorClass, '#ec4899'),
+      },
+    });
+    downloadFile(bytes, getPdfFileName(courtDocument.title, getTodayDateString()), 'application/pdf');
+  }, [courtDocument, appState, onDownloadPdf]);
+
   const handleCopyText = useCallback(async () => {
     // Clear any existing timeout
     if (copyTimeoutRef.current) {
@@ -205,16 +245,40 @@ export function CourtDocumentPreview({
         <div className="flex items-center gap-2">
           <button
             type="button"
-            onClick={handlePrint}
+            onClick={handleDownloadPdf}
             className={clsx(
               'inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-semibold transition-all duration-150',
               'bg-blue-600 text-white hover:bg-blue-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600'
             )}
           >
-            <Printer className="h-4 w-4" />
+            <FileText className="h-4 w-4" />
             Download PDF
           </button>
 
+          <button
+            type="button"
+            onClick={handlePrint}
+            className={clsx(
+              'inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-semibold transition-all duration-150',
+              'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            )}
+          >
+            <Printer className="h-4 w-4" />
+            Print
+          </button>
+
+          <button
+            type="button"
+            onClick={handleDownloadDocx}
+            className={clsx(
+              'inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-semibold transition-all duration-150',
+              'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            )}
+          >
+            <FileDown className="h-4 w-4" />
+            Download Word
+          </button>
+
           <button
             type="button"
             onClick={handleCopyText}
@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'vitest';
+import type { CalendarExportPanelProps, CalendarExportRequest } from '../CalendarExportPanel';
+
+describe('CalendarExportPanel', () => {
+  test('props interface accepts a default range and parent names', () => {
+    const props: CalendarExportPanelProps = {
+      defaultStartDate: '2025-01-01',
+      defaultEndDate: '2025-12-31',
+      parentAName: 'Mom',
+      parentBName: 'Dad',
+      onDownload: () => {},
+    };
+    expect(props.defaultStartDate).toBe('2025-01-01');
+    expect(props.defaultEndDate).toBe('2025-12-31');
+  });
+
+  test('download requests carry the range and an optional parent filter', () => {
+    const requests: CalendarExportRequest[] = [];
+    const props: CalendarExportPanelProps = {
+      defaultStartDate: '2025-01-01',
+      defaultEndDate: '2025-12-31',
+      parentAName: 'Mom',
+      parentBName: 'Dad',
+      onDownload: (request) => requests.push(request),
+    };
+    props.onDownload({ startDate: '2025-01-01', endDate: '2025-06-30' });
+    props.onDownload({ startDate: '2025-01-01', endDate: '2025-06-30', parent: 'parentB' });
+    expect(requests[0].parent).toBeUndefined();
+    expect(requests[1].parent).toBe('parentB');
+  });
+});
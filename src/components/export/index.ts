@@ -1,2 +1,4 @@
 export { CourtDocumentPreview } from './CourtDocumentPreview';
 export type { CourtDocumentPreviewProps } from './CourtDocumentPreview';
+export { CalendarExportPanel } from './CalendarExportPanel';
+export type { CalendarExportPanelProps, CalendarExportRequest } from './CalendarExportPanel';
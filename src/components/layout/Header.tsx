@@ -1,4 +1,4 @@
-import { FileText, Calendar, Plus, RotateCcw } from 'lucide-react';
+import { FileText, Calendar, Plus, RotateCcw, Download, Upload } from 'lucide-react';
 
 export interface HeaderProps {
   /** Optional callback for when the export button is clicked */
@@ -7,9 +7,13 @@ export interface HeaderProps {
   onNewScheduleClick?: () => void;
   /** Optional callback for when the "Reset" button is clicked */
   onResetClick?: () => void;
+  /** Optional callback for when the "Save Plan" button is clicked */
+  onSavePlanClick?: () => void;
+  /** Optional callback for when the "Open Plan" button is clicked */
+  onOpenPlanClick?: () => void;
 }
 
-export function Header({ onExportClick, onNewScheduleClick, onResetClick }: HeaderProps) {
+export function Header({ onExportClick, onNewScheduleClick, onResetClick, onSavePlanClick, onOpenPlanClick }: HeaderProps) {
   return (
     <header className="border-b border-gray-200 bg-white">
       <div className="mx-auto flex max-w-7xl items-center justify-between px-4 py-5 sm:px-6 lg:px-8">
@@ -25,6 +29,24 @@ export function Header({ onExportClick, onNewScheduleClick, onResetClick }: Head
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {onOpenPlanClick && (
+            <button
+              onClick={onOpenPlanClick}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-5 py-2.5 text-sm font-semibold text-gray-700 shadow-sm transition-all duration-150 hover:bg-gray-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gray-500"
+            >
+              <Upload className="h-4 w-4" />
+              Open Plan
+            </button>
+          )}
+          {onSavePlanClick && (
+            <button
+              onClick={onSavePlanClick}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-5 py-2.5 text-sm font-semibold text-gray-700 shadow-sm transition-all duration-150 hover:bg-gray-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gray-500"
+            >
+              <Download className="h-4 w-4" />
+              Save Plan
+            </button>
+          )}
           {onResetClick && (
             <button
               onClick={onResetClick}
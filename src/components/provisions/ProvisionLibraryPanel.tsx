@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import clsx from 'clsx';
+import { ScrollText } from 'lucide-react';
+import type { SelectedProvision } from '../../types';
+import {
+  PROVISIONS,
+  PROVISION_CATEGORIES,
+  getProvisionJurisdictions,
+  getProvisionsByJurisdiction,
+} from '../../data/provisions';
+import { fillProvisionText, getMissingProvisionValues } from '../../utils/provisions';
+
+export interface ProvisionLibraryPanelProps {
+  /** Provisions included in the plan */
+  selected: SelectedProvision[];
+  /** Callback when a provision is included */
+  onAdd: (provision: SelectedProvision) => void;
+  /** Callback when the values of an included provision change */
+  onUpdate: (provision: SelectedProvision) => void;
+  /** Callback to leave a provision out, by provision ID */
+  onRemove: (provisionId: string) => void;
+  /** Jurisdiction the library is first filtered to (all provisions when omitted) */
+  defaultJurisdiction?: string;
+}
+
+const INPUT_CLASS =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Panel for choosing standard provisions (decision making, exchanges,
+ * communication, right of first refusal, relocation and travel) to include in
+ * the plan document, and filling in their blanks.
+ */
+export function ProvisionLibraryPanel({
+  selected,
+  onAdd,
+  onUpdate,
+  onRemove,
+  defaultJurisdiction = '',
+}: ProvisionLibraryPanelProps) {
+  const [jurisdiction, setJurisdiction] = useState(defaultJurisdiction);
+
+  const selectedById = new Map(selected.map((entry) => [entry.provisionId, entry]));
+  const available = getProvisionsByJurisdiction(jurisdiction || undefined);
+  // Provisions already in the plan stay visible under any filter
+  const visible = PROVISIONS.filter((provision) => available.includes(provision) || selectedById.has(provision.id));
+
+  return (
+    <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
+      <div className="border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white px-6 py-4">
+        <h2 id="provision-library-heading" className="flex items-center gap-2 text-lg font-bold text-gray-900">
+          <ScrollText className="h-5 w-5 text-amber-500" aria-hidden="true" />
+          Plan Provisions
+        </h2>
+        <p className="text-sm text-gray-500">Standard terms to add to the court document</p>
+      </div>
+
+      <div className="space-y-4 p-6" role="region" aria-labelledby="provision-library-heading">
+        <label className="block text-xs font-medium text-gray-600">
+          Jurisdiction
+          <select
+            value={jurisdiction}
+            onChange={(e) => setJurisdiction(e.target.value)}
+            className={INPUT_CLASS}
+          >
+            <option value="">All jurisdictions</option>
+            {getProvisionJurisdictions().map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {PROVISION_CATEGORIES.map((category) => {
+          const provisions = visible.filter((provision) => provision.category === category.id);
+          if (provisions.length === 0) return null;
+
+          return (
+            <fieldset key={category.id} className="space-y-2">
+              <legend className="mb-1 text-sm font-semibold text-gray-800">{category.label}</legend>
+              {provisions.map((provision) => {
+                const entry = selectedById.get(provision.id);
+                const missing = entry ? getMissingProvisionValues(entry) : [];
+
+                return (
+                  <div
+                    key={provision.id}
+                    className={clsx('rounded-lg p-3 text-sm', entry ? 'bg-amber-50' : 'bg-gray-50')}
+                  >
+                    <label className="flex items-center gap-2 font-medium text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(entry)}
+                        onChange={(e) =>
+                          e.target.checked
+                            ? onAdd({ provisionId: provision.id, values: {} })
+                            : onRemove(provision.id)
+                        }
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {provision.title}
+                      {provision.jurisdiction && (
+                        <span className="rounded-full bg-gray-200 px-2 py-0.5 text-xs font-normal text-gray-600">
+                          {provision.jurisdiction}
+                        </span>
+                      )}
+                    </label>
+
+                    {entry && (
+                      <div className="mt-2 space-y-2">
+                        {provision.variables.map((variable) => (
+                          <label key={variable.name} className="block text-xs font-medium text-gray-600">
+                            {variable.label}
+                            <input
+                              type="text"
+                              value={entry.values[variable.name] ?? ''}
+                              placeholder={variable.placeholder}
+                              onChange={(e) =>
+                                onUpdate({ ...entry, values: { ...entry.values, [variable.name]: e.target.value } })
+                              }
+                              className={INPUT_CLASS}
+                            />
+                          </label>
+                        ))}
+                        <p className="text-xs text-gray-600">{fillProvisionText(provision.text, entry.values)}</p>
+                        {missing.length > 0 && (
+                          <p className="text-xs text-amber-700">
+                            {missing.length === 1 ? '1 blank' : `${missing.length} blanks`} will print as a line to fill in by hand
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </fieldset>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
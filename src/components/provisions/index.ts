@@ -0,0 +1,2 @@
+export { ProvisionLibraryPanel } from './ProvisionLibraryPanel';
+export type { ProvisionLibraryPanelProps } from './ProvisionLibraryPanel';
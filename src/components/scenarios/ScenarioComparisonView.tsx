@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import type { Scenario } from '../../types';
+import { compareScenarios, type ComparisonRow } from '../../utils/scenarioComparison';
+
+export interface ScenarioComparisonViewProps {
+  /** Saved scenarios to choose from (at least two) */
+  scenarios: Scenario[];
+  /** Scenario shown first by default (usually the active one) */
+  defaultFirstId?: string | null;
+  /** Year to compare by default */
+  defaultYear: number;
+  /** Name of Parent A for display */
+  parentAName: string;
+  /** Name of Parent B for display */
+  parentBName: string;
+}
+
+/**
+ * Format a signed difference (e.g., "+3", "−1.25"), or "—" when there is none.
+ */
+function formatDelta(value: number): string {
+  if (value === 0) return '—';
+  const magnitude = Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return value > 0 ? `+${magnitude}` : `−${magnitude}`;
+}
+
+const SELECT_CLASS =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Table of per-month or per-holiday differences between two scenarios.
+ */
+function ComparisonTable({
+  caption,
+  rows,
+  firstName,
+  secondName,
+  parentAName,
+}: {
+  caption: string;
+  rows: ComparisonRow[];
+  firstName: string;
+  secondName: string;
+  parentAName: string;
+}) {
+  return (
+    <table className="w-full text-sm">
+      <caption className="mb-2 text-left text-sm font-semibold text-gray-900">{caption}</caption>
+      <thead>
+        <tr className="border-b border-gray-200 text-left text-xs font-medium uppercase text-gray-500">
+          <th scope="col" className="py-2"></th>
+          <th scope="col" className="py-2 text-right">{firstName}</th>
+          <th scope="col" className="py-2 text-right">{secondName}</th>
+          <th scope="col" className="py-2 text-right">Days</th>
+          <th scope="col" className="py-2 text-right">Points</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr
+            key={row.label}
+            className={clsx('border-b border-gray-100', row.daysDelta === 0 ? 'text-gray-400' : 'text-gray-700')}
+          >
+            <th scope="row" className="py-1.5 text-left font-normal">{row.label}</th>
+            <td className="py-1.5 text-right" title={`${parentAName}'s days of ${row.totalDays}`}>
+              {row.parentADaysA}/{row.totalDays}
+            </td>
+            <td className="py-1.5 text-right" title={`${parentAName}'s days of ${row.totalDays}`}>
+              {row.parentADaysB}/{row.totalDays}
+            </td>
+            <td className="py-1.5 text-right font-medium">{formatDelta(row.daysDelta)}</td>
+            <td className="py-1.5 text-right">{formatDelta(row.percentagePointsDelta)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Side-by-side comparison of two scenarios for one year, showing how Parent A's
+ * time changes in total, per month and per holiday (in days and percentage points).
+ */
+export function ScenarioComparisonView({
+  scenarios,
+  defaultFirstId,
+  defaultYear,
+  parentAName,
+  parentBName,
+}: ScenarioComparisonViewProps) {
+  const [firstId, setFirstId] = useState(
+    () => scenarios.find((s) => s.id === defaultFirstId)?.id ?? scenarios[0]?.id
+  );
+  const [secondId, setSecondId] = useState(
+    () => scenarios.find((s) => s.id !== firstId)?.id ?? scenarios[0]?.id
+  );
+  const [year, setYear] = useState(defaultYear);
+
+  const first = scenarios.find((s) => s.id === firstId);
+  const second = scenarios.find((s) => s.id === secondId);
+
+  const comparison = useMemo(
+    () => (first && second ? compareScenarios(first.state, second.state, year) : null),
+    [first, second, year]
+  );
+
+  const years = Array.from({ length: 5 }, (_, i) => defaultYear - 1 + i);
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <label className="text-xs font-medium text-gray-600">
+          First scenario
+          <select value={firstId} onChange={(e) => setFirstId(e.target.value)} className={SELECT_CLASS}>
+            {scenarios.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          Second scenario
+          <select value={secondId} onChange={(e) => setSecondId(e.target.value)} className={SELECT_CLASS}>
+            {scenarios.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          Year
+          <select value={year} onChange={(e) => setYear(parseInt(e.target.value, 10))} className={SELECT_CLASS}>
+            {years.map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {comparison && first && second && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div className="rounded-lg bg-gray-50 p-3">
+              <p className="text-xs font-medium text-gray-500">{first.name}</p>
+              <p className="text-sm text-gray-900">
+                {parentAName} {comparison.statsA.parentA.percentage.toFixed(1)}% · {parentBName}{' '}
+                {comparison.statsA.parentB.percentage.toFixed(1)}%
+              </p>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-3">
+              <p className="text-xs font-medium text-gray-500">{second.name}</p>
+              <p className="text-sm text-gray-900">
+                {parentAName} {comparison.statsB.parentA.percentage.toFixed(1)}% · {parentBName}{' '}
+                {comparison.statsB.parentB.percentage.toFixed(1)}%
+              </p>
+            </div>
+            <div className="rounded-lg bg-blue-50 p-3">
+              <p className="text-xs font-medium text-blue-700">Change for {parentAName}</p>
+              <p className="text-sm font-semibold text-blue-900">
+                {formatDelta(comparison.daysDelta)} days · {formatDelta(comparison.percentagePointsDelta)} points
+              </p>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Columns show {parentAName}&apos;s days in each scenario. Differences are {second.name} minus{' '}
+            {first.name}; {parentBName} gains or loses the opposite amount.
+          </p>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <ComparisonTable
+              caption="By Holiday"
+              rows={comparison.holidays}
+              firstName={first.name}
+              secondName={second.name}
+              parentAName={parentAName}
+            />
+            <ComparisonTable
+              caption="By Month"
+              rows={comparison.monthly}
+              firstName={first.name}
+              secondName={second.name}
+              parentAName={parentAName}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import clsx from 'clsx';
+import { Layers, Plus, Copy, Pencil, Trash2, GitCompare, Check, X } from 'lucide-react';
+import type { Scenario } from '../../types';
+
+export interface ScenarioPanelProps {
+  /** Saved scenarios, in creation order */
+  scenarios: Scenario[];
+  /** ID of the scenario being edited */
+  activeScenarioId: string | null;
+  /** Callback to create a new scenario */
+  onCreate: () => void;
+  /** Callback to duplicate a scenario */
+  onDuplicate: (id: string) => void;
+  /** Callback to rename a scenario */
+  onRename: (id: string, name: string) => void;
+  /** Callback to delete a scenario */
+  onDelete: (id: string) => void;
+  /** Callback to switch to a scenario */
+  onSwitch: (id: string) => void;
+  /** Callback to open the comparison view; hidden with fewer than two scenarios */
+  onCompare: () => void;
+}
+
+const ICON_BUTTON_CLASS =
+  'rounded-md p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed disabled:opacity-40';
+
+/**
+ * Panel listing named scenarios (drafts of the plan) with create, duplicate,
+ * rename, delete and switch controls.
+ */
+export function ScenarioPanel({
+  scenarios,
+  activeScenarioId,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onSwitch,
+  onCompare,
+}: ScenarioPanelProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (scenario: Scenario) => {
+    setRenamingId(scenario.id);
+    setDraftName(scenario.name);
+  };
+
+  const saveRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
+      <div className="border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 id="scenarios-heading" className="flex items-center gap-2 text-lg font-bold text-gray-900">
+              <Layers className="h-5 w-5 text-teal-500" aria-hidden="true" />
+              Scenarios
+            </h2>
+            <p className="text-sm text-gray-500">Keep drafts of the plan side by side</p>
+          </div>
+          <button
+            type="button"
+            onClick={onCreate}
+            className="inline-flex items-center gap-1 rounded-lg bg-gray-100 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4" aria-hidden="true" />
+            New
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4 p-6" role="region" aria-labelledby="scenarios-heading">
+        <ul className="space-y-2">
+          {scenarios.map((scenario) => {
+            const isActive = scenario.id === activeScenarioId;
+            return (
+              <li
+                key={scenario.id}
+                className={clsx(
+                  'flex items-center justify-between gap-2 rounded-lg p-2 text-sm',
+                  isActive ? 'bg-blue-50 ring-1 ring-blue-200' : 'bg-gray-50'
+                )}
+              >
+                {renamingId === scenario.id ? (
+                  <div className="flex flex-1 items-center gap-1">
+                    <input
+                      type="text"
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      aria-label="Scenario name"
+                      className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <button type="button" onClick={saveRename} className={ICON_BUTTON_CLASS} aria-label="Save name">
+                      <Check className="h-4 w-4" aria-hidden="true" />
+                    </button>
+                    <button type="button" onClick={() => setRenamingId(null)} className={ICON_BUTTON_CLASS} aria-label="Cancel rename">
+                      <X className="h-4 w-4" aria-hidden="true" />
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => onSwitch(scenario.id)}
+                      disabled={isActive}
+                      aria-current={isActive ? 'true' : undefined}
+                      className="flex-1 truncate rounded-md px-1 text-left font-medium text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-default"
+                    >
+                      {scenario.name}
+                      {isActive && <span className="ml-2 text-xs font-normal text-blue-600">Editing</span>}
+                    </button>
+                    <div className="flex items-center">
+                      <button
+                        type="button"
+                        onClick={() => startRename(scenario)}
+                        className={ICON_BUTTON_CLASS}
+                        aria-label={`Rename ${scenario.name}`}
+                      >
+                        <Pencil className="h-4 w-4" aria-hidden="true" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDuplicate(scenario.id)}
+                        className={ICON_BUTTON_CLASS}
+                        aria-label={`Duplicate ${scenario.name}`}
+                      >
+                        <Copy className="h-4 w-4" aria-hidden="true" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDelete(scenario.id)}
+                        disabled={scenarios.length === 1}
+                        className={ICON_BUTTON_CLASS}
+                        aria-label={`Delete ${scenario.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" aria-hidden="true" />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {scenarios.length >= 2 && (
+          <button
+            type="button"
+            onClick={onCompare}
+            className="inline-flex w-full items-center justify-center gap-2 rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            <GitCompare className="h-4 w-4" aria-hidden="true" />
+            Compare Scenarios
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { ScenarioPanel } from './ScenarioPanel';
+export type { ScenarioPanelProps } from './ScenarioPanel';
+export { ScenarioComparisonView } from './ScenarioComparisonView';
+export type { ScenarioComparisonViewProps } from './ScenarioComparisonView';
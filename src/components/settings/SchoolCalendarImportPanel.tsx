@@ -0,0 +1,179 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { CalendarDays, Upload, AlertCircle } from 'lucide-react';
+import {
+  SCHOOL_EVENT_CATEGORIES,
+  createSchoolCalendarImportItems,
+  parseSchoolCalendarFile,
+  summarizeSchoolCalendarImport,
+  type SchoolCalendarImportItem,
+  type SchoolEventCategory,
+} from '../../utils/schoolCalendarImport';
+
+export interface SchoolCalendarImportPanelProps {
+  /** Callback with the reviewed events when the user applies the import */
+  onApply: (items: SchoolCalendarImportItem[]) => void;
+}
+
+/**
+ * Format an event's dates for display (e.g., "Nov 24, 2025" or "Nov 24, 2025 – Nov 28, 2025").
+ */
+function formatEventDates(startDate: string, endDate: string): string {
+  const format = (dateStr: string) =>
+    new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return startDate === endDate ? format(startDate) : `${format(startDate)} – ${format(endDate)}`;
+}
+
+const SELECT_CLASS =
+  'block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-xs focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Import a school district's published calendar (.ics or .csv).
+ * Each event gets a suggested category that the user reviews before the
+ * in-service days, track breaks and break dates are applied to the plan.
+ */
+export function SchoolCalendarImportPanel({ onApply }: SchoolCalendarImportPanelProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [items, setItems] = useState<SchoolCalendarImportItem[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [appliedSummary, setAppliedSummary] = useState<string[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so the same file can be chosen again after fixing it
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseSchoolCalendarFile(await file.text());
+    setFileName(file.name);
+    setErrors(result.errors);
+    setItems(result.events.length > 0 ? createSchoolCalendarImportItems(result.events) : null);
+    setAppliedSummary(null);
+  };
+
+  const handleCategoryChange = (id: string, category: SchoolEventCategory) => {
+    setItems((prev) => prev && prev.map((item) => (item.id === id ? { ...item, category } : item)));
+  };
+
+  const handleCancel = () => {
+    setItems(null);
+    setErrors([]);
+    setFileName(null);
+  };
+
+  const handleApply = () => {
+    if (!items) return;
+    onApply(items);
+    setAppliedSummary(summarizeSchoolCalendarImport(items));
+    setItems(null);
+    setErrors([]);
+  };
+
+  const summary = items ? summarizeSchoolCalendarImport(items) : [];
+
+  return (
+    <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
+      <div className="border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white px-6 py-4">
+        <h2 id="school-calendar-import-heading" className="flex items-center gap-2 text-lg font-bold text-gray-900">
+          <CalendarDays className="h-5 w-5 text-gray-500" aria-hidden="true" />
+          District Calendar
+        </h2>
+        <p className="text-sm text-gray-500">Import in-service days, track breaks and break dates</p>
+      </div>
+
+      <div className="space-y-4 p-6" role="region" aria-labelledby="school-calendar-import-heading">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,.csv,text/calendar,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+          aria-label="District calendar file"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <Upload className="h-4 w-4" aria-hidden="true" />
+          Import calendar file (.ics or .csv)
+        </button>
+
+        {errors.length > 0 && (
+          <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700" role="alert">
+            <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" aria-hidden="true" />
+            <div>
+              <p className="font-medium">
+                {items ? `Some entries in ${fileName} were skipped.` : `${fileName} could not be imported.`}
+              </p>
+              <ul className="mt-1 list-disc space-y-0.5 pl-5 text-xs">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {appliedSummary && (
+          <div className="rounded-lg bg-green-50 p-3 text-sm text-green-800" role="status">
+            {appliedSummary.length > 0 ? `Imported ${appliedSummary.join(', ')}.` : 'Nothing was imported.'}
+          </div>
+        )}
+
+        {/* Review step */}
+        {items && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Review how each event in {fileName} will be used, then apply.
+            </p>
+            <ul className="max-h-80 space-y-2 overflow-y-auto">
+              {items.map((item) => (
+                <li key={item.id} className="rounded-lg bg-gray-50 p-3 text-sm">
+                  <p className="text-gray-900">{item.event.summary}</p>
+                  <p className="mb-2 text-xs text-gray-500">
+                    {formatEventDates(item.event.startDate, item.event.endDate)}
+                  </p>
+                  <select
+                    value={item.category}
+                    onChange={(e) => handleCategoryChange(item.id, e.target.value as SchoolEventCategory)}
+                    className={SELECT_CLASS}
+                    aria-label={`Import "${item.event.summary}" as`}
+                  >
+                    {SCHOOL_EVENT_CATEGORIES.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.label}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+
+            <p className="text-xs text-gray-500">
+              {summary.length > 0 ? `Will import: ${summary.join(', ')}.` : 'No events are selected for import.'}
+            </p>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleApply}
+                disabled={summary.length === 0}
+                className="flex-1 rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1 +1,2 @@
 export { SchoolTypeSelector } from './SchoolTypeSelector';
+export { SchoolCalendarImportPanel } from './SchoolCalendarImportPanel';
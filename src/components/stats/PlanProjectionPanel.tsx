@@ -0,0 +1,167 @@
+import { CalendarRange } from 'lucide-react';
+import type { CalculationMode } from '../../types';
+import type { PlanStats, ParentYearlyStats } from '../../hooks';
+
+export interface PlanProjectionPanelProps {
+  /** Projected stats for the range, or null when no range is set */
+  projection: PlanStats | null;
+  /** First date of the projected range (YYYY-MM-DD) */
+  startDate: string;
+  /** Last date of the projected range (YYYY-MM-DD) */
+  endDate: string;
+  /** Callback when either end of the range is edited */
+  onRangeChange: (range: { startDate: string; endDate: string }) => void;
+  /** Callback to go back to the full plan range; the reset button is hidden without it */
+  onResetToPlan?: () => void;
+  /** Callback to calculate the projection for the range; the calculate button is hidden without it */
+  onCalculate?: () => void;
+  /** Name of Parent A for display */
+  parentAName: string;
+  /** Name of Parent B for display */
+  parentBName: string;
+  /** How the stats were counted (default: 'days') */
+  calculationMode?: CalculationMode;
+}
+
+/**
+ * Format a parent's amount for a table cell under the calculation mode
+ * (e.g., "183 days", "181 overnights", "4,374 hrs").
+ */
+function formatParentAmount(stats: ParentYearlyStats, calculationMode: CalculationMode): string {
+  if (calculationMode === 'overnights' && stats.overnights !== undefined) {
+    const total = stats.overnights + (stats.weightedDays ?? 0);
+    return `${total.toLocaleString('en-US', { maximumFractionDigits: 1 })} overnights`;
+  }
+  if (calculationMode === 'duration' && stats.hours !== undefined) {
+    return `${stats.hours.toLocaleString('en-US', { maximumFractionDigits: 0 })} hrs`;
+  }
+  return `${stats.days.toLocaleString('en-US')} days`;
+}
+
+const INPUT_CLASS =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Panel projecting the timeshare over the whole plan (or any date range),
+ * with one row per calendar year and the long-run total. A plan can run for
+ * many years, so the projection is only calculated when the user asks for it.
+ */
+export function PlanProjectionPanel({
+  projection,
+  startDate,
+  endDate,
+  onRangeChange,
+  onResetToPlan,
+  onCalculate,
+  parentAName,
+  parentBName,
+  calculationMode = 'days',
+}: PlanProjectionPanelProps) {
+  return (
+    <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
+      <div className="border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white px-6 py-4">
+        <h2 id="plan-projection-heading" className="flex items-center gap-2 text-lg font-bold text-gray-900">
+          <CalendarRange className="h-5 w-5 text-indigo-500" aria-hidden="true" />
+          Plan Projection
+        </h2>
+        <p className="text-sm text-gray-500">Timeshare over the life of the plan</p>
+      </div>
+
+      <div className="space-y-4 p-6" role="region" aria-labelledby="plan-projection-heading">
+        {/* Range inputs */}
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs font-medium text-gray-600">
+            From
+            <input
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => onRangeChange({ startDate: e.target.value, endDate })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            To
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => onRangeChange({ startDate, endDate: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+        {onResetToPlan && (
+          <button
+            type="button"
+            onClick={onResetToPlan}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Reset to full plan
+          </button>
+        )}
+
+        {projection ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-xs font-medium uppercase text-gray-500">
+                <th scope="col" className="py-2">Year</th>
+                <th scope="col" className="py-2 text-right">{parentAName}</th>
+                <th scope="col" className="py-2 text-right">{parentBName}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projection.yearlyBreakdown.map((year) => (
+                <tr key={year.year} className="border-b border-gray-100 text-gray-700">
+                  <th scope="row" className="py-1.5 text-left font-normal">
+                    {year.year}
+                  </th>
+                  <td className="py-1.5 text-right" title={formatParentAmount(year.parentA, calculationMode)}>
+                    {year.parentA.percentage.toFixed(1)}%
+                  </td>
+                  <td className="py-1.5 text-right" title={formatParentAmount(year.parentB, calculationMode)}>
+                    {year.parentB.percentage.toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold text-gray-900">
+                <th scope="row" className="pt-2 text-left">Total</th>
+                <td className="pt-2 text-right">
+                  {projection.total.parentA.percentage.toFixed(1)}%
+                  <span className="block text-xs font-normal text-gray-500">
+                    {formatParentAmount(projection.total.parentA, calculationMode)}
+                  </span>
+                </td>
+                <td className="pt-2 text-right">
+                  {projection.total.parentB.percentage.toFixed(1)}%
+                  <span className="block text-xs font-normal text-gray-500">
+                    {formatParentAmount(projection.total.parentB, calculationMode)}
+                  </span>
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        ) : onCalculate ? (
+          <div className="space-y-2 rounded-lg bg-gray-50 p-3">
+            <p className="text-sm text-gray-600">
+              Calculate the timeshare for every year in the range. Recalculate after changing the schedule.
+            </p>
+            <button
+              type="button"
+              onClick={onCalculate}
+              className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              Calculate projection
+            </button>
+          </div>
+        ) : (
+          <p className="rounded-lg bg-gray-50 p-3 text-sm text-gray-600">
+            Choose a date range, or add the children&apos;s birthdates so the plan end date can be calculated.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,8 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { TimeshareDonutChart } from './TimeshareDonutChart';
 import { MonthlyTrendBarChart } from './MonthlyTrendBarChart';
-import type { TimeshareStats, ParentConfig, MonthlyBreakdown } from '../../types';
+import type { TimeshareStats, ParentConfig, MonthlyBreakdown, CalculationMode, AppConfig } from '../../types';
+import { WEIGHTED_VISIT_RULES } from '../../data/weightedVisitRules';
 
 export interface StatsPanelProps {
   /** Timeshare statistics for both parents */
@@ -17,8 +18,27 @@ export interface StatsPanelProps {
   parentAColor: string;
   /** Hex color for Parent B (e.g., '#ec4899') */
   parentBColor: string;
+  /** How the stats were counted (default: 'days') */
+  calculationMode?: CalculationMode;
+  /** Callback when the calculation mode changes; the toggle is disabled without it */
+  onCalculationModeChange?: (mode: CalculationMode) => void;
+  /** Overnight cutoff time ("HH:MM") used in overnights mode */
+  overnightCutoffTime?: string;
+  /** Weighted visit rule ID used in overnights mode */
+  weightedVisitRuleId?: string;
+  /** Callback when the overnight cutoff or weighted visit rule changes */
+  onOvernightSettingsChange?: (settings: OvernightSettings) => void;
+  /** Whether third-party time (school, daycare) is deducted in duration mode */
+  deductThirdPartyTime?: boolean;
+  /** Callback when the third-party deduction is switched on or off */
+  onDeductThirdPartyTimeChange?: (deduct: boolean) => void;
 }
 
+/**
+ * Overnights-mode settings edited from the stats panel.
+ */
+export type OvernightSettings = Pick<AppConfig, 'overnightCutoffTime' | 'weightedVisitRuleId'>;
+
 /**
  * Breakpoint for mobile/desktop detection (lg: 1024px as per Tailwind convention)
  */
@@ -29,13 +49,58 @@ const LG_BREAKPOINT = 1024;
  */
 const RESIZE_DEBOUNCE_MS = 150;
 
+/**
+ * Format an hour or day total for display (e.g., 4374, 4380.5).
+ */
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { maximumFractionDigits: 1 });
+}
+
+/**
+ * Build the yearly total text for one parent under the calculation mode.
+ */
+function getParentTotalText(
+  parentStats: TimeshareStats['parentA'],
+  calculationMode: CalculationMode
+): string {
+  if (calculationMode === 'overnights' && parentStats.overnights !== undefined) {
+    const weighted = parentStats.weightedDays
+      ? ` + ${formatAmount(parentStats.weightedDays)} visit days`
+      : '';
+    return `${parentStats.overnights} overnights/year${weighted}`;
+  }
+  if (calculationMode === 'duration' && parentStats.hours !== undefined) {
+    return `${parentStats.days} nights/year · ${formatAmount(parentStats.hours)} hours/year`;
+  }
+  return `${parentStats.days} nights/year`;
+}
+
+/**
+ * Build the third-party time text for one parent, with the face time left
+ * over in duration mode (hours already exclude third-party time when deducted).
+ */
+function getThirdPartyText(
+  parentStats: TimeshareStats['parentA'],
+  calculationMode: CalculationMode,
+  deductThirdPartyTime: boolean
+): string {
+  const thirdPartyHours = parentStats.thirdPartyHours ?? 0;
+  const text = `${formatAmount(thirdPartyHours)} hours/year at school or daycare`;
+  if (calculationMode !== 'duration' || parentStats.hours === undefined) {
+    return text;
+  }
+  const faceTime = deductThirdPartyTime ? parentStats.hours : parentStats.hours - thirdPartyHours;
+  return `${text} · ${formatAmount(faceTime)} hours face time`;
+}
+
 /**
  * Side panel component containing all custody statistics.
  * Features:
  * - TimeshareDonutChart showing custody split percentage
- * - Text summary with nights/year for each parent
+ * - Text summary with nights/year (overnights or hours/year in those modes) for each parent
  * - MonthlyTrendBarChart showing month-by-month breakdown
- * - Calculation Mode toggle placeholder
+ * - Calculation Mode toggle between whole days, overnights and exchange-time duration
+ * - Third-party time (school, daycare) per parent, with a toggle to deduct it in duration mode
  * - Collapsible on mobile (< lg breakpoint), expanded by default on desktop
  */
 export function StatsPanel({
@@ -45,6 +110,13 @@ export function StatsPanel({
   monthlyData,
   parentAColor,
   parentBColor,
+  calculationMode = 'days',
+  onCalculationModeChange,
+  overnightCutoffTime,
+  weightedVisitRuleId,
+  onOvernightSettingsChange,
+  deductThirdPartyTime = false,
+  onDeductThirdPartyTimeChange,
 }: StatsPanelProps) {
   // Track if expanded (default: expanded on desktop, collapsed on mobile)
   const [isExpanded, setIsExpanded] = useState(() => {
@@ -86,6 +158,9 @@ export function StatsPanel({
     setIsExpanded((prev) => !prev);
   };
 
+  const hasThirdPartyTime =
+    stats.parentA.thirdPartyHours !== undefined || stats.parentB.thirdPartyHours !== undefined;
+
   return (
     <div className="overflow-hidden rounded-2xl bg-white shadow-xl">
       {/* Header - always visible */}
@@ -131,11 +206,11 @@ export function StatsPanel({
           <div className="mb-6 space-y-2">
             <p className="text-sm text-gray-700">
               <span className="font-semibold">{parentA.name}</span>:{' '}
-              {stats.parentA.days} nights/year ({Math.round(stats.parentA.percentage)}%)
+              {getParentTotalText(stats.parentA, calculationMode)} ({Math.round(stats.parentA.percentage)}%)
             </p>
             <p className="text-sm text-gray-700">
               <span className="font-semibold">{parentB.name}</span>:{' '}
-              {stats.parentB.days} nights/year ({Math.round(stats.parentB.percentage)}%)
+              {getParentTotalText(stats.parentB, calculationMode)} ({Math.round(stats.parentB.percentage)}%)
             </p>
           </div>
 
@@ -148,6 +223,7 @@ export function StatsPanel({
               parentBName={parentB.name}
               parentBPercent={stats.parentB.percentage}
               parentBColor={parentBColor}
+              methodDescription={stats.method?.description}
             />
           </div>
 
@@ -162,7 +238,7 @@ export function StatsPanel({
             />
           </div>
 
-          {/* Calculation Mode Toggle (MVP Placeholder) */}
+          {/* Calculation Mode Toggle */}
           <div className="rounded-lg bg-gray-50 p-4">
             <label
               htmlFor="calculation-mode"
@@ -172,17 +248,96 @@ export function StatsPanel({
             </label>
             <select
               id="calculation-mode"
-              disabled
-              className="mt-1 block w-full rounded-md border-gray-300 bg-gray-100 py-2 pl-3 pr-10 text-base text-gray-500 focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm"
-              defaultValue="overnights"
+              disabled={!onCalculationModeChange}
+              value={calculationMode}
+              onChange={(e) => onCalculationModeChange?.(e.target.value as CalculationMode)}
+              className="mt-1 block w-full rounded-md border-gray-300 bg-white py-2 pl-3 pr-10 text-base text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-500 sm:text-sm"
             >
+              <option value="days">Days</option>
               <option value="overnights">Overnights</option>
-              <option value="hours">Hours (Coming Soon)</option>
+              <option value="duration">Hours (Duration)</option>
             </select>
             <p className="mt-1 text-xs text-gray-400">
-              Hours-based calculation coming in a future update
+              {calculationMode === 'duration'
+                ? 'Days are split at the exchange time when custody changes hands'
+                : calculationMode === 'overnights'
+                  ? 'Each night counts for the parent who has the child at the cutoff time'
+                  : 'Each day counts in full for the parent who has it'}
             </p>
+
+            {calculationMode === 'overnights' && (
+              <div className="mt-3 grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="overnight-cutoff" className="block text-xs font-medium text-gray-600">
+                    Overnight Cutoff
+                  </label>
+                  <input
+                    type="time"
+                    id="overnight-cutoff"
+                    value={overnightCutoffTime ?? '00:00'}
+                    disabled={!onOvernightSettingsChange}
+                    onChange={(e) => onOvernightSettingsChange?.({ overnightCutoffTime: e.target.value, weightedVisitRuleId })}
+                    className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="weighted-visit-rule" className="block text-xs font-medium text-gray-600">
+                    Daytime Visits
+                  </label>
+                  <select
+                    id="weighted-visit-rule"
+                    value={weightedVisitRuleId ?? ''}
+                    disabled={!onOvernightSettingsChange}
+                    onChange={(e) => onOvernightSettingsChange?.({ overnightCutoffTime, weightedVisitRuleId: e.target.value || undefined })}
+                    className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100"
+                  >
+                    <option value="">Not counted</option>
+                    {WEIGHTED_VISIT_RULES.map((rule) => (
+                      <option key={rule.id} value={rule.id}>
+                        {rule.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="col-span-2 text-xs text-gray-400">
+                  Daytime visits only occur when a holiday has its own exchange time and the visit misses the cutoff.
+                  With a single exchange time every stay includes a night, so the rule changes nothing.
+                </p>
+              </div>
+            )}
           </div>
+
+          {/* Third-party time (school, daycare) */}
+          {hasThirdPartyTime && (
+            <div className="mt-4 rounded-lg bg-gray-50 p-4">
+              <h3 className="text-sm font-medium text-gray-700">Third-Party Time</h3>
+              <div className="mt-1 space-y-1">
+                <p className="text-xs text-gray-600">
+                  <span className="font-semibold">{parentA.name}</span>:{' '}
+                  {getThirdPartyText(stats.parentA, calculationMode, deductThirdPartyTime)}
+                </p>
+                <p className="text-xs text-gray-600">
+                  <span className="font-semibold">{parentB.name}</span>:{' '}
+                  {getThirdPartyText(stats.parentB, calculationMode, deductThirdPartyTime)}
+                </p>
+              </div>
+              <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={deductThirdPartyTime}
+                  disabled={!onDeductThirdPartyTimeChange}
+                  onChange={(e) => onDeductThirdPartyTimeChange?.(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Deduct third-party time
+              </label>
+              <p className="mt-1 text-xs text-gray-400">
+                {calculationMode === 'duration'
+                  ? "Removes school and daycare hours from each parent's time and from the total"
+                  : 'Applies in Hours (Duration) mode; custody does not change during third-party time'}
+              </p>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -16,6 +16,8 @@ export interface TimeshareDonutChartProps {
   parentBPercent: number;
   /** Parent B color (hex value, e.g., '#ec4899') */
   parentBColor: string;
+  /** Description of how the percentages were counted, shown under the chart */
+  methodDescription?: string;
 }
 
 /**
@@ -30,6 +32,7 @@ export function TimeshareDonutChart({
   parentBName,
   parentBPercent,
   parentBColor,
+  methodDescription,
 }: TimeshareDonutChartProps) {
   // Runtime validation: warn if percentages do not sum to 100
   const sum = parentAPercent + parentBPercent;
@@ -144,6 +147,9 @@ export function TimeshareDonutChart({
       <div className="w-full max-w-xs">
         <Doughnut data={data} options={options} plugins={[centerTextPlugin]} />
       </div>
+      {methodDescription && (
+        <p className="mt-2 text-center text-xs text-gray-500">{methodDescription}</p>
+      )}
     </div>
   );
 }
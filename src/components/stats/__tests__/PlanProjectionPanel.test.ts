@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'vitest';
+import type { PlanProjectionPanelProps } from '../PlanProjectionPanel';
+import { calculatePlanStats } from '../../../hooks';
+import type { AppConfig } from '../../../types';
+
+describe('PlanProjectionPanel', () => {
+  const config: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'alt-weeks',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+
+  const mockProps: PlanProjectionPanelProps = {
+    projection: calculatePlanStats('2025-01-01', '2026-12-31', config),
+    startDate: '2025-01-01',
+    endDate: '2026-12-31',
+    onRangeChange: () => {},
+    parentAName: 'Mom',
+    parentBName: 'Dad',
+  };
+
+  test('props interface accepts a projection with one row per year', () => {
+    expect(mockProps.projection?.yearlyBreakdown.map((y) => y.year)).toEqual([2025, 2026]);
+    expect(mockProps.projection?.total.startDate).toBe('2025-01-01');
+    expect(mockProps.projection?.total.endDate).toBe('2026-12-31');
+  });
+
+  test('props interface accepts an empty projection', () => {
+    const props: PlanProjectionPanelProps = { ...mockProps, projection: null, startDate: '', endDate: '' };
+    expect(props.projection).toBeNull();
+    expect(props.onResetToPlan).toBeUndefined();
+  });
+
+  test('props interface accepts calculation mode and reset callback', () => {
+    const props: PlanProjectionPanelProps = {
+      ...mockProps,
+      calculationMode: 'overnights',
+      onResetToPlan: () => {},
+    };
+    expect(props.calculationMode).toBe('overnights');
+    expect(typeof props.onResetToPlan).toBe('function');
+  });
+
+  test('props interface accepts a calculate callback for a range not yet projected', () => {
+    const props: PlanProjectionPanelProps = { ...mockProps, projection: null, onCalculate: () => {} };
+    expect(props.projection).toBeNull();
+    expect(typeof props.onCalculate).toBe('function');
+  });
+});
@@ -114,6 +114,39 @@ describe('StatsPanel', () => {
     expect(customProps.parentB.name).toBe('Father');
   });
 
+  test('props interface accepts duration mode with hour totals', () => {
+    const durationProps: StatsPanelProps = {
+      ...mockStatsPanelProps,
+      stats: {
+        parentA: { days: 183, percentage: 49.93, hours: 4374 },
+        parentB: { days: 182, percentage: 50.07, hours: 4386 },
+      },
+      calculationMode: 'duration',
+      onCalculationModeChange: () => {},
+    };
+
+    expect(durationProps.calculationMode).toBe('duration');
+    expect(durationProps.stats.parentA.hours).toBe(4374);
+    expect(mockStatsPanelProps.calculationMode).toBeUndefined();
+  });
+
+  test('props interface accepts third-party hours and the deduction toggle', () => {
+    const thirdPartyProps: StatsPanelProps = {
+      ...mockStatsPanelProps,
+      stats: {
+        parentA: { days: 183, percentage: 51.2, hours: 3114, thirdPartyHours: 630 },
+        parentB: { days: 182, percentage: 48.8, hours: 2966, thirdPartyHours: 630 },
+      },
+      calculationMode: 'duration',
+      deductThirdPartyTime: true,
+      onDeductThirdPartyTimeChange: () => {},
+    };
+
+    expect(thirdPartyProps.deductThirdPartyTime).toBe(true);
+    expect(thirdPartyProps.stats.parentA.thirdPartyHours).toBe(630);
+    expect(mockStatsPanelProps.deductThirdPartyTime).toBeUndefined();
+  });
+
   test('monthly data contains all 12 months', () => {
     const expectedMonths = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
     const actualMonths = mockMonthlyData.map((d) => d.month);
@@ -3,5 +3,7 @@ export type { TimeshareDonutChartProps } from './TimeshareDonutChart';
 export { MonthlyTrendBarChart } from './MonthlyTrendBarChart';
 export type { MonthlyTrendBarChartProps } from './MonthlyTrendBarChart';
 export { StatsPanel } from './StatsPanel';
-export type { StatsPanelProps } from './StatsPanel';
+export type { StatsPanelProps, OvernightSettings } from './StatsPanel';
+export { PlanProjectionPanel } from './PlanProjectionPanel';
+export type { PlanProjectionPanelProps } from './PlanProjectionPanel';
 export { determinePrimaryParent } from './utils';
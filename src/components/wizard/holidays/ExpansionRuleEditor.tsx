@@ -0,0 +1,183 @@
+import type { DayOfWeekRule, ExpansionRule, WeekendExpansion } from '../../../types/holidays';
+import { MAX_EXPANSION_DAYS, describeExpansionRule } from '../../../utils/holidayExpansion';
+
+/** Props for ExpansionRuleEditor */
+export interface ExpansionRuleEditorProps {
+  /** Used for field ids */
+  id: string;
+  /** Holiday name for labels and the description */
+  holidayName: string;
+  /** The user's rule, or undefined for the holiday's standard days */
+  rule?: ExpansionRule;
+  /** The holiday's built-in rule, used when the user has none */
+  defaultRule?: ExpansionRule;
+  /** Callback with the new rule, or undefined to return to the standard days */
+  onChange: (rule: ExpansionRule | undefined) => void;
+}
+
+type RuleChoice = 'standard' | ExpansionRule['type'];
+
+const RULE_CHOICES: { value: RuleChoice; label: string }[] = [
+  { value: 'standard', label: 'Standard days' },
+  { value: 'always', label: 'A set number of days' },
+  { value: 'weekend-adjacent', label: 'Join the nearest weekend' },
+  { value: 'day-of-week-conditional', label: 'Depends on the weekday' },
+];
+
+const EXPANSION_OPTIONS: { value: DayOfWeekRule['expansion']; label: string }[] = [
+  { value: 'none', label: 'Just the holiday' },
+  { value: 'full-weekend', label: 'Include the attached weekend' },
+  { value: 'include-friday', label: 'Start on the Friday before' },
+  { value: 'include-monday', label: 'Run through the Monday after' },
+];
+
+/** Weekdays a weekend expansion can change; Tuesday through Thursday stay a single day */
+const EDITABLE_DAYS = [
+  { day: 5, label: 'Friday' },
+  { day: 6, label: 'Saturday' },
+  { day: 0, label: 'Sunday' },
+  { day: 1, label: 'Monday' },
+];
+
+const SELECT_CLASS =
+  'rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Create the starting rule when the user picks a rule type.
+ * "Depends on the weekday" starts from the holiday's built-in rule when it has one.
+ */
+function createRule(choice: RuleChoice, defaultRule?: ExpansionRule): ExpansionRule | undefined {
+  switch (choice) {
+    case 'standard':
+      return undefined;
+    case 'always':
+      return { type: 'always', days: 1 };
+    case 'weekend-adjacent':
+      return { type: 'weekend-adjacent', expandTo: 'full-weekend' };
+    case 'day-of-week-conditional':
+      return defaultRule?.type === 'day-of-week-conditional'
+        ? defaultRule
+        : { type: 'day-of-week-conditional', rules: EDITABLE_DAYS.map(({ day }) => ({ dayOfWeek: [day], expansion: 'none' })) };
+  }
+}
+
+/**
+ * Give one weekday its own expansion, taking it out of any rule it shared.
+ */
+function setDayExpansion(rules: DayOfWeekRule[], day: number, expansion: DayOfWeekRule['expansion']): DayOfWeekRule[] {
+  return [
+    ...rules
+      .map((rule) => ({ ...rule, dayOfWeek: rule.dayOfWeek.filter((d) => d !== day) }))
+      .filter((rule) => rule.dayOfWeek.length > 0),
+    { dayOfWeek: [day], expansion },
+  ];
+}
+
+/**
+ * Editor for the days a single-date holiday covers around its date: the standard days,
+ * a set number of days, joining the nearest weekend, or a choice per weekday.
+ * The chosen rule is explained below the fields as it will read in the court document.
+ */
+export function ExpansionRuleEditor({ id, holidayName, rule, defaultRule, onChange }: ExpansionRuleEditorProps) {
+  const choice: RuleChoice = rule?.type ?? 'standard';
+  const effectiveRule = rule ?? defaultRule;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor={`${id}-type`} className="block text-sm font-medium text-gray-700 mb-1">
+          Days covered
+        </label>
+        <select
+          id={`${id}-type`}
+          value={choice}
+          onChange={(e) => onChange(createRule(e.target.value as RuleChoice, defaultRule))}
+          className={SELECT_CLASS}
+        >
+          {RULE_CHOICES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {rule?.type === 'always' && (
+        <div>
+          <label htmlFor={`${id}-days`} className="block text-sm font-medium text-gray-700 mb-1">
+            Number of days
+          </label>
+          <input
+            type="number"
+            id={`${id}-days`}
+            min={1}
+            max={MAX_EXPANSION_DAYS}
+            value={rule.days}
+            onChange={(e) => {
+              const days = parseInt(e.target.value, 10);
+              if (!Number.isNaN(days)) {
+                onChange({ type: 'always', days: Math.min(Math.max(days, 1), MAX_EXPANSION_DAYS) });
+              }
+            }}
+            className={`w-20 ${SELECT_CLASS}`}
+          />
+        </div>
+      )}
+
+      {rule?.type === 'weekend-adjacent' && (
+        <div>
+          <label htmlFor={`${id}-expand-to`} className="block text-sm font-medium text-gray-700 mb-1">
+            Next to a weekend
+          </label>
+          <select
+            id={`${id}-expand-to`}
+            value={rule.expandTo}
+            onChange={(e) => onChange({ type: 'weekend-adjacent', expandTo: e.target.value as WeekendExpansion })}
+            className={SELECT_CLASS}
+          >
+            {EXPANSION_OPTIONS.filter((option) => option.value !== 'none').map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {rule?.type === 'day-of-week-conditional' && (
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2">
+          {EDITABLE_DAYS.map(({ day, label }) => (
+            <div key={day} className="contents">
+              <label htmlFor={`${id}-day-${day}`} className="text-sm text-gray-700">
+                On a {label}
+              </label>
+              <select
+                id={`${id}-day-${day}`}
+                value={rule.rules.find((r) => r.dayOfWeek.includes(day))?.expansion ?? 'none'}
+                onChange={(e) =>
+                  onChange({
+                    type: 'day-of-week-conditional',
+                    rules: setDayExpansion(rule.rules, day, e.target.value as DayOfWeekRule['expansion']),
+                  })
+                }
+                className={SELECT_CLASS}
+              >
+                {EXPANSION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {effectiveRule
+          ? describeExpansionRule(effectiveRule, holidayName)
+          : `${holidayName} uses its standard days.`}
+      </p>
+    </div>
+  );
+}
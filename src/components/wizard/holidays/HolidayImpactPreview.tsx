@@ -2,6 +2,7 @@ import { useMemo } from 'react';
 import clsx from 'clsx';
 import { AlertTriangle, TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import type { HolidayImpactBreakdown } from '../../../types/holidays';
+import { describeConflict, formatDateRange, type CustodyConflict } from '../../../utils/custodyConflicts';
 
 /** Props for HolidayImpactPreview */
 export interface HolidayImpactPreviewProps {
@@ -17,6 +18,8 @@ export interface HolidayImpactPreviewProps {
   parentBName?: string;
   /** Threshold for showing deviation warning (percentage) */
   deviationThreshold?: number;
+  /** Dates where overlapping rules assign the child to different parents */
+  conflicts?: CustodyConflict[];
 }
 
 /**
@@ -78,6 +81,7 @@ export function HolidayImpactPreview({
   parentAName = 'Parent A',
   parentBName = 'Parent B',
   deviationThreshold = 10,
+  conflicts = [],
 }: HolidayImpactPreviewProps) {
   // Calculate adjusted percentages
   const { adjustedPercentages, totalDelta, deviation } = useMemo(() => {
@@ -253,6 +257,26 @@ export function HolidayImpactPreview({
             </div>
           </div>
         )}
+
+        {/* Overlapping rule warnings */}
+        {conflicts.length > 0 && (
+          <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3">
+            <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <span className="text-sm font-medium text-amber-700">
+                {conflicts.length === 1 ? '1 Conflict' : `${conflicts.length} Conflicts`}
+              </span>
+              <ul className="mt-1 space-y-1 text-sm text-amber-600">
+                {conflicts.map((conflict) => (
+                  <li key={`${conflict.startDate}-${conflict.winner.layer}-${conflict.loser.layer}-${conflict.loser.label}`}>
+                    {formatDateRange(conflict.startDate, conflict.endDate)}:{' '}
+                    {describeConflict(conflict, { parentA: parentAName, parentB: parentBName })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
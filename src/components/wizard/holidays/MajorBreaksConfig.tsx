@@ -1,8 +1,9 @@
 import { useState, useCallback } from 'react';
 import clsx from 'clsx';
-import { ChevronDown, ChevronRight } from 'lucide-react';
+import { ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
 import type {
   AssignmentType,
+  HolidayDateOverride,
   HolidayUserConfig,
   SplitPeriodConfig,
   SelectionPriorityConfig,
@@ -13,6 +14,14 @@ import {
   DEFAULT_SUMMER_VACATION_CONFIG,
   getHolidayDisplayDate,
 } from '../../../data/holidays';
+import {
+  createHolidayDateOverride,
+  removeHolidayDateOverride,
+  setHolidayDateOverride,
+  validateHolidayDateOverride,
+} from '../../../utils/holidayDateOverrides';
+import { getExpansionRuleForHoliday } from '../../../utils/holidayExpansion';
+import { ExpansionRuleEditor } from './ExpansionRuleEditor';
 
 /** Props for MajorBreaksConfig */
 export interface MajorBreaksConfigProps {
@@ -50,6 +59,18 @@ const SEGMENT_ASSIGNMENT_OPTIONS: { value: AssignmentType; label: string }[] = [
   { value: 'always-parent-b', label: 'Always Parent B' },
 ];
 
+const DATE_INPUT_CLASS =
+  'block rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Format an override's dates for display (e.g., "Mar 22 – Mar 26, 2027").
+ */
+function formatOverrideDates(override: HolidayDateOverride): string {
+  const format = (dateStr: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', options);
+  return `${format(override.startDate, { month: 'short', day: 'numeric' })} – ${format(override.endDate, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
 /**
  * Collapsible section component for each major break.
  */
@@ -140,6 +161,102 @@ function AssignmentDropdown({
   );
 }
 
+/**
+ * Editor for a break's dates in specific years, for districts that move the
+ * break each year. Each entry replaces the standard dates for the year it starts in.
+ */
+function DateOverridesEditor({
+  id,
+  breakName,
+  overrides = [],
+  onChange,
+}: {
+  id: string;
+  breakName: string;
+  overrides?: HolidayDateOverride[];
+  onChange: (overrides: HolidayDateOverride[]) => void;
+}) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const override = createHolidayDateOverride(startDate, endDate);
+    const result = validateHolidayDateOverride(override);
+    if (!result.valid) {
+      setError(result.reason ?? 'These dates are not valid');
+      return;
+    }
+    setError(null);
+    setStartDate('');
+    setEndDate('');
+    onChange(setHolidayDateOverride(overrides, override));
+  };
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-700 mb-1">Dates by year</span>
+      <p className="mb-2 text-xs text-gray-500">
+        If the school calendar moves {breakName}, enter its dates for that year.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          id={`${id}-start`}
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className={DATE_INPUT_CLASS}
+          aria-label={`${breakName} first day`}
+        />
+        <span className="text-gray-500">to</span>
+        <input
+          type="date"
+          id={`${id}-end`}
+          value={endDate}
+          min={startDate || undefined}
+          onChange={(e) => setEndDate(e.target.value)}
+          className={DATE_INPUT_CLASS}
+          aria-label={`${breakName} last day`}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        >
+          Add
+        </button>
+      </div>
+      {error && (
+        <p className="mt-2 text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+      {overrides.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {overrides.map((override) => (
+            <li
+              key={override.year}
+              className="flex items-center justify-between rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
+            >
+              <span className="text-gray-900">
+                <span className="font-medium">{override.year}:</span> {formatOverrideDates(override)}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(removeHolidayDateOverride(overrides, override.year))}
+                className="rounded-md p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label={`Remove ${breakName} ${override.year} dates`}
+              >
+                <Trash2 className="h-4 w-4" aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 /**
  * Major Breaks configuration component.
  * Configures the "Big 4": Spring Break, Thanksgiving, Winter Break, Summer Vacation.
@@ -208,35 +325,18 @@ export function MajorBreaksConfig({
         {/* Spring Break */}
         <CollapsibleSection
           title="Spring Break"
-          subtitle={getHolidayDisplayDate(MAJOR_BREAKS[0], year)}
+          subtitle={getHolidayDisplayDate(MAJOR_BREAKS[0], year, getConfig('spring-break')?.dateOverrides)}
           days={7}
           isOpen={openSections.has('spring-break')}
           onToggle={() => toggleSection('spring-break')}
         >
           <div className="space-y-3">
-            <div>
-              <label
-                htmlFor="spring-break-dates"
-                className="block text-sm font-medium text-gray-700 mb-1"
-              >
-                Dates
-              </label>
-              <div className="flex items-center gap-2">
-                <input
-                  type="date"
-                  id="spring-break-start"
-                  defaultValue={`${year}-03-17`}
-                  className="block rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                />
-                <span className="text-gray-500">to</span>
-                <input
-                  type="date"
-                  id="spring-break-end"
-                  defaultValue={`${year}-03-23`}
-                  className="block rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                />
-              </div>
-            </div>
+            <DateOverridesEditor
+              id="spring-break"
+              breakName="Spring Break"
+              overrides={getConfig('spring-break')?.dateOverrides}
+              onChange={(dateOverrides) => updateConfig('spring-break', { dateOverrides })}
+            />
             <div>
               <label
                 htmlFor="spring-break-assignment"
@@ -260,7 +360,12 @@ export function MajorBreaksConfig({
         {/* Thanksgiving */}
         <CollapsibleSection
           title="Thanksgiving"
-          subtitle={getHolidayDisplayDate(MAJOR_BREAKS[1], year)}
+          subtitle={getHolidayDisplayDate(
+            MAJOR_BREAKS[1],
+            year,
+            getConfig('thanksgiving')?.dateOverrides,
+            getConfig('thanksgiving')?.expansionRule
+          )}
           days={5}
           isOpen={openSections.has('thanksgiving')}
           onToggle={() => toggleSection('thanksgiving')}
@@ -288,6 +393,13 @@ export function MajorBreaksConfig({
                 parentBName={parentBName}
               />
             </div>
+            <ExpansionRuleEditor
+              id="thanksgiving-expansion"
+              holidayName="Thanksgiving"
+              rule={getConfig('thanksgiving')?.expansionRule}
+              defaultRule={getExpansionRuleForHoliday('thanksgiving')}
+              onChange={(expansionRule) => updateConfig('thanksgiving', { expansionRule })}
+            />
           </div>
         </CollapsibleSection>
 
@@ -345,6 +457,13 @@ export function MajorBreaksConfig({
                 parentBName={parentBName}
               />
             </div>
+
+            <DateOverridesEditor
+              id="winter-break"
+              breakName="Winter Break"
+              overrides={getConfig('winter-break')?.dateOverrides}
+              onChange={(dateOverrides) => updateConfig('winter-break', { dateOverrides })}
+            />
           </div>
         </CollapsibleSection>
 
@@ -356,6 +475,13 @@ export function MajorBreaksConfig({
           onToggle={() => toggleSection('summer-vacation')}
         >
           <div className="space-y-4">
+            <DateOverridesEditor
+              id="summer-vacation"
+              breakName="Summer Vacation"
+              overrides={getConfig('summer-vacation')?.dateOverrides}
+              onChange={(dateOverrides) => updateConfig('summer-vacation', { dateOverrides })}
+            />
+
             {/* Weeks per parent */}
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -1,8 +1,10 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 import clsx from 'clsx';
-import { Check } from 'lucide-react';
+import { Check, ChevronDown, ChevronRight } from 'lucide-react';
 import type { AssignmentType, HolidayUserConfig } from '../../../types/holidays';
 import { WEEKEND_HOLIDAYS, getHolidayDisplayDate } from '../../../data/holidays';
+import { getExpansionRuleForHoliday } from '../../../utils/holidayExpansion';
+import { ExpansionRuleEditor } from './ExpansionRuleEditor';
 
 /** Props for WeekendHolidaysConfig */
 export interface WeekendHolidaysConfigProps {
@@ -23,6 +25,7 @@ const ASSIGNMENT_OPTIONS: { value: AssignmentType; label: string }[] = [
   { value: 'alternate-odd-even', label: 'Alternate' },
   { value: 'always-parent-a', label: 'Always Parent A' },
   { value: 'always-parent-b', label: 'Always Parent B' },
+  { value: 'extend-weekend', label: 'Extends the weekend' },
 ];
 
 /** Batch apply options */
@@ -35,6 +38,7 @@ const BATCH_OPTIONS: { value: AssignmentType; label: string }[] = [
 /**
  * Weekend Holidays configuration component.
  * Shows all 11 weekend holidays with enable/disable toggles and assignment dropdowns.
+ * Each holiday can open an editor for the days it covers around its date.
  */
 export function WeekendHolidaysConfig({
   configs,
@@ -43,6 +47,8 @@ export function WeekendHolidaysConfig({
   parentBName = 'Parent B',
   year = new Date().getFullYear(),
 }: WeekendHolidaysConfigProps) {
+  const [openRuleId, setOpenRuleId] = useState<string | null>(null);
+
   // Get config for a specific holiday
   const getConfig = useCallback(
     (holidayId: string): HolidayUserConfig | undefined => {
@@ -137,7 +143,8 @@ export function WeekendHolidaysConfig({
           const config = getConfig(holiday.id);
           const isEnabled = config?.enabled !== false;
           const assignment = config?.assignment ?? holiday.defaultAssignment;
-          const dateDisplay = getHolidayDisplayDate(holiday, year);
+          const dateDisplay = getHolidayDisplayDate(holiday, year, config?.dateOverrides, config?.expansionRule);
+          const isRuleOpen = openRuleId === holiday.id;
 
           // Special styling for Mother's/Father's Day
           const isMotherDay = holiday.id === 'mothers-day';
@@ -195,6 +202,26 @@ export function WeekendHolidaysConfig({
                   <span className="text-sm text-gray-500">{dateDisplay}</span>
                 </div>
 
+                {/* Days covered toggle */}
+                <button
+                  type="button"
+                  onClick={() => setOpenRuleId(isRuleOpen ? null : holiday.id)}
+                  disabled={!isEnabled}
+                  className={clsx(
+                    'flex items-center gap-1 rounded-lg px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100',
+                    !isEnabled && 'cursor-not-allowed opacity-50'
+                  )}
+                  aria-expanded={isRuleOpen && isEnabled}
+                  aria-label={`Days covered by ${holiday.name}`}
+                >
+                  {isRuleOpen && isEnabled ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                  Days
+                </button>
+
                 {/* Assignment dropdown */}
                 <select
                   value={assignment}
@@ -217,6 +244,18 @@ export function WeekendHolidaysConfig({
                   ))}
                 </select>
               </div>
+
+              {isRuleOpen && isEnabled && (
+                <div className="mt-3 border-t border-gray-100 pt-3">
+                  <ExpansionRuleEditor
+                    id={`${holiday.id}-expansion`}
+                    holidayName={holiday.name}
+                    rule={config?.expansionRule}
+                    defaultRule={getExpansionRuleForHoliday(holiday.id)}
+                    onChange={(expansionRule) => updateConfig(holiday.id, { expansionRule })}
+                  />
+                </div>
+              )}
             </div>
           );
         })}
@@ -225,7 +264,9 @@ export function WeekendHolidaysConfig({
       {/* Note about day calculation */}
       <p className="text-sm text-gray-500">
         Note: Weekend holidays typically span 3 days (Friday-Sunday or Saturday-Monday).
-        Some holidays like Halloween may be shorter.
+        Some holidays like Halloween may be shorter. With &quot;Extends the weekend&quot;, the
+        parent who has the attached weekend in the regular schedule keeps the holiday.
+        Use &quot;Days&quot; to change which days around the date a holiday covers.
       </p>
     </div>
   );
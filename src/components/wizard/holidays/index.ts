@@ -1,5 +1,6 @@
 export { MajorBreaksConfig, type MajorBreaksConfigProps } from './MajorBreaksConfig';
 export { WeekendHolidaysConfig, type WeekendHolidaysConfigProps } from './WeekendHolidaysConfig';
+export { ExpansionRuleEditor, type ExpansionRuleEditorProps } from './ExpansionRuleEditor';
 export { BirthdaysConfig, type BirthdaysConfigProps } from './BirthdaysConfig';
 export { QuickSetupPresets, type QuickSetupPresetsProps } from './QuickSetupPresets';
 export { HolidayImpactPreview, type HolidayImpactPreviewProps } from './HolidayImpactPreview';
@@ -5,6 +5,7 @@ export type { StepIndicatorProps, Step } from './StepIndicator';
 export { 
   PatternPicker, 
   PatternThumbnail, 
+  CustomPatternBuilder,
   ParentSetup, 
   validateParentSetup, 
   isParentSetupValid, 
@@ -18,6 +19,7 @@ export {
   TemplateSelector,
 } from './steps';
 export type { 
+  CustomPatternBuilderProps,
   ParentSetupProps, 
   ParentSetupData,
   HolidaySelectorProps,
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { RotateCcw } from 'lucide-react';
+import {
+  CUSTOM_PATTERN_MIN_LENGTH,
+  CUSTOM_PATTERN_MAX_LENGTH,
+  createCustomPattern,
+  resizeCustomPattern,
+  toggleCustomPatternDay,
+  getCustomPatternPercentages,
+  type PatternParent,
+} from '../../../data/patterns';
+import { PatternThumbnail } from './PatternThumbnail';
+
+export interface CustomPatternBuilderProps {
+  /** Current custom cycle ('A' = starting parent, 'B' = other parent) */
+  pattern: PatternParent[];
+  /** Callback when the cycle changes */
+  onPatternChange: (pattern: PatternParent[]) => void;
+  /** Schedule start date (YYYY-MM-DD), used to label weekdays */
+  startDate?: string;
+  /** Display name for the starting parent */
+  parentAName?: string;
+  /** Display name for the other parent */
+  parentBName?: string;
+  /** Color class for 'A' days */
+  parentAColor?: string;
+  /** Color class for 'B' days */
+  parentBColor?: string;
+}
+
+/** Common rotation lengths offered as one-click shortcuts */
+const QUICK_LENGTHS = [7, 14, 21, 28];
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the weekday label for a day in the cycle, relative to the start date.
+ */
+function getWeekdayLabel(startDate: string | undefined, dayIndex: number): string | null {
+  if (!startDate || !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) return null;
+  const date = new Date(startDate + 'T00:00:00');
+  return WEEKDAY_LABELS[(date.getDay() + dayIndex) % 7];
+}
+
+/**
+ * Editor for an arbitrary-length A/B custody cycle.
+ * Click a day to flip it between parents; change the length to grow or shrink the cycle.
+ */
+export function CustomPatternBuilder({
+  pattern,
+  onPatternChange,
+  startDate,
+  parentAName = 'Parent A',
+  parentBName = 'Parent B',
+  parentAColor = 'bg-blue-500',
+  parentBColor = 'bg-pink-500',
+}: CustomPatternBuilderProps) {
+  const percentages = getCustomPatternPercentages(pattern);
+
+  // The length field keeps its text while typing; the cycle is only resized
+  // on blur or Enter, so clearing the field or typing "14" via "1" keeps the days
+  const [lengthText, setLengthText] = useState(String(pattern.length));
+  useEffect(() => {
+    setLengthText(String(pattern.length));
+  }, [pattern.length]);
+
+  const commitLength = () => {
+    const length = Number.parseInt(lengthText, 10);
+    if (Number.isNaN(length)) {
+      setLengthText(String(pattern.length));
+      return;
+    }
+    const resized = resizeCustomPattern(pattern, length);
+    setLengthText(String(resized.length));
+    if (resized.length !== pattern.length) onPatternChange(resized);
+  };
+  const aDays = pattern.filter((p) => p === 'A').length;
+  const bDays = pattern.length - aDays;
+
+  return (
+    <div className="space-y-4">
+      {/* Cycle length controls */}
+      <div className="bg-white rounded-lg p-3 border border-blue-200">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label
+              htmlFor="custom-cycle-length"
+              className="block text-xs font-medium text-gray-500 mb-1"
+            >
+              Cycle Length (days)
+            </label>
+            <input
+              type="number"
+              id="custom-cycle-length"
+              min={CUSTOM_PATTERN_MIN_LENGTH}
+              max={CUSTOM_PATTERN_MAX_LENGTH}
+              value={lengthText}
+              onChange={(e) => setLengthText(e.target.value)}
+              onBlur={commitLength}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  commitLength();
+                }
+              }}
+              className="block w-24 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex gap-1">
+            {QUICK_LENGTHS.map((length) => (
+              <button
+                key={length}
+                type="button"
+                onClick={() => onPatternChange(resizeCustomPattern(pattern, length))}
+                className={clsx(
+                  'rounded-lg border px-3 py-2 text-xs font-medium transition-colors',
+                  pattern.length === length
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                {length}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => onPatternChange(createCustomPattern(pattern.length))}
+            className="ml-auto inline-flex items-center gap-1 rounded-lg px-3 py-2 text-xs font-medium text-gray-600 hover:bg-gray-100"
+          >
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {/* Day grid */}
+      <div className="bg-white rounded-lg p-3 border border-blue-200">
+        <div className="text-xs font-medium text-gray-500 mb-2">
+          Click a day to switch parents
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {pattern.map((p, i) => {
+            const weekday = getWeekdayLabel(startDate, i);
+            const ownerName = p === 'A' ? parentAName : parentBName;
+            return (
+              <button
+                key={i}
+                type="button"
+                onClick={() => onPatternChange(toggleCustomPatternDay(pattern, i))}
+                className={clsx(
+                  'flex flex-col items-center justify-center rounded py-1 text-white transition-transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-blue-500',
+                  p === 'A' ? parentAColor : parentBColor
+                )}
+                aria-label={`Day ${i + 1}${weekday ? ` (${weekday})` : ''}: ${ownerName}`}
+              >
+                <span className="text-xs font-semibold">{i + 1}</span>
+                {weekday && <span className="text-[10px] opacity-80">{weekday}</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Summary and preview */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="w-full sm:w-40 flex-shrink-0">
+          <div className="text-xs font-medium text-gray-500 mb-2">4-Week Preview</div>
+          <div className="bg-white rounded-lg p-3 border border-blue-200">
+            <PatternThumbnail
+              pattern={pattern}
+              days={28}
+              parentAColor={parentAColor}
+              parentBColor={parentBColor}
+            />
+          </div>
+        </div>
+        <div className="flex-1 bg-white rounded-lg p-3 border border-blue-200">
+          <div className="text-xs font-medium text-gray-500 mb-1">Cycle Split</div>
+          <p className="text-sm text-gray-900">
+            {parentAName}: {aDays} of {pattern.length} days ({percentages.parentA}%)
+          </p>
+          <p className="text-sm text-gray-900">
+            {parentBName}: {bDays} of {pattern.length} days ({percentages.parentB}%)
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
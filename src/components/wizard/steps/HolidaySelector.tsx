@@ -9,6 +9,7 @@ import type {
   SelectionPriorityConfig,
   HolidayImpactBreakdown,
 } from '../../../types/holidays';
+import type { CustodyConflict } from '../../../utils/custodyConflicts';
 import {
   MajorBreaksConfig,
   WeekendHolidaysConfig,
@@ -77,6 +78,8 @@ export interface EnhancedHolidaySelectorProps {
   basePercentageA?: number;
   /** Base schedule percentage for Parent B */
   basePercentageB?: number;
+  /** Overlapping rule conflicts to warn about in the impact preview */
+  conflicts?: CustodyConflict[];
 }
 
 /** Combined props - supports both legacy and enhanced interfaces */
@@ -326,6 +329,7 @@ function EnhancedHolidaySelector({
   parentBName = 'Parent B',
   basePercentageA = 50,
   basePercentageB = 50,
+  conflicts,
 }: EnhancedHolidaySelectorProps) {
   const [activeTab, setActiveTab] = useState<TabId>('quick-setup');
   const [hasCustomizations, setHasCustomizations] = useState(false);
@@ -450,6 +454,7 @@ function EnhancedHolidaySelector({
         impactBreakdown={impactBreakdown}
         parentAName={parentAName}
         parentBName={parentBName}
+        conflicts={conflicts}
       />
 
       <p className="text-center text-sm text-gray-500">
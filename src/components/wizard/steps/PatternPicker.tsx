@@ -3,8 +3,9 @@ import clsx from 'clsx';
 import { Check, ChevronDown, Calendar, Plus, X, AlertTriangle } from 'lucide-react';
 import type { PatternType, Child } from '../../../types';
 import { RELATIONSHIP_OPTIONS } from '../../../types';
-import { getPatternGroups, getPatternByType, type PatternDefinition, type SplitType } from '../../../data/patterns';
+import { getPatternGroups, getPatternByType, createCustomPattern, type PatternDefinition, type PatternParent, type SplitType } from '../../../data/patterns';
 import { PatternThumbnail } from './PatternThumbnail';
+import { CustomPatternBuilder } from './CustomPatternBuilder';
 import { ColorPicker } from '../../shared/ColorPicker';
 import { DatePicker } from '../../shared/DatePicker';
 import type { ParentSetupData } from './parentSetupUtils';
@@ -19,6 +20,10 @@ interface PatternPickerProps {
   parentSetupData: ParentSetupData;
   /** Callback when parent setup data changes */
   onParentSetupChange: (data: ParentSetupData) => void;
+  /** User-defined cycle for the 'custom' pattern */
+  customPattern?: PatternParent[];
+  /** Callback when the custom cycle changes */
+  onCustomPatternChange?: (pattern: PatternParent[]) => void;
 }
 
 /**
@@ -51,6 +56,8 @@ export function PatternPicker({
   onPatternSelect,
   parentSetupData,
   onParentSetupChange,
+  customPattern,
+  onCustomPatternChange,
 }: PatternPickerProps) {
   const patternGroups = getPatternGroups();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
@@ -63,6 +70,13 @@ export function PatternPicker({
   const parentAColor = parentSetupData.parentAColor || 'bg-blue-500';
   const parentBColor = parentSetupData.parentBColor || 'bg-pink-500';
 
+  // 'A' days in a custom cycle belong to whoever has the child first
+  const startsWithParentA = parentSetupData.startingParent !== 'parentB';
+  const startingParentName = (startsWithParentA ? parentSetupData.parentAName : parentSetupData.parentBName)
+    || (startsWithParentA ? 'Parent A' : 'Parent B');
+  const otherParentName = (startsWithParentA ? parentSetupData.parentBName : parentSetupData.parentAName)
+    || (startsWithParentA ? 'Parent B' : 'Parent A');
+
   // Handle parent data changes
   const handleParentChange = useCallback(
     (field: keyof ParentSetupData, value: string) => {
@@ -678,12 +692,15 @@ export function PatternPicker({
               </div>
             </div>
           ) : (
-            <div className="bg-white rounded-lg p-4 border border-blue-200 text-center">
-              <Calendar className="h-10 w-10 text-purple-400 mx-auto mb-2" />
-              <p className="text-sm text-gray-500 italic">
-                Custom pattern builder coming soon
-              </p>
-            </div>
+            <CustomPatternBuilder
+              pattern={customPattern ?? createCustomPattern()}
+              onPatternChange={(pattern) => onCustomPatternChange?.(pattern)}
+              startDate={parentSetupData.startDate}
+              parentAName={startingParentName}
+              parentBName={otherParentName}
+              parentAColor={startsWithParentA ? parentAColor : parentBColor}
+              parentBColor={startsWithParentA ? parentBColor : parentAColor}
+            />
           )}
         </div>
       ) : (
@@ -1,7 +1,10 @@
+import { useRef, useState, type ChangeEvent } from 'react';
 import clsx from 'clsx';
-import { Check, Building2, PencilLine } from 'lucide-react';
-import type { CourtTemplate } from '../../../types';
-import { ALL_TEMPLATES } from '../../../data/templates';
+import { Check, Building2, PencilLine, Upload } from 'lucide-react';
+import type { CourtTemplate, TemplateRegistry } from '../../../types';
+import { ALL_TEMPLATES, getTemplateJurisdictions, getTemplatesByJurisdiction } from '../../../data/templates';
+import { applyCourtTemplate } from '../../../utils/templateApplication';
+import { describeTemplateUpdate, mergeTemplate, parseTemplateFile } from '../../../utils/templateFile';
 
 /**
  * Option for template selection - either a court template or "Build Your Own".
@@ -15,6 +18,19 @@ export interface TemplateSelectorProps {
   selectedOption: TemplateOption | null;
   /** Callback when an option is selected */
   onOptionSelect: (option: TemplateOption) => void;
+  /** Templates to choose from (defaults to the bundled templates) */
+  templates?: CourtTemplate[];
+  /** Callback with a validated template file that is new or newer than the installed one; omit to hide importing */
+  onImportTemplate?: (template: CourtTemplate) => void;
+}
+
+/**
+ * Outcome of the last template file import, shown under the template cards.
+ */
+interface ImportStatus {
+  tone: 'success' | 'info' | 'error';
+  message: string;
+  errors?: string[];
 }
 
 /**
@@ -97,6 +113,9 @@ function TemplateCard({
         <span className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-700">
           {template.defaultExchangeTime} exchange
         </span>
+        <span className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-700">
+          v{template.version}
+        </span>
       </div>
 
       {/* Select button */}
@@ -203,7 +222,37 @@ function BuildYourOwnCard({
 export function TemplateSelector({
   selectedOption,
   onOptionSelect,
+  templates = ALL_TEMPLATES,
+  onImportTemplate,
 }: TemplateSelectorProps) {
+  const [jurisdiction, setJurisdiction] = useState('');
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const jurisdictions = getTemplateJurisdictions(templates);
+  const visibleTemplates = jurisdiction ? getTemplatesByJurisdiction(jurisdiction, templates) : templates;
+
+  const handleTemplateFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so the same file can be chosen again after fixing it
+    event.target.value = '';
+    if (!file || !onImportTemplate) return;
+
+    const result = parseTemplateFile(await file.text());
+    if (!result.valid) {
+      setImportStatus({ tone: 'error', message: `${file.name} could not be imported.`, errors: result.errors });
+      return;
+    }
+
+    const registry: TemplateRegistry = Object.fromEntries(templates.map((t) => [t.id, t]));
+    const { update } = mergeTemplate(registry, result.template);
+    const isNew = update.status === 'added' || update.status === 'updated';
+    setImportStatus({ tone: isNew ? 'success' : 'info', message: describeTemplateUpdate(update, result.template.name) });
+    if (isNew) {
+      onImportTemplate(result.template);
+    }
+  };
+
   const isTemplateSelected = (template: CourtTemplate): boolean => {
     return (
       selectedOption?.type === 'template' &&
@@ -212,6 +261,7 @@ export function TemplateSelector({
   };
 
   const isBuildYourOwnSelected = selectedOption?.type === 'build-your-own';
+  const unmapped = selectedOption?.type === 'template' ? applyCourtTemplate(selectedOption.template).unmapped : [];
 
   return (
     <div className="space-y-6">
@@ -223,10 +273,29 @@ export function TemplateSelector({
         </p>
       </div>
 
+      {/* Jurisdiction filter */}
+      {jurisdictions.length > 1 && (
+        <label className="block max-w-sm text-sm font-medium text-gray-700">
+          Jurisdiction
+          <select
+            value={jurisdiction}
+            onChange={(e) => setJurisdiction(e.target.value)}
+            className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="">All jurisdictions</option>
+            {jurisdictions.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
       {/* Template cards grid */}
       <div className="grid gap-4 sm:grid-cols-2">
         {/* Court templates */}
-        {ALL_TEMPLATES.map((template) => (
+        {visibleTemplates.map((template) => (
           <TemplateCard
             key={template.id}
             template={template}
@@ -242,10 +311,46 @@ export function TemplateSelector({
         />
       </div>
 
-      {/* Coming soon note */}
-      <p className="text-center text-sm text-gray-400">
-        More templates coming soon...
-      </p>
+      {/* Template file import */}
+      {onImportTemplate && (
+        <div className="space-y-3 text-center">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleTemplateFileChange}
+            className="hidden"
+            aria-label="Template file"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <Upload className="h-4 w-4" aria-hidden="true" />
+            Import template file
+          </button>
+          {importStatus && (
+            <div
+              role={importStatus.tone === 'error' ? 'alert' : 'status'}
+              className={clsx('rounded-md p-3 text-left text-sm', {
+                'bg-green-50 text-green-800': importStatus.tone === 'success',
+                'bg-blue-50 text-blue-800': importStatus.tone === 'info',
+                'bg-red-50 text-red-700': importStatus.tone === 'error',
+              })}
+            >
+              <p className="font-medium">{importStatus.message}</p>
+              {importStatus.errors && (
+                <ul className="mt-1 list-disc space-y-0.5 pl-5 text-xs">
+                  {importStatus.errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Selected option summary */}
       {selectedOption && (
@@ -266,6 +371,21 @@ export function TemplateSelector({
                   {selectedOption.template.notes}
                 </p>
               )}
+              {unmapped.length > 0 && (
+                <div className="mt-3 rounded-md bg-amber-50 p-3">
+                  <p className="text-xs font-medium text-amber-800">
+                    {unmapped.length === 1 ? '1 template setting' : `${unmapped.length} template settings`} could not be applied
+                    and will need to be set by hand:
+                  </p>
+                  <ul className="mt-1 list-disc space-y-0.5 pl-5 text-xs text-amber-700">
+                    {unmapped.map((entry) => (
+                      <li key={entry.field}>
+                        <span className="font-mono">{entry.field}</span>: {entry.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           ) : (
             <div className="mt-2">
@@ -1,5 +1,7 @@
 export { PatternPicker } from './PatternPicker';
 export { PatternThumbnail } from './PatternThumbnail';
+export { CustomPatternBuilder } from './CustomPatternBuilder';
+export type { CustomPatternBuilderProps } from './CustomPatternBuilder';
 export { ParentSetup } from './ParentSetup';
 export type { ParentSetupProps, ParentSetupData } from './ParentSetup';
 export { 
@@ -11,8 +11,10 @@ import {
 } from 'react';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import { getTodayDateString } from '../hooks/useCustodyEngine';
-import type { AppState, AppConfig, ParentConfig, PatternType, HolidayState, FamilyInfo, Child, InServiceDayConfig, SchoolType, TrackBreak } from '../types';
+import type { AppState, AppConfig, ParentConfig, PatternType, CalculationMode, HolidayState, FamilyInfo, Child, InServiceDayConfig, SchoolType, TrackBreak, ScheduleException, ThirdPartyBlock, SelectedProvision } from '../types';
 import { createDefaultHolidayConfigs, createDefaultBirthdayConfigs } from '../data/holidays';
+import { addSummerPick, removeLastSummerPick } from '../utils/summerSelection';
+import { restoreStoredState } from '../utils/planFile';
 
 /**
  * Storage key for localStorage persistence.
@@ -20,6 +22,12 @@ import { createDefaultHolidayConfigs, createDefaultBirthdayConfigs } from '../da
  */
 const STORAGE_KEY = 'custody-calculator-state';
 
+/**
+ * Storage key for a saved plan that failed to restore, kept so the defaults
+ * written to STORAGE_KEY do not destroy it.
+ */
+const UNRESTORED_STORAGE_KEY = 'custody-calculator-state-unrestored';
+
 /**
  * Action types for the AppState reducer.
  */
@@ -27,6 +35,9 @@ export type AppStateAction =
   | { type: 'SET_CONFIG'; payload: AppConfig }
   | { type: 'SET_PARENTS'; payload: { parentA: ParentConfig; parentB: ParentConfig } }
   | { type: 'UPDATE_PATTERN'; payload: PatternType }
+  | { type: 'UPDATE_CALCULATION_MODE'; payload: CalculationMode }
+  | { type: 'UPDATE_OVERNIGHT_SETTINGS'; payload: Pick<AppConfig, 'overnightCutoffTime' | 'weightedVisitRuleId'> }
+  | { type: 'UPDATE_DEDUCT_THIRD_PARTY_TIME'; payload: boolean }
   | { type: 'SET_HOLIDAYS'; payload: HolidayState }
   | { type: 'UPDATE_HOLIDAY_CONFIGS'; payload: HolidayState['holidayConfigs'] }
   | { type: 'UPDATE_BIRTHDAYS'; payload: HolidayState['birthdays'] }
@@ -46,6 +57,16 @@ export type AppStateAction =
   | { type: 'CLAIM_TRACK_BREAK_VACATION'; payload: { trackBreakId: string; claimedBy: import('../types').ParentId; claimDate: string; weeks: number } }
   | { type: 'UNCLAIM_TRACK_BREAK_VACATION'; payload: string } // payload is track break id
   | { type: 'SET_TRACK_VACATION_NOTICE_DEADLINE'; payload: number }
+  | { type: 'ADD_SUMMER_PICK'; payload: { year: number; pick: import('../types').SummerVacationPick } }
+  | { type: 'UNDO_SUMMER_PICK'; payload: number } // payload is summer year
+  | { type: 'ADD_SCHEDULE_EXCEPTION'; payload: ScheduleException }
+  | { type: 'UPDATE_SCHEDULE_EXCEPTION'; payload: ScheduleException }
+  | { type: 'REMOVE_SCHEDULE_EXCEPTION'; payload: string } // payload is exception id
+  | { type: 'ADD_THIRD_PARTY_BLOCK'; payload: ThirdPartyBlock }
+  | { type: 'REMOVE_THIRD_PARTY_BLOCK'; payload: string } // payload is block id
+  | { type: 'ADD_PROVISION'; payload: SelectedProvision }
+  | { type: 'UPDATE_PROVISION'; payload: SelectedProvision }
+  | { type: 'REMOVE_PROVISION'; payload: string } // payload is provision id
   | { type: 'RESET' }
   | { type: 'LOAD_STATE'; payload: AppState };
 
@@ -120,6 +141,26 @@ export function appStateReducer(state: AppState, action: AppStateAction): AppSta
         ...state,
         config: { ...state.config, selectedPattern: action.payload },
       };
+    case 'UPDATE_CALCULATION_MODE':
+      return {
+        ...state,
+        config: { ...state.config, calculationMode: action.payload },
+      };
+    case 'UPDATE_OVERNIGHT_SETTINGS':
+      return {
+        ...state,
+        // A cleared time input gives '', which means the default midnight cutoff
+        config: {
+          ...state.config,
+          ...action.payload,
+          overnightCutoffTime: action.payload.overnightCutoffTime || undefined,
+        },
+      };
+    case 'UPDATE_DEDUCT_THIRD_PARTY_TIME':
+      return {
+        ...state,
+        config: { ...state.config, deductThirdPartyTime: action.payload },
+      };
     case 'SET_HOLIDAYS':
       return { ...state, holidays: action.payload };
     case 'UPDATE_HOLIDAY_CONFIGS':
@@ -244,6 +285,92 @@ export function appStateReducer(state: AppState, action: AppStateAction): AppSta
       };
     case 'SET_TRACK_VACATION_NOTICE_DEADLINE':
       return { ...state, trackVacationNoticeDeadline: action.payload };
+    case 'ADD_SUMMER_PICK': {
+      const holidays = state.holidays ?? getDefaultHolidayState();
+      return {
+        ...state,
+        holidays: {
+          ...holidays,
+          summerSelections: addSummerPick(
+            holidays.summerSelections,
+            action.payload.year,
+            action.payload.pick
+          ),
+        },
+      };
+    }
+    case 'UNDO_SUMMER_PICK': {
+      const holidays = state.holidays ?? getDefaultHolidayState();
+      return {
+        ...state,
+        holidays: {
+          ...holidays,
+          summerSelections: removeLastSummerPick(holidays.summerSelections, action.payload),
+        },
+      };
+    }
+    case 'ADD_SCHEDULE_EXCEPTION':
+      return {
+        ...state,
+        scheduleExceptions: state.scheduleExceptions
+          ? [...state.scheduleExceptions, action.payload]
+          : [action.payload],
+      };
+    case 'UPDATE_SCHEDULE_EXCEPTION':
+      return {
+        ...state,
+        scheduleExceptions: state.scheduleExceptions
+          ? state.scheduleExceptions.map((ex) =>
+              ex.id === action.payload.id ? action.payload : ex
+            )
+          : [action.payload],
+      };
+    case 'REMOVE_SCHEDULE_EXCEPTION':
+      return {
+        ...state,
+        scheduleExceptions: state.scheduleExceptions
+          ? state.scheduleExceptions.filter((ex) => ex.id !== action.payload)
+          : [],
+      };
+    case 'ADD_THIRD_PARTY_BLOCK':
+      return {
+        ...state,
+        thirdPartyBlocks: state.thirdPartyBlocks
+          ? [...state.thirdPartyBlocks, action.payload]
+          : [action.payload],
+      };
+    case 'REMOVE_THIRD_PARTY_BLOCK':
+      return {
+        ...state,
+        thirdPartyBlocks: state.thirdPartyBlocks
+          ? state.thirdPartyBlocks.filter((block) => block.id !== action.payload)
+          : [],
+      };
+    case 'ADD_PROVISION':
+      // A provision can only be included once
+      if (state.provisions?.some((p) => p.provisionId === action.payload.provisionId)) {
+        return state;
+      }
+      return {
+        ...state,
+        provisions: state.provisions ? [...state.provisions, action.payload] : [action.payload],
+      };
+    case 'UPDATE_PROVISION':
+      return {
+        ...state,
+        provisions: state.provisions
+          ? state.provisions.map((p) =>
+              p.provisionId === action.payload.provisionId ? action.payload : p
+            )
+          : [action.payload],
+      };
+    case 'REMOVE_PROVISION':
+      return {
+        ...state,
+        provisions: state.provisions
+          ? state.provisions.filter((p) => p.provisionId !== action.payload)
+          : [],
+      };
     case 'RESET':
       return initialAppState;
     case 'LOAD_STATE':
@@ -263,6 +390,10 @@ export interface AppStateContextValue {
   dispatch: Dispatch<AppStateAction>;
   /** Whether state has been loaded from localStorage */
   isLoaded: boolean;
+  /** Why the saved plan could not be restored (empty when it was restored or none was saved) */
+  restoreErrors: string[];
+  /** The last saved plan that could not be restored, exactly as stored, or null */
+  unrestoredPlan: unknown;
 }
 
 /**
@@ -290,23 +421,33 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     null
   );
 
+  // A saved plan that failed to restore, backed up before the defaults are saved over it
+  const [unrestoredPlan, setUnrestoredPlan] = useLocalStorage<unknown>(UNRESTORED_STORAGE_KEY, null);
+
+  // Validate and migrate the stored state once; an unusable save falls back to defaults
+  const [restored] = useState(() => restoreStoredState(storedState));
+  const restoredState = restored.state;
+
   // Initialize reducer with stored state or default
   const [state, dispatch] = useReducer(
     appStateReducer,
-    storedState ?? initialAppState
+    restoredState ?? initialAppState
   );
 
   // Track if initial load is complete
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Load from localStorage on mount (runs once)
-  // Note: storedState is intentionally omitted from deps array because:
+  // Note: restoredState is intentionally omitted from deps array because:
   // 1. It's read synchronously from localStorage on initial render
   // 2. Adding it would cause infinite loops when state changes
   // 3. We only want to load from storage once on mount
   useEffect(() => {
-    if (storedState && !isLoaded) {
-      dispatch({ type: 'LOAD_STATE', payload: storedState });
+    if (restoredState && !isLoaded) {
+      dispatch({ type: 'LOAD_STATE', payload: restoredState });
+    }
+    if (restored.errors.length > 0) {
+      setUnrestoredPlan(storedState);
     }
     setIsLoaded(true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -325,8 +466,10 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
       state,
       dispatch,
       isLoaded,
+      restoreErrors: restored.errors,
+      unrestoredPlan,
     }),
-    [state, isLoaded]
+    [state, isLoaded, restored.errors, unrestoredPlan]
   );
 
   return (
@@ -0,0 +1,251 @@
+/* eslint-disable react-refresh/only-export-components */
+import {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useCallback,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useAppState, initialAppState } from './AppStateContext';
+import {
+  scenarioReducer,
+  initialScenarioStore,
+  getActiveScenario,
+  getCopyName,
+  getNextDraftName,
+  type ScenarioAction,
+} from '../reducers/scenarioReducer';
+import { restoreStoredScenarios } from '../utils/planFile';
+import type { Scenario } from '../types';
+
+/**
+ * Storage key for localStorage persistence of saved scenarios.
+ * The active scenario's plan is also kept under the AppState storage key.
+ */
+const SCENARIO_STORAGE_KEY = 'custody-calculator-scenarios';
+
+/**
+ * Storage key for saved scenarios that could not be restored.
+ */
+const UNRESTORED_SCENARIOS_STORAGE_KEY = 'custody-calculator-scenarios-unrestored';
+
+/**
+ * Name given to the scenario created from the existing plan on first load.
+ */
+const DEFAULT_SCENARIO_NAME = 'Draft A';
+
+/**
+ * Create a unique scenario ID.
+ */
+function createScenarioId(): string {
+  return `scenario-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Context value type for ScenarioContext.
+ */
+export interface ScenarioContextValue {
+  /** Saved scenarios, in creation order */
+  scenarios: Scenario[];
+  /** ID of the scenario being edited */
+  activeScenarioId: string | null;
+  /** Create a new scenario with the same parents and children but a default schedule, and switch to it */
+  createScenario: (name: string) => void;
+  /** Copy a scenario under a new name and switch to the copy */
+  duplicateScenario: (id: string, name?: string) => void;
+  /** Rename a scenario */
+  renameScenario: (id: string, name: string) => void;
+  /** Delete a scenario; the last remaining scenario cannot be deleted */
+  deleteScenario: (id: string) => void;
+  /** Load a scenario into the app state for editing */
+  switchScenario: (id: string) => void;
+  /** Why saved scenarios were dropped on load (empty when all were restored) */
+  restoreErrors: string[];
+  /** The last saved scenarios that could not be restored, exactly as stored, or null */
+  unrestoredScenarios: unknown;
+}
+
+/**
+ * Context for named scenario management.
+ */
+const ScenarioContext = createContext<ScenarioContextValue | undefined>(undefined);
+
+/**
+ * Props for ScenarioProvider component.
+ */
+export interface ScenarioProviderProps {
+  /** Child components that will have access to scenarios */
+  children: ReactNode;
+}
+
+/**
+ * Provider component for named scenarios ("Draft A", "Draft B", ...).
+ * Must be rendered inside an AppStateProvider: the active scenario is the plan
+ * in AppState, edits are saved back into it, and switching scenarios loads the
+ * chosen plan into AppState.
+ */
+export function ScenarioProvider({ children }: ScenarioProviderProps) {
+  const { state: appState, dispatch: dispatchAppState, isLoaded } = useAppState();
+
+  const [storedStore, setStoredStore] = useLocalStorage<unknown>(SCENARIO_STORAGE_KEY, null);
+
+  // Saved scenarios that failed to restore, backed up before the rest are saved over them
+  const [unrestoredScenarios, setUnrestoredScenarios] = useLocalStorage<unknown>(
+    UNRESTORED_SCENARIOS_STORAGE_KEY,
+    null
+  );
+
+  // Validate and migrate the stored scenarios once; unusable ones are dropped
+  const [restored] = useState(() => restoreStoredScenarios(storedStore));
+  const [store, dispatch] = useReducer(scenarioReducer, restored.store ?? initialScenarioStore);
+
+  useEffect(() => {
+    if (restored.errors.length > 0) {
+      setUnrestoredScenarios(restored.dropped);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Keep the existing plan as a scenario when none is active (first load, or
+  // the active scenario could not be restored)
+  useEffect(() => {
+    if (isLoaded && store.activeScenarioId === null) {
+      dispatch({
+        type: 'CREATE_SCENARIO',
+        payload: {
+          id: createScenarioId(),
+          name: store.scenarios.length === 0 ? DEFAULT_SCENARIO_NAME : getNextDraftName(store.scenarios),
+          state: appState,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+    }
+  }, [isLoaded, store.activeScenarioId, store.scenarios, appState]);
+
+  // Save edits to the active scenario
+  useEffect(() => {
+    if (isLoaded) {
+      dispatch({
+        type: 'SAVE_ACTIVE_STATE',
+        payload: { state: appState, updatedAt: new Date().toISOString() },
+      });
+    }
+  }, [appState, isLoaded]);
+
+  // Persist scenarios to localStorage
+  useEffect(() => {
+    if (isLoaded) {
+      setStoredStore(store);
+    }
+  }, [store, isLoaded, setStoredStore]);
+
+  // Apply an action and load the newly active scenario's plan when it changes
+  const applyAction = useCallback(
+    (action: ScenarioAction) => {
+      const next = scenarioReducer(store, action);
+      dispatch(action);
+      const nextActive = getActiveScenario(next);
+      if (nextActive && next.activeScenarioId !== store.activeScenarioId) {
+        dispatchAppState({ type: 'LOAD_STATE', payload: nextActive.state });
+      }
+    },
+    [store, dispatchAppState]
+  );
+
+  const createScenario = useCallback(
+    (name: string) => {
+      applyAction({
+        type: 'CREATE_SCENARIO',
+        payload: {
+          id: createScenarioId(),
+          name,
+          state: { ...initialAppState, parents: appState.parents, familyInfo: appState.familyInfo },
+          updatedAt: new Date().toISOString(),
+        },
+      });
+    },
+    [applyAction, appState.parents, appState.familyInfo]
+  );
+
+  const duplicateScenario = useCallback(
+    (id: string, name?: string) => {
+      const source = store.scenarios.find((s) => s.id === id);
+      if (!source) return;
+      applyAction({
+        type: 'DUPLICATE_SCENARIO',
+        payload: {
+          sourceId: id,
+          id: createScenarioId(),
+          name: name ?? getCopyName(source.name, store.scenarios),
+          updatedAt: new Date().toISOString(),
+        },
+      });
+    },
+    [applyAction, store.scenarios]
+  );
+
+  const renameScenario = useCallback(
+    (id: string, name: string) => applyAction({ type: 'RENAME_SCENARIO', payload: { id, name } }),
+    [applyAction]
+  );
+
+  const deleteScenario = useCallback(
+    (id: string) => applyAction({ type: 'DELETE_SCENARIO', payload: id }),
+    [applyAction]
+  );
+
+  const switchScenario = useCallback(
+    (id: string) => applyAction({ type: 'SWITCH_SCENARIO', payload: id }),
+    [applyAction]
+  );
+
+  // Memoize context value to prevent unnecessary re-renders
+  const contextValue = useMemo<ScenarioContextValue>(
+    () => ({
+      scenarios: store.scenarios,
+      activeScenarioId: store.activeScenarioId,
+      createScenario,
+      duplicateScenario,
+      renameScenario,
+      deleteScenario,
+      switchScenario,
+      restoreErrors: restored.errors,
+      unrestoredScenarios,
+    }),
+    [
+      store,
+      createScenario,
+      duplicateScenario,
+      renameScenario,
+      deleteScenario,
+      switchScenario,
+      restored.errors,
+      unrestoredScenarios,
+    ]
+  );
+
+  return (
+    <ScenarioContext.Provider value={contextValue}>
+      {children}
+    </ScenarioContext.Provider>
+  );
+}
+
+/**
+ * Hook to access saved scenarios and scenario operations.
+ * Must be used within a ScenarioProvider.
+ *
+ * @throws Error if used outside of ScenarioProvider
+ * @returns ScenarioContextValue with scenarios and operations
+ */
+export function useScenarios(): ScenarioContextValue {
+  const context = useContext(ScenarioContext);
+  if (context === undefined) {
+    throw new Error('useScenarios must be used within a ScenarioProvider');
+  }
+  return context;
+}
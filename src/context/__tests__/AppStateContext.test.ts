@@ -1,7 +1,7 @@
 import { describe, test, expect } from 'vitest';
 import { appStateReducer, initialAppState } from '../AppStateContext';
 import type { AppStateAction } from '../AppStateContext';
-import type { AppState, AppConfig, ParentConfig, PatternType, Child, FamilyInfo, TrackBreak } from '../../types';
+import type { AppState, AppConfig, ParentConfig, PatternType, Child, FamilyInfo, TrackBreak, ScheduleException, ThirdPartyBlock, SelectedProvision } from '../../types';
 
 describe('AppStateContext', () => {
   describe('initialAppState', () => {
@@ -156,6 +156,41 @@ describe('AppStateContext', () => {
       });
     });
 
+    describe('UPDATE_CALCULATION_MODE action', () => {
+      test('updates only calculationMode in config', () => {
+        const action: AppStateAction = { type: 'UPDATE_CALCULATION_MODE', payload: 'duration' };
+        const newState = appStateReducer(initialAppState, action);
+
+        expect(newState.config.calculationMode).toBe('duration');
+        expect(newState.config.selectedPattern).toBe(initialAppState.config.selectedPattern);
+        expect(newState.config.exchangeTime).toBe(initialAppState.config.exchangeTime);
+      });
+    });
+
+    describe('UPDATE_OVERNIGHT_SETTINGS action', () => {
+      test('updates the overnight cutoff and weighted visit rule', () => {
+        const action: AppStateAction = {
+          type: 'UPDATE_OVERNIGHT_SETTINGS',
+          payload: { overnightCutoffTime: '21:00', weightedVisitRuleId: 'virginia' },
+        };
+        const newState = appStateReducer(initialAppState, action);
+
+        expect(newState.config.overnightCutoffTime).toBe('21:00');
+        expect(newState.config.weightedVisitRuleId).toBe('virginia');
+        expect(newState.config.selectedPattern).toBe(initialAppState.config.selectedPattern);
+      });
+
+      test('clears the overnight cutoff when the time input is emptied', () => {
+        const withCutoff = { ...initialAppState, config: { ...initialAppState.config, overnightCutoffTime: '21:00' } };
+        const newState = appStateReducer(withCutoff, {
+          type: 'UPDATE_OVERNIGHT_SETTINGS',
+          payload: { overnightCutoffTime: '' },
+        });
+
+        expect(newState.config.overnightCutoffTime).toBeUndefined();
+      });
+    });
+
     describe('RESET action', () => {
       test('resets state to initialAppState', () => {
         const customState: AppState = {
@@ -429,10 +464,14 @@ describe('AppStateContext', () => {
         state: initialAppState,
         dispatch: () => {},
         isLoaded: true,
+        restoreErrors: [],
+        unrestoredPlan: null,
       };
       expect(contextShape).toHaveProperty('state');
       expect(contextShape).toHaveProperty('dispatch');
       expect(contextShape).toHaveProperty('isLoaded');
+      expect(contextShape).toHaveProperty('restoreErrors');
+      expect(contextShape).toHaveProperty('unrestoredPlan');
     });
   });
 
@@ -680,3 +719,113 @@ describe('Track Break Actions', () => {
     });
   });
 });
+
+describe('Summer Vacation Pick Actions', () => {
+  const pick = {
+    parent: 'parentB' as const,
+    startDate: '2025-06-08',
+    weeks: 2,
+    pickedOn: '2025-03-01',
+  };
+
+  test('ADD_SUMMER_PICK records a pick for the year', () => {
+    const newState = appStateReducer(initialAppState, {
+      type: 'ADD_SUMMER_PICK',
+      payload: { year: 2025, pick },
+    });
+    expect(newState.holidays?.summerSelections).toEqual([{ year: 2025, picks: [pick] }]);
+    expect(newState.holidays?.holidayConfigs).toBe(initialAppState.holidays?.holidayConfigs);
+  });
+
+  test('UNDO_SUMMER_PICK removes the most recent pick for the year', () => {
+    const withPick = appStateReducer(initialAppState, {
+      type: 'ADD_SUMMER_PICK',
+      payload: { year: 2025, pick },
+    });
+    const newState = appStateReducer(withPick, { type: 'UNDO_SUMMER_PICK', payload: 2025 });
+    expect(newState.holidays?.summerSelections).toEqual([{ year: 2025, picks: [] }]);
+  });
+});
+
+describe('Schedule Exception Actions', () => {
+  const exception: ScheduleException = {
+    id: 'exception-1',
+    startDate: '2025-11-27',
+    endDate: '2025-11-30',
+    parent: 'parentB',
+    reason: 'Swap Thanksgiving this year only',
+  };
+
+  test('ADD_SCHEDULE_EXCEPTION appends an exception', () => {
+    const newState = appStateReducer(initialAppState, { type: 'ADD_SCHEDULE_EXCEPTION', payload: exception });
+    expect(newState.scheduleExceptions).toEqual([exception]);
+  });
+
+  test('UPDATE_SCHEDULE_EXCEPTION replaces the exception with the same id', () => {
+    const withException = appStateReducer(initialAppState, { type: 'ADD_SCHEDULE_EXCEPTION', payload: exception });
+    const updated = { ...exception, reason: 'Family wedding' };
+    const newState = appStateReducer(withException, { type: 'UPDATE_SCHEDULE_EXCEPTION', payload: updated });
+    expect(newState.scheduleExceptions).toEqual([updated]);
+  });
+
+  test('REMOVE_SCHEDULE_EXCEPTION removes the exception by id', () => {
+    const withException = appStateReducer(initialAppState, { type: 'ADD_SCHEDULE_EXCEPTION', payload: exception });
+    const newState = appStateReducer(withException, { type: 'REMOVE_SCHEDULE_EXCEPTION', payload: 'exception-1' });
+    expect(newState.scheduleExceptions).toEqual([]);
+  });
+});
+
+describe('Third-Party Time Actions', () => {
+  const block: ThirdPartyBlock = {
+    id: 'school',
+    label: 'School',
+    weekdays: [1, 2, 3, 4, 5],
+    startTime: '08:00',
+    endTime: '15:00',
+    followsSchoolCalendar: true,
+  };
+
+  test('ADD_THIRD_PARTY_BLOCK appends a block', () => {
+    const newState = appStateReducer(initialAppState, { type: 'ADD_THIRD_PARTY_BLOCK', payload: block });
+    expect(newState.thirdPartyBlocks).toEqual([block]);
+  });
+
+  test('REMOVE_THIRD_PARTY_BLOCK removes the block by id', () => {
+    const withBlock = appStateReducer(initialAppState, { type: 'ADD_THIRD_PARTY_BLOCK', payload: block });
+    const newState = appStateReducer(withBlock, { type: 'REMOVE_THIRD_PARTY_BLOCK', payload: 'school' });
+    expect(newState.thirdPartyBlocks).toEqual([]);
+  });
+
+  test('UPDATE_DEDUCT_THIRD_PARTY_TIME sets the deduction on the config', () => {
+    const newState = appStateReducer(initialAppState, { type: 'UPDATE_DEDUCT_THIRD_PARTY_TIME', payload: true });
+    expect(newState.config.deductThirdPartyTime).toBe(true);
+    expect(newState.config.exchangeTime).toBe(initialAppState.config.exchangeTime);
+  });
+});
+
+describe('Provision Actions', () => {
+  const provision: SelectedProvision = {
+    provisionId: 'exchange-location',
+    values: { exchangeLocation: 'the police station' },
+  };
+
+  test('ADD_PROVISION appends a provision once', () => {
+    const withProvision = appStateReducer(initialAppState, { type: 'ADD_PROVISION', payload: provision });
+    expect(withProvision.provisions).toEqual([provision]);
+    const again = appStateReducer(withProvision, { type: 'ADD_PROVISION', payload: { ...provision, values: {} } });
+    expect(again).toBe(withProvision);
+  });
+
+  test('UPDATE_PROVISION replaces the values of the same provision', () => {
+    const withProvision = appStateReducer(initialAppState, { type: 'ADD_PROVISION', payload: provision });
+    const updated = { ...provision, values: { exchangeLocation: 'the school' } };
+    const newState = appStateReducer(withProvision, { type: 'UPDATE_PROVISION', payload: updated });
+    expect(newState.provisions).toEqual([updated]);
+  });
+
+  test('REMOVE_PROVISION removes the provision by id', () => {
+    const withProvision = appStateReducer(initialAppState, { type: 'ADD_PROVISION', payload: provision });
+    const newState = appStateReducer(withProvision, { type: 'REMOVE_PROVISION', payload: 'exchange-location' });
+    expect(newState.provisions).toEqual([]);
+  });
+});
@@ -5,3 +5,7 @@ export { convertWizardToAppState } from '../reducers/wizardReducer';
 
 export { AppStateProvider, useAppState, appStateReducer, initialAppState } from './AppStateContext';
 export type { AppStateProviderProps, AppStateContextValue, AppStateAction } from './AppStateContext';
+
+export { ScenarioProvider, useScenarios } from './ScenarioContext';
+export type { ScenarioProviderProps, ScenarioContextValue } from './ScenarioContext';
+export type { ScenarioAction } from '../reducers/scenarioReducer';
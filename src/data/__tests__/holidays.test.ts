@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { getHolidayDates, getHolidayById, WEEKEND_HOLIDAYS } from '../holidays';
+import { getHolidayDates, getHolidayById, supportsExpansionRule, WEEKEND_HOLIDAYS } from '../holidays';
 
 describe('Holiday Date Calculations with Expansion Rules', () => {
   describe('Independence Day (July 4th) Expansion', () => {
@@ -142,6 +142,51 @@ describe('Holiday Date Calculations with Expansion Rules', () => {
     });
   });
 
+  describe('Date overrides', () => {
+    test('uses the override for its year instead of the calculated dates', () => {
+      const holiday = getHolidayById('spring-break')!;
+      const overrides = [{ year: 2026, startDate: '2026-03-30', endDate: '2026-04-03' }];
+      expect(getHolidayDates(holiday, 2026, overrides)).toEqual([
+        '2026-03-30',
+        '2026-03-31',
+        '2026-04-01',
+        '2026-04-02',
+        '2026-04-03',
+      ]);
+      expect(getHolidayDates(holiday, 2027, overrides)).toEqual(getHolidayDates(holiday, 2027));
+    });
+  });
+
+  describe('User expansion rules', () => {
+    test('replace the built-in rule', () => {
+      const holiday = getHolidayById('independence-day')!;
+      // July 4, 2027 is a Sunday
+      expect(getHolidayDates(holiday, 2027, undefined, { type: 'weekend-adjacent', expandTo: 'include-monday' })).toEqual([
+        '2027-07-04',
+        '2027-07-05',
+      ]);
+    });
+
+    test('apply to holidays without a built-in rule', () => {
+      const holiday = getHolidayById('memorial-day')!;
+      // Memorial Day 2026 is Monday, May 25
+      expect(getHolidayDates(holiday, 2026, undefined, { type: 'always', days: 1 })).toEqual(['2026-05-25']);
+    });
+
+    test('yield to a date override for the year', () => {
+      const holiday = getHolidayById('memorial-day')!;
+      const overrides = [{ year: 2026, startDate: '2026-05-22', endDate: '2026-05-25' }];
+      expect(getHolidayDates(holiday, 2026, overrides, { type: 'always', days: 1 })).toHaveLength(4);
+    });
+
+    test('only apply to holidays with a single date', () => {
+      expect(supportsExpansionRule(getHolidayById('independence-day')!)).toBe(true);
+      expect(supportsExpansionRule(getHolidayById('thanksgiving')!)).toBe(true);
+      expect(supportsExpansionRule(getHolidayById('spring-break')!)).toBe(false);
+      expect(supportsExpansionRule(getHolidayById('winter-break')!)).toBe(false);
+    });
+  });
+
   describe('getHolidayById', () => {
     test('independence-day exists and is configured correctly', () => {
       const holiday = getHolidayById('independence-day');
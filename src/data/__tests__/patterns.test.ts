@@ -1,5 +1,17 @@
 import { describe, test, expect } from 'vitest';
-import { PATTERNS, getPatternGroups, getPatternByType } from '../patterns';
+import {
+  PATTERNS,
+  getPatternGroups,
+  getPatternByType,
+  createCustomPattern,
+  clampCustomPatternLength,
+  resizeCustomPattern,
+  toggleCustomPatternDay,
+  isValidCustomPattern,
+  getCustomPatternPercentages,
+  CUSTOM_PATTERN_MIN_LENGTH,
+  CUSTOM_PATTERN_MAX_LENGTH,
+} from '../patterns';
 
 describe('patterns data', () => {
   test('PATTERNS contains all 9 supported patterns', () => {
@@ -107,3 +119,44 @@ describe('getPatternByType', () => {
     expect(pattern?.split).toBe('Custom');
   });
 });
+
+describe('custom pattern helpers', () => {
+  test('createCustomPattern splits the cycle in half', () => {
+    expect(createCustomPattern(4)).toEqual(['A', 'A', 'B', 'B']);
+    expect(createCustomPattern(21).filter((p) => p === 'A').length).toBe(11);
+  });
+
+  test('createCustomPattern defaults to a 14-day cycle', () => {
+    expect(createCustomPattern()).toHaveLength(14);
+  });
+
+  test('clampCustomPatternLength keeps lengths in range', () => {
+    expect(clampCustomPatternLength(0)).toBe(CUSTOM_PATTERN_MIN_LENGTH);
+    expect(clampCustomPatternLength(500)).toBe(CUSTOM_PATTERN_MAX_LENGTH);
+    expect(clampCustomPatternLength(21.4)).toBe(21);
+    expect(clampCustomPatternLength(NaN)).toBe(14);
+  });
+
+  test('resizeCustomPattern preserves existing days and repeats the cycle', () => {
+    expect(resizeCustomPattern(['A', 'B', 'B'], 6)).toEqual(['A', 'B', 'B', 'A', 'B', 'B']);
+    expect(resizeCustomPattern(['A', 'A', 'B', 'B'], 2)).toEqual(['A', 'A']);
+  });
+
+  test('toggleCustomPatternDay flips only the selected day', () => {
+    expect(toggleCustomPatternDay(['A', 'A', 'B'], 1)).toEqual(['A', 'B', 'B']);
+    expect(toggleCustomPatternDay(['A', 'A', 'B'], 2)).toEqual(['A', 'A', 'A']);
+  });
+
+  test('isValidCustomPattern rejects empty, too short, or malformed cycles', () => {
+    expect(isValidCustomPattern(undefined)).toBe(false);
+    expect(isValidCustomPattern([])).toBe(false);
+    expect(isValidCustomPattern(['A'])).toBe(false);
+    expect(isValidCustomPattern(['A', 'C' as 'A'])).toBe(false);
+    expect(isValidCustomPattern(createCustomPattern(28))).toBe(true);
+  });
+
+  test('getCustomPatternPercentages reports the cycle split', () => {
+    expect(getCustomPatternPercentages(['A', 'A', 'A', 'B'])).toEqual({ parentA: 75, parentB: 25 });
+    expect(getCustomPatternPercentages(createCustomPattern(21))).toEqual({ parentA: 52.38, parentB: 47.62 });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import {
+  PROVISIONS,
+  PROVISION_CATEGORIES,
+  getProvisionById,
+  getProvisionsByJurisdiction,
+  getProvisionJurisdictions,
+} from '../provisions';
+import { getPlaceholderNames } from '../../utils/provisions';
+
+describe('provisions data', () => {
+  test('provision IDs are unique', () => {
+    const ids = PROVISIONS.map((provision) => provision.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  test('every category has provisions', () => {
+    for (const category of PROVISION_CATEGORIES) {
+      expect(PROVISIONS.some((provision) => provision.category === category.id)).toBe(true);
+    }
+  });
+
+  test('declared variables match the placeholders in the text', () => {
+    for (const provision of PROVISIONS) {
+      expect(provision.variables.map((variable) => variable.name)).toEqual(getPlaceholderNames(provision.text));
+    }
+  });
+
+  test('getProvisionById finds a provision', () => {
+    expect(getProvisionById('right-of-first-refusal')?.category).toBe('right-of-first-refusal');
+    expect(getProvisionById('unknown')).toBeUndefined();
+  });
+});
+
+describe('getProvisionsByJurisdiction', () => {
+  test('returns every provision without a jurisdiction', () => {
+    expect(getProvisionsByJurisdiction()).toBe(PROVISIONS);
+  });
+
+  test('includes general provisions and those for a matching court', () => {
+    const nevada = getProvisionsByJurisdiction('Nevada 8th District Court (Clark County)');
+    expect(nevada.map((provision) => provision.id)).toContain('nevada-relocation');
+    expect(nevada.map((provision) => provision.id)).toContain('travel-notice');
+
+    const elsewhere = getProvisionsByJurisdiction('Arizona');
+    expect(elsewhere.map((provision) => provision.id)).not.toContain('nevada-relocation');
+    expect(elsewhere.every((provision) => !provision.jurisdiction)).toBe(true);
+  });
+
+  test('lists the jurisdictions with their own provisions', () => {
+    expect(getProvisionJurisdictions()).toEqual(['Nevada']);
+  });
+});
@@ -5,7 +5,9 @@ import type {
   HolidayPreset,
   HolidayPresetType,
   HolidayUserConfig,
+  HolidayDateOverride,
   BirthdayConfig,
+  ExpansionRule,
 } from '../types/holidays';
 import { getExpandedHolidayDates, getExpansionRuleForHoliday } from '../utils/holidayExpansion';
 
@@ -514,12 +516,38 @@ export function calculateLastWeekday(year: number, month: number, weekday: numbe
  * 
  * This function applies conditional expansion rules for holidays that depend
  * on what day of week they fall on (e.g., July 4th, Veterans Day).
+ * A date override for the year replaces the calculation entirely, and a
+ * user-defined expansion rule replaces the holiday's built-in rule (holidays
+ * that cover a date range have no single date to expand and ignore rules; see
+ * supportsExpansionRule).
+ *
+ * @param holiday - The holiday definition
+ * @param year - Year the occurrence starts in
+ * @param dateOverrides - Optional per-year dates from the user's holiday config
+ * @param userExpansionRule - Optional expansion rule from the user's holiday config
  */
-export function getHolidayDates(holiday: HolidayDefinition, year: number): string[] {
+export function getHolidayDates(
+  holiday: HolidayDefinition,
+  year: number,
+  dateOverrides?: HolidayDateOverride[],
+  userExpansionRule?: ExpansionRule
+): string[] {
   const { dateCalculation, durationDays, id } = holiday;
+
+  const dateOverride = dateOverrides?.find((override) => override.year === year);
+  if (dateOverride) {
+    const dates: string[] = [];
+    const currentDate = new Date(dateOverride.startDate + 'T00:00:00');
+    const end = new Date(dateOverride.endDate + 'T00:00:00');
+    while (currentDate <= end) {
+      dates.push(currentDate.toISOString().split('T')[0]);
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+    return dates;
+  }
   
-  // Check if this holiday has a conditional expansion rule
-  const expansionRule = getExpansionRuleForHoliday(id);
+  // Check if the user or this holiday has a conditional expansion rule
+  const expansionRule = userExpansionRule ?? getExpansionRuleForHoliday(id);
   
   // For holidays with expansion rules (like July 4, Veterans Day, Halloween),
   // calculate the base date first, then apply the expansion rule
@@ -607,11 +635,28 @@ function getHolidayBaseDate(dateCalculation: HolidayDefinition['dateCalculation'
   }
 }
 
+/**
+ * Whether an expansion rule can apply to a holiday. Rules grow a holiday from
+ * its single calculated date; holidays that cover a date range (e.g., Spring
+ * Break) are moved with date overrides instead.
+ */
+export function supportsExpansionRule(holiday: HolidayDefinition): boolean {
+  const { type } = holiday.dateCalculation;
+  return type === 'fixed' || type === 'nth-weekday' || type === 'last-weekday';
+}
+
 /**
  * Calculate the display date string for a holiday in the current year.
+ * Per-year date overrides and the expansion rule from the user's holiday
+ * config take precedence.
  */
-export function getHolidayDisplayDate(holiday: HolidayDefinition, year: number = new Date().getFullYear()): string {
-  const dates = getHolidayDates(holiday, year);
+export function getHolidayDisplayDate(
+  holiday: HolidayDefinition,
+  year: number = new Date().getFullYear(),
+  dateOverrides?: HolidayDateOverride[],
+  expansionRule?: ExpansionRule
+): string {
+  const dates = getHolidayDates(holiday, year, dateOverrides, expansionRule);
   if (dates.length === 0) return 'Date not set';
   
   const formatDate = (dateStr: string): string => {
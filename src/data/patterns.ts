@@ -169,3 +169,80 @@ export function getSplitPercentages(split: SplitType | null | undefined): { pare
   }
   return SPLIT_PERCENTAGES[split];
 }
+
+// ============================================================================
+// Custom Pattern Helpers
+// ============================================================================
+
+/**
+ * Minimum number of days in a custom repeating cycle.
+ */
+export const CUSTOM_PATTERN_MIN_LENGTH = 2;
+
+/**
+ * Maximum number of days in a custom repeating cycle (8 weeks).
+ */
+export const CUSTOM_PATTERN_MAX_LENGTH = 56;
+
+/**
+ * Default cycle length when the custom builder is first opened.
+ */
+export const CUSTOM_PATTERN_DEFAULT_LENGTH = 14;
+
+/**
+ * Create a starter custom pattern of the given length.
+ * The first half of the cycle goes to 'A', the second half to 'B'.
+ */
+export function createCustomPattern(length: number = CUSTOM_PATTERN_DEFAULT_LENGTH): PatternParent[] {
+  const clamped = clampCustomPatternLength(length);
+  const half = Math.ceil(clamped / 2);
+  return Array.from({ length: clamped }, (_, i) => (i < half ? 'A' : 'B'));
+}
+
+/**
+ * Clamp a requested cycle length into the supported range.
+ */
+export function clampCustomPatternLength(length: number): number {
+  if (!Number.isFinite(length)) return CUSTOM_PATTERN_DEFAULT_LENGTH;
+  return Math.min(CUSTOM_PATTERN_MAX_LENGTH, Math.max(CUSTOM_PATTERN_MIN_LENGTH, Math.round(length)));
+}
+
+/**
+ * Resize a custom pattern, preserving existing days.
+ * New days are filled by repeating the existing cycle from the start.
+ */
+export function resizeCustomPattern(pattern: PatternParent[], length: number): PatternParent[] {
+  const clamped = clampCustomPatternLength(length);
+  if (pattern.length === 0) return createCustomPattern(clamped);
+  return Array.from({ length: clamped }, (_, i) => pattern[i % pattern.length]);
+}
+
+/**
+ * Flip a single day of a custom pattern between 'A' and 'B'.
+ */
+export function toggleCustomPatternDay(pattern: PatternParent[], index: number): PatternParent[] {
+  return pattern.map((p, i) => (i === index ? (p === 'A' ? 'B' : 'A') : p));
+}
+
+/**
+ * Check whether a custom pattern can drive the custody engine.
+ */
+export function isValidCustomPattern(pattern: PatternParent[] | undefined): pattern is PatternParent[] {
+  return (
+    Array.isArray(pattern) &&
+    pattern.length >= CUSTOM_PATTERN_MIN_LENGTH &&
+    pattern.length <= CUSTOM_PATTERN_MAX_LENGTH &&
+    pattern.every((p) => p === 'A' || p === 'B')
+  );
+}
+
+/**
+ * Get the percentage split of a custom pattern.
+ * Percentages are rounded to 2 decimal places and relative to the starting parent ('A').
+ */
+export function getCustomPatternPercentages(pattern: PatternParent[]): { parentA: number; parentB: number } {
+  if (pattern.length === 0) return SPLIT_PERCENTAGES['Custom'];
+  const aDays = pattern.filter((p) => p === 'A').length;
+  const parentA = Math.round((aDays / pattern.length) * 10000) / 100;
+  return { parentA, parentB: Math.round((100 - parentA) * 100) / 100 };
+}
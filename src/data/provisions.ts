@@ -0,0 +1,213 @@
+import type { ProvisionCategory } from '../types';
+
+/**
+ * A value the user fills into a provision's {{variable}} placeholder.
+ */
+export interface ProvisionVariable {
+  /** Placeholder name used in the text (e.g., "exchangeLocation") */
+  name: string;
+  /** Input label */
+  label: string;
+  /** Example value shown in the empty input */
+  placeholder: string;
+}
+
+/**
+ * A standard parenting plan provision.
+ */
+export interface ProvisionDefinition {
+  /** Unique provision identifier */
+  id: string;
+  /** Category the provision is grouped under */
+  category: ProvisionCategory;
+  /** Short title, printed before the provision text */
+  title: string;
+  /** Provision text with {{variable}} placeholders */
+  text: string;
+  /** Placeholders in the text, in the order they are asked for */
+  variables: ProvisionVariable[];
+  /** Jurisdiction the provision is written for; general provisions leave this unset */
+  jurisdiction?: string;
+}
+
+/**
+ * Provision categories in the order they appear in the plan document.
+ */
+export const PROVISION_CATEGORIES: { id: ProvisionCategory; label: string }[] = [
+  { id: 'legal-custody', label: 'Legal Custody and Decision Making' },
+  { id: 'exchange', label: 'Exchange Location' },
+  { id: 'communication', label: 'Communication' },
+  { id: 'right-of-first-refusal', label: 'Right of First Refusal' },
+  { id: 'relocation-travel', label: 'Relocation and Travel' },
+];
+
+/**
+ * The provision library.
+ */
+export const PROVISIONS: ProvisionDefinition[] = [
+  // Legal custody and decision making
+  {
+    id: 'joint-legal-custody',
+    category: 'legal-custody',
+    title: 'Joint Legal Custody',
+    text: "The parents shall share joint legal custody of the children. The parents shall confer in good faith on major decisions about the children's education, non-emergency health care and religious upbringing. If the parents cannot agree within {{conferralDays}} days, either parent may request mediation with {{mediator}} before asking the court to decide.",
+    variables: [
+      { name: 'conferralDays', label: 'Days to reach agreement', placeholder: '14' },
+      { name: 'mediator', label: 'Mediator', placeholder: 'a mutually agreed mediator' },
+    ],
+  },
+  {
+    id: 'sole-legal-custody',
+    category: 'legal-custody',
+    title: 'Sole Legal Custody',
+    text: "{{decisionMaker}} shall have sole legal custody of the children and shall make major decisions about the children's education, health care and religious upbringing, informing the other parent of each decision within {{noticeDays}} days.",
+    variables: [
+      { name: 'decisionMaker', label: 'Parent with legal custody', placeholder: 'The Mother' },
+      { name: 'noticeDays', label: 'Days to inform the other parent', placeholder: '7' },
+    ],
+  },
+  {
+    id: 'emergency-decisions',
+    category: 'legal-custody',
+    title: 'Emergency Decisions',
+    text: "Either parent may make emergency decisions about the children's health or safety while the children are in that parent's care. That parent shall notify the other parent as soon as possible, and no later than {{noticeHours}} hours after the decision.",
+    variables: [
+      { name: 'noticeHours', label: 'Hours to notify the other parent', placeholder: '24' },
+    ],
+  },
+  // Exchanges
+  {
+    id: 'exchange-location',
+    category: 'exchange',
+    title: 'Place of Exchange',
+    text: 'Unless the parents agree otherwise in writing, exchanges shall take place at {{exchangeLocation}}.',
+    variables: [
+      { name: 'exchangeLocation', label: 'Exchange location', placeholder: "the Father's residence" },
+    ],
+  },
+  {
+    id: 'school-exchanges',
+    category: 'exchange',
+    title: 'School Exchanges',
+    text: 'When school is in session on an exchange day, the receiving parent shall pick the children up from {{schoolName}} at the end of the school day, and that pickup is the exchange.',
+    variables: [
+      { name: 'schoolName', label: 'School', placeholder: "the children's school" },
+    ],
+  },
+  {
+    id: 'exchange-delays',
+    category: 'exchange',
+    title: 'Late Arrival',
+    text: 'A parent who expects to be more than {{graceMinutes}} minutes late to an exchange shall notify the other parent as soon as possible. The waiting parent is not required to wait more than {{waitMinutes}} minutes after the exchange time unless notified.',
+    variables: [
+      { name: 'graceMinutes', label: 'Minutes before notice is required', placeholder: '15' },
+      { name: 'waitMinutes', label: 'Minutes the other parent must wait', placeholder: '45' },
+    ],
+  },
+  // Communication
+  {
+    id: 'parent-communication',
+    category: 'communication',
+    title: 'Communication Between Parents',
+    text: 'The parents shall communicate about the children through {{communicationMethod}} and shall respond to non-urgent messages within {{responseHours}} hours.',
+    variables: [
+      { name: 'communicationMethod', label: 'Communication method', placeholder: 'a co-parenting app' },
+      { name: 'responseHours', label: 'Hours to respond', placeholder: '24' },
+    ],
+  },
+  {
+    id: 'child-contact',
+    category: 'communication',
+    title: 'Contact With the Children',
+    text: 'The children may have telephone or video contact with the other parent at least {{callsPerWeek}} times per week, between {{callWindow}}.',
+    variables: [
+      { name: 'callsPerWeek', label: 'Calls per week', placeholder: '3' },
+      { name: 'callWindow', label: 'Call window', placeholder: '6:00 PM and 8:00 PM' },
+    ],
+  },
+  {
+    id: 'no-disparagement',
+    category: 'communication',
+    title: 'No Disparagement',
+    text: 'Neither parent shall speak negatively about the other parent, or allow others to do so, in the presence of the children. Neither parent shall use the children to carry messages between the parents.',
+    variables: [],
+  },
+  // Right of first refusal
+  {
+    id: 'right-of-first-refusal',
+    category: 'right-of-first-refusal',
+    title: 'Right of First Refusal',
+    text: "If a parent will be unable to care for the children for more than {{thresholdHours}} hours during that parent's custodial time, that parent shall first offer the other parent the opportunity to care for the children before arranging other child care. The other parent shall accept or decline within {{replyHours}} hours.",
+    variables: [
+      { name: 'thresholdHours', label: 'Hours away before offering', placeholder: '4' },
+      { name: 'replyHours', label: 'Hours to accept or decline', placeholder: '2' },
+    ],
+  },
+  // Relocation and travel
+  {
+    id: 'travel-notice',
+    category: 'relocation-travel',
+    title: 'Travel Notice',
+    text: "A parent who plans to travel overnight with the children outside {{travelArea}} shall give the other parent at least {{noticeDays}} days' written notice, including the itinerary, lodging and a contact telephone number.",
+    variables: [
+      { name: 'travelArea', label: 'Home area', placeholder: 'Clark County' },
+      { name: 'noticeDays', label: 'Days of notice', placeholder: '14' },
+    ],
+  },
+  {
+    id: 'international-travel',
+    category: 'relocation-travel',
+    title: 'International Travel',
+    text: "Neither parent shall take the children outside the United States without the other parent's written consent, which shall not be unreasonably withheld. {{passportHolder}} shall keep the children's passports and shall provide them for approved travel.",
+    variables: [
+      { name: 'passportHolder', label: 'Parent who keeps the passports', placeholder: 'The Father' },
+    ],
+  },
+  {
+    id: 'change-of-residence',
+    category: 'relocation-travel',
+    title: 'Change of Residence',
+    text: "A parent who intends to change residence shall give the other parent at least {{noticeDays}} days' written notice of the new address.",
+    variables: [
+      { name: 'noticeDays', label: 'Days of notice', placeholder: '30' },
+    ],
+  },
+  {
+    id: 'nevada-relocation',
+    category: 'relocation-travel',
+    title: 'Relocation',
+    text: "A parent who intends to relocate with the children outside Nevada, or to a place within Nevada far enough away to substantially impair the other parent's ability to maintain a meaningful relationship with the children, shall first seek the other parent's written consent and, if consent is refused, petition the court for permission, as provided in NRS 125C.006 and NRS 125C.0065.",
+    variables: [],
+    jurisdiction: 'Nevada',
+  },
+];
+
+/**
+ * Find a provision by its ID.
+ */
+export function getProvisionById(id: string): ProvisionDefinition | undefined {
+  return PROVISIONS.find((provision) => provision.id === id);
+}
+
+/**
+ * Get the provisions available in a jurisdiction: general provisions plus
+ * those written for the jurisdiction (partial, case-insensitive match).
+ * All provisions are returned when no jurisdiction is given.
+ */
+export function getProvisionsByJurisdiction(jurisdiction?: string): ProvisionDefinition[] {
+  if (!jurisdiction) return PROVISIONS;
+  const searchTerm = jurisdiction.toLowerCase();
+  return PROVISIONS.filter(
+    (provision) =>
+      !provision.jurisdiction ||
+      searchTerm.includes(provision.jurisdiction.toLowerCase()) ||
+      provision.jurisdiction.toLowerCase().includes(searchTerm)
+  );
+}
+
+/**
+ * Get the jurisdictions that have their own provisions, for filtering.
+ */
+export function getProvisionJurisdictions(): string[] {
+  return [...new Set(PROVISIONS.flatMap((provision) => (provision.jurisdiction ? [provision.jurisdiction] : [])))];
+}
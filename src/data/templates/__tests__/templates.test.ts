@@ -1,6 +1,17 @@
 import { describe, test, expect } from 'vitest';
 import { NEVADA_8TH_DISTRICT_TEMPLATE } from '../nevada-8th-district';
-import { ALL_TEMPLATES, TEMPLATE_REGISTRY, getTemplateById, getTemplatesByJurisdiction, templateExists } from '../index';
+import {
+  ALL_TEMPLATES,
+  BUNDLED_TEMPLATE_FILES,
+  TEMPLATE_REGISTRY,
+  getAvailableTemplates,
+  getTemplateById,
+  getTemplateJurisdictions,
+  getTemplatesByJurisdiction,
+  templateExists,
+} from '../index';
+import { validateCourtTemplate } from '../../../utils/templateFile';
+import { applyCourtTemplate } from '../../../utils/templateApplication';
 
 describe('Nevada 8th District Court Template', () => {
   test('template has correct ID', () => {
@@ -129,3 +140,50 @@ describe('Template Registry', () => {
     expect(templateExists('unknown-template')).toBe(false);
   });
 });
+
+describe('Bundled JSON templates', () => {
+  test('every bundled template file is valid', () => {
+    for (const data of BUNDLED_TEMPLATE_FILES) {
+      expect(validateCourtTemplate(data)).toEqual([]);
+    }
+  });
+
+  test('bundled templates are in the registry without their schema reference', () => {
+    const utah = getTemplateById('utah-advisory-standard');
+    expect(utah?.defaultPattern).toBe('every-other-weekend');
+    expect(utah).not.toHaveProperty('$schema');
+  });
+
+  test('bundled holidays and breaks map onto the holiday calendar', () => {
+    expect(applyCourtTemplate(getTemplateById('utah-advisory-standard')!).unmapped).toEqual([]);
+  });
+
+  test('getTemplatesByJurisdiction finds the bundled jurisdiction', () => {
+    expect(getTemplatesByJurisdiction('Utah').map((t) => t.id)).toEqual(['utah-advisory-standard']);
+  });
+
+  test('getTemplateJurisdictions lists each jurisdiction once, sorted', () => {
+    expect(getTemplateJurisdictions()).toEqual([
+      'Nevada 8th District Court (Clark County)',
+      'Utah District Courts',
+    ]);
+  });
+});
+
+describe('getAvailableTemplates', () => {
+  const nevada = TEMPLATE_REGISTRY['nevada-8th-district-standard'];
+
+  test('adds imported templates to the bundled ones', () => {
+    const imported = { ...nevada, id: 'county-custom', jurisdiction: 'Test County' };
+    const templates = getAvailableTemplates([imported]);
+    expect(templates).toHaveLength(ALL_TEMPLATES.length + 1);
+    expect(getTemplatesByJurisdiction('Test County', templates)).toEqual([imported]);
+  });
+
+  test('replaces a bundled template only with a newer version', () => {
+    const newer = { ...nevada, version: '2.0.0', name: 'Nevada (revised)' };
+    const older = { ...nevada, version: '0.9.0', name: 'Nevada (old)' };
+    expect(getAvailableTemplates([newer]).find((t) => t.id === nevada.id)?.name).toBe('Nevada (revised)');
+    expect(getAvailableTemplates([older]).find((t) => t.id === nevada.id)).toBe(nevada);
+  });
+});
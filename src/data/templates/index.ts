@@ -4,18 +4,43 @@
  * Central registry for all available court custody templates.
  * Templates provide pre-configured holiday assignments, exchange times,
  * and custody patterns based on specific court jurisdictions.
+ *
+ * Additional jurisdictions are authored as JSON files in ./json (validated
+ * against court-template.schema.json) and listed in BUNDLED_TEMPLATE_FILES.
  */
 
 import type { CourtTemplate, TemplateRegistry } from '../../types';
+import { importTemplateData, mergeTemplate } from '../../utils/templateFile';
 import { NEVADA_8TH_DISTRICT_TEMPLATE } from './nevada-8th-district';
+import utahAdvisoryStandard from './json/utah-advisory-standard.json';
+
+/**
+ * Template files bundled with the app, as parsed JSON.
+ */
+export const BUNDLED_TEMPLATE_FILES: unknown[] = [utahAdvisoryStandard];
+
+/**
+ * Validate the bundled template files, skipping any that fail.
+ */
+function loadBundledTemplates(): CourtTemplate[] {
+  return BUNDLED_TEMPLATE_FILES.flatMap((data) => {
+    const result = importTemplateData(data);
+    if (!result.valid) {
+      console.warn('Ignoring bundled template that failed validation:', result.errors);
+      return [];
+    }
+    return [result.template];
+  });
+}
 
 /**
  * Registry of all available court templates.
  * Key is the template ID for quick lookup.
  */
-export const TEMPLATE_REGISTRY: TemplateRegistry = {
-  [NEVADA_8TH_DISTRICT_TEMPLATE.id]: NEVADA_8TH_DISTRICT_TEMPLATE,
-};
+export const TEMPLATE_REGISTRY: TemplateRegistry = loadBundledTemplates().reduce(
+  (registry, template) => mergeTemplate(registry, template).registry,
+  { [NEVADA_8TH_DISTRICT_TEMPLATE.id]: NEVADA_8TH_DISTRICT_TEMPLATE } as TemplateRegistry
+);
 
 /**
  * Array of all templates for iteration/display.
@@ -34,15 +59,40 @@ export function getTemplateById(id: string): CourtTemplate | undefined {
 /**
  * Get all templates for a specific jurisdiction.
  * @param jurisdiction - Jurisdiction to filter by (partial match)
+ * @param templates - Templates to search (defaults to the bundled templates)
  * @returns Array of matching templates
  */
-export function getTemplatesByJurisdiction(jurisdiction: string): CourtTemplate[] {
+export function getTemplatesByJurisdiction(
+  jurisdiction: string,
+  templates: CourtTemplate[] = ALL_TEMPLATES
+): CourtTemplate[] {
   const searchTerm = jurisdiction.toLowerCase();
-  return ALL_TEMPLATES.filter(t => 
+  return templates.filter(t => 
     t.jurisdiction.toLowerCase().includes(searchTerm)
   );
 }
 
+/**
+ * Get the jurisdictions covered by a set of templates, sorted by name.
+ * @param templates - Templates to list (defaults to the bundled templates)
+ */
+export function getTemplateJurisdictions(templates: CourtTemplate[] = ALL_TEMPLATES): string[] {
+  return [...new Set(templates.map((t) => t.jurisdiction))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Get the templates to offer: the bundled templates plus those the user
+ * imported, where an imported template replaces a bundled one with the same
+ * ID only when its version is higher.
+ * @param imported - Templates imported from files
+ * @returns Array of available templates
+ */
+export function getAvailableTemplates(imported: CourtTemplate[]): CourtTemplate[] {
+  return Object.values(
+    imported.reduce((registry, template) => mergeTemplate(registry, template).registry, TEMPLATE_REGISTRY)
+  );
+}
+
 /**
  * Check if a template ID exists in the registry.
  * @param id - Template ID to check
@@ -0,0 +1,44 @@
+/**
+ * Weighted Visit Rules
+ *
+ * Some jurisdictions give partial credit for daytime visits that do not include
+ * an overnight when counting timeshare by overnights. Each rule maps the length
+ * of such a visit to the number of days credited to the visiting parent.
+ *
+ * A visit without an overnight is shorter than a day, so it only happens when
+ * a holiday's exchange time differs from the regular one; with a single
+ * exchange time every custody period contains the cutoff and no rule applies.
+ */
+
+/**
+ * Definition for a weighted visit rule.
+ */
+export interface WeightedVisitRule {
+  /** Unique rule identifier */
+  id: string;
+  /** Display label for the rule */
+  label: string;
+  /** Sentence describing the rule, used in stats and documents */
+  description: string;
+  /** Days credited for a visit of the given length (in minutes) that includes no overnight */
+  getVisitCredit: (minutes: number) => number;
+}
+
+/**
+ * Available weighted visit rules.
+ */
+export const WEIGHTED_VISIT_RULES: WeightedVisitRule[] = [
+  {
+    id: 'virginia',
+    label: 'Virginia (half day over 4 hours)',
+    description: 'Daytime visits of more than 4 hours without an overnight count as half a day',
+    getVisitCredit: (minutes) => (minutes > 4 * 60 ? 0.5 : 0),
+  },
+];
+
+/**
+ * Get a weighted visit rule by its ID.
+ */
+export function getWeightedVisitRuleById(id: string | undefined): WeightedVisitRule | undefined {
+  return WEIGHTED_VISIT_RULES.find((rule) => rule.id === id);
+}
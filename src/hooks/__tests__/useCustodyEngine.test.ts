@@ -11,6 +11,8 @@ import {
   getOwnerForDate,
   generateMonthDays,
   calculateYearlyStats,
+  calculateRangeStats,
+  calculatePlanStats,
   isWeekend,
   resolveInServiceDay,
   getOwnerForDateFull,
@@ -19,8 +21,25 @@ import {
   canClaimVacation,
   getTrackBreakInfo,
   getOwnerForDateComplete,
+  getOwnerForDateWithHolidays,
+  getBirthdayDate,
+  getBirthdayForDate,
+  getBirthdayLabel,
+  getReligiousHolidayForDate,
+  getHolidayOverrideForDate,
+  getSplitConfigForHoliday,
+  resolveSplitPeriodOwner,
+  getAttachedWeekendOwner,
+  parseExchangeTime,
+  getExchangeTimeForDate,
+  getCalculationMethod,
+  getScheduleExceptionForDate,
+  getThirdPartyBlocksForDate,
+  getThirdPartyWindows,
+  getThirdPartyLabel,
 } from '../useCustodyEngine';
-import type { AppConfig, InServiceDayConfig, TrackBreak } from '../../types';
+import type { AppConfig, InServiceDayConfig, TrackBreak, HolidayState, HolidayUserConfig, BirthdayConfig, SplitPeriodConfig, ScheduleException, ThirdPartyBlock } from '../../types';
+import { DEFAULT_WINTER_BREAK_SPLIT } from '../../data/holidays';
 
 describe('Date arithmetic utilities', () => {
   describe('addDays', () => {
@@ -705,6 +724,49 @@ describe('custom pattern (Issue #46)', () => {
     expect(getOwnerForDate('2025-01-01', config)).toBe('parentA');
     expect(getOwnerForDate('2025-06-15', config)).toBe('parentA');
   });
+
+  test('follows a user-defined 21-day cycle', () => {
+    // 10 days A, 11 days B
+    const customPattern: ('A' | 'B')[] = [
+      ...Array<'A'>(10).fill('A'),
+      ...Array<'B'>(11).fill('B'),
+    ];
+    const customConfig: AppConfig = { ...config, customPattern };
+
+    expect(getOwnerForDate('2025-01-01', customConfig)).toBe('parentA'); // Day 0
+    expect(getOwnerForDate('2025-01-10', customConfig)).toBe('parentA'); // Day 9
+    expect(getOwnerForDate('2025-01-11', customConfig)).toBe('parentB'); // Day 10
+    expect(getOwnerForDate('2025-01-21', customConfig)).toBe('parentB'); // Day 20
+    expect(getOwnerForDate('2025-01-22', customConfig)).toBe('parentA'); // Next cycle
+    expect(getOwnerForDate('2024-12-31', customConfig)).toBe('parentB'); // Before start wraps to day 20
+  });
+
+  test('maps A days to the starting parent', () => {
+    const customConfig: AppConfig = {
+      ...config,
+      startingParent: 'parentB',
+      customPattern: ['A', 'A', 'A', 'B'],
+    };
+    expect(getOwnerForDate('2025-01-01', customConfig)).toBe('parentB');
+    expect(getOwnerForDate('2025-01-04', customConfig)).toBe('parentA');
+  });
+
+  test('yearly stats reflect a 28-day custom cycle', () => {
+    // 21 days A, 7 days B = 75/25
+    const customPattern: ('A' | 'B')[] = [
+      ...Array<'A'>(21).fill('A'),
+      ...Array<'B'>(7).fill('B'),
+    ];
+    const stats = calculateYearlyStats(2025, { ...config, customPattern });
+    // 13 full cycles (364 days) + Dec 31 (day 0 = A)
+    expect(stats.parentA.days).toBe(13 * 21 + 1);
+    expect(stats.parentB.days).toBe(13 * 7);
+  });
+
+  test('ignores an invalid custom cycle', () => {
+    const customConfig: AppConfig = { ...config, customPattern: ['B'] };
+    expect(getOwnerForDate('2025-01-01', customConfig)).toBe('parentA');
+  });
 });
 
 describe('all standard patterns (Issue #46)', () => {
@@ -1744,3 +1806,1002 @@ describe('Track Break Logic', () => {
     });
   });
 });
+
+describe('Birthday overrides', () => {
+  // all-to-one keeps every base day with parentA so overrides are easy to spot
+  const config: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'all-to-one',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+
+  const childBirthday: BirthdayConfig = {
+    id: 'birthday-1',
+    name: "Emma's Birthday",
+    type: 'child',
+    month: 5,
+    day: 15,
+    defaultAssignment: 'alternate-odd-even',
+    linkedChildId: '1',
+    isAutoGenerated: true,
+  };
+
+  const motherBirthday: BirthdayConfig = {
+    id: 'mother-birthday',
+    name: 'Mother',
+    type: 'parent-b',
+    month: 3,
+    day: 10,
+    defaultAssignment: 'always-parent-b',
+  };
+
+  const holidays: HolidayState = {
+    holidayConfigs: [],
+    birthdays: [childBirthday, motherBirthday],
+  };
+
+  describe('getBirthdayDate', () => {
+    test('formats the birthday for the given year', () => {
+      expect(getBirthdayDate(childBirthday, 2025)).toBe('2025-05-15');
+    });
+
+    test('observes February 29 birthdays on February 28 in non-leap years', () => {
+      const leapBirthday = { ...childBirthday, month: 2, day: 29 };
+      expect(getBirthdayDate(leapBirthday, 2024)).toBe('2024-02-29');
+      expect(getBirthdayDate(leapBirthday, 2025)).toBe('2025-02-28');
+    });
+  });
+
+  describe('getBirthdayLabel', () => {
+    test('keeps names that already say Birthday', () => {
+      expect(getBirthdayLabel(childBirthday)).toBe("Emma's Birthday");
+    });
+
+    test('appends Birthday to plain names', () => {
+      expect(getBirthdayLabel(motherBirthday)).toBe("Mother's Birthday");
+      expect(getBirthdayLabel({ ...motherBirthday, name: '' })).toBe('Birthday');
+    });
+  });
+
+  describe('getBirthdayForDate', () => {
+    test('returns the birthday observed on the date', () => {
+      expect(getBirthdayForDate('2025-05-15', holidays)?.id).toBe('birthday-1');
+      expect(getBirthdayForDate('2025-05-16', holidays)).toBeNull();
+    });
+
+    test('returns null without holiday state', () => {
+      expect(getBirthdayForDate('2025-05-15')).toBeNull();
+    });
+
+    test('skips birthday types whose holiday config is disabled', () => {
+      const disabled: HolidayState = {
+        ...holidays,
+        holidayConfigs: [
+          { holidayId: 'child-birthday', enabled: false, assignment: 'alternate-odd-even' },
+        ],
+      };
+      expect(getBirthdayForDate('2025-05-15', disabled)).toBeNull();
+      expect(getBirthdayForDate('2025-03-10', disabled)?.id).toBe('mother-birthday');
+    });
+
+    test('prefers a child birthday over a parent birthday on the same day', () => {
+      const shared: HolidayState = {
+        holidayConfigs: [],
+        birthdays: [{ ...motherBirthday, month: 5, day: 15 }, childBirthday],
+      };
+      expect(getBirthdayForDate('2025-05-15', shared)?.type).toBe('child');
+    });
+  });
+
+  describe('getOwnerForDateWithHolidays', () => {
+    test('resolves alternating child birthdays by year', () => {
+      // Odd year = starting parent, even year = other parent
+      const odd = getOwnerForDateWithHolidays('2025-05-15', config, holidays);
+      expect(odd.owner).toBe('parentA');
+      expect(odd.isBirthdayOverride).toBe(true);
+      expect(odd.birthdayName).toBe("Emma's Birthday");
+
+      const even = getOwnerForDateWithHolidays('2026-05-15', config, holidays);
+      expect(even.owner).toBe('parentB');
+      expect(even.isBirthdayOverride).toBe(true);
+    });
+
+    test('gives a parent birthday to that parent', () => {
+      const result = getOwnerForDateWithHolidays('2025-03-10', config, holidays);
+      expect(result.owner).toBe('parentB');
+      expect(result.birthdayName).toBe("Mother's Birthday");
+    });
+
+    test('overrides a holiday on the same day', () => {
+      // Independence Day always with parentA, child's birthday always with parentB
+      const overlapping: HolidayState = {
+        holidayConfigs: [
+          { holidayId: 'independence-day', enabled: true, assignment: 'always-parent-a' },
+        ],
+        birthdays: [{ ...childBirthday, month: 7, day: 4, defaultAssignment: 'always-parent-b' }],
+      };
+      const result = getOwnerForDateWithHolidays('2025-07-04', config, overlapping);
+      expect(result.owner).toBe('parentB');
+      expect(result.isBirthdayOverride).toBe(true);
+      expect(result.isHolidayOverride).toBe(false);
+      expect(result.holidayName).toBeDefined();
+    });
+
+    test('leaves other days on the base schedule', () => {
+      const result = getOwnerForDateWithHolidays('2025-05-16', config, holidays);
+      expect(result.owner).toBe('parentA');
+      expect(result.isBirthdayOverride).toBe(false);
+      expect(result.birthdayName).toBeUndefined();
+    });
+  });
+
+  test('in-service attachment still wins over a birthday', () => {
+    const inServiceConfig: InServiceDayConfig = {
+      enabled: true,
+      attachmentRule: 'always-parent-a',
+    };
+    const result = getOwnerForDateFull(
+      '2025-03-10',
+      config,
+      holidays,
+      ['2025-03-10'],
+      inServiceConfig
+    );
+    expect(result.owner).toBe('parentA');
+    expect(result.isBirthdayOverride).toBe(false);
+    expect(result.birthdayName).toBe("Mother's Birthday");
+  });
+
+  test('generateMonthDays flags birthdays', () => {
+    const days = generateMonthDays(2025, 4, config, false, holidays);
+    const birthday = days.find((d) => d.date === '2025-05-15');
+    expect(birthday?.owner).toBe('parentA');
+    expect(birthday?.isBirthdayOverride).toBe(true);
+    expect(birthday?.birthdayName).toBe("Emma's Birthday");
+    expect(days.find((d) => d.date === '2025-05-14')?.isBirthdayOverride).toBe(false);
+  });
+
+  test('calculateYearlyStats counts birthday overrides', () => {
+    const stats = calculateYearlyStats(2025, config, holidays);
+    // Only the mother's birthday moves to parentB in 2025
+    expect(stats.parentB.days).toBe(1);
+    expect(stats.parentA.days).toBe(364);
+
+    const evenYear = calculateYearlyStats(2026, config, holidays);
+    expect(evenYear.parentB.days).toBe(2);
+  });
+});
+
+describe('Religious holiday overrides', () => {
+  const config: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'all-to-one',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+
+  const holidays: HolidayState = {
+    holidayConfigs: [
+      { holidayId: 'winter-break', enabled: true, assignment: 'always-parent-a' },
+    ],
+    birthdays: [],
+    religiousHolidayConfigs: [
+      { holidayId: 'passover', enabled: true, assignment: 'alternate-odd-even' },
+      { holidayId: 'hanukkah', enabled: true, assignment: 'always-parent-b' },
+      { holidayId: 'easter-sunday', enabled: false, assignment: 'always-parent-b' },
+    ],
+    customReligiousHolidays: [
+      {
+        id: 'custom-1',
+        name: 'Family Feast',
+        duration: 3,
+        dates: { 2025: '2025-12-31' },
+        assignment: 'always-parent-b',
+      },
+    ],
+  };
+
+  describe('getReligiousHolidayForDate', () => {
+    test('finds every day of a multi-day observance', () => {
+      // Passover 2025 starts April 12 and spans 2 days
+      expect(getReligiousHolidayForDate('2025-04-12', holidays)?.name).toBe('Passover (First Seder)');
+      expect(getReligiousHolidayForDate('2025-04-13', holidays)?.name).toBe('Passover (First Seder)');
+      expect(getReligiousHolidayForDate('2025-04-14', holidays)).toBeNull();
+    });
+
+    test('ignores disabled religious holidays', () => {
+      // Easter 2025 is April 20
+      expect(getReligiousHolidayForDate('2025-04-20', holidays)).toBeNull();
+    });
+
+    test('includes custom religious holidays that continue into the next year', () => {
+      const result = getReligiousHolidayForDate('2026-01-02', holidays);
+      expect(result?.name).toBe('Family Feast');
+      expect(result?.year).toBe(2025);
+      expect(getReligiousHolidayForDate('2026-01-03', holidays)).toBeNull();
+    });
+
+    test('returns null without religious configuration', () => {
+      expect(getReligiousHolidayForDate('2025-04-12')).toBeNull();
+      expect(getReligiousHolidayForDate('2025-04-12', { holidayConfigs: [], birthdays: [] })).toBeNull();
+    });
+  });
+
+  describe('getHolidayOverrideForDate', () => {
+    test('prefers a religious holiday over a school break on the same day', () => {
+      // Hanukkah 2024 starts December 25, inside Winter Break
+      expect(getHolidayOverrideForDate('2024-12-25', holidays)?.name).toBe('Hanukkah (First Night)');
+    });
+
+    test('falls back to standard holidays', () => {
+      expect(getHolidayOverrideForDate('2024-12-24', holidays)?.name).toBe('Winter Break');
+    });
+
+    test('carries the odd-year parent used for alternation', () => {
+      const alternating: HolidayState = {
+        holidayConfigs: [
+          { holidayId: 'winter-break', enabled: true, assignment: 'alternate-odd-even', oddYearParent: 'parentB' },
+        ],
+        birthdays: [],
+      };
+      expect(getHolidayOverrideForDate('2025-12-24', alternating)?.oddYearParent).toBe('parentB');
+      expect(getOwnerForDateWithHolidays('2025-12-24', config, alternating).owner).toBe('parentB');
+      expect(getOwnerForDateWithHolidays('2026-12-24', config, alternating).owner).toBe('parentA');
+    });
+  });
+
+  test('religious assignments change ownership', () => {
+    // Odd year = starting parent, even year = other parent
+    expect(getOwnerForDateWithHolidays('2025-04-12', config, holidays).owner).toBe('parentA');
+    const even = getOwnerForDateWithHolidays('2026-04-01', config, holidays);
+    expect(even.owner).toBe('parentB');
+    expect(even.isHolidayOverride).toBe(true);
+    expect(even.holidayName).toBe('Passover (First Seder)');
+  });
+
+  test('getOwnerForDateComplete applies the religious holiday over Winter Break', () => {
+    const result = getOwnerForDateComplete('2024-12-25', config, holidays);
+    expect(result.owner).toBe('parentB');
+    expect(result.holidayName).toBe('Hanukkah (First Night)');
+    expect(result.isHolidayOverride).toBe(true);
+
+    expect(getOwnerForDateComplete('2024-12-26', config, holidays).owner).toBe('parentA');
+  });
+
+  test('generateMonthDays surfaces the religious holiday name', () => {
+    const days = generateMonthDays(2025, 3, config, false, holidays);
+    const passover = days.find((d) => d.date === '2025-04-13');
+    expect(passover?.holidayName).toBe('Passover (First Seder)');
+    expect(passover?.isHolidayOverride).toBe(true);
+  });
+
+  test('calculateYearlyStats counts religious holiday days', () => {
+    // 2026: Passover (2 days, even year -> parentB), Hanukkah (1 day -> parentB),
+    // and the first two days of 2026 from the Family Feast that began in 2025
+    const stats = calculateYearlyStats(2026, config, holidays);
+    expect(stats.parentB.days).toBe(5);
+  });
+});
+
+describe('Winter Break split-period resolution', () => {
+  const config: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'all-to-one',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+
+  const holidays: HolidayState = {
+    holidayConfigs: [
+      { holidayId: 'winter-break', enabled: true, assignment: 'split-period' },
+    ],
+    birthdays: [],
+    winterBreakSplit: DEFAULT_WINTER_BREAK_SPLIT,
+  };
+
+  describe('resolveSplitPeriodOwner', () => {
+    test('gives segment 1 to the starting parent in odd years', () => {
+      expect(resolveSplitPeriodOwner('2025-12-23', DEFAULT_WINTER_BREAK_SPLIT, 2025, 'parentA')).toBe('parentA');
+      expect(resolveSplitPeriodOwner('2025-12-25', DEFAULT_WINTER_BREAK_SPLIT, 2025, 'parentA')).toBe('parentA');
+    });
+
+    test('gives segment 2, starting on the split day, to the other parent', () => {
+      expect(resolveSplitPeriodOwner('2025-12-26', DEFAULT_WINTER_BREAK_SPLIT, 2025, 'parentA')).toBe('parentB');
+      expect(resolveSplitPeriodOwner('2026-01-02', DEFAULT_WINTER_BREAK_SPLIT, 2025, 'parentA')).toBe('parentB');
+    });
+
+    test('swaps segments in even years', () => {
+      expect(resolveSplitPeriodOwner('2026-12-24', DEFAULT_WINTER_BREAK_SPLIT, 2026, 'parentA')).toBe('parentB');
+      expect(resolveSplitPeriodOwner('2026-12-28', DEFAULT_WINTER_BREAK_SPLIT, 2026, 'parentA')).toBe('parentA');
+    });
+
+    test('honors fixed segment assignments', () => {
+      const fixed: SplitPeriodConfig = {
+        ...DEFAULT_WINTER_BREAK_SPLIT,
+        segment1Assignment: 'always-parent-b',
+        segment2Assignment: 'always-parent-b',
+      };
+      expect(resolveSplitPeriodOwner('2025-12-23', fixed, 2025, 'parentA')).toBe('parentB');
+      expect(resolveSplitPeriodOwner('2025-12-30', fixed, 2025, 'parentA')).toBe('parentB');
+    });
+  });
+
+  describe('getSplitConfigForHoliday', () => {
+    const info = { holidayId: 'winter-break', name: 'Winter Break', assignment: 'split-period' as const, year: 2025 };
+
+    test('prefers the split config on the holiday user config', () => {
+      const own = { ...DEFAULT_WINTER_BREAK_SPLIT, splitDate: '12-28' };
+      expect(getSplitConfigForHoliday({ ...info, splitConfig: own }, holidays)).toBe(own);
+    });
+
+    test('uses the holiday state Winter Break split, then the default', () => {
+      const custom = { ...DEFAULT_WINTER_BREAK_SPLIT, splitDate: '12-27' };
+      expect(getSplitConfigForHoliday(info, { ...holidays, winterBreakSplit: custom })).toBe(custom);
+      expect(getSplitConfigForHoliday(info, { holidayConfigs: [], birthdays: [] })).toBe(DEFAULT_WINTER_BREAK_SPLIT);
+    });
+
+    test('returns undefined for other holidays without a split config', () => {
+      expect(getSplitConfigForHoliday({ ...info, holidayId: 'thanksgiving' }, holidays)).toBeUndefined();
+    });
+  });
+
+  test('getOwnerForDateWithHolidays splits Winter Break between parents', () => {
+    expect(getOwnerForDateWithHolidays('2025-12-24', config, holidays).owner).toBe('parentA');
+    const secondHalf = getOwnerForDateWithHolidays('2025-12-27', config, holidays);
+    expect(secondHalf.owner).toBe('parentB');
+    expect(secondHalf.isHolidayOverride).toBe(true);
+    expect(secondHalf.holidayName).toBe('Winter Break');
+  });
+
+  test('respects a custom split date from holiday state', () => {
+    const lateSplit: HolidayState = {
+      ...holidays,
+      winterBreakSplit: { ...DEFAULT_WINTER_BREAK_SPLIT, splitDate: '12-29' },
+    };
+    expect(getOwnerForDateWithHolidays('2025-12-28', config, lateSplit).owner).toBe('parentA');
+    expect(getOwnerForDateWithHolidays('2025-12-29', config, lateSplit).owner).toBe('parentB');
+  });
+
+  test('starts split alternation from the holiday odd-year parent', () => {
+    const parentBOdd: HolidayState = {
+      ...holidays,
+      holidayConfigs: holidays.holidayConfigs.map((c) => ({ ...c, oddYearParent: 'parentB' as const })),
+    };
+    expect(getOwnerForDateWithHolidays('2025-12-24', config, parentBOdd).owner).toBe('parentB');
+    expect(getOwnerForDateWithHolidays('2025-12-27', config, parentBOdd).owner).toBe('parentA');
+  });
+
+  test('calculateYearlyStats counts each segment for its parent', () => {
+    // 2025: Dec 23-25 stay with parentA, Dec 26-31 go to parentB
+    const stats = calculateYearlyStats(2025, config, holidays);
+    expect(stats.parentB.days).toBe(6);
+    expect(stats.parentA.days).toBe(359);
+  });
+});
+
+describe('Holiday spans across the year boundary', () => {
+  const config: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'all-to-one',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+
+  const splitHolidays: HolidayState = {
+    holidayConfigs: [{ holidayId: 'winter-break', enabled: true, assignment: 'split-period' }],
+    birthdays: [],
+    winterBreakSplit: DEFAULT_WINTER_BREAK_SPLIT,
+  };
+
+  const alternatingHolidays: HolidayState = {
+    holidayConfigs: [{ holidayId: 'winter-break', enabled: true, assignment: 'alternate-odd-even', oddYearParent: 'parentB' }],
+    birthdays: [],
+  };
+
+  test('resolves early January as the Winter Break that started in December', () => {
+    const info = getHolidayOverrideForDate('2026-01-02', splitHolidays);
+    expect(info?.name).toBe('Winter Break');
+    expect(info?.year).toBe(2025);
+    expect(getHolidayOverrideForDate('2026-01-03', splitHolidays)).toBeNull();
+  });
+
+  test('takes the alternation year from the start of the span', () => {
+    // 2025 is odd, so the odd-year parent keeps the whole break, including January
+    expect(getOwnerForDateWithHolidays('2025-12-31', config, alternatingHolidays).owner).toBe('parentB');
+    const january = getOwnerForDateWithHolidays('2026-01-01', config, alternatingHolidays);
+    expect(january.owner).toBe('parentB');
+    expect(january.isHolidayOverride).toBe(true);
+  });
+
+  test('keeps the second half of a split break through January', () => {
+    const january = getOwnerForDateWithHolidays('2026-01-02', config, splitHolidays);
+    expect(january.owner).toBe('parentB');
+    expect(january.holidayName).toBe('Winter Break');
+  });
+
+  test('uses a date override from the year the break starts', () => {
+    const withOverride: HolidayState = {
+      ...alternatingHolidays,
+      holidayConfigs: [
+        {
+          ...alternatingHolidays.holidayConfigs[0],
+          dateOverrides: [{ year: 2025, startDate: '2025-12-20', endDate: '2026-01-04' }],
+        },
+      ],
+    };
+    expect(getHolidayOverrideForDate('2026-01-04', withOverride)?.year).toBe(2025);
+    expect(getHolidayOverrideForDate('2026-01-05', withOverride)).toBeNull();
+  });
+
+  test('finds the split day inside a Winter Break date override', () => {
+    const moved: HolidayState = {
+      ...splitHolidays,
+      holidayConfigs: [
+        { ...splitHolidays.holidayConfigs[0], dateOverrides: [{ year: 2025, startDate: '2025-12-20', endDate: '2026-01-04' }] },
+      ],
+    };
+    expect(getOwnerForDateWithHolidays('2025-12-20', config, moved).owner).toBe('parentA');
+    expect(getOwnerForDateWithHolidays('2025-12-26', config, moved).owner).toBe('parentB');
+    expect(getOwnerForDateWithHolidays('2026-01-04', config, moved).owner).toBe('parentB');
+  });
+
+  test('calculateYearlyStats counts January days for the break that started the year before', () => {
+    // 2026: Jan 1-2 finish the 2025 break's second half (parentB); in December the
+    // even year gives Dec 23-25 to parentB and Dec 26-31 to parentA
+    const stats = calculateYearlyStats(2026, config, splitHolidays);
+    expect(stats.parentB.days).toBe(5);
+    expect(stats.parentA.days).toBe(360);
+  });
+});
+
+describe('Extend-the-weekend holidays', () => {
+  // Alternating Monday–Sunday weeks: Jan 13–19, 2025 is parentB's, Jan 20–26 parentA's
+  const mondayWeeks: AppConfig = {
+    startDate: '2025-01-06',
+    selectedPattern: 'alt-weeks',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+  // Alternating Saturday–Friday weeks: Jan 4–10, 2025 is parentA's, Jan 11–17 parentB's
+  const saturdayWeeks: AppConfig = { ...mondayWeeks, startDate: '2025-01-04' };
+
+  const extendWeekend = (holidayId: string): HolidayState => ({
+    holidayConfigs: [{ holidayId, enabled: true, assignment: 'extend-weekend' }],
+    birthdays: [],
+  });
+
+  describe('getAttachedWeekendOwner', () => {
+    test('looks back to the weekend before a Monday holiday', () => {
+      expect(getAttachedWeekendOwner('2025-01-20', ['2025-01-20'], mondayWeeks)).toBe('parentB');
+    });
+
+    test('looks forward to the weekend after a Friday holiday', () => {
+      expect(getAttachedWeekendOwner('2025-01-10', ['2025-01-10'], saturdayWeeks)).toBe('parentB');
+    });
+
+    test('looks through the rest of the holiday to reach the weekend', () => {
+      const dates = ['2025-01-20', '2025-01-21', '2025-01-22'];
+      expect(getAttachedWeekendOwner('2025-01-22', dates, mondayWeeks)).toBe('parentB');
+    });
+
+    test('keeps weekend days with their base owner', () => {
+      expect(getAttachedWeekendOwner('2025-01-19', ['2025-01-19', '2025-01-20'], mondayWeeks)).toBe('parentB');
+    });
+
+    test('returns null when no weekend touches the holiday', () => {
+      expect(getAttachedWeekendOwner('2025-01-15', ['2025-01-15'], mondayWeeks)).toBeNull();
+    });
+  });
+
+  test('gives a Monday holiday to the parent with the weekend', () => {
+    // MLK Day 2025 is Monday, January 20
+    const result = getOwnerForDateWithHolidays('2025-01-20', mondayWeeks, extendWeekend('mlk-day'));
+    expect(getOwnerForDate('2025-01-20', mondayWeeks)).toBe('parentA');
+    expect(result.owner).toBe('parentB');
+    expect(result.isHolidayOverride).toBe(true);
+  });
+
+  test('follows the base schedule for a midweek holiday', () => {
+    // July 4, 2029 is a Wednesday
+    const result = getOwnerForDateWithHolidays('2029-07-04', mondayWeeks, extendWeekend('independence-day'));
+    expect(result.owner).toBe(getOwnerForDate('2029-07-04', mondayWeeks));
+  });
+});
+
+describe('Summer vacation picks', () => {
+  const config: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'all-to-one',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+
+  const holidays: HolidayState = {
+    holidayConfigs: [
+      { holidayId: 'summer-vacation', enabled: true, assignment: 'selection-priority' },
+      { holidayId: 'independence-day', enabled: true, assignment: 'always-parent-a' },
+    ],
+    birthdays: [],
+    summerSelections: [
+      {
+        year: 2025,
+        picks: [
+          { parent: 'parentB', startDate: '2025-06-29', weeks: 2, pickedOn: '2025-03-01' },
+        ],
+      },
+    ],
+  };
+
+  test('selection-priority holidays follow the base schedule outside picked weeks', () => {
+    const result = getOwnerForDateWithHolidays('2025-06-10', config, holidays);
+    expect(result.owner).toBe('parentA');
+    expect(result.isHolidayOverride).toBe(false);
+    expect(result.holidayName).toBe('Summer Vacation');
+
+    expect(getOwnerForDateComplete('2025-06-10', config, { ...holidays, summerSelections: [] }).owner).toBe('parentA');
+  });
+
+  test('picked weeks override holidays', () => {
+    // July 4 would go to parentA, but it falls in parentB's picked weeks
+    const result = getOwnerForDateComplete('2025-07-04', config, holidays);
+    expect(result.owner).toBe('parentB');
+    expect(result.isSummerVacation).toBe(true);
+    expect(result.isHolidayOverride).toBe(false);
+  });
+
+  test('picks are ignored while summer vacation is disabled or not selection priority', () => {
+    const withSummer = (summer: HolidayUserConfig): HolidayState => ({
+      ...holidays,
+      holidayConfigs: holidays.holidayConfigs.map((c) => (c.holidayId === 'summer-vacation' ? summer : c)),
+    });
+    const disabled = withSummer({ holidayId: 'summer-vacation', enabled: false, assignment: 'selection-priority' });
+    const alternating = withSummer({ holidayId: 'summer-vacation', enabled: true, assignment: 'always-parent-a' });
+
+    expect(getOwnerForDateComplete('2025-07-01', config, disabled).isSummerVacation).toBe(false);
+    expect(getOwnerForDateComplete('2025-07-01', config, disabled).owner).toBe('parentA');
+    expect(getOwnerForDateComplete('2025-07-01', config, alternating).isSummerVacation).toBe(false);
+    expect(getOwnerForDateComplete('2025-07-01', config, alternating).owner).toBe('parentA');
+  });
+
+  test('track break vacation claims still win over summer picks', () => {
+    const trackBreak: TrackBreak = {
+      id: 'summer-track',
+      name: 'Summer Track Break',
+      startDate: '2025-06-30',
+      endDate: '2025-07-04',
+      vacationClaimed: { claimedBy: 'parentA', claimDate: '2025-05-01', weeks: 1 },
+    };
+    const result = getOwnerForDateComplete('2025-07-01', config, holidays, undefined, undefined, [trackBreak], 'year-round');
+    expect(result.owner).toBe('parentA');
+    expect(result.isSummerVacation).toBe(false);
+  });
+
+  test('generateMonthDays flags picked weeks', () => {
+    const days = generateMonthDays(2025, 6, config, false, holidays);
+    expect(days.find((d) => d.date === '2025-07-12')?.isSummerVacation).toBe(true);
+    expect(days.find((d) => d.date === '2025-07-13')?.isSummerVacation).toBe(false);
+  });
+
+  test('calculateYearlyStats counts picked weeks', () => {
+    const stats = calculateYearlyStats(2025, config, holidays);
+    expect(stats.parentB.days).toBe(14);
+  });
+});
+
+describe('Duration calculation mode', () => {
+  const altWeeks: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'alt-weeks',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+    calculationMode: 'duration',
+  };
+
+  describe('parseExchangeTime', () => {
+    test('parses HH:MM into minutes after midnight', () => {
+      expect(parseExchangeTime('00:00')).toBe(0);
+      expect(parseExchangeTime('09:30')).toBe(570);
+      expect(parseExchangeTime('18:00')).toBe(1080);
+    });
+
+    test('returns null for malformed times', () => {
+      expect(parseExchangeTime(undefined)).toBeNull();
+      expect(parseExchangeTime('6pm')).toBeNull();
+      expect(parseExchangeTime('24:00')).toBeNull();
+    });
+  });
+
+  describe('getExchangeTimeForDate', () => {
+    const holidays: HolidayState = {
+      holidayConfigs: [
+        { holidayId: 'independence-day', enabled: true, assignment: 'always-parent-b', exchangeTime: '09:00' },
+      ],
+      birthdays: [],
+    };
+
+    test('uses the holiday exchange time on holiday dates', () => {
+      expect(getExchangeTimeForDate('2025-07-04', altWeeks, holidays)).toBe('09:00');
+    });
+
+    test('falls back to the schedule exchange time', () => {
+      expect(getExchangeTimeForDate('2025-07-08', altWeeks, holidays)).toBe('18:00');
+    });
+  });
+
+  describe('calculateYearlyStats', () => {
+    test('splits each handoff day at the exchange time', () => {
+      const stats = calculateYearlyStats(2025, altWeeks);
+      // 27 handoffs to parentA (including Jan 1) and 26 to parentB, each moving 18 hours
+      expect(stats.parentA.days).toBe(183);
+      expect(stats.parentA.hours).toBe(183 * 24 - 18);
+      expect(stats.parentB.hours).toBe(182 * 24 + 18);
+      expect(stats.parentA.percentage + stats.parentB.percentage).toBeCloseTo(100, 1);
+    });
+
+    test('matches whole days when the exchange is at midnight', () => {
+      const stats = calculateYearlyStats(2025, { ...altWeeks, exchangeTime: '00:00' });
+      expect(stats.parentA.hours).toBe(stats.parentA.days * 24);
+      expect(stats.parentB.hours).toBe(stats.parentB.days * 24);
+    });
+
+    test('uses holiday exchange times for handoffs into and out of a holiday', () => {
+      const config: AppConfig = { ...altWeeks, selectedPattern: 'all-to-one' };
+      const holidays: HolidayState = {
+        holidayConfigs: [
+          { holidayId: 'independence-day', enabled: true, assignment: 'always-parent-b', exchangeTime: '09:00' },
+        ],
+        birthdays: [],
+      };
+
+      const stats = calculateYearlyStats(2025, config, holidays);
+      // The July 4th weekend (July 4-6, 2025) runs from 09:00 July 4 to 09:00 July 7
+      expect(stats.parentB.days).toBe(3);
+      expect(stats.parentB.hours).toBe(72);
+      expect(stats.parentA.hours).toBe(362 * 24);
+    });
+
+    test('omits hours in days mode', () => {
+      const stats = calculateYearlyStats(2025, { ...altWeeks, calculationMode: 'days' });
+      expect(stats.parentA.hours).toBeUndefined();
+      expect(stats.parentA.percentage).toBe(50.14);
+    });
+  });
+});
+
+describe('Overnights calculation mode', () => {
+  const altWeeks: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'alt-weeks',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+    calculationMode: 'overnights',
+  };
+
+  test('credits each night to the parent holding the child at midnight by default', () => {
+    const stats = calculateYearlyStats(2025, altWeeks);
+    expect(stats.parentA.overnights).toBe(183);
+    expect(stats.parentB.overnights).toBe(182);
+    expect(stats.parentA.percentage).toBe(50.14);
+  });
+
+  test('credits handoff days to the previous parent when the cutoff is before the exchange', () => {
+    const stats = calculateYearlyStats(2025, { ...altWeeks, overnightCutoffTime: '12:00' });
+    // 27 handoffs to parentA and 26 to parentB happen after noon
+    expect(stats.parentA.overnights).toBe(182);
+    expect(stats.parentB.overnights).toBe(183);
+  });
+
+  test('applies the weighted visit rule to periods without an overnight', () => {
+    // parentB has Saturdays; Halloween (Friday, Oct 31 2025) ends at 20:00
+    const config: AppConfig = {
+      startDate: '2025-01-05',
+      selectedPattern: 'custom',
+      customPattern: ['A', 'A', 'A', 'A', 'A', 'A', 'B'],
+      startingParent: 'parentA',
+      exchangeTime: '08:00',
+      calculationMode: 'overnights',
+      overnightCutoffTime: '12:00',
+      weightedVisitRuleId: 'virginia',
+    };
+    const holidays: HolidayState = {
+      holidayConfigs: [
+        { holidayId: 'halloween', enabled: true, assignment: 'always-parent-a', exchangeTime: '20:00' },
+      ],
+      birthdays: [],
+    };
+
+    // Nov 1 20:00 to Nov 2 08:00 holds no noon: a 12-hour daytime visit
+    const stats = calculateYearlyStats(2025, config, holidays);
+    expect(stats.parentB.weightedDays).toBe(0.5);
+    expect(stats.parentA.weightedDays).toBe(0);
+
+    const unweighted = calculateYearlyStats(2025, { ...config, weightedVisitRuleId: undefined }, holidays);
+    expect(unweighted.parentB.weightedDays).toBe(0);
+    expect(stats.parentB.percentage).toBeGreaterThan(unweighted.parentB.percentage);
+  });
+
+  test('leaves the weighted visit rule without effect when there is a single exchange time', () => {
+    const config: AppConfig = { ...altWeeks, selectedPattern: '2-2-3', overnightCutoffTime: '12:00' };
+    const weighted = calculateYearlyStats(2025, { ...config, weightedVisitRuleId: 'virginia' });
+    const unweighted = calculateYearlyStats(2025, config);
+
+    expect(weighted.parentA.weightedDays).toBe(0);
+    expect(weighted.parentB.weightedDays).toBe(0);
+    expect(weighted.parentB.percentage).toBe(unweighted.parentB.percentage);
+  });
+
+  describe('getCalculationMethod', () => {
+    test('reports the method used by the stats', () => {
+      expect(calculateYearlyStats(2025, { ...altWeeks, calculationMode: undefined }).method.mode).toBe('days');
+      expect(calculateYearlyStats(2025, altWeeks).method.label).toBe('Overnights');
+    });
+
+    test('describes the cutoff time and weighted visit rule', () => {
+      const method = getCalculationMethod({ ...altWeeks, overnightCutoffTime: '21:00', weightedVisitRuleId: 'virginia' });
+      expect(method.description).toContain('9:00 PM');
+      expect(method.description).toContain('half a day');
+      expect(getCalculationMethod(altWeeks).description).toContain('12:00 AM');
+    });
+  });
+});
+
+describe('Schedule exceptions', () => {
+  const config: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'all-to-one',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+
+  const exceptions: ScheduleException[] = [
+    { id: 'ex-1', startDate: '2025-11-27', endDate: '2025-11-30', parent: 'parentB', reason: 'Swap Thanksgiving this year only' },
+    { id: 'ex-2', startDate: '2025-11-29', endDate: '2025-11-29', parent: 'parentA', reason: 'Family wedding' },
+  ];
+
+  describe('getScheduleExceptionForDate', () => {
+    test('finds the exception covering a date', () => {
+      expect(getScheduleExceptionForDate('2025-11-28', exceptions)?.id).toBe('ex-1');
+      expect(getScheduleExceptionForDate('2025-12-01', exceptions)).toBeNull();
+      expect(getScheduleExceptionForDate('2025-11-28')).toBeNull();
+    });
+
+    test('prefers the most recently added exception when they overlap', () => {
+      expect(getScheduleExceptionForDate('2025-11-29', exceptions)?.id).toBe('ex-2');
+    });
+  });
+
+  test('exceptions override holidays', () => {
+    const holidays: HolidayState = {
+      holidayConfigs: [{ holidayId: 'thanksgiving', enabled: true, assignment: 'always-parent-a' }],
+      birthdays: [],
+    };
+    const result = getOwnerForDateComplete('2025-11-27', config, holidays, undefined, undefined, undefined, undefined, exceptions);
+    expect(result.owner).toBe('parentB');
+    expect(result.isException).toBe(true);
+    expect(result.exceptionReason).toBe('Swap Thanksgiving this year only');
+    expect(result.isHolidayOverride).toBe(false);
+    expect(result.holidayName).toBe('Thanksgiving');
+  });
+
+  test('exceptions override track break vacation claims', () => {
+    const trackBreak: TrackBreak = {
+      id: 'fall',
+      name: 'Fall Track Break',
+      startDate: '2025-11-24',
+      endDate: '2025-11-28',
+      vacationClaimed: { claimedBy: 'parentA', claimDate: '2025-10-01', weeks: 1 },
+    };
+    const result = getOwnerForDateComplete('2025-11-28', config, undefined, undefined, undefined, [trackBreak], 'year-round', exceptions);
+    expect(result.owner).toBe('parentB');
+    expect(result.isTrackBreak).toBe(true);
+    expect(result.isTrackBreakVacationClaimed).toBe(false);
+  });
+
+  test('days without an exception are unaffected', () => {
+    const result = getOwnerForDateComplete('2025-12-01', config, undefined, undefined, undefined, undefined, undefined, exceptions);
+    expect(result.owner).toBe('parentA');
+    expect(result.isException).toBe(false);
+  });
+
+  test('generateMonthDays marks exception days', () => {
+    const days = generateMonthDays(2025, 10, config, false, undefined, undefined, undefined, undefined, undefined, exceptions);
+    const day = days.find((d) => d.date === '2025-11-28');
+    expect(day?.isException).toBe(true);
+    expect(day?.exceptionReason).toBe('Swap Thanksgiving this year only');
+    expect(days.find((d) => d.date === '2025-11-26')?.isException).toBe(false);
+  });
+
+  test('calculateYearlyStats counts exception days', () => {
+    const stats = calculateYearlyStats(2025, config, undefined, undefined, undefined, undefined, undefined, exceptions);
+    expect(stats.parentB.days).toBe(3);
+  });
+});
+
+describe('Multi-year projection', () => {
+  const config: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'alt-weeks',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  };
+
+  const holidays: HolidayState = {
+    holidayConfigs: [{ holidayId: 'thanksgiving', enabled: true, assignment: 'alternate-odd-even' }],
+    birthdays: [],
+  };
+
+  test('calculateRangeStats over a calendar year matches calculateYearlyStats', () => {
+    for (const mode of ['days', 'duration', 'overnights'] as const) {
+      const modeConfig: AppConfig = { ...config, calculationMode: mode };
+      const yearly = calculateYearlyStats(2025, modeConfig, holidays);
+      const range = calculateRangeStats('2025-01-01', '2025-12-31', modeConfig, holidays);
+      expect(range.parentA).toEqual(yearly.parentA);
+      expect(range.parentB).toEqual(yearly.parentB);
+      expect(range.method).toEqual(yearly.method);
+    }
+  });
+
+  test('calculateRangeStats counts only the dates in the range', () => {
+    const allToOne: AppConfig = { ...config, selectedPattern: 'all-to-one' };
+    const range = calculateRangeStats('2025-11-01', '2025-11-30', allToOne);
+    expect(range.startDate).toBe('2025-11-01');
+    expect(range.endDate).toBe('2025-11-30');
+    expect(range.parentA.days).toBe(30);
+    expect(range.parentB.days).toBe(0);
+    expect(range.parentA.percentage).toBe(100);
+  });
+
+  test('calculatePlanStats breaks the range down by calendar year', () => {
+    const plan = calculatePlanStats('2025-06-15', '2028-03-31', config, holidays);
+    expect(plan.yearlyBreakdown.map((y) => y.year)).toEqual([2025, 2026, 2027, 2028]);
+    expect(plan.yearlyBreakdown[0].startDate).toBe('2025-06-15');
+    expect(plan.yearlyBreakdown[0].endDate).toBe('2025-12-31');
+    expect(plan.yearlyBreakdown[3].startDate).toBe('2028-01-01');
+    expect(plan.yearlyBreakdown[3].endDate).toBe('2028-03-31');
+
+    const sumDays = (parent: 'parentA' | 'parentB') =>
+      plan.yearlyBreakdown.reduce((sum, year) => sum + year[parent].days, 0);
+    expect(sumDays('parentA')).toBe(plan.total.parentA.days);
+    expect(sumDays('parentB')).toBe(plan.total.parentB.days);
+    expect(plan.total.parentA.days + plan.total.parentB.days).toBe(1021);
+  });
+
+  test('full years in the breakdown match calculateYearlyStats', () => {
+    const plan = calculatePlanStats('2025-06-15', '2028-03-31', config, holidays);
+    const year2026 = calculateYearlyStats(2026, config, holidays);
+    expect(plan.yearlyBreakdown[1].parentA).toEqual(year2026.parentA);
+    expect(plan.yearlyBreakdown[1].parentB).toEqual(year2026.parentB);
+  });
+
+  test('odd/even holiday alternation nets out over the projection', () => {
+    const allToOne: AppConfig = { ...config, selectedPattern: 'all-to-one' };
+    const plan = calculatePlanStats('2024-01-01', '2025-12-31', allToOne, holidays);
+    const [year2024, year2025] = plan.yearlyBreakdown;
+    // Thanksgiving goes to Parent B in only one of the two years
+    expect([year2024.parentB.days, year2025.parentB.days].sort()).toEqual([0, 5]);
+    expect(plan.total.parentB.days).toBe(5);
+    expect(plan.total.parentA.days).toBe(731 - 5);
+  });
+});
+
+describe('Third-party time', () => {
+  const school: ThirdPartyBlock = {
+    id: 'school',
+    label: 'School',
+    weekdays: [1, 2, 3, 4, 5],
+    startTime: '08:00',
+    endTime: '15:00',
+    startDate: '2025-08-11',
+    endDate: '2026-05-29',
+    followsSchoolCalendar: true,
+  };
+  const trackBreaks: TrackBreak[] = [
+    { id: 'fall', name: 'Fall Break', startDate: '2025-10-13', endDate: '2025-10-17' },
+  ];
+  const allToOne: AppConfig = {
+    startDate: '2025-01-01',
+    selectedPattern: 'all-to-one',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+    calculationMode: 'duration',
+  };
+
+  describe('getThirdPartyBlocksForDate', () => {
+    test('applies on its weekdays within the school-year bounds', () => {
+      expect(getThirdPartyBlocksForDate('2025-09-03', [school])).toEqual([school]);
+      expect(getThirdPartyBlocksForDate('2025-09-06', [school])).toEqual([]);
+      expect(getThirdPartyBlocksForDate('2025-07-02', [school])).toEqual([]);
+      expect(getThirdPartyBlocksForDate('2026-06-01', [school])).toEqual([]);
+    });
+
+    test('skips in-service days and track breaks when following the school calendar', () => {
+      expect(getThirdPartyBlocksForDate('2025-10-10', [school], ['2025-10-10'])).toEqual([]);
+      expect(getThirdPartyBlocksForDate('2025-10-14', [school], [], trackBreaks, 'year-round')).toEqual([]);
+      // Track breaks only apply to year-round schools
+      expect(getThirdPartyBlocksForDate('2025-10-14', [school], [], trackBreaks, 'traditional')).toEqual([school]);
+
+      const daycare = { ...school, id: 'daycare', followsSchoolCalendar: false };
+      expect(getThirdPartyBlocksForDate('2025-10-10', [daycare], ['2025-10-10'])).toEqual([daycare]);
+    });
+  });
+
+  test('getThirdPartyWindows merges overlapping blocks and skips malformed times', () => {
+    const windows = getThirdPartyWindows([
+      { ...school, startTime: '11:00', endTime: '15:00' },
+      { ...school, startTime: '08:00', endTime: '12:00' },
+      { ...school, startTime: '16:00', endTime: '17:00' },
+      { ...school, startTime: '15:00', endTime: '09:00' },
+    ]);
+    expect(windows).toEqual([[480, 900], [960, 1020]]);
+  });
+
+  test('getThirdPartyLabel describes each block with its times', () => {
+    expect(getThirdPartyLabel([school])).toBe('School 8:00 AM – 3:00 PM');
+  });
+
+  test('generateMonthDays marks days with third-party time', () => {
+    const days = generateMonthDays(2025, 8, allToOne, false, undefined, undefined, undefined, undefined, undefined, undefined, [school]);
+    expect(days.find((day) => day.date === '2025-09-03')?.thirdPartyLabel).toBe('School 8:00 AM – 3:00 PM');
+    expect(days.find((day) => day.date === '2025-09-06')?.thirdPartyLabel).toBeUndefined();
+  });
+
+  test('reports third-party hours without changing custody', () => {
+    const stats = calculateRangeStats('2025-09-01', '2025-09-07', allToOne, undefined, undefined, undefined, undefined, undefined, undefined, [school]);
+    expect(stats.parentA.hours).toBe(7 * 24);
+    expect(stats.parentA.thirdPartyHours).toBe(35);
+    expect(stats.parentB.thirdPartyHours).toBe(0);
+    expect(stats.parentA.percentage).toBe(100);
+
+    const withoutBlocks = calculateRangeStats('2025-09-01', '2025-09-07', allToOne);
+    expect(withoutBlocks.parentA.thirdPartyHours).toBeUndefined();
+  });
+
+  test('splits a block that spans the exchange between both parents', () => {
+    // Alternating weeks hand off to Parent B at noon on Wednesday, January 8
+    const altWeeks: AppConfig = { ...allToOne, selectedPattern: 'alt-weeks', exchangeTime: '12:00' };
+    const wednesdays: ThirdPartyBlock = { ...school, weekdays: [3], startDate: undefined, endDate: undefined };
+    const stats = calculateRangeStats('2025-01-08', '2025-01-08', altWeeks, undefined, undefined, undefined, undefined, undefined, undefined, [wednesdays]);
+    expect(stats.parentA.thirdPartyHours).toBe(4);
+    expect(stats.parentB.thirdPartyHours).toBe(3);
+  });
+
+  test('deducts third-party time from each parent and the total in duration mode', () => {
+    const altWeeks: AppConfig = { ...allToOne, selectedPattern: 'alt-weeks', exchangeTime: '12:00', deductThirdPartyTime: true };
+    const wednesdays: ThirdPartyBlock = { ...school, weekdays: [3], startDate: undefined, endDate: undefined };
+    const stats = calculateRangeStats('2025-01-08', '2025-01-08', altWeeks, undefined, undefined, undefined, undefined, undefined, undefined, [wednesdays]);
+    // 12 hours each, less 4 hours of school for Parent A and 3 for Parent B
+    expect(stats.parentA.hours).toBe(8);
+    expect(stats.parentB.hours).toBe(9);
+    expect(stats.parentA.percentage).toBe(47.06);
+    expect(stats.method.description).toContain('Third-party time');
+  });
+
+  test('leaves day and overnight counts unchanged when deducting', () => {
+    const config: AppConfig = { ...allToOne, selectedPattern: 'alt-weeks', calculationMode: 'days', deductThirdPartyTime: true };
+    const withBlocks = calculateYearlyStats(2025, config, undefined, undefined, undefined, undefined, undefined, undefined, [school]);
+    const withoutBlocks = calculateYearlyStats(2025, config);
+    expect(withBlocks.parentA.percentage).toBe(withoutBlocks.parentA.percentage);
+    expect(withBlocks.parentA.thirdPartyHours).toBeGreaterThan(0);
+  });
+});
+
+describe('User expansion rules', () => {
+  test('decide which days the holiday override covers', () => {
+    // Memorial Day 2026 is Monday, May 25; by default it spans Mon–Wed
+    const holidays: HolidayState = {
+      holidayConfigs: [
+        {
+          holidayId: 'memorial-day',
+          enabled: true,
+          assignment: 'always-parent-b',
+          expansionRule: { type: 'weekend-adjacent', expandTo: 'full-weekend' },
+        },
+      ],
+      birthdays: [],
+    };
+    expect(getHolidayOverrideForDate('2026-05-23', holidays)?.name).toBe('Memorial Day');
+    expect(getHolidayOverrideForDate('2026-05-25', holidays)?.name).toBe('Memorial Day');
+    expect(getHolidayOverrideForDate('2026-05-26', holidays)).toBeNull();
+  });
+});
@@ -10,15 +10,33 @@ export {
   getPatternOwner,
   getOwnerForDate,
   getOwnerForDateWithHolidays,
+  getReligiousHolidayForDate,
+  getHolidayOverrideForDate,
+  getSplitConfigForHoliday,
+  resolveSplitPeriodOwner,
+  resolveHolidayOwner,
+  getAttachedWeekendOwner,
   getOwnerForDateFull,
+  getBirthdayDate,
+  getBirthdayForDate,
+  getBirthdayLabel,
   isWeekend,
   isHoliday,
   getAdjacentSpecialDayOwner,
   resolveInServiceDay,
+  getScheduleExceptionForDate,
+  getThirdPartyBlocksForDate,
+  getThirdPartyWindows,
+  getThirdPartyLabel,
   generateMonthDays,
   calculateYearlyStats,
+  calculateRangeStats,
+  calculatePlanStats,
+  parseExchangeTime,
+  getExchangeTimeForDate,
+  getCalculationMethod,
 } from './useCustodyEngine';
-export type { UseCustodyEngineReturn, YearlyStats } from './useCustodyEngine';
+export type { UseCustodyEngineReturn, YearlyStats, ParentYearlyStats, RangeStats, PlanYearStats, PlanStats, HolidayOverrideInfo } from './useCustodyEngine';
 
 export { useLocalStorage } from './useLocalStorage';
 export type { UseLocalStorageReturn } from './useLocalStorage';
@@ -1,8 +1,11 @@
 import { useMemo, useCallback } from 'react';
-import type { AppConfig, ParentId, CalendarDay, MonthlyBreakdown, HolidayState, HolidayUserConfig, AssignmentType, InServiceDayConfig, TrackBreak, SchoolType } from '../types';
-import { PATTERNS } from '../data/patterns';
-import { getHolidayDates, getHolidayById } from '../data/holidays';
+import type { AppConfig, CalculationMethod, ParentId, ScheduleException, CalendarDay, MonthlyBreakdown, HolidayState, HolidayUserConfig, BirthdayConfig, AssignmentType, CustomReligiousHoliday, SplitPeriodConfig, HolidayDateOverride, InServiceDayConfig, TrackBreak, SchoolType, ThirdPartyBlock } from '../types';
+import { PATTERNS, isValidCustomPattern } from '../data/patterns';
+import { getHolidayDates, getHolidayById, DEFAULT_WINTER_BREAK_SPLIT } from '../data/holidays';
+import { getReligiousHolidayById, getReligiousHolidayDates } from '../data/religiousHolidays';
 import { addDays } from '../utils/holidayExpansion';
+import { getSummerPickForDate, isSummerSelectionActive } from '../utils/summerSelection';
+import { getWeightedVisitRuleById } from '../data/weightedVisitRules';
 
 // Re-export addDays for backwards compatibility with existing consumers
 export { addDays };
@@ -152,8 +155,22 @@ export function getOwnerForDate(date: string, config: AppConfig): ParentId {
     return config.startingParent;
   }
 
-  // Special case: custom patterns (not implemented yet - return starting parent)
-  if (pattern.type === 'custom' || pattern.cycleLength === 0) {
+  // Special case: custom patterns use the user-defined cycle from AppConfig.
+  // Without a valid cycle we fall back to the starting parent.
+  if (pattern.type === 'custom') {
+    if (!isValidCustomPattern(config.customPattern)) {
+      return config.startingParent;
+    }
+    return getPatternOwner(
+      date,
+      config.startDate,
+      config.customPattern,
+      config.customPattern.length,
+      config.startingParent
+    );
+  }
+
+  if (pattern.cycleLength === 0) {
     return config.startingParent;
   }
 
@@ -170,11 +187,16 @@ export function getOwnerForDate(date: string, config: AppConfig): ParentId {
 /**
  * Get holiday information for a specific date.
  * Returns the holiday config and name if the date is a holiday, or null otherwise.
+ *
+ * Multi-day holidays are spans that can start in one year and end in the next
+ * (Winter Break runs December 23 through January 2), so the previous year's
+ * occurrence is checked as well. The returned year is the year the occurrence
+ * started in, which decides odd/even alternation for the whole span.
  */
 export function getHolidayForDate(
   date: string,
   holidayConfigs: HolidayUserConfig[]
-): { config: HolidayUserConfig; name: string } | null {
+): { config: HolidayUserConfig; name: string; year: number } | null {
   const dateYear = parseInt(date.split('-')[0], 10);
 
   for (const config of holidayConfigs) {
@@ -183,15 +205,125 @@ export function getHolidayForDate(
     const holiday = getHolidayById(config.holidayId);
     if (!holiday) continue;
 
-    const holidayDates = getHolidayDates(holiday, dateYear);
-    if (holidayDates.includes(date)) {
-      return { config, name: holiday.name };
+    for (const year of [dateYear, dateYear - 1]) {
+      if (getHolidayDates(holiday, year, config.dateOverrides, config.expansionRule).includes(date)) {
+        return { config, name: holiday.name, year };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The holiday that governs a date, normalized across standard and religious holidays.
+ */
+export interface HolidayOverrideInfo {
+  /** Holiday ID (standard, religious or custom religious) */
+  holidayId: string;
+  /** Display name */
+  name: string;
+  /** Assignment type to resolve */
+  assignment: AssignmentType;
+  /** Year the holiday occurrence started in, used for odd/even alternation */
+  year: number;
+  /** Per-holiday split configuration, if set on the user config */
+  splitConfig?: SplitPeriodConfig;
+  /** Per-holiday exchange time ("HH:MM"), if set on the user config */
+  exchangeTime?: string;
+  /** Parent who has the holiday in odd years, if set on the user config */
+  oddYearParent?: ParentId;
+}
+
+/**
+ * Get the date(s) for a user-defined religious holiday in a specific year.
+ */
+function getCustomReligiousHolidayDates(holiday: CustomReligiousHoliday, year: number): string[] {
+  const startDate = holiday.dates[year];
+  if (!startDate) return [];
+
+  const dates: string[] = [];
+  for (let i = 0; i < Math.max(1, holiday.duration); i++) {
+    dates.push(addDays(startDate, i));
+  }
+  return dates;
+}
+
+/**
+ * Get religious holiday information for a specific date.
+ * Checks enabled predefined religious holidays first, then user-defined custom ones.
+ *
+ * Occurrences are looked up for the date's year and the previous year so that
+ * multi-day observances starting in late December still cover early January.
+ * The returned year is the year the occurrence started in.
+ */
+export function getReligiousHolidayForDate(
+  date: string,
+  holidays?: HolidayState
+): HolidayOverrideInfo | null {
+  const dateYear = parseInt(date.split('-')[0], 10);
+  const years = [dateYear, dateYear - 1];
+
+  for (const config of holidays?.religiousHolidayConfigs ?? []) {
+    if (!config.enabled) continue;
+
+    const holiday = getReligiousHolidayById(config.holidayId);
+    if (!holiday) continue;
+
+    for (const year of years) {
+      if (getReligiousHolidayDates(holiday, year).includes(date)) {
+        return { holidayId: holiday.id, name: holiday.name, assignment: config.assignment, year };
+      }
+    }
+  }
+
+  for (const custom of holidays?.customReligiousHolidays ?? []) {
+    for (const year of years) {
+      if (getCustomReligiousHolidayDates(custom, year).includes(date)) {
+        return { holidayId: custom.id, name: custom.name, assignment: custom.assignment, year };
+      }
     }
   }
 
   return null;
 }
 
+/**
+ * Get the holiday that governs a date, combining religious and standard holidays.
+ *
+ * Religious holidays take precedence over federal holidays and school breaks:
+ * they are opted into per family and usually fall inside a longer break
+ * (e.g. Hanukkah during Winter Break, Passover during Spring Break).
+ */
+export function getHolidayOverrideForDate(
+  date: string,
+  holidays?: HolidayState
+): HolidayOverrideInfo | null {
+  const religious = getReligiousHolidayForDate(date, holidays);
+  if (religious) {
+    return religious;
+  }
+
+  if (!holidays?.holidayConfigs || holidays.holidayConfigs.length === 0) {
+    return null;
+  }
+
+  const holidayInfo = getHolidayForDate(date, holidays.holidayConfigs);
+  if (!holidayInfo) {
+    return null;
+  }
+
+  return {
+    holidayId: holidayInfo.config.holidayId,
+    name: holidayInfo.name,
+    assignment: holidayInfo.config.assignment,
+    year: holidayInfo.year,
+    splitConfig: holidayInfo.config.splitConfig,
+    exchangeTime: holidayInfo.config.exchangeTime,
+    oddYearParent: holidayInfo.config.oddYearParent,
+  };
+}
+
 /**
  * Convert an assignment type to an actual parent ID for a given year.
  * 
@@ -217,51 +349,263 @@ export function resolveAssignment(
       // Even years (2024, 2026) = other parent
       return year % 2 === 1 ? startingParent : getOtherParent(startingParent);
     case 'split-period':
-      // Split period is handled at a higher level
+      // Split period is resolved per segment by resolveHolidayOwner
       return startingParent;
     case 'selection-priority':
       // Selection priority is handled at a higher level
       return startingParent;
+    case 'extend-weekend':
+      // The attached weekend's owner is resolved by resolveHolidayOwner
+      return startingParent;
     default:
       return startingParent;
   }
 }
 
+/**
+ * Get the split configuration for a split-period holiday.
+ * A splitConfig on the holiday's user config wins, then HolidayState.winterBreakSplit;
+ * Winter Break falls back to DEFAULT_WINTER_BREAK_SPLIT.
+ */
+export function getSplitConfigForHoliday(
+  holidayInfo: HolidayOverrideInfo,
+  holidays?: HolidayState
+): SplitPeriodConfig | undefined {
+  if (holidayInfo.splitConfig) {
+    return holidayInfo.splitConfig;
+  }
+  if (holidays?.winterBreakSplit?.holidayId === holidayInfo.holidayId) {
+    return holidays.winterBreakSplit;
+  }
+  if (DEFAULT_WINTER_BREAK_SPLIT.holidayId === holidayInfo.holidayId) {
+    return DEFAULT_WINTER_BREAK_SPLIT;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the owner of a day inside a split-period holiday.
+ *
+ * The occurrence that started in `year` is divided at splitDate (MM-DD): days before
+ * it belong to segment 1, the split day and later belong to segment 2 (the exchange
+ * happens on the split day, so the receiving parent has that night).
+ *
+ * An 'alternate-odd-even' segment 2 alternates opposite to segment 1, so with the
+ * default configuration the parents trade halves every year.
+ *
+ * When the holiday has a date override for the year, the split day is looked up
+ * in the overridden dates.
+ */
+export function resolveSplitPeriodOwner(
+  date: string,
+  splitConfig: SplitPeriodConfig,
+  year: number,
+  startingParent: ParentId,
+  dateOverrides?: HolidayDateOverride[]
+): ParentId {
+  const holiday = getHolidayById(splitConfig.holidayId);
+  const occurrence = holiday ? getHolidayDates(holiday, year, dateOverrides) : [];
+  const splitDay = occurrence.find((d) => d.slice(5) === splitConfig.splitDate);
+  const isSegment2 = splitDay !== undefined && date >= splitDay;
+
+  if (!isSegment2) {
+    return resolveAssignment(splitConfig.segment1Assignment, year, startingParent);
+  }
+
+  if (splitConfig.segment2Assignment === 'alternate-odd-even') {
+    return getOtherParent(resolveAssignment('alternate-odd-even', year, startingParent));
+  }
+  return resolveAssignment(splitConfig.segment2Assignment, year, startingParent);
+}
+
+/**
+ * Get the parent who has the weekend attached to a holiday in the base schedule.
+ *
+ * Weekend days keep their base owner. For a weekday, the engine looks back
+ * through the holiday's dates to the weekend before it (a Monday holiday extends
+ * that weekend), then forward to the weekend after it (a Friday holiday starts
+ * the weekend early).
+ *
+ * @param date - The holiday day
+ * @param holidayDates - All dates of the holiday occurrence
+ * @param config - App configuration for the base schedule
+ * @returns The weekend's owner, or null when no weekend touches the holiday
+ */
+export function getAttachedWeekendOwner(
+  date: string,
+  holidayDates: string[],
+  config: AppConfig
+): ParentId | null {
+  if (isWeekend(date)) {
+    return getOwnerForDate(date, config);
+  }
+
+  for (const step of [-1, 1]) {
+    for (let day = addDays(date, step); ; day = addDays(day, step)) {
+      if (isWeekend(day)) return getOwnerForDate(day, config);
+      if (!holidayDates.includes(day)) break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve the owner of a holiday day, handling split-period holidays.
+ * Odd/even alternation starts from the holiday's oddYearParent when it has one.
+ *
+ * 'extend-weekend' holidays need the app configuration to find the attached
+ * weekend's owner; a holiday no weekend touches follows the base schedule.
+ */
+export function resolveHolidayOwner(
+  date: string,
+  holidayInfo: HolidayOverrideInfo,
+  startingParent: ParentId,
+  holidays?: HolidayState,
+  config?: AppConfig
+): ParentId {
+  if (holidayInfo.assignment === 'extend-weekend' && config) {
+    const holiday = getHolidayById(holidayInfo.holidayId);
+    const holidayConfig = holidays?.holidayConfigs.find((c) => c.holidayId === holidayInfo.holidayId);
+    const holidayDates = holiday
+      ? getHolidayDates(holiday, holidayInfo.year, holidayConfig?.dateOverrides, holidayConfig?.expansionRule)
+      : [date];
+    return getAttachedWeekendOwner(date, holidayDates, config) ?? getOwnerForDate(date, config);
+  }
+
+  const oddYearParent = holidayInfo.oddYearParent ?? startingParent;
+  if (holidayInfo.assignment === 'split-period') {
+    const splitConfig = getSplitConfigForHoliday(holidayInfo, holidays);
+    if (splitConfig) {
+      const dateOverrides = holidays?.holidayConfigs.find((c) => c.holidayId === splitConfig.holidayId)?.dateOverrides;
+      return resolveSplitPeriodOwner(date, splitConfig, holidayInfo.year, oddYearParent, dateOverrides);
+    }
+  }
+  return resolveAssignment(holidayInfo.assignment, holidayInfo.year, oddYearParent);
+}
+
+// ============================================================================
+// Birthday Logic
+// ============================================================================
+
+/**
+ * Holiday definition IDs that toggle each birthday type on or off.
+ * Matches the IDs in BIRTHDAY_DEFINITIONS.
+ */
+const BIRTHDAY_HOLIDAY_IDS: Record<BirthdayConfig['type'], string> = {
+  'child': 'child-birthday',
+  'parent-a': 'father-birthday',
+  'parent-b': 'mother-birthday',
+};
+
+/**
+ * Get the date a birthday is observed on in a given year (YYYY-MM-DD).
+ * February 29 birthdays are observed on February 28 in non-leap years.
+ */
+export function getBirthdayDate(birthday: BirthdayConfig, year: number): string {
+  const day = Math.min(birthday.day, getDaysInMonth(year, birthday.month - 1));
+  return formatDateString(year, birthday.month - 1, day);
+}
+
+/**
+ * Get the display label for a birthday.
+ * Auto-generated child birthdays are already named "Emma's Birthday"; manual entries
+ * hold just the person's name.
+ */
+export function getBirthdayLabel(birthday: BirthdayConfig): string {
+  const name = birthday.name.trim();
+  if (!name) return 'Birthday';
+  return /birthday$/i.test(name) ? name : `${name}'s Birthday`;
+}
+
+/**
+ * Get the birthday observed on a specific date, or null if there is none.
+ *
+ * A birthday type is skipped when its matching holiday config (e.g. 'child-birthday')
+ * is present and disabled. Children's birthdays win over parents' birthdays when
+ * they fall on the same day; otherwise the first matching entry wins.
+ */
+export function getBirthdayForDate(
+  date: string,
+  holidays?: HolidayState
+): BirthdayConfig | null {
+  if (!holidays?.birthdays || holidays.birthdays.length === 0) {
+    return null;
+  }
+
+  const year = parseInt(date.split('-')[0], 10);
+  const isTypeEnabled = (type: BirthdayConfig['type']): boolean => {
+    const typeConfig = holidays.holidayConfigs?.find(
+      (c) => c.holidayId === BIRTHDAY_HOLIDAY_IDS[type]
+    );
+    return typeConfig?.enabled ?? true;
+  };
+
+  const matches = holidays.birthdays.filter(
+    (birthday) => isTypeEnabled(birthday.type) && getBirthdayDate(birthday, year) === date
+  );
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return matches.find((birthday) => birthday.type === 'child') ?? matches[0];
+}
+
 /**
  * Get the custody owner for a date with holiday override consideration.
  * Implements the 4-layer priority: Vacation > Holiday > Seasonal > Base
+ *
+ * Within the holiday layer, birthdays (priority 50) take precedence over
+ * religious holidays, which take precedence over regular holidays and breaks.
  */
 export function getOwnerForDateWithHolidays(
   date: string,
   config: AppConfig,
   holidays?: HolidayState
-): { owner: ParentId; holidayName?: string; isHolidayOverride: boolean } {
+): {
+  owner: ParentId;
+  holidayName?: string;
+  isHolidayOverride: boolean;
+  birthdayName?: string;
+  isBirthdayOverride: boolean;
+} {
   // Layer 1: Base schedule
   const baseOwner = getOwnerForDate(date, config);
+  const year = parseInt(date.split('-')[0], 10);
 
-  // If no holidays configured, return base
-  if (!holidays?.holidayConfigs || holidays.holidayConfigs.length === 0) {
-    return { owner: baseOwner, isHolidayOverride: false };
+  const holidayInfo = getHolidayOverrideForDate(date, holidays);
+
+  // Layer 2a: Birthday override
+  const birthday = getBirthdayForDate(date, holidays);
+  if (birthday) {
+    return {
+      owner: resolveAssignment(birthday.defaultAssignment, year, config.startingParent),
+      holidayName: holidayInfo?.name,
+      isHolidayOverride: false,
+      birthdayName: getBirthdayLabel(birthday),
+      isBirthdayOverride: true,
+    };
   }
 
-  // Layer 2: Holiday override
-  const holidayInfo = getHolidayForDate(date, holidays.holidayConfigs);
-  if (holidayInfo) {
-    const year = parseInt(date.split('-')[0], 10);
-    const holidayOwner = resolveAssignment(
-      holidayInfo.config.assignment,
-      year,
-      config.startingParent
-    );
+  // Layer 2b: Holiday override (religious holidays before standard holidays).
+  // Selection-priority holidays (Summer Vacation) only change ownership for the
+  // weeks parents pick, which getOwnerForDateComplete applies as a vacation layer.
+  if (holidayInfo && holidayInfo.assignment !== 'selection-priority') {
+    const holidayOwner = resolveHolidayOwner(date, holidayInfo, config.startingParent, holidays, config);
     return {
       owner: holidayOwner,
       holidayName: holidayInfo.name,
       isHolidayOverride: true,
+      isBirthdayOverride: false,
     };
   }
 
   // No holiday override, return base
-  return { owner: baseOwner, isHolidayOverride: false };
+  return {
+    owner: baseOwner,
+    holidayName: holidayInfo?.name,
+    isHolidayOverride: false,
+    isBirthdayOverride: false,
+  };
 }
 
 // ============================================================================
@@ -285,17 +629,7 @@ export function isHoliday(
   dateStr: string,
   holidayConfigs: HolidayUserConfig[]
 ): boolean {
-  const year = parseInt(dateStr.split('-')[0], 10);
-  for (const config of holidayConfigs) {
-    if (!config.enabled) continue;
-    const holiday = getHolidayById(config.holidayId);
-    if (!holiday) continue;
-    const holidayDates = getHolidayDates(holiday, year);
-    if (holidayDates.includes(dateStr)) {
-      return true;
-    }
-  }
-  return false;
+  return getHolidayForDate(dateStr, holidayConfigs) !== null;
 }
 
 /**
@@ -310,17 +644,11 @@ export function getAdjacentSpecialDayOwner(
   config: AppConfig,
   holidays?: HolidayState
 ): ParentId | null {
-  // Check if it's a holiday first (takes priority)
-  if (holidays?.holidayConfigs && holidays.holidayConfigs.length > 0) {
-    const holidayInfo = getHolidayForDate(dateStr, holidays.holidayConfigs);
-    if (holidayInfo) {
-      const year = parseInt(dateStr.split('-')[0], 10);
-      return resolveAssignment(
-        holidayInfo.config.assignment,
-        year,
-        config.startingParent
-      );
-    }
+  // Check if it's a holiday first (takes priority).
+  // Selection-priority holidays have no single owner, so they don't count.
+  const holidayInfo = getHolidayOverrideForDate(dateStr, holidays);
+  if (holidayInfo && holidayInfo.assignment !== 'selection-priority') {
+    return resolveHolidayOwner(dateStr, holidayInfo, config.startingParent, holidays, config);
   }
 
   // Check if it's a weekend
@@ -499,14 +827,115 @@ export function getTrackBreakInfo(
   };
 }
 
+// ============================================================================
+// Schedule Exceptions
+// ============================================================================
+
+/**
+ * Get the one-time schedule exception covering a date, or null if none does.
+ * When exceptions overlap, the most recently added one wins.
+ */
+export function getScheduleExceptionForDate(
+  dateStr: string,
+  exceptions?: ScheduleException[]
+): ScheduleException | null {
+  if (!exceptions) return null;
+
+  for (let i = exceptions.length - 1; i >= 0; i--) {
+    const exception = exceptions[i];
+    if (dateStr >= exception.startDate && dateStr <= exception.endDate) {
+      return exception;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// Third-Party Time (school, daycare)
+// ============================================================================
+
+/**
+ * Get the third-party blocks that apply on a date. Blocks that follow the school
+ * calendar are skipped on in-service days and during track breaks.
+ *
+ * @param dateStr - The date (ISO 8601 string)
+ * @param blocks - Recurring third-party blocks
+ * @param inServiceDays - Optional array of in-service day dates (ISO format)
+ * @param trackBreaks - Optional array of track breaks for year-round school
+ * @param schoolType - Optional school type (traditional or year-round)
+ */
+export function getThirdPartyBlocksForDate(
+  dateStr: string,
+  blocks?: ThirdPartyBlock[],
+  inServiceDays?: string[],
+  trackBreaks?: TrackBreak[],
+  schoolType?: SchoolType
+): ThirdPartyBlock[] {
+  if (!blocks || blocks.length === 0) return [];
+
+  const weekday = new Date(dateStr + 'T00:00:00').getDay();
+  return blocks.filter((block) => {
+    if (!block.weekdays.includes(weekday)) return false;
+    if (block.startDate && dateStr < block.startDate) return false;
+    if (block.endDate && dateStr > block.endDate) return false;
+    if (block.followsSchoolCalendar) {
+      if (inServiceDays?.includes(dateStr)) return false;
+      if (getTrackBreakInfo(dateStr, trackBreaks, schoolType).isTrackBreak) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Merge the time windows of third-party blocks into sorted, non-overlapping
+ * [start, end) ranges in minutes after midnight. Blocks with malformed times are skipped.
+ */
+export function getThirdPartyWindows(blocks: ThirdPartyBlock[]): [number, number][] {
+  const windows = blocks
+    .map((block): [number, number] | null => {
+      const start = parseExchangeTime(block.startTime);
+      const end = parseExchangeTime(block.endTime);
+      return start !== null && end !== null && end > start ? [start, end] : null;
+    })
+    .filter((window): window is [number, number] => window !== null)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const [start, end] of windows) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Describe the third-party blocks on a date (e.g., "School 8:00 AM – 3:00 PM").
+ */
+export function getThirdPartyLabel(blocks: ThirdPartyBlock[]): string {
+  return blocks
+    .map((block) => {
+      const start = parseExchangeTime(block.startTime);
+      const end = parseExchangeTime(block.endTime);
+      return start !== null && end !== null
+        ? `${block.label} ${formatTimeOfDay(start)} – ${formatTimeOfDay(end)}`
+        : block.label;
+    })
+    .join('; ');
+}
+
 /**
  * Get the full ownership result for a date, including in-service day consideration.
  * This is the main function that implements the full priority stack including in-service days.
  * 
  * Priority (highest to lowest):
  * 1. In-service day attachment (when adjacent to holiday/weekend)
- * 2. Holiday override
- * 3. Base schedule
+ * 2. Birthday override
+ * 3. Holiday override
+ * 4. Base schedule
  */
 export function getOwnerForDateFull(
   date: string,
@@ -518,6 +947,8 @@ export function getOwnerForDateFull(
   owner: ParentId;
   holidayName?: string;
   isHolidayOverride: boolean;
+  birthdayName?: string;
+  isBirthdayOverride: boolean;
   isInServiceDay: boolean;
   isInServiceAttached: boolean;
 } {
@@ -534,9 +965,8 @@ export function getOwnerForDateFull(
     );
 
     // Even if attached, we still want to check for holiday name for display
-    const holidayInfo = holidays?.holidayConfigs
-      ? getHolidayForDate(date, holidays.holidayConfigs)
-      : null;
+    const holidayInfo = getHolidayOverrideForDate(date, holidays);
+    const birthday = getBirthdayForDate(date, holidays);
 
     return {
       owner,
@@ -545,22 +975,23 @@ export function getOwnerForDateFull(
       // We mark isHolidayOverride as false because the ownership is determined
       // by the in-service attachment rule, not by the holiday's assignment.
       isHolidayOverride: false,
+      birthdayName: birthday ? getBirthdayLabel(birthday) : undefined,
+      isBirthdayOverride: false,
       isInServiceDay: true,
       isInServiceAttached,
     };
   }
 
   // Not an in-service day or in-service handling disabled, use standard logic
-  const { owner, holidayName, isHolidayOverride } = getOwnerForDateWithHolidays(
-    date,
-    config,
-    holidays
-  );
+  const { owner, holidayName, isHolidayOverride, birthdayName, isBirthdayOverride } =
+    getOwnerForDateWithHolidays(date, config, holidays);
 
   return {
     owner,
     holidayName,
     isHolidayOverride,
+    birthdayName,
+    isBirthdayOverride,
     isInServiceDay: isInService,
     isInServiceAttached: false,
   };
@@ -571,10 +1002,13 @@ export function getOwnerForDateFull(
  * This is the most comprehensive function that implements the full priority stack.
  * 
  * Priority (highest to lowest):
- * 1. Track break vacation claim (when year-round school and vacation claimed)
- * 2. In-service day attachment (when adjacent to holiday/weekend)
- * 3. Holiday override
- * 4. Base schedule (track breaks follow base schedule unless vacation claimed)
+ * 1. One-time schedule exception
+ * 2. Track break vacation claim (when year-round school and vacation claimed)
+ * 3. Summer vacation pick (weeks chosen through summer selection)
+ * 4. In-service day attachment (when adjacent to holiday/weekend)
+ * 5. Birthday override
+ * 6. Holiday override (religious holidays before standard holidays)
+ * 7. Base schedule (track breaks follow base schedule unless vacation claimed)
  */
 export function getOwnerForDateComplete(
   date: string,
@@ -583,38 +1017,72 @@ export function getOwnerForDateComplete(
   inServiceDays?: string[],
   inServiceConfig?: InServiceDayConfig,
   trackBreaks?: TrackBreak[],
-  schoolType?: SchoolType
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[]
 ): {
   owner: ParentId;
   holidayName?: string;
   isHolidayOverride: boolean;
+  birthdayName?: string;
+  isBirthdayOverride: boolean;
   isInServiceDay: boolean;
   isInServiceAttached: boolean;
   isTrackBreak: boolean;
   trackBreakName?: string;
   isTrackBreakVacationClaimed: boolean;
+  isSummerVacation: boolean;
+  isException: boolean;
+  exceptionReason?: string;
 } {
-  // Get track break info first (highest priority)
+  // A one-time exception beats every rule; the remaining layers are kept for display only
+  const exception = getScheduleExceptionForDate(date, exceptions);
+  if (exception) {
+    const scheduled = getOwnerForDateComplete(
+      date,
+      config,
+      holidays,
+      inServiceDays,
+      inServiceConfig,
+      trackBreaks,
+      schoolType
+    );
+    return {
+      ...scheduled,
+      owner: exception.parent,
+      isHolidayOverride: false,
+      isBirthdayOverride: false,
+      isInServiceAttached: false,
+      isTrackBreakVacationClaimed: false,
+      isSummerVacation: false,
+      isException: true,
+      exceptionReason: exception.reason,
+    };
+  }
+
+  // Get track break info next
   const trackBreakInfo = getTrackBreakInfo(date, trackBreaks, schoolType);
 
   // If in a track break with a vacation claimed, the claiming parent gets the day
-  // This is the highest priority and overrides everything else including holidays and in-service days
+  // Only one-time exceptions rank higher; this overrides holidays and in-service days
   if (trackBreakInfo.isTrackBreak && trackBreakInfo.vacationClaimed) {
     // Still need to get other metadata for display purposes
     const isInService = inServiceDays?.includes(date) ?? false;
-    const holidayInfo = holidays?.holidayConfigs
-      ? getHolidayForDate(date, holidays.holidayConfigs)
-      : null;
+    const holidayInfo = getHolidayOverrideForDate(date, holidays);
+    const birthday = getBirthdayForDate(date, holidays);
 
     return {
       owner: trackBreakInfo.vacationClaimed.claimedBy,
       holidayName: holidayInfo?.name,
       isHolidayOverride: false, // Track break vacation takes precedence
+      birthdayName: birthday ? getBirthdayLabel(birthday) : undefined,
+      isBirthdayOverride: false, // Track break vacation takes precedence
       isInServiceDay: isInService,
       isInServiceAttached: false, // Track break vacation takes precedence
       isTrackBreak: true,
       trackBreakName: trackBreakInfo.trackBreakName,
       isTrackBreakVacationClaimed: true,
+      isSummerVacation: false,
+      isException: false,
     };
   }
 
@@ -627,12 +1095,33 @@ export function getOwnerForDateComplete(
     inServiceConfig
   );
 
+  // Summer vacation picks override everything below the track break claim
+  const summerPick = isSummerSelectionActive(holidays?.holidayConfigs)
+    ? getSummerPickForDate(date, holidays?.summerSelections)
+    : null;
+  if (summerPick) {
+    return {
+      ...baseResult,
+      owner: summerPick.parent,
+      isHolidayOverride: false,
+      isBirthdayOverride: false,
+      isInServiceAttached: false,
+      isTrackBreak: trackBreakInfo.isTrackBreak,
+      trackBreakName: trackBreakInfo.trackBreakName,
+      isTrackBreakVacationClaimed: false,
+      isSummerVacation: true,
+      isException: false,
+    };
+  }
+
   // Track break without vacation follows regular schedule
   return {
     ...baseResult,
     isTrackBreak: trackBreakInfo.isTrackBreak,
     trackBreakName: trackBreakInfo.trackBreakName,
     isTrackBreakVacationClaimed: false,
+    isSummerVacation: false,
+    isException: false,
   };
 }
 
@@ -649,6 +1138,8 @@ export function getOwnerForDateComplete(
  * @param inServiceConfig - Optional in-service day configuration
  * @param trackBreaks - Optional array of track breaks for year-round school
  * @param schoolType - Optional school type (traditional or year-round)
+ * @param exceptions - Optional one-time schedule exceptions
+ * @param thirdPartyBlocks - Optional recurring school or daycare time, marked on each day
  */
 export function generateMonthDays(
   year: number,
@@ -659,7 +1150,9 @@ export function generateMonthDays(
   inServiceDays?: string[],
   inServiceConfig?: InServiceDayConfig,
   trackBreaks?: TrackBreak[],
-  schoolType?: SchoolType
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[],
+  thirdPartyBlocks?: ThirdPartyBlock[]
 ): CalendarDay[] {
   const today = new Date();
   const todayStr = formatDateString(today.getFullYear(), today.getMonth(), today.getDate());
@@ -692,16 +1185,21 @@ export function generateMonthDays(
     const isCurrentMonth = currentDate.getMonth() === month;
     const isTodayDate = dateStr === todayStr;
 
-    // Get owner with complete consideration (holidays + in-service days + track breaks)
+    // Get owner with complete consideration (exceptions + holidays + in-service days + track breaks)
     const {
       owner,
       holidayName,
       isHolidayOverride,
+      birthdayName,
+      isBirthdayOverride,
       isInServiceDay,
       isInServiceAttached,
       isTrackBreak,
       trackBreakName,
       isTrackBreakVacationClaimed,
+      isSummerVacation,
+      isException,
+      exceptionReason,
     } = getOwnerForDateComplete(
       dateStr,
       config,
@@ -709,6 +1207,14 @@ export function generateMonthDays(
       inServiceDays,
       inServiceConfig,
       trackBreaks,
+      schoolType,
+      exceptions
+    );
+    const dayThirdPartyBlocks = getThirdPartyBlocksForDate(
+      dateStr,
+      thirdPartyBlocks,
+      inServiceDays,
+      trackBreaks,
       schoolType
     );
 
@@ -720,29 +1226,91 @@ export function generateMonthDays(
       isCurrentMonth,
       holidayName,
       isHolidayOverride,
+      birthdayName,
+      isBirthdayOverride,
       isInServiceDay,
       isInServiceAttached,
       isTrackBreak,
       trackBreakName,
       isTrackBreakVacationClaimed,
+      isSummerVacation,
+      isException,
+      exceptionReason,
+      thirdPartyLabel: dayThirdPartyBlocks.length > 0 ? getThirdPartyLabel(dayThirdPartyBlocks) : undefined,
     });
   }
 
   return days;
 }
 
+/**
+ * Per-parent yearly stats.
+ */
+export interface ParentYearlyStats {
+  /** Dates owned by the parent */
+  days: number;
+  /** Share of custody time under the calculation method */
+  percentage: number;
+  /** Hours with the parent ('duration' mode only) */
+  hours?: number;
+  /** Overnights credited to the parent ('overnights' mode only) */
+  overnights?: number;
+  /** Days credited for daytime visits under the weighted visit rule ('overnights' mode only) */
+  weightedDays?: number;
+  /** Hours of third-party time (school, daycare) during the parent's custody, when any is scheduled */
+  thirdPartyHours?: number;
+}
+
 /**
  * Yearly stats result interface.
  */
 export interface YearlyStats {
   /** Stats for parent A */
-  parentA: { days: number; percentage: number };
+  parentA: ParentYearlyStats;
   /** Stats for parent B */
-  parentB: { days: number; percentage: number };
+  parentB: ParentYearlyStats;
   /** Monthly breakdown for the year */
   monthlyBreakdown: MonthlyBreakdown[];
+  /** Counting method the stats were produced with */
+  method: CalculationMethod;
+}
+
+/**
+ * Stats for an arbitrary date range.
+ */
+export interface RangeStats {
+  /** First date of the range (YYYY-MM-DD) */
+  startDate: string;
+  /** Last date of the range (YYYY-MM-DD), inclusive */
+  endDate: string;
+  /** Stats for parent A */
+  parentA: ParentYearlyStats;
+  /** Stats for parent B */
+  parentB: ParentYearlyStats;
+  /** Counting method the stats were produced with */
+  method: CalculationMethod;
+}
+
+/**
+ * Stats for the part of one calendar year that falls inside a projection.
+ */
+export interface PlanYearStats extends RangeStats {
+  /** Calendar year */
+  year: number;
+}
+
+/**
+ * Stats projected over a multi-year range, such as the whole plan.
+ */
+export interface PlanStats {
+  /** Stats for the whole range */
+  total: RangeStats;
+  /** Stats for each calendar year in the range, in order */
+  yearlyBreakdown: PlanYearStats[];
 }
 
+const MINUTES_PER_DAY = 24 * 60;
+
 /**
  * Get the short month name for a given month index.
  */
@@ -751,10 +1319,304 @@ function getMonthName(month: number): string {
   return monthNames[month];
 }
 
+/**
+ * Parse an "HH:MM" exchange time into minutes after midnight.
+ * Returns null for malformed or out-of-range times.
+ */
+export function parseExchangeTime(time: string | undefined): number | null {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes after midnight as a 12-hour time (e.g., "6:00 PM").
+ */
+function formatTimeOfDay(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 || 12;
+  return `${displayHours}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Get the exchange time ("HH:MM") that applies to a date.
+ * A holiday covering the date uses its own exchange time when one is set;
+ * otherwise the schedule's regular exchange time applies.
+ */
+export function getExchangeTimeForDate(
+  date: string,
+  config: AppConfig,
+  holidays?: HolidayState
+): string {
+  return getHolidayOverrideForDate(date, holidays)?.exchangeTime ?? config.exchangeTime;
+}
+
+/**
+ * Describe the counting method a configuration produces stats with.
+ */
+export function getCalculationMethod(config: AppConfig): CalculationMethod {
+  switch (config.calculationMode) {
+    case 'duration':
+      return {
+        mode: 'duration',
+        label: 'Duration',
+        description: 'Time is counted in hours, with each day split at the exchange time when custody changes hands.' +
+          (config.deductThirdPartyTime
+            ? " Third-party time such as school or daycare is deducted from each parent's hours and from the total."
+            : ''),
+      };
+    case 'overnights': {
+      const cutoff = formatTimeOfDay(parseExchangeTime(config.overnightCutoffTime) ?? 0);
+      const rule = getWeightedVisitRuleById(config.weightedVisitRuleId);
+      return {
+        mode: 'overnights',
+        label: 'Overnights',
+        description: `Each overnight is credited to the parent who has the child at ${cutoff}.` +
+          (rule ? ` ${rule.description}.` : ''),
+      };
+    }
+    default:
+      return {
+        mode: 'days',
+        label: 'Days',
+        description: 'Each calendar day is credited to the parent who has the child that day.',
+      };
+  }
+}
+
+/**
+ * Round a share of a total to a percentage with 2 decimal places.
+ */
+function toPercentage(value: number, total: number): number {
+  // We multiply by 10000, round, then divide by 100 to get values like 50.14%
+  // Example: (182 / 365) * 10000 = 4986.3... → round → 4986 → / 100 → 49.86
+  if (total === 0) return 0;
+  return Math.round((value / total) * 10000) / 100;
+}
+
+/**
+ * Convert minutes to hours with 2 decimal places.
+ */
+function toHours(minutes: number): number {
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+/**
+ * Custody totals for a span of dates under the calculation method.
+ */
+type CustodyTotals = Pick<YearlyStats, 'parentA' | 'parentB' | 'method'>;
+
+/**
+ * Resolve ownership from the day before a range through the day after it,
+ * so handoffs and overnights at the edges of the range can be resolved,
+ * along with each date's third-party time windows.
+ */
+function resolveOwnershipWithMargins(
+  startDate: string,
+  endDate: string,
+  config: AppConfig,
+  holidays?: HolidayState,
+  inServiceDays?: string[],
+  inServiceConfig?: InServiceDayConfig,
+  trackBreaks?: TrackBreak[],
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[],
+  thirdPartyBlocks?: ThirdPartyBlock[]
+): { dates: string[]; results: ReturnType<typeof getOwnerForDateComplete>[]; thirdPartyWindows: [number, number][][] } {
+  const dates: string[] = [];
+  const lastDate = addDays(endDate, 1);
+  for (let date = addDays(startDate, -1); date <= lastDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  const results = dates.map((date) => getOwnerForDateComplete(
+    date,
+    config,
+    holidays,
+    inServiceDays,
+    inServiceConfig,
+    trackBreaks,
+    schoolType,
+    exceptions
+  ));
+  const thirdPartyWindows = dates.map((date) => getThirdPartyWindows(
+    getThirdPartyBlocksForDate(date, thirdPartyBlocks, inServiceDays, trackBreaks, schoolType)
+  ));
+  return { dates, results, thirdPartyWindows };
+}
+
+/**
+ * Total custody time for the dates between the first and last entries (the margins
+ * from resolveOwnershipWithMargins), counted by config.calculationMode.
+ * Third-party time is reported for every mode and deducted in 'duration' mode
+ * when config.deductThirdPartyTime is set.
+ */
+function summarizeCustody(
+  dates: string[],
+  results: ReturnType<typeof getOwnerForDateComplete>[],
+  config: AppConfig,
+  holidays?: HolidayState,
+  thirdPartyWindows?: [number, number][][]
+): CustodyTotals {
+  const method = getCalculationMethod(config);
+  const lastIndex = dates.length - 2;
+
+  let parentADays = 0;
+  let parentBDays = 0;
+  for (let i = 1; i <= lastIndex; i++) {
+    if (results[i].owner === 'parentA') {
+      parentADays++;
+    } else {
+      parentBDays++;
+    }
+  }
+
+  // Minutes after midnight at which custody changes hands on each date, or null
+  const defaultExchange = parseExchangeTime(config.exchangeTime) ?? 0;
+  const handoffs = results.map((result, i): number | null => {
+    if (i === 0 || result.owner === results[i - 1].owner) return null;
+
+    const exchangeTime = result.isHolidayOverride
+      ? getExchangeTimeForDate(dates[i], config, holidays)
+      : results[i - 1].isHolidayOverride
+        ? getExchangeTimeForDate(dates[i - 1], config, holidays)
+        : config.exchangeTime;
+    return parseExchangeTime(exchangeTime) ?? defaultExchange;
+  });
+
+  // Third-party minutes during each parent's custody; a window that spans the
+  // exchange is split between the previous and the new owner
+  const thirdPartyMinutes: Record<ParentId, number> = { parentA: 0, parentB: 0 };
+  let hasThirdPartyTime = false;
+  for (let i = 1; i <= lastIndex; i++) {
+    const split = handoffs[i] ?? 0;
+    for (const [start, end] of thirdPartyWindows?.[i] ?? []) {
+      hasThirdPartyTime = true;
+      thirdPartyMinutes[results[i - 1].owner] += Math.max(0, Math.min(end, split) - start);
+      thirdPartyMinutes[results[i].owner] += Math.max(0, end - Math.max(start, split));
+    }
+  }
+  const thirdParty = (parent: ParentId) =>
+    hasThirdPartyTime ? { thirdPartyHours: toHours(thirdPartyMinutes[parent]) } : {};
+
+  if (method.mode === 'days') {
+    const totalDays = parentADays + parentBDays;
+    return {
+      parentA: { days: parentADays, percentage: toPercentage(parentADays, totalDays), ...thirdParty('parentA') },
+      parentB: { days: parentBDays, percentage: toPercentage(parentBDays, totalDays), ...thirdParty('parentB') },
+      method,
+    };
+  }
+
+  if (method.mode === 'duration') {
+    const minutes: Record<ParentId, number> = { parentA: 0, parentB: 0 };
+    for (let i = 1; i <= lastIndex; i++) {
+      // Minutes before the exchange stay with the previous owner
+      const previousOwnerMinutes = handoffs[i] ?? 0;
+      minutes[results[i].owner] += MINUTES_PER_DAY - previousOwnerMinutes;
+      minutes[results[i - 1].owner] += previousOwnerMinutes;
+    }
+    if (config.deductThirdPartyTime) {
+      minutes.parentA -= thirdPartyMinutes.parentA;
+      minutes.parentB -= thirdPartyMinutes.parentB;
+    }
+
+    const totalMinutes = minutes.parentA + minutes.parentB;
+    return {
+      parentA: {
+        days: parentADays,
+        percentage: toPercentage(minutes.parentA, totalMinutes),
+        hours: toHours(minutes.parentA),
+        ...thirdParty('parentA'),
+      },
+      parentB: {
+        days: parentBDays,
+        percentage: toPercentage(minutes.parentB, totalMinutes),
+        hours: toHours(minutes.parentB),
+        ...thirdParty('parentB'),
+      },
+      method,
+    };
+  }
+
+  // Overnights: credit each night to whoever holds the child at the cutoff.
+  // Evening cutoffs fall on the night's own date, early-morning cutoffs on the next date.
+  const cutoff = parseExchangeTime(config.overnightCutoffTime) ?? 0;
+  const holderAt = (i: number, minute: number): ParentId => {
+    const handoff = handoffs[i];
+    return handoff !== null && minute < handoff ? results[i - 1].owner : results[i].owner;
+  };
+
+  const overnights: Record<ParentId, number> = { parentA: 0, parentB: 0 };
+  for (let i = 1; i <= lastIndex; i++) {
+    overnights[holderAt(cutoff >= MINUTES_PER_DAY / 2 ? i : i + 1, cutoff)]++;
+  }
+
+  // Weighted visits: custody periods starting in the range that contain no cutoff
+  const weightedDays: Record<ParentId, number> = { parentA: 0, parentB: 0 };
+  const rule = getWeightedVisitRuleById(config.weightedVisitRuleId);
+  if (rule) {
+    const handoffInstants = handoffs
+      .map((handoff, i) => (handoff === null ? null : { index: i, instant: i * MINUTES_PER_DAY + handoff }))
+      .filter((h): h is { index: number; instant: number } => h !== null);
+
+    for (let k = 0; k + 1 < handoffInstants.length; k++) {
+      const { index: startIndex, instant: start } = handoffInstants[k];
+      if (startIndex > lastIndex) break;
+
+      const end = handoffInstants[k + 1].instant;
+      const firstCutoff = Math.ceil((start - cutoff) / MINUTES_PER_DAY) * MINUTES_PER_DAY + cutoff;
+      if (firstCutoff >= end) {
+        weightedDays[results[startIndex].owner] += rule.getVisitCredit(end - start);
+      }
+    }
+  }
+
+  const credit = (parent: ParentId) => overnights[parent] + weightedDays[parent];
+  const totalCredit = credit('parentA') + credit('parentB');
+  return {
+    parentA: {
+      days: parentADays,
+      percentage: toPercentage(credit('parentA'), totalCredit),
+      overnights: overnights.parentA,
+      weightedDays: weightedDays.parentA,
+      ...thirdParty('parentA'),
+    },
+    parentB: {
+      days: parentBDays,
+      percentage: toPercentage(credit('parentB'), totalCredit),
+      overnights: overnights.parentB,
+      weightedDays: weightedDays.parentB,
+      ...thirdParty('parentB'),
+    },
+    method,
+  };
+}
+
 /**
  * Calculate yearly custody statistics for a given year.
  * Returns the total days, percentage split, and monthly breakdown for both parents.
  *
+ * The counting method follows config.calculationMode:
+ * - 'days': each date counts in full for its owner.
+ * - 'duration': each date on which custody changes hands is split at the exchange
+ *   time. The previous owner keeps the minutes before the exchange and the new owner
+ *   gets the rest. Handoffs that start or end a holiday override use that holiday's
+ *   exchange time. Hours are reported and percentages are based on minutes.
+ * - 'overnights': each night is credited to whoever has the child at the cutoff time
+ *   (config.overnightCutoffTime; times before noon fall on the next morning). Custody
+ *   periods that contain no cutoff are daytime visits, credited by the weighted visit
+ *   rule (config.weightedVisitRuleId) when one is selected.
+ *
+ * Third-party blocks (school, daycare) never change ownership. Their hours are
+ * reported for each parent, and in 'duration' mode config.deductThirdPartyTime
+ * subtracts them from each parent's minutes and from the total.
+ *
  * @param year - The year to calculate stats for
  * @param config - The app configuration
  * @param holidays - Optional holiday state for override consideration
@@ -762,7 +1624,9 @@ function getMonthName(month: number): string {
  * @param inServiceConfig - Optional in-service day configuration
  * @param trackBreaks - Optional array of track breaks for year-round school
  * @param schoolType - Optional school type (traditional or year-round)
- * @returns YearlyStats with day counts, percentages, and monthly breakdown
+ * @param exceptions - Optional one-time schedule exceptions
+ * @param thirdPartyBlocks - Optional recurring school or daycare time
+ * @returns YearlyStats with day counts, percentages, monthly breakdown and the method used
  */
 export function calculateYearlyStats(
   year: number,
@@ -771,35 +1635,36 @@ export function calculateYearlyStats(
   inServiceDays?: string[],
   inServiceConfig?: InServiceDayConfig,
   trackBreaks?: TrackBreak[],
-  schoolType?: SchoolType
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[],
+  thirdPartyBlocks?: ThirdPartyBlock[]
 ): YearlyStats {
-  let parentADays = 0;
-  let parentBDays = 0;
+  const { dates, results, thirdPartyWindows } = resolveOwnershipWithMargins(
+    formatDateString(year, 0, 1),
+    formatDateString(year, 11, 31),
+    config,
+    holidays,
+    inServiceDays,
+    inServiceConfig,
+    trackBreaks,
+    schoolType,
+    exceptions,
+    thirdPartyBlocks
+  );
+
   const monthlyBreakdown: MonthlyBreakdown[] = [];
 
   // Iterate through each month
+  let index = 1;
   for (let month = 0; month < 12; month++) {
     const daysInMonth = getDaysInMonth(year, month);
     let monthParentA = 0;
     let monthParentB = 0;
 
-    for (let day = 1; day <= daysInMonth; day++) {
-      const dateStr = formatDateString(year, month, day);
-      const { owner } = getOwnerForDateComplete(
-        dateStr,
-        config,
-        holidays,
-        inServiceDays,
-        inServiceConfig,
-        trackBreaks,
-        schoolType
-      );
-
-      if (owner === 'parentA') {
-        parentADays++;
+    for (let day = 1; day <= daysInMonth; day++, index++) {
+      if (results[index].owner === 'parentA') {
         monthParentA++;
       } else {
-        parentBDays++;
         monthParentB++;
       }
     }
@@ -811,24 +1676,127 @@ export function calculateYearlyStats(
     });
   }
 
-  const totalDays = parentADays + parentBDays;
-  
-  // Calculate percentage with 2 decimal places precision
-  // We multiply by 10000, round, then divide by 100 to get values like 50.14%
-  // Example: (182 / 365) * 10000 = 4986.3... → round → 4986 → / 100 → 49.86
   return {
-    parentA: {
-      days: parentADays,
-      percentage: Math.round((parentADays / totalDays) * 10000) / 100,
-    },
-    parentB: {
-      days: parentBDays,
-      percentage: Math.round((parentBDays / totalDays) * 10000) / 100,
-    },
+    ...summarizeCustody(dates, results, config, holidays, thirdPartyWindows),
     monthlyBreakdown,
   };
 }
 
+/**
+ * Calculate custody statistics for any date range, counted the same way as
+ * calculateYearlyStats.
+ *
+ * @param startDate - First date of the range (YYYY-MM-DD)
+ * @param endDate - Last date of the range (YYYY-MM-DD), inclusive
+ * @param config - The app configuration
+ * @param holidays - Optional holiday state for override consideration
+ * @param inServiceDays - Optional array of in-service day dates (ISO format)
+ * @param inServiceConfig - Optional in-service day configuration
+ * @param trackBreaks - Optional array of track breaks for year-round school
+ * @param schoolType - Optional school type (traditional or year-round)
+ * @param exceptions - Optional one-time schedule exceptions
+ * @param thirdPartyBlocks - Optional recurring school or daycare time
+ * @returns RangeStats with day counts, percentages and the method used
+ */
+export function calculateRangeStats(
+  startDate: string,
+  endDate: string,
+  config: AppConfig,
+  holidays?: HolidayState,
+  inServiceDays?: string[],
+  inServiceConfig?: InServiceDayConfig,
+  trackBreaks?: TrackBreak[],
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[],
+  thirdPartyBlocks?: ThirdPartyBlock[]
+): RangeStats {
+  const { dates, results, thirdPartyWindows } = resolveOwnershipWithMargins(
+    startDate,
+    endDate,
+    config,
+    holidays,
+    inServiceDays,
+    inServiceConfig,
+    trackBreaks,
+    schoolType,
+    exceptions,
+    thirdPartyBlocks
+  );
+  return { startDate, endDate, ...summarizeCustody(dates, results, config, holidays, thirdPartyWindows) };
+}
+
+/**
+ * Project custody statistics over a multi-year span such as the whole plan
+ * (FamilyInfo.planStartDate through planEndDate), with a breakdown per calendar year.
+ * Odd/even holiday alternation nets out differently from year to year, so the
+ * total shows the long-run split. The first and last years cover only the part
+ * inside the range.
+ *
+ * @param startDate - First date of the range (YYYY-MM-DD)
+ * @param endDate - Last date of the range (YYYY-MM-DD), inclusive
+ * @param config - The app configuration
+ * @param holidays - Optional holiday state for override consideration
+ * @param inServiceDays - Optional array of in-service day dates (ISO format)
+ * @param inServiceConfig - Optional in-service day configuration
+ * @param trackBreaks - Optional array of track breaks for year-round school
+ * @param schoolType - Optional school type (traditional or year-round)
+ * @param exceptions - Optional one-time schedule exceptions
+ * @param thirdPartyBlocks - Optional recurring school or daycare time
+ * @returns PlanStats with the total and per-year stats
+ */
+export function calculatePlanStats(
+  startDate: string,
+  endDate: string,
+  config: AppConfig,
+  holidays?: HolidayState,
+  inServiceDays?: string[],
+  inServiceConfig?: InServiceDayConfig,
+  trackBreaks?: TrackBreak[],
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[],
+  thirdPartyBlocks?: ThirdPartyBlock[]
+): PlanStats {
+  const { dates, results, thirdPartyWindows } = resolveOwnershipWithMargins(
+    startDate,
+    endDate,
+    config,
+    holidays,
+    inServiceDays,
+    inServiceConfig,
+    trackBreaks,
+    schoolType,
+    exceptions,
+    thirdPartyBlocks
+  );
+
+  const yearlyBreakdown: PlanYearStats[] = [];
+  const lastYear = parseInt(endDate.split('-')[0], 10);
+  for (let year = parseInt(startDate.split('-')[0], 10); year <= lastYear; year++) {
+    const yearStart = formatDateString(year, 0, 1) > startDate ? formatDateString(year, 0, 1) : startDate;
+    const yearEnd = formatDateString(year, 11, 31) < endDate ? formatDateString(year, 11, 31) : endDate;
+    // Keep one margin date on each side of the year's slice
+    const first = calculateDaysDifference(yearStart, startDate);
+    const last = calculateDaysDifference(yearEnd, startDate) + 2;
+    yearlyBreakdown.push({
+      year,
+      startDate: yearStart,
+      endDate: yearEnd,
+      ...summarizeCustody(
+        dates.slice(first, last + 1),
+        results.slice(first, last + 1),
+        config,
+        holidays,
+        thirdPartyWindows.slice(first, last + 1)
+      ),
+    });
+  }
+
+  return {
+    total: { startDate, endDate, ...summarizeCustody(dates, results, config, holidays, thirdPartyWindows) },
+    yearlyBreakdown,
+  };
+}
+
 /**
  * Hook return type for useCustodyEngine.
  */
@@ -836,12 +1804,20 @@ export interface UseCustodyEngineReturn {
   /** Get the custody owner for a specific date */
   getOwnerForDate: (date: string) => ParentId;
   /** Get the custody owner for a specific date with holiday information */
-  getOwnerForDateWithHolidays: (date: string) => { owner: ParentId; holidayName?: string; isHolidayOverride: boolean };
+  getOwnerForDateWithHolidays: (date: string) => {
+    owner: ParentId;
+    holidayName?: string;
+    isHolidayOverride: boolean;
+    birthdayName?: string;
+    isBirthdayOverride: boolean;
+  };
   /** Get the full ownership info for a date including in-service day handling */
   getOwnerForDateFull: (date: string) => {
     owner: ParentId;
     holidayName?: string;
     isHolidayOverride: boolean;
+    birthdayName?: string;
+    isBirthdayOverride: boolean;
     isInServiceDay: boolean;
     isInServiceAttached: boolean;
   };
@@ -850,16 +1826,25 @@ export interface UseCustodyEngineReturn {
     owner: ParentId;
     holidayName?: string;
     isHolidayOverride: boolean;
+    birthdayName?: string;
+    isBirthdayOverride: boolean;
     isInServiceDay: boolean;
     isInServiceAttached: boolean;
     isTrackBreak: boolean;
     trackBreakName?: string;
     isTrackBreakVacationClaimed: boolean;
+    isSummerVacation: boolean;
+    isException: boolean;
+    exceptionReason?: string;
   };
   /** Get calendar days for a specific month */
   getMonthDays: (year: number, month: number, weekStartsOnMonday?: boolean) => CalendarDay[];
   /** Get yearly stats including total days, percentage, and monthly breakdown */
   getYearlyStats: (year: number) => YearlyStats;
+  /** Get stats for any date range (inclusive) */
+  getRangeStats: (startDate: string, endDate: string) => RangeStats;
+  /** Get stats projected over a multi-year range with a per-year breakdown */
+  getPlanStats: (startDate: string, endDate: string) => PlanStats;
 }
 
 /**
@@ -872,7 +1857,9 @@ export interface UseCustodyEngineReturn {
  * @param inServiceConfig - Optional in-service day configuration
  * @param trackBreaks - Optional array of track breaks for year-round school
  * @param schoolType - Optional school type (traditional or year-round)
- * @returns Object with getOwnerForDate, getMonthDays, and getYearlyStats functions
+ * @param exceptions - Optional one-time schedule exceptions
+ * @param thirdPartyBlocks - Optional recurring school or daycare time
+ * @returns Object with getOwnerForDate, getMonthDays, getYearlyStats, getRangeStats and getPlanStats functions
  */
 export function useCustodyEngine(
   config: AppConfig,
@@ -880,7 +1867,9 @@ export function useCustodyEngine(
   inServiceDays?: string[],
   inServiceConfig?: InServiceDayConfig,
   trackBreaks?: TrackBreak[],
-  schoolType?: SchoolType
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[],
+  thirdPartyBlocks?: ThirdPartyBlock[]
 ): UseCustodyEngineReturn {
   const getOwnerForDateFn = useCallback(
     (date: string): ParentId => {
@@ -890,7 +1879,13 @@ export function useCustodyEngine(
   );
 
   const getOwnerForDateWithHolidaysFn = useCallback(
-    (date: string): { owner: ParentId; holidayName?: string; isHolidayOverride: boolean } => {
+    (date: string): {
+      owner: ParentId;
+      holidayName?: string;
+      isHolidayOverride: boolean;
+      birthdayName?: string;
+      isBirthdayOverride: boolean;
+    } => {
       return getOwnerForDateWithHolidays(date, config, holidays);
     },
     [config, holidays]
@@ -901,6 +1896,8 @@ export function useCustodyEngine(
       owner: ParentId;
       holidayName?: string;
       isHolidayOverride: boolean;
+      birthdayName?: string;
+      isBirthdayOverride: boolean;
       isInServiceDay: boolean;
       isInServiceAttached: boolean;
     } => {
@@ -914,29 +1911,48 @@ export function useCustodyEngine(
       owner: ParentId;
       holidayName?: string;
       isHolidayOverride: boolean;
+      birthdayName?: string;
+      isBirthdayOverride: boolean;
       isInServiceDay: boolean;
       isInServiceAttached: boolean;
       isTrackBreak: boolean;
       trackBreakName?: string;
       isTrackBreakVacationClaimed: boolean;
+      isSummerVacation: boolean;
+      isException: boolean;
+      exceptionReason?: string;
     } => {
-      return getOwnerForDateComplete(date, config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType);
+      return getOwnerForDateComplete(date, config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions);
     },
-    [config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType]
+    [config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions]
   );
 
   const getMonthDaysFn = useCallback(
     (year: number, month: number, weekStartsOnMonday: boolean = false): CalendarDay[] => {
-      return generateMonthDays(year, month, config, weekStartsOnMonday, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType);
+      return generateMonthDays(year, month, config, weekStartsOnMonday, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions, thirdPartyBlocks);
     },
-    [config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType]
+    [config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions, thirdPartyBlocks]
   );
 
   const getYearlyStatsFn = useCallback(
     (year: number): YearlyStats => {
-      return calculateYearlyStats(year, config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType);
+      return calculateYearlyStats(year, config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions, thirdPartyBlocks);
+    },
+    [config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions, thirdPartyBlocks]
+  );
+
+  const getRangeStatsFn = useCallback(
+    (startDate: string, endDate: string): RangeStats => {
+      return calculateRangeStats(startDate, endDate, config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions, thirdPartyBlocks);
+    },
+    [config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions, thirdPartyBlocks]
+  );
+
+  const getPlanStatsFn = useCallback(
+    (startDate: string, endDate: string): PlanStats => {
+      return calculatePlanStats(startDate, endDate, config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions, thirdPartyBlocks);
     },
-    [config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType]
+    [config, holidays, inServiceDays, inServiceConfig, trackBreaks, schoolType, exceptions, thirdPartyBlocks]
   );
 
   return useMemo(
@@ -947,7 +1963,9 @@ export function useCustodyEngine(
       getOwnerForDateComplete: getOwnerForDateCompleteFn,
       getMonthDays: getMonthDaysFn,
       getYearlyStats: getYearlyStatsFn,
+      getRangeStats: getRangeStatsFn,
+      getPlanStats: getPlanStatsFn,
     }),
-    [getOwnerForDateFn, getOwnerForDateWithHolidaysFn, getOwnerForDateFullFn, getOwnerForDateCompleteFn, getMonthDaysFn, getYearlyStatsFn]
+    [getOwnerForDateFn, getOwnerForDateWithHolidaysFn, getOwnerForDateFullFn, getOwnerForDateCompleteFn, getMonthDaysFn, getYearlyStatsFn, getRangeStatsFn, getPlanStatsFn]
   );
 }
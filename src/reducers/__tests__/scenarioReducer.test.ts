@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import {
+  scenarioReducer,
+  initialScenarioStore,
+  getActiveScenario,
+  getNextDraftName,
+  getCopyName,
+} from '../scenarioReducer';
+import { initialAppState } from '../../context/AppStateContext';
+import type { AppState, ScenarioStore } from '../../types';
+
+const draftB: AppState = {
+  ...initialAppState,
+  config: { ...initialAppState.config, selectedPattern: 'alt-weeks' },
+};
+
+function createStore(): ScenarioStore {
+  let store = scenarioReducer(initialScenarioStore, {
+    type: 'CREATE_SCENARIO',
+    payload: { id: 'a', name: 'Draft A', state: initialAppState, updatedAt: '2025-01-01T00:00:00.000Z' },
+  });
+  store = scenarioReducer(store, {
+    type: 'CREATE_SCENARIO',
+    payload: { id: 'b', name: 'Draft B', state: draftB, updatedAt: '2025-01-02T00:00:00.000Z' },
+  });
+  return store;
+}
+
+describe('scenarioReducer', () => {
+  test('CREATE_SCENARIO adds the scenario and makes it active', () => {
+    const store = createStore();
+    expect(store.scenarios.map((s) => s.name)).toEqual(['Draft A', 'Draft B']);
+    expect(store.activeScenarioId).toBe('b');
+    expect(getActiveScenario(store)?.state).toBe(draftB);
+  });
+
+  test('DUPLICATE_SCENARIO copies the source plan under a new id', () => {
+    const store = scenarioReducer(createStore(), {
+      type: 'DUPLICATE_SCENARIO',
+      payload: { sourceId: 'a', id: 'c', name: 'Draft A (copy)', updatedAt: '2025-01-03T00:00:00.000Z' },
+    });
+    expect(store.scenarios).toHaveLength(3);
+    expect(store.activeScenarioId).toBe('c');
+    expect(getActiveScenario(store)?.state).toBe(initialAppState);
+  });
+
+  test('DUPLICATE_SCENARIO ignores unknown sources', () => {
+    const before = createStore();
+    const after = scenarioReducer(before, {
+      type: 'DUPLICATE_SCENARIO',
+      payload: { sourceId: 'missing', id: 'c', name: 'Copy', updatedAt: '2025-01-03T00:00:00.000Z' },
+    });
+    expect(after).toBe(before);
+  });
+
+  test('RENAME_SCENARIO changes only the name', () => {
+    const store = scenarioReducer(createStore(), { type: 'RENAME_SCENARIO', payload: { id: 'a', name: 'Mom proposal' } });
+    expect(store.scenarios[0].name).toBe('Mom proposal');
+    expect(store.scenarios[0].state).toBe(initialAppState);
+  });
+
+  test('DELETE_SCENARIO activates a neighbour when the active scenario is deleted', () => {
+    const store = scenarioReducer(createStore(), { type: 'DELETE_SCENARIO', payload: 'b' });
+    expect(store.scenarios.map((s) => s.id)).toEqual(['a']);
+    expect(store.activeScenarioId).toBe('a');
+  });
+
+  test('DELETE_SCENARIO keeps the last remaining scenario', () => {
+    const single = scenarioReducer(createStore(), { type: 'DELETE_SCENARIO', payload: 'b' });
+    expect(scenarioReducer(single, { type: 'DELETE_SCENARIO', payload: 'a' })).toBe(single);
+  });
+
+  test('SWITCH_SCENARIO changes the active scenario', () => {
+    const store = scenarioReducer(createStore(), { type: 'SWITCH_SCENARIO', payload: 'a' });
+    expect(store.activeScenarioId).toBe('a');
+    expect(scenarioReducer(store, { type: 'SWITCH_SCENARIO', payload: 'missing' }).activeScenarioId).toBe('a');
+  });
+
+  test('SAVE_ACTIVE_STATE stores edits in the active scenario only', () => {
+    const edited: AppState = { ...draftB, config: { ...draftB.config, startingParent: 'parentB' } };
+    const store = scenarioReducer(createStore(), {
+      type: 'SAVE_ACTIVE_STATE',
+      payload: { state: edited, updatedAt: '2025-02-01T00:00:00.000Z' },
+    });
+    expect(store.scenarios[1].state).toBe(edited);
+    expect(store.scenarios[1].updatedAt).toBe('2025-02-01T00:00:00.000Z');
+    expect(store.scenarios[0].state).toBe(initialAppState);
+  });
+});
+
+describe('scenario names', () => {
+  test('getNextDraftName skips names in use', () => {
+    expect(getNextDraftName([])).toBe('Draft A');
+    expect(getNextDraftName(createStore().scenarios)).toBe('Draft C');
+  });
+
+  test('getCopyName numbers repeated copies', () => {
+    const scenarios = createStore().scenarios;
+    expect(getCopyName('Draft A', scenarios)).toBe('Draft A (copy)');
+    const withCopy = [...scenarios, { ...scenarios[0], id: 'c', name: 'Draft A (copy)' }];
+    expect(getCopyName('Draft A', withCopy)).toBe('Draft A (copy 2)');
+  });
+});
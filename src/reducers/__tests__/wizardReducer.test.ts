@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { wizardReducer, convertWizardToAppState, createDefaultEnhancedHolidayState, type WizardState, type WizardAction } from '../wizardReducer';
+import { wizardReducer, convertWizardToAppState, createDefaultEnhancedHolidayState, mergeWizardConfig, type WizardState, type WizardAction } from '../wizardReducer';
 import { getDefaultParentSetupData, getDefaultHolidaySelections } from '../../components/wizard';
 import { NEVADA_8TH_DISTRICT_TEMPLATE } from '../../data/templates/nevada-8th-district';
 
@@ -139,6 +139,36 @@ describe('wizardReducer', () => {
     });
   });
 
+  describe('SET_CUSTOM_PATTERN action', () => {
+    test('seeds a starter cycle when custom pattern is first selected', () => {
+      const action: WizardAction = {
+        type: 'SET_PATTERN',
+        payload: { pattern: 'custom', split: 'Custom' },
+      };
+      const newState = wizardReducer(initialState, action);
+
+      expect(newState.customPattern).toHaveLength(14);
+    });
+
+    test('keeps an existing cycle when custom pattern is re-selected', () => {
+      const stateWithCycle: WizardState = { ...initialState, customPattern: ['A', 'B', 'B'] };
+      const action: WizardAction = {
+        type: 'SET_PATTERN',
+        payload: { pattern: 'custom', split: 'Custom' },
+      };
+      const newState = wizardReducer(stateWithCycle, action);
+
+      expect(newState.customPattern).toEqual(['A', 'B', 'B']);
+    });
+
+    test('sets the custom cycle', () => {
+      const action: WizardAction = { type: 'SET_CUSTOM_PATTERN', payload: ['A', 'A', 'B'] };
+      const newState = wizardReducer(initialState, action);
+
+      expect(newState.customPattern).toEqual(['A', 'A', 'B']);
+    });
+  });
+
   describe('RESET action', () => {
     test('resets state to provided initial state', () => {
       const modifiedState: WizardState = {
@@ -180,6 +210,24 @@ describe('wizardReducer', () => {
       // Check that holiday configs were updated
       expect(newState.enhancedHolidays.holidayConfigs.length).toBeGreaterThan(0);
     });
+
+    test('carries template holiday exchange times', () => {
+      const action: WizardAction = { type: 'SET_TEMPLATE', payload: NEVADA_8TH_DISTRICT_TEMPLATE };
+      const newState = wizardReducer(initialState, action);
+
+      const thanksgiving = newState.enhancedHolidays.holidayConfigs.find((c) => c.holidayId === 'thanksgiving');
+      expect(thanksgiving?.exchangeTime).toBe('18:00');
+    });
+
+    test('applies template odd-year parents and major breaks', () => {
+      const action: WizardAction = { type: 'SET_TEMPLATE', payload: NEVADA_8TH_DISTRICT_TEMPLATE };
+      const newState = wizardReducer(initialState, action);
+
+      const thanksgiving = newState.enhancedHolidays.holidayConfigs.find((c) => c.holidayId === 'thanksgiving');
+      expect(thanksgiving?.oddYearParent).toBe('parentB');
+      expect(newState.enhancedHolidays.summerVacationConfig.firstPickOddYears).toBe('parentA');
+      expect(newState.enhancedHolidays.winterBreakSplit.splitDate).toBe('12-26');
+    });
   });
 
   describe('SET_BUILD_YOUR_OWN action', () => {
@@ -209,6 +257,24 @@ describe('wizardReducer', () => {
 });
 
 describe('convertWizardToAppState', () => {
+  test('saves the custom cycle in AppConfig for custom patterns', () => {
+    const wizardState: WizardState = {
+      selectedTemplate: null,
+      isBuildYourOwn: true,
+      pattern: 'custom',
+      split: 'Custom',
+      customPattern: ['A', 'A', 'B'],
+      parentSetup: getDefaultParentSetupData(),
+      holidaySelections: getDefaultHolidaySelections(),
+      enhancedHolidays: createDefaultEnhancedHolidayState(),
+    };
+
+    expect(convertWizardToAppState(wizardState).config.customPattern).toEqual(['A', 'A', 'B']);
+    expect(
+      convertWizardToAppState({ ...wizardState, pattern: 'alt-weeks' }).config.customPattern
+    ).toBeUndefined();
+  });
+
   test('converts wizard state to AppState format', () => {
     const wizardState: WizardState = {
       selectedTemplate: null,
@@ -346,3 +412,32 @@ describe('convertWizardToAppState', () => {
     expect(appState.familyInfo.children[1].name).toBe('Liam');
   });
 });
+
+describe('mergeWizardConfig', () => {
+  test('re-running the wizard keeps the stats settings, including third-party deduction', () => {
+    const wizardConfig = {
+      startDate: '2026-01-01',
+      selectedPattern: '2-2-3' as const,
+      startingParent: 'parentB' as const,
+      exchangeTime: '15:00',
+    };
+    const currentConfig = {
+      startDate: '2025-01-01',
+      selectedPattern: 'alt-weeks' as const,
+      startingParent: 'parentA' as const,
+      exchangeTime: '18:00',
+      calculationMode: 'duration' as const,
+      overnightCutoffTime: '20:00',
+      weightedVisitRuleId: 'half-day',
+      deductThirdPartyTime: true,
+    };
+
+    expect(mergeWizardConfig(wizardConfig, currentConfig)).toEqual({
+      ...wizardConfig,
+      calculationMode: 'duration',
+      overnightCutoffTime: '20:00',
+      weightedVisitRuleId: 'half-day',
+      deductThirdPartyTime: true,
+    });
+  });
+});
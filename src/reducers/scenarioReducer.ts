@@ -0,0 +1,109 @@
+import type { AppState, Scenario, ScenarioStore } from '../types';
+
+/**
+ * Action types for scenario store management.
+ * IDs and timestamps are supplied by the caller so the reducer stays pure.
+ */
+export type ScenarioAction =
+  | { type: 'CREATE_SCENARIO'; payload: { id: string; name: string; state: AppState; updatedAt: string } }
+  | { type: 'DUPLICATE_SCENARIO'; payload: { sourceId: string; id: string; name: string; updatedAt: string } }
+  | { type: 'RENAME_SCENARIO'; payload: { id: string; name: string } }
+  | { type: 'DELETE_SCENARIO'; payload: string } // payload is scenario id
+  | { type: 'SWITCH_SCENARIO'; payload: string } // payload is scenario id
+  | { type: 'SAVE_ACTIVE_STATE'; payload: { state: AppState; updatedAt: string } };
+
+/**
+ * Empty scenario store, before the first scenario is created.
+ */
+export const initialScenarioStore: ScenarioStore = {
+  scenarios: [],
+  activeScenarioId: null,
+};
+
+/**
+ * Get the scenario being edited, if any.
+ */
+export function getActiveScenario(store: ScenarioStore): Scenario | undefined {
+  return store.scenarios.find((s) => s.id === store.activeScenarioId);
+}
+
+/**
+ * Suggest a name for a new scenario that is not already taken ("Draft A", "Draft B", ...).
+ */
+export function getNextDraftName(scenarios: Scenario[]): string {
+  const taken = new Set(scenarios.map((s) => s.name));
+  for (let i = 0; ; i++) {
+    const suffix = i < 26 ? String.fromCharCode(65 + i) : String(i + 1);
+    if (!taken.has(`Draft ${suffix}`)) return `Draft ${suffix}`;
+  }
+}
+
+/**
+ * Suggest a name for a copy of a scenario that is not already taken
+ * (e.g., "Draft A (copy)", then "Draft A (copy 2)").
+ */
+export function getCopyName(name: string, scenarios: Scenario[]): string {
+  const taken = new Set(scenarios.map((s) => s.name));
+  let candidate = `${name} (copy)`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name} (copy ${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * Reducer function for the scenario store.
+ * Created and duplicated scenarios become active. Deleting the active scenario
+ * activates its neighbour, and the last remaining scenario cannot be deleted.
+ */
+export function scenarioReducer(store: ScenarioStore, action: ScenarioAction): ScenarioStore {
+  switch (action.type) {
+    case 'CREATE_SCENARIO':
+      return {
+        scenarios: [...store.scenarios, action.payload],
+        activeScenarioId: action.payload.id,
+      };
+    case 'DUPLICATE_SCENARIO': {
+      const source = store.scenarios.find((s) => s.id === action.payload.sourceId);
+      if (!source) return store;
+      const { id, name, updatedAt } = action.payload;
+      return {
+        scenarios: [...store.scenarios, { id, name, state: source.state, updatedAt }],
+        activeScenarioId: id,
+      };
+    }
+    case 'RENAME_SCENARIO':
+      return {
+        ...store,
+        scenarios: store.scenarios.map((s) =>
+          s.id === action.payload.id ? { ...s, name: action.payload.name } : s
+        ),
+      };
+    case 'DELETE_SCENARIO': {
+      const index = store.scenarios.findIndex((s) => s.id === action.payload);
+      if (index === -1 || store.scenarios.length === 1) return store;
+      const scenarios = store.scenarios.filter((s) => s.id !== action.payload);
+      return {
+        scenarios,
+        activeScenarioId: store.activeScenarioId === action.payload
+          ? scenarios[Math.min(index, scenarios.length - 1)].id
+          : store.activeScenarioId,
+      };
+    }
+    case 'SWITCH_SCENARIO':
+      if (!store.scenarios.some((s) => s.id === action.payload)) return store;
+      return { ...store, activeScenarioId: action.payload };
+    case 'SAVE_ACTIVE_STATE':
+      if (getActiveScenario(store)?.state === action.payload.state) return store;
+      return {
+        ...store,
+        scenarios: store.scenarios.map((s) =>
+          s.id === store.activeScenarioId
+            ? { ...s, state: action.payload.state, updatedAt: action.payload.updatedAt }
+            : s
+        ),
+      };
+    default:
+      return store;
+  }
+}
@@ -1,10 +1,11 @@
-import type { PatternType, ParentId, AppState, HolidayState, HolidayUserConfig, BirthdayConfig, HolidayPresetType, CourtTemplate } from '../types';
+import type { PatternType, ParentId, AppConfig, AppState, HolidayState, HolidayUserConfig, BirthdayConfig, HolidayPresetType, CourtTemplate } from '../types';
 import type { SplitPeriodConfig, SelectionPriorityConfig } from '../types/holidays';
-import type { SplitType } from '../data/patterns';
+import type { SplitType, PatternParent } from '../data/patterns';
 import type { ParentSetupData, HolidaySelection } from '../components/wizard';
 import { createDefaultHolidayConfigs, createDefaultBirthdayConfigs, DEFAULT_WINTER_BREAK_SPLIT, DEFAULT_SUMMER_VACATION_CONFIG } from '../data/holidays';
 import { DEFAULT_PARENT_A_COLOR, DEFAULT_PARENT_B_COLOR } from '../components/shared/colorOptions';
-import { getPatternByType } from '../data/patterns';
+import { getPatternByType, createCustomPattern } from '../data/patterns';
+import { applyCourtTemplate } from '../utils/templateApplication';
 
 /**
  * Enhanced holiday state for the wizard.
@@ -36,6 +37,8 @@ export interface WizardState {
   pattern: PatternType | null;
   /** Pattern's custody split percentage (automatically set when pattern is selected) */
   split: SplitType | null;
+  /** User-defined repeating cycle (Step 2), only used when pattern is 'custom' */
+  customPattern?: PatternParent[];
   /** Parent configuration data (Step 2) */
   parentSetup: ParentSetupData;
   /** Holiday custody assignments (Step 3) - Legacy format */
@@ -51,6 +54,7 @@ export type WizardAction =
   | { type: 'SET_TEMPLATE'; payload: CourtTemplate }
   | { type: 'SET_BUILD_YOUR_OWN' }
   | { type: 'SET_PATTERN'; payload: { pattern: PatternType; split: SplitType } }
+  | { type: 'SET_CUSTOM_PATTERN'; payload: PatternParent[] }
   | { type: 'SET_PARENTS'; payload: ParentSetupData }
   | { type: 'SET_HOLIDAYS'; payload: HolidaySelection[] }
   | { type: 'SET_ENHANCED_HOLIDAY_CONFIGS'; payload: HolidayUserConfig[] }
@@ -67,24 +71,12 @@ export type WizardAction =
 export function wizardReducer(state: WizardState, action: WizardAction): WizardState {
   switch (action.type) {
     case 'SET_TEMPLATE': {
-      // Apply template: set pattern, exchange time, and holidays from template
+      // Apply template: pattern, holidays, summer selection rules and split breaks
       const template = action.payload;
       const patternDef = getPatternByType(template.defaultPattern);
       const split: SplitType = patternDef?.split ?? '50/50';
-      
-      // Convert template holiday assignments to HolidayUserConfig format
-      const holidayConfigs: HolidayUserConfig[] = createDefaultHolidayConfigs().map((config) => {
-        const templateAssignment = template.holidays.find(h => h.holidayId === config.holidayId);
-        if (templateAssignment) {
-          return {
-            ...config,
-            enabled: templateAssignment.enabled ?? true,
-            assignment: templateAssignment.assignment,
-          };
-        }
-        return config;
-      });
-      
+      const { holidays } = applyCourtTemplate(template);
+
       return {
         ...state,
         selectedTemplate: template,
@@ -93,7 +85,7 @@ export function wizardReducer(state: WizardState, action: WizardAction): WizardS
         split,
         enhancedHolidays: {
           ...state.enhancedHolidays,
-          holidayConfigs,
+          ...holidays,
         },
       };
     }
@@ -109,6 +101,16 @@ export function wizardReducer(state: WizardState, action: WizardAction): WizardS
         ...state,
         pattern: action.payload.pattern,
         split: action.payload.split,
+        // Seed the custom builder with a starter cycle the first time it is chosen
+        customPattern:
+          action.payload.pattern === 'custom' && !state.customPattern
+            ? createCustomPattern()
+            : state.customPattern,
+      };
+    case 'SET_CUSTOM_PATTERN':
+      return {
+        ...state,
+        customPattern: action.payload,
       };
     case 'SET_PARENTS':
       return {
@@ -178,7 +180,7 @@ export function wizardReducer(state: WizardState, action: WizardAction): WizardS
  * @returns AppState object ready for the main application
  */
 export function convertWizardToAppState(wizardState: WizardState): AppState {
-  const { pattern, parentSetup, enhancedHolidays, selectedTemplate } = wizardState;
+  const { pattern, customPattern, parentSetup, enhancedHolidays, selectedTemplate } = wizardState;
 
   // Default values for required fields
   const selectedPattern: PatternType = pattern || 'alt-weeks';
@@ -205,6 +207,7 @@ export function convertWizardToAppState(wizardState: WizardState): AppState {
       selectedPattern,
       startingParent,
       exchangeTime,
+      ...(selectedPattern === 'custom' && customPattern ? { customPattern } : {}),
     },
     parents: {
       parentA: {
@@ -226,6 +229,24 @@ export function convertWizardToAppState(wizardState: WizardState): AppState {
   };
 }
 
+/**
+ * Apply the wizard's schedule settings to the current config when the wizard is re-run.
+ * The stats settings are chosen outside the wizard, so they are kept.
+ *
+ * @param wizardConfig - Config produced by convertWizardToAppState
+ * @param currentConfig - The plan's current config
+ * @returns The wizard's config with the current stats settings
+ */
+export function mergeWizardConfig(wizardConfig: AppConfig, currentConfig: AppConfig): AppConfig {
+  return {
+    ...wizardConfig,
+    calculationMode: currentConfig.calculationMode,
+    overnightCutoffTime: currentConfig.overnightCutoffTime,
+    weightedVisitRuleId: currentConfig.weightedVisitRuleId,
+    deductThirdPartyTime: currentConfig.deductThirdPartyTime,
+  };
+}
+
 /**
  * Create default enhanced holiday state for the wizard.
  */
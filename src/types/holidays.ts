@@ -16,13 +16,16 @@ export type HolidayCategory = 'major-break' | 'weekend' | 'birthday' | 'religiou
  * - 'always-parent-b': Always assigned to Parent B
  * - 'split-period': Split the holiday period (e.g., Christmas/New Year)
  * - 'selection-priority': Parents take turns choosing (e.g., Summer vacation weeks)
+ * - 'extend-weekend': Follows whoever has the attached weekend in the base schedule
+ *   (e.g., a Monday holiday stays with the parent who has that weekend)
  */
 export type AssignmentType =
   | 'alternate-odd-even'
   | 'always-parent-a'
   | 'always-parent-b'
   | 'split-period'
-  | 'selection-priority';
+  | 'selection-priority'
+  | 'extend-weekend';
 
 /**
  * Date calculation method for determining when a holiday falls.
@@ -166,6 +169,30 @@ export interface SelectionPriorityConfig {
   maxConsecutiveWeeks?: number;
 }
 
+/**
+ * A block of consecutive summer vacation weeks picked by one parent.
+ */
+export interface SummerVacationPick {
+  /** Parent who made the pick */
+  parent: ParentId;
+  /** First day of the first picked week (YYYY-MM-DD) */
+  startDate: string;
+  /** Number of consecutive weeks in the block */
+  weeks: number;
+  /** Date the pick was made (YYYY-MM-DD), checked against the selection deadline */
+  pickedOn: string;
+}
+
+/**
+ * Recorded summer vacation picks for one year, in the order they were made.
+ */
+export interface SummerVacationSelection {
+  /** Summer year */
+  year: number;
+  /** Picks in draft order */
+  picks: SummerVacationPick[];
+}
+
 /**
  * User's selection/configuration for a specific holiday.
  */
@@ -182,6 +209,59 @@ export interface HolidayUserConfig {
   selectionConfig?: SelectionPriorityConfig;
   /** Custom dates if applicable (for birthdays, etc.) */
   customDates?: string[];
+  /** Exchange time for handoffs into and out of this holiday ("HH:MM"); defaults to the schedule's exchange time */
+  exchangeTime?: string;
+  /** Parent who has an 'alternate-odd-even' holiday in odd years; defaults to the starting parent */
+  oddYearParent?: ParentId;
+  /** Dates for specific years that replace the usual calculation (e.g., from a district calendar) */
+  dateOverrides?: HolidayDateOverride[];
+  /**
+   * How the holiday grows around its date; replaces the holiday's built-in expansion rule.
+   * Only for holidays with a single date, not date ranges like Spring Break.
+   */
+  expansionRule?: ExpansionRule;
+}
+
+/**
+ * How a holiday expands from its calculated date to the days it covers.
+ * - 'always': Always covers a fixed number of days from the holiday
+ * - 'weekend-adjacent': Expands based on proximity to the weekend
+ * - 'day-of-week-conditional': Expands based on which day of the week the holiday falls on
+ */
+export type ExpansionRule =
+  | { type: 'always'; days: number }
+  | { type: 'weekend-adjacent'; expandTo: WeekendExpansion }
+  | { type: 'day-of-week-conditional'; rules: DayOfWeekRule[] };
+
+/**
+ * How far a holiday next to the weekend expands.
+ * - 'full-weekend': Fri–Sun for a Friday holiday, Sat–Mon for a Monday holiday
+ * - 'include-friday': Back to the Friday before a weekend holiday
+ * - 'include-monday': Forward to the Monday after a weekend holiday
+ */
+export type WeekendExpansion = 'full-weekend' | 'include-friday' | 'include-monday';
+
+/**
+ * Rule for conditional expansion based on day of week.
+ */
+export interface DayOfWeekRule {
+  /** Days this rule applies to (0=Sun, 1=Mon, ..., 6=Sat) */
+  dayOfWeek: number[];
+  /** How to expand when the holiday falls on these days */
+  expansion: 'none' | WeekendExpansion;
+}
+
+/**
+ * The dates of one year's occurrence of a holiday, for breaks a school
+ * district moves from year to year.
+ */
+export interface HolidayDateOverride {
+  /** Year the occurrence starts in */
+  year: number;
+  /** First date in ISO format (YYYY-MM-DD) */
+  startDate: string;
+  /** Last date in ISO format (YYYY-MM-DD), inclusive */
+  endDate: string;
 }
 
 /**
@@ -220,6 +300,8 @@ export interface HolidayState {
   winterBreakSplit?: SplitPeriodConfig;
   /** Summer vacation configuration */
   summerVacationConfig?: SelectionPriorityConfig;
+  /** Recorded summer vacation picks per year */
+  summerSelections?: SummerVacationSelection[];
   /** Religious holiday configurations */
   religiousHolidayConfigs?: ReligiousHolidayUserConfig[];
   /** Custom religious holidays defined by user */
@@ -66,6 +66,26 @@ export type PatternType =
   | 'all-to-one'             // 100/0 - Full custody to one parent
   | 'custom';                // Custom repeating rate
 
+/**
+ * How custody time is counted in the stats.
+ * - 'days': each date is credited in full to the parent who owns it
+ * - 'overnights': each night is credited to the parent who has the child at the overnight cutoff time
+ * - 'duration': each date is split in minutes at the exchange time when custody changes hands
+ */
+export type CalculationMode = 'days' | 'overnights' | 'duration';
+
+/**
+ * The counting method behind a set of stats, so charts and documents can state it.
+ */
+export interface CalculationMethod {
+  /** Calculation mode used */
+  mode: CalculationMode;
+  /** Short label (e.g., "Overnights") */
+  label: string;
+  /** Sentence describing how time was counted */
+  description: string;
+}
+
 export interface ParentConfig {
   name: string;
   colorClass: string; // Tailwind bg class e.g., "bg-blue-500"
@@ -77,6 +97,20 @@ export interface AppConfig {
   selectedPattern: PatternType;
   startingParent: ParentId;
   exchangeTime: string; // "HH:MM" format
+  /**
+   * User-defined repeating cycle for the 'custom' pattern.
+   * Each entry is one day: 'A' = starting parent, 'B' = other parent.
+   * Cycle length is the array length (e.g., 21 or 28 days).
+   */
+  customPattern?: ('A' | 'B')[];
+  /** How timeshare stats are counted (defaults to 'days') */
+  calculationMode?: CalculationMode;
+  /** Time ("HH:MM") at which the child's location decides the overnight in 'overnights' mode (defaults to midnight) */
+  overnightCutoffTime?: string;
+  /** Weighted visit rule applied in 'overnights' mode (see data/weightedVisitRules) */
+  weightedVisitRuleId?: string;
+  /** Subtract third-party time (school, daycare) from each parent's time and the total in 'duration' mode */
+  deductThirdPartyTime?: boolean;
 }
 
 // ============================================================================
@@ -143,6 +177,77 @@ export interface TrackBreak {
   };
 }
 
+/**
+ * A one-time change to the schedule, such as "this Saturday goes to Parent B"
+ * or "swap Thanksgiving this year only". Exceptions take precedence over every
+ * other custody rule for the dates they cover.
+ */
+export interface ScheduleException {
+  /** Unique identifier for the exception */
+  id: string;
+  /** First date covered in ISO format (YYYY-MM-DD) */
+  startDate: string;
+  /** Last date covered in ISO format (YYYY-MM-DD), inclusive */
+  endDate: string;
+  /** Parent who has the child on the covered dates */
+  parent: ParentId;
+  /** Why the schedule was changed */
+  reason: string;
+}
+
+// ============================================================================
+// Third-Party Time Types
+// ============================================================================
+
+/**
+ * A recurring block of third-party time, such as school or daycare.
+ * The child is with a third party during the block, but custody does not
+ * change: the time still belongs to the parent who has the child that day.
+ */
+export interface ThirdPartyBlock {
+  /** Unique identifier for the block */
+  id: string;
+  /** What the time is (e.g., "School", "Daycare") */
+  label: string;
+  /** Days of the week the block recurs on (0 = Sunday, 6 = Saturday) */
+  weekdays: number[];
+  /** Start of the block ("HH:MM") */
+  startTime: string;
+  /** End of the block ("HH:MM"), after the start time */
+  endTime: string;
+  /** First date the block applies in ISO format (YYYY-MM-DD), such as the first day of school */
+  startDate?: string;
+  /** Last date the block applies in ISO format (YYYY-MM-DD), inclusive */
+  endDate?: string;
+  /** Skip the block on in-service days and track breaks, when there is no school */
+  followsSchoolCalendar: boolean;
+}
+
+// ============================================================================
+// Parenting Plan Provision Types
+// ============================================================================
+
+/**
+ * Category of a parenting plan provision (see data/provisions).
+ */
+export type ProvisionCategory =
+  | 'legal-custody'
+  | 'exchange'
+  | 'communication'
+  | 'right-of-first-refusal'
+  | 'relocation-travel';
+
+/**
+ * A provision from the library that the parents chose to include in the plan,
+ * with the values filled into its {{variable}} placeholders.
+ */
+export interface SelectedProvision {
+  /** ID of the provision in the library */
+  provisionId: string;
+  /** Placeholder values keyed by variable name */
+  values: Record<string, string>;
+}
+
 export interface AppState {
   config: AppConfig;
   parents: {
@@ -162,6 +267,36 @@ export interface AppState {
   trackBreaks?: TrackBreak[];
   /** Days before track break that vacation must be claimed (default 30) */
   trackVacationNoticeDeadline?: number;
+  /** One-time exceptions and swaps layered over the schedule */
+  scheduleExceptions?: ScheduleException[];
+  /** Recurring school or daycare time that does not change custody */
+  thirdPartyBlocks?: ThirdPartyBlock[];
+  /** Provisions from the library included in the plan document, in the order they were added */
+  provisions?: SelectedProvision[];
+}
+
+/**
+ * A named draft of the whole plan (e.g., "Draft A", "Mom's proposal").
+ */
+export interface Scenario {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** The plan this scenario holds */
+  state: AppState;
+  /** When the scenario was last changed (ISO timestamp) */
+  updatedAt: string;
+}
+
+/**
+ * All saved scenarios and which one is being edited.
+ */
+export interface ScenarioStore {
+  /** Saved scenarios, in creation order */
+  scenarios: Scenario[];
+  /** ID of the scenario loaded into the app state, or null before the first one exists */
+  activeScenarioId: string | null;
 }
 
 export interface CalendarDay {
@@ -174,6 +309,10 @@ export interface CalendarDay {
   holidayName?: string;
   /** Whether this day's owner is due to a holiday override */
   isHolidayOverride?: boolean;
+  /** Name of the birthday observed on this day, if any */
+  birthdayName?: string;
+  /** Whether this day's owner is due to a birthday override */
+  isBirthdayOverride?: boolean;
   /** Whether this day is an in-service day (teacher workday) */
   isInServiceDay?: boolean;
   /** Whether this day's ownership is due to in-service attachment rule */
@@ -184,11 +323,21 @@ export interface CalendarDay {
   trackBreakName?: string;
   /** Whether this track break has a vacation claimed on it */
   isTrackBreakVacationClaimed?: boolean;
+  /** Whether this day is part of a picked summer vacation block */
+  isSummerVacation?: boolean;
+  /** Whether this day's owner is due to a one-time schedule exception */
+  isException?: boolean;
+  /** Reason recorded for the schedule exception */
+  exceptionReason?: string;
+  /** Third-party time on this day (e.g., "School 8:00 AM – 3:00 PM") */
+  thirdPartyLabel?: string;
 }
 
 export interface TimeshareStats {
-  parentA: { days: number; percentage: number };
-  parentB: { days: number; percentage: number };
+  parentA: { days: number; percentage: number; hours?: number; overnights?: number; weightedDays?: number; thirdPartyHours?: number };
+  parentB: { days: number; percentage: number; hours?: number; overnights?: number; weightedDays?: number; thirdPartyHours?: number };
+  /** Counting method the stats were produced with */
+  method?: CalculationMethod;
 }
 
 export interface MonthlyBreakdown {
@@ -218,6 +367,11 @@ export interface HolidayAssignment {
   timingDescription?: string;
   /** Whether this holiday is enabled in the template */
   enabled?: boolean;
+  /**
+   * How the holiday grows around its date; replaces the holiday's built-in expansion rule.
+   * Only for holidays with a single date, not date ranges like Spring Break.
+   */
+  expansionRule?: import('./holidays').ExpansionRule;
 }
 
 /**
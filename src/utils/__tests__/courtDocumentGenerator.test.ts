@@ -4,6 +4,7 @@ import {
   generatePlainText,
   getTemplateHolidayAssignments,
   getTemplateMajorBreaks,
+  getDocumentSignatories,
 } from '../courtDocumentGenerator';
 import type { AppState } from '../../types';
 
@@ -91,6 +92,61 @@ describe('generateCourtDocument', () => {
     expect(sectionTitles).toContain('TRANSPORTATION AND EXCHANGE');
   });
 
+  test('describes the regular rotation with parent roles', () => {
+    const appState = createTestAppState();
+    const document = generateCourtDocument(appState);
+    const plainText = generatePlainText(document);
+
+    expect(plainText).toContain('REGULAR CUSTODY SCHEDULE');
+    // 2025-01-01 is a Wednesday, so the every-other-weekend cycle starts midweek
+    expect(plainText).toContain('The Father shall have the children every Wednesday through Sunday.');
+    expect(plainText).toContain('beginning with the Mother on Monday, January 6, 2025.');
+    expect(plainText).toContain('shall occur at 6:00 PM');
+  });
+
+  test('renders selected provisions as a section per category', () => {
+    const appState = createTestAppState({
+      provisions: [
+        { provisionId: 'travel-notice', values: { travelArea: 'Clark County', noticeDays: '14' } },
+        { provisionId: 'exchange-location', values: {} },
+      ],
+    });
+    const document = generateCourtDocument(appState);
+    const sectionTitles = document.sections
+      .filter(s => s.type === 'section-title')
+      .map(s => s.content as string);
+
+    expect(sectionTitles.indexOf('EXCHANGE LOCATION')).toBeGreaterThan(sectionTitles.indexOf('TRANSPORTATION AND EXCHANGE'));
+    expect(sectionTitles.indexOf('RELOCATION AND TRAVEL')).toBeGreaterThan(sectionTitles.indexOf('EXCHANGE LOCATION'));
+
+    const plainText = generatePlainText(document);
+    expect(plainText).toContain('TRAVEL NOTICE: A parent who plans to travel overnight with the children outside Clark County');
+    expect(plainText).toContain('at least 14 days');
+    expect(plainText).toContain('exchanges shall take place at __________.');
+  });
+
+  test('omits provision sections when none are selected', () => {
+    const sectionTitles = generateCourtDocument(createTestAppState()).sections
+      .filter(s => s.type === 'section-title')
+      .map(s => s.content as string);
+    expect(sectionTitles).not.toContain('RELOCATION AND TRAVEL');
+  });
+
+  test('states the timeshare calculation method', () => {
+    const appState = createTestAppState();
+    const document = generateCourtDocument(appState);
+    const plainText = generatePlainText(document);
+
+    expect(plainText).toContain('TIMESHARE CALCULATION');
+    expect(plainText).toContain('calculated by the days method');
+
+    const overnightsText = generatePlainText(generateCourtDocument(createTestAppState({
+      config: { ...appState.config, calculationMode: 'overnights', weightedVisitRuleId: 'virginia' },
+    })));
+    expect(overnightsText).toContain('calculated by the overnights method');
+    expect(overnightsText).toContain('half a day');
+  });
+
   test('generates footnotes array', () => {
     const appState = createTestAppState();
     const document = generateCourtDocument(appState);
@@ -108,6 +164,41 @@ describe('generateCourtDocument', () => {
     expect(july4Footnote).toContain('extended');
   });
 
+  test('explains the expansion rule chosen for each enabled holiday', () => {
+    const appState = createTestAppState({
+      holidays: {
+        holidayConfigs: [
+          {
+            holidayId: 'memorial-day',
+            enabled: true,
+            assignment: 'alternate-odd-even',
+            expansionRule: { type: 'weekend-adjacent', expandTo: 'full-weekend' },
+          },
+          { holidayId: 'independence-day', enabled: true, assignment: 'alternate-odd-even', expansionRule: { type: 'always', days: 1 } },
+          { holidayId: 'veterans-day', enabled: false, assignment: 'alternate-odd-even' },
+          { holidayId: 'labor-day', enabled: true, assignment: 'alternate-odd-even' },
+          { holidayId: 'spring-break', enabled: true, assignment: 'alternate-odd-even', expansionRule: { type: 'always', days: 3 } },
+        ],
+        birthdays: [],
+      },
+    });
+    const document = generateCourtDocument(appState);
+
+    expect(document.footnotes.slice(0, 2)).toEqual([
+      'Memorial Day: When the holiday falls on a Friday, Saturday, Sunday or Monday, it is extended to include the attached weekend. Otherwise the holiday is a single day.',
+      'Independence Day: The holiday is a single day.',
+    ]);
+    expect(document.footnotes).toHaveLength(5);
+  });
+
+  test('keeps the Halloween trick-or-treating footnote', () => {
+    const document = generateCourtDocument(createTestAppState());
+
+    expect(document.footnotes).toContain(
+      "Halloween: The non-custodial parent for Halloween may have reasonable access to the children for trick-or-treating in the other parent's neighborhood."
+    );
+  });
+
   test('handles missing parent names gracefully', () => {
     const appState = createTestAppState({
       parents: {
@@ -268,6 +359,48 @@ describe('major breaks section', () => {
     expect(plainText).toContain('SPRING BREAK');
     expect(plainText).toContain('school calendar');
   });
+
+  test('lists break dates entered for specific years', () => {
+    const appState = createTestAppState({
+      holidays: {
+        holidayConfigs: [
+          {
+            holidayId: 'spring-break',
+            enabled: true,
+            assignment: 'alternate-odd-even',
+            dateOverrides: [
+              { year: 2027, startDate: '2027-03-22', endDate: '2027-03-26' },
+              { year: 2026, startDate: '2026-03-30', endDate: '2026-04-03' },
+            ],
+          },
+          {
+            holidayId: 'summer-vacation',
+            enabled: true,
+            assignment: 'selection-priority',
+            dateOverrides: [{ year: 2026, startDate: '2026-05-22', endDate: '2026-08-09' }],
+          },
+        ],
+        birthdays: [],
+      },
+    });
+    const table = generateCourtDocument(appState).sections.find(
+      (section) => section.type === 'table' && (section.content as { headers: string[] }).headers[0] === 'Break'
+    );
+
+    expect(table?.content).toEqual({
+      headers: ['Break', 'Year', 'Dates'],
+      rows: [
+        ['Spring Break', '2026', 'March 30, 2026 through April 3, 2026'],
+        ['Summer Vacation', '2026', 'May 22, 2026 through August 9, 2026'],
+        ['Spring Break', '2027', 'March 22, 2027 through March 26, 2027'],
+      ],
+    });
+  });
+
+  test('omits the break dates table without per-year dates', () => {
+    const plainText = generatePlainText(generateCourtDocument(createTestAppState()));
+    expect(plainText).not.toContain('BREAK DATES');
+  });
 });
 
 describe('birthdays section', () => {
@@ -534,3 +667,25 @@ describe('edge cases', () => {
     expect(plainText).toContain('12:00 PM');
   });
 });
+
+describe('getDocumentSignatories', () => {
+  test('returns both parents with their relationship roles', () => {
+    expect(getDocumentSignatories(createTestAppState())).toEqual([
+      { name: 'John Smith', role: 'Father' },
+      { name: 'Jane Smith', role: 'Mother' },
+    ]);
+  });
+
+  test('falls back to a generic role and default names', () => {
+    const appState = createTestAppState({
+      parents: {
+        parentA: { name: '', colorClass: 'bg-blue-500' },
+        parentB: { name: 'Sam', colorClass: 'bg-pink-500', relationship: 'guardian' },
+      },
+    });
+    expect(getDocumentSignatories(appState)).toEqual([
+      { name: 'Parent A', role: 'Parent' },
+      { name: 'Sam', role: 'Guardian' },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest';
+import { getLayerClaimsForDate, detectCustodyConflicts, describeConflict, formatDateRange } from '../custodyConflicts';
+import type { AppConfig, HolidayState, ScheduleException, TrackBreak } from '../../types';
+
+const config: AppConfig = {
+  startDate: '2025-01-01',
+  selectedPattern: 'all-to-one',
+  startingParent: 'parentA',
+  exchangeTime: '18:00',
+};
+
+const holidays: HolidayState = {
+  holidayConfigs: [{ holidayId: 'thanksgiving', enabled: true, assignment: 'always-parent-a' }],
+  birthdays: [
+    { id: 'bday-1', name: 'Emma', type: 'child', month: 11, day: 27, defaultAssignment: 'always-parent-b' },
+  ],
+};
+
+describe('getLayerClaimsForDate', () => {
+  test('lists claims in priority order', () => {
+    const claims = getLayerClaimsForDate('2025-11-27', config, holidays);
+    expect(claims.map((c) => c.layer)).toEqual(['birthday', 'holiday']);
+    expect(claims[0].owner).toBe('parentB');
+    expect(claims[1]).toEqual({ layer: 'holiday', owner: 'parentA', label: 'Thanksgiving' });
+  });
+
+  test('returns no claims for base schedule days', () => {
+    expect(getLayerClaimsForDate('2025-03-12', config, holidays)).toEqual([]);
+  });
+});
+
+describe('detectCustodyConflicts', () => {
+  test('reports a birthday overriding a holiday for the other parent', () => {
+    const conflicts = detectCustodyConflicts('2025-11-01', '2025-11-30', config, holidays);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].startDate).toBe('2025-11-27');
+    expect(conflicts[0].endDate).toBe('2025-11-27');
+    expect(conflicts[0].winner.layer).toBe('birthday');
+    expect(conflicts[0].loser.layer).toBe('holiday');
+  });
+
+  test('reports a claimed track break vacation overriding a holiday', () => {
+    const trackBreak: TrackBreak = {
+      id: 'fall-track',
+      name: 'Fall Track Break',
+      startDate: '2025-11-24',
+      endDate: '2025-11-28',
+      vacationClaimed: { claimedBy: 'parentB', claimDate: '2025-09-01', weeks: 1 },
+    };
+    const noBirthdays: HolidayState = { ...holidays, birthdays: [] };
+    const conflicts = detectCustodyConflicts(
+      '2025-11-01',
+      '2025-11-30',
+      config,
+      noBirthdays,
+      undefined,
+      undefined,
+      [trackBreak],
+      'year-round'
+    );
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].winner).toEqual({ layer: 'track-break', owner: 'parentB', label: 'Fall Track Break' });
+    expect(conflicts[0].loser.label).toBe('Thanksgiving');
+    expect(describeConflict(conflicts[0], { parentA: 'Mom', parentB: 'Dad' })).toBe(
+      'Fall Track Break (track break vacation, Dad) overrides Thanksgiving (holiday, Mom)'
+    );
+  });
+
+  test('ignores overlaps that give the date to the same parent', () => {
+    const sameParent: HolidayState = {
+      ...holidays,
+      birthdays: [{ ...holidays.birthdays[0], defaultAssignment: 'always-parent-a' }],
+    };
+    expect(detectCustodyConflicts('2025-11-01', '2025-11-30', config, sameParent)).toEqual([]);
+  });
+
+  test('merges consecutive dates into one range per winner and loser', () => {
+    const exceptions: ScheduleException[] = [
+      { id: 'ex-1', startDate: '2025-11-20', endDate: '2025-12-05', parent: 'parentB', reason: 'Out of state trip' },
+    ];
+    const noBirthdays: HolidayState = { ...holidays, birthdays: [] };
+    const conflicts = detectCustodyConflicts(
+      '2025-11-01',
+      '2025-12-31',
+      config,
+      noBirthdays,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      exceptions
+    );
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].winner).toEqual({ layer: 'exception', owner: 'parentB', label: 'Out of state trip' });
+    expect(conflicts[0].loser.label).toBe('Thanksgiving');
+    expect(conflicts[0].startDate).toBe('2025-11-27');
+    expect(conflicts[0].endDate).toBe('2025-12-01');
+  });
+});
+
+describe('describeConflict', () => {
+  test('names both layers and parents', () => {
+    const [conflict] = detectCustodyConflicts('2025-11-27', '2025-11-27', config, holidays);
+    expect(describeConflict(conflict, { parentA: 'Mom', parentB: 'Dad' })).toBe(
+      "Emma's Birthday (birthday, Dad) overrides Thanksgiving (holiday, Mom)"
+    );
+  });
+
+  test('falls back to generic parent names', () => {
+    const [conflict] = detectCustodyConflicts('2025-11-27', '2025-11-27', config, holidays);
+    expect(describeConflict(conflict)).toContain('(birthday, Parent B)');
+  });
+});
+
+describe('formatDateRange', () => {
+  test('shows a single day or a range', () => {
+    expect(formatDateRange('2025-11-27', '2025-11-27')).toBe('Nov 27');
+    expect(formatDateRange('2025-11-27', '2025-11-30')).toBe('Nov 27 – Nov 30');
+  });
+});
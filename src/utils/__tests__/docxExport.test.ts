@@ -0,0 +1,119 @@
+import { describe, test, expect } from 'vitest';
+import { generateDocx, generateDocxParts, getDocxFileName } from '../docxExport';
+import type { CourtDocument } from '../courtDocumentGenerator';
+
+const document: CourtDocument = {
+  title: 'HOLIDAY AND VACATION PLAN',
+  sections: [
+    { type: 'header', content: 'EIGHTH JUDICIAL DISTRICT COURT' },
+    { type: 'section-title', content: 'HOLIDAY AND VACATION PLAN' },
+    { type: 'paragraph', content: 'In the matter of custody between John & Jane:' },
+    { type: 'section-title', content: 'SPECIAL HOLIDAYS' },
+    {
+      type: 'table',
+      content: {
+        headers: ['Holiday', 'Odd Years', 'Even Years'],
+        rows: [
+          ['Independence Day', 'Father', 'Mother'],
+          ['Thanksgiving', 'Mother', 'Father'],
+        ],
+      },
+    },
+    { type: 'section-title', content: 'MAJOR BREAKS' },
+    { type: 'paragraph', content: ['WINTER BREAK:', 'Winter Break shall be split.'] },
+    { type: 'footnote', content: 'As determined by the school calendar.' },
+  ],
+  footnotes: [
+    'Independence Day: The holiday may be extended to the adjacent weekend.',
+    'Winter Break split occurs at 12:00 PM on December 26.',
+    'Exchanges may be adjusted by written agreement.',
+  ],
+};
+
+function getPart(name: string): string {
+  const part = generateDocxParts(document, {
+    signatories: [{ name: 'John Smith', role: 'Father' }, { name: 'Jane Smith', role: 'Mother' }],
+  }).find((p) => p.name === name);
+  return part?.data as string;
+}
+
+describe('generateDocxParts', () => {
+  test('includes the parts of a Word package', () => {
+    expect(generateDocxParts(document).map((p) => p.name)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'word/_rels/document.xml.rels',
+      'word/document.xml',
+      'word/styles.xml',
+      'word/numbering.xml',
+      'word/footnotes.xml',
+      'word/header1.xml',
+      'word/footer1.xml',
+    ]);
+  });
+
+  test('maps section types to Word styles', () => {
+    const xml = getPart('word/document.xml');
+    expect(xml).toContain('<w:pStyle w:val="CourtHeader"/>');
+    expect(xml).toContain('<w:pStyle w:val="Title"/>');
+    expect(xml).toContain('<w:pStyle w:val="CaseCaption"/>');
+    expect(xml.match(/<w:pStyle w:val="Heading1"\/>/g)).toHaveLength(2);
+    expect(xml).toContain('WINTER BREAK: Winter Break shall be split.');
+  });
+
+  test('escapes XML special characters', () => {
+    expect(getPart('word/document.xml')).toContain('John &amp; Jane');
+  });
+
+  test('writes tables with a repeating header row', () => {
+    const xml = getPart('word/document.xml');
+    expect(xml.match(/<w:tbl>/g)).toHaveLength(2); // Holiday table and signature blocks
+    expect(xml).toContain('<w:tblHeader/>');
+    expect(xml.match(/<w:gridCol /g)).toHaveLength(5);
+  });
+
+  test('attaches footnotes to the text they describe', () => {
+    const xml = getPart('word/document.xml');
+    const reference = (id: number) =>
+      `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${id}"/></w:r>`;
+    expect(xml).toContain(`Independence Day</w:t></w:r>${reference(1)}`);
+    expect(xml).toContain(`Winter Break shall be split.</w:t></w:r>${reference(2)}${reference(3)}</w:p>`);
+    // Notes that match nothing are attached to the title
+    expect(xml).toContain(`HOLIDAY AND VACATION PLAN</w:t></w:r>${reference(4)}</w:p>`);
+    expect(xml.match(/<w:footnoteReference /g)).toHaveLength(4);
+
+    const footnotes = getPart('word/footnotes.xml');
+    expect(footnotes).toContain('w:type="separator"');
+    expect(footnotes.match(/<w:footnoteRef\/>/g)).toHaveLength(4);
+    expect(footnotes).toContain('Exchanges may be adjusted by written agreement.');
+  });
+
+  test('adds signature blocks for each signatory', () => {
+    const xml = getPart('word/document.xml');
+    expect(xml).toContain('IT IS SO AGREED.');
+    expect(xml).toContain('John Smith');
+    expect(xml).toContain('Jane Smith');
+    expect(generateDocxParts(document).find((p) => p.name === 'word/document.xml')?.data).not.toContain('IT IS SO AGREED.');
+  });
+
+  test('uses 12pt Times New Roman and numbered headings', () => {
+    expect(getPart('word/styles.xml')).toContain('w:ascii="Times New Roman"');
+    expect(getPart('word/styles.xml')).toContain('<w:sz w:val="24"/>');
+    expect(getPart('word/numbering.xml')).toContain('<w:lvlText w:val="%1."/>');
+    expect(getPart('word/footer1.xml')).toContain('w:instr=" NUMPAGES "');
+  });
+});
+
+describe('generateDocx', () => {
+  test('packages the parts as a ZIP archive', () => {
+    const bytes = generateDocx(document);
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+  });
+});
+
+describe('getDocxFileName', () => {
+  test('names the file after the title and date', () => {
+    expect(getDocxFileName('HOLIDAY AND VACATION PLAN', '2025-03-01')).toBe('holiday-and-vacation-plan-2025-03-01.docx');
+    expect(getDocxFileName('', '2025-03-01')).toBe('custody-plan-2025-03-01.docx');
+  });
+});
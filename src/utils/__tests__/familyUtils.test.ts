@@ -1,6 +1,7 @@
 import { describe, test, expect } from 'vitest';
 import {
   calculatePlanExpiration,
+  getPlanDateRange,
   generateChildBirthdayHolidays,
   syncBirthdayWithChild,
   removeChildBirthday,
@@ -80,6 +81,31 @@ describe('calculatePlanExpiration', () => {
   });
 });
 
+describe('getPlanDateRange', () => {
+  const children: Child[] = [
+    { id: '1', name: 'Emma', birthdate: '2018-07-20', custodyEndAge: 18 },
+  ];
+
+  test('ends at the calculated plan expiration', () => {
+    expect(getPlanDateRange({ children, planStartDate: '2025-01-01' })).toEqual({
+      startDate: '2025-01-01',
+      endDate: '2036-07-20',
+    });
+  });
+
+  test('prefers a manual plan end date', () => {
+    expect(getPlanDateRange({ children, planStartDate: '2025-01-01', planEndDate: '2030-06-30' })).toEqual({
+      startDate: '2025-01-01',
+      endDate: '2030-06-30',
+    });
+  });
+
+  test('returns null when the end cannot be determined', () => {
+    expect(getPlanDateRange({ children: [], planStartDate: '2025-01-01' })).toBeNull();
+    expect(getPlanDateRange({ children, planStartDate: '2040-01-01' })).toBeNull();
+  });
+});
+
 describe('generateChildBirthdayHolidays', () => {
   test('generates birthday for single child', () => {
     const children: Child[] = [
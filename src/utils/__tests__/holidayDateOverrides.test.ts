@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createHolidayDateOverride,
+  removeHolidayDateOverride,
+  setHolidayDateOverride,
+  validateHolidayDateOverride,
+} from '../holidayDateOverrides';
+
+describe('validateHolidayDateOverride', () => {
+  test('accepts a break that starts in its year', () => {
+    expect(validateHolidayDateOverride(createHolidayDateOverride('2027-03-22', '2027-03-26'))).toEqual({ valid: true });
+    expect(validateHolidayDateOverride(createHolidayDateOverride('2026-12-21', '2027-01-01'))).toEqual({ valid: true });
+  });
+
+  test('requires both dates', () => {
+    const result = validateHolidayDateOverride(createHolidayDateOverride('2027-03-22', ''));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('first and last day');
+  });
+
+  test('rejects a last day before the first day', () => {
+    const result = validateHolidayDateOverride(createHolidayDateOverride('2027-03-26', '2027-03-22'));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('on or after');
+  });
+
+  test('rejects a start outside the override year', () => {
+    const result = validateHolidayDateOverride({ year: 2026, startDate: '2027-03-22', endDate: '2027-03-26' });
+    expect(result).toEqual({ valid: false, reason: 'The break must start in 2026' });
+  });
+
+  test('rejects breaks long enough to be a mistyped year', () => {
+    const result = validateHolidayDateOverride(createHolidayDateOverride('2027-03-22', '2028-03-26'));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('at most 120 days');
+  });
+});
+
+describe('setHolidayDateOverride', () => {
+  test('replaces the override for the same year and keeps years in order', () => {
+    const overrides = [
+      createHolidayDateOverride('2028-03-20', '2028-03-24'),
+      createHolidayDateOverride('2027-03-15', '2027-03-19'),
+    ];
+    expect(setHolidayDateOverride(overrides, createHolidayDateOverride('2027-03-22', '2027-03-26'))).toEqual([
+      { year: 2027, startDate: '2027-03-22', endDate: '2027-03-26' },
+      { year: 2028, startDate: '2028-03-20', endDate: '2028-03-24' },
+    ]);
+  });
+
+  test('starts a list when there are no overrides yet', () => {
+    expect(setHolidayDateOverride(undefined, createHolidayDateOverride('2027-03-22', '2027-03-26'))).toHaveLength(1);
+  });
+});
+
+describe('removeHolidayDateOverride', () => {
+  test('removes only the given year', () => {
+    const overrides = [
+      createHolidayDateOverride('2027-03-22', '2027-03-26'),
+      createHolidayDateOverride('2028-03-20', '2028-03-24'),
+    ];
+    expect(removeHolidayDateOverride(overrides, 2027).map((override) => override.year)).toEqual([2028]);
+  });
+});
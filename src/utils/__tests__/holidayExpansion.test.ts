@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'vitest';
 import {
+  describeExpansionRule,
   getExpandedHolidayDates,
   getExpansionRuleForHoliday,
   hasCustomExpansionRule,
@@ -380,3 +381,33 @@ describe('Holiday Expansion Rules', () => {
     });
   });
 });
+
+describe('describeExpansionRule', () => {
+  test('explains the weekdays a conditional rule extends', () => {
+    expect(describeExpansionRule(JULY_4_EXPANSION)).toBe(
+      'When the holiday falls on a Friday, Saturday or Monday, it is extended to include the attached weekend. ' +
+        'When it falls on a Sunday, it is extended to begin on the Friday before. ' +
+        'Otherwise the holiday is a single day.'
+    );
+  });
+
+  test('uses the holiday name when given', () => {
+    expect(describeExpansionRule(HALLOWEEN_EXPANSION, 'Halloween')).toBe('Halloween is a single day.');
+    expect(describeExpansionRule({ type: 'always', days: 3 }, 'Nevada Day')).toBe(
+      'Nevada Day covers 3 days, beginning on the holiday date.'
+    );
+  });
+
+  test('mentions only the days a weekend expansion changes', () => {
+    expect(describeExpansionRule({ type: 'weekend-adjacent', expandTo: 'include-monday' })).toBe(
+      'When the holiday falls on a Saturday or Sunday, it is extended through the Monday after. ' +
+        'Otherwise the holiday is a single day.'
+    );
+
+    const midweekOnly: ExpansionRule = {
+      type: 'day-of-week-conditional',
+      rules: [{ dayOfWeek: [2, 3], expansion: 'full-weekend' }],
+    };
+    expect(describeExpansionRule(midweekOnly)).toBe('The holiday is a single day.');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, test, expect } from 'vitest';
+import { getCustodyBlocks, generateIcsCalendar, getIcsFileName } from '../icsExport';
+import type { AppState } from '../../types';
+
+const alternatingWeeks: AppState = {
+  config: {
+    startDate: '2025-01-01',
+    selectedPattern: 'alt-weeks',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  },
+  parents: {
+    parentA: { name: 'Mom', colorClass: 'bg-blue-500' },
+    parentB: { name: 'Dad', colorClass: 'bg-pink-500' },
+  },
+  familyInfo: { children: [], planStartDate: '2025-01-01' },
+};
+
+const thanksgivingWithDad: AppState = {
+  ...alternatingWeeks,
+  config: { ...alternatingWeeks.config, selectedPattern: 'all-to-one' },
+  holidays: {
+    holidayConfigs: [
+      { holidayId: 'thanksgiving', enabled: true, assignment: 'always-parent-b', exchangeTime: '09:00' },
+    ],
+    birthdays: [],
+  },
+};
+
+describe('getCustodyBlocks', () => {
+  test('collapses consecutive days into blocks that start and end at the exchange time', () => {
+    const blocks = getCustodyBlocks(alternatingWeeks, '2025-01-08', '2025-01-21');
+    expect(blocks).toEqual([
+      { parent: 'parentB', startDate: '2025-01-08', startTime: '18:00', endDate: '2025-01-15', endTime: '18:00', labels: [] },
+      { parent: 'parentA', startDate: '2025-01-15', startTime: '18:00', endDate: '2025-01-22', endTime: '18:00', labels: [] },
+    ]);
+  });
+
+  test('cuts off blocks that continue past the range at midnight', () => {
+    const blocks = getCustodyBlocks(alternatingWeeks, '2025-01-10', '2025-01-12');
+    expect(blocks).toEqual([
+      { parent: 'parentB', startDate: '2025-01-10', startTime: '00:00', endDate: '2025-01-13', endTime: '00:00', labels: [] },
+    ]);
+  });
+
+  test('names holidays in the block and uses the holiday exchange time', () => {
+    const blocks = getCustodyBlocks(thanksgivingWithDad, '2025-11-01', '2025-12-10');
+    expect(blocks).toHaveLength(3);
+    expect(blocks[1]).toEqual({
+      parent: 'parentB',
+      startDate: '2025-11-27',
+      startTime: '09:00',
+      endDate: '2025-12-02',
+      endTime: '09:00',
+      labels: ['Thanksgiving'],
+    });
+  });
+
+  test('names track breaks in the block', () => {
+    const state: AppState = {
+      ...alternatingWeeks,
+      schoolType: 'year-round',
+      trackBreaks: [{ id: 'tb-1', name: 'Fall Intersession', startDate: '2025-01-09', endDate: '2025-01-10' }],
+    };
+    expect(getCustodyBlocks(state, '2025-01-08', '2025-01-14')[0].labels).toEqual(['Fall Intersession']);
+  });
+
+  test('returns no blocks for an invalid range', () => {
+    expect(getCustodyBlocks(alternatingWeeks, '2025-02-01', '2025-01-01')).toEqual([]);
+    expect(getCustodyBlocks(alternatingWeeks, '', '2025-01-01')).toEqual([]);
+  });
+});
+
+describe('generateIcsCalendar', () => {
+  const generatedAt = new Date('2025-01-01T12:00:00Z');
+
+  test('writes one event per block with CRLF line breaks', () => {
+    const ics = generateIcsCalendar(alternatingWeeks, { startDate: '2025-01-08', endDate: '2025-01-21', generatedAt });
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines).toContain('DTSTAMP:20250101T120000Z');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('DTSTART:20250108T180000');
+    expect(lines).toContain('DTEND:20250115T180000');
+    expect(lines).toContain('SUMMARY:With Dad');
+    expect(lines).toContain('UID:2025-01-08-parentB@custody-calculator');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  test('filters events to one parent', () => {
+    const ics = generateIcsCalendar(alternatingWeeks, {
+      startDate: '2025-01-08',
+      endDate: '2025-01-21',
+      parent: 'parentA',
+      generatedAt,
+    });
+    expect(ics).toContain('X-WR-CALNAME:Custody Schedule - Mom');
+    expect(ics).toContain('SUMMARY:With Mom');
+    expect(ics).not.toContain('SUMMARY:With Dad');
+  });
+
+  test('escapes text and folds long lines', () => {
+    const state: AppState = {
+      ...thanksgivingWithDad,
+      parents: {
+        ...thanksgivingWithDad.parents,
+        parentB: { name: 'Dad, a.k.a. the parent with a very long display name; really long', colorClass: 'bg-pink-500' },
+      },
+    };
+    const ics = generateIcsCalendar(state, { startDate: '2025-11-20', endDate: '2025-11-30', parent: 'parentB', generatedAt });
+    const summary = ics.slice(ics.indexOf('SUMMARY:'), ics.indexOf('\r\nTRANSP'));
+    expect(summary).toContain('\r\n ');
+    expect(summary.replace(/\r\n /g, '')).toBe(
+      'SUMMARY:With Dad\\, a.k.a. the parent with a very long display name\\; really long (Thanksgiving)'
+    );
+    for (const line of ics.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(75);
+    }
+  });
+});
+
+describe('getIcsFileName', () => {
+  test('includes the range and the filtered parent', () => {
+    expect(getIcsFileName('2025-01-01', '2025-12-31')).toBe('custody-schedule-2025-01-01-to-2025-12-31.ics');
+    expect(getIcsFileName('2025-01-01', '2025-12-31', 'Mary Ann')).toBe(
+      'custody-schedule-2025-01-01-to-2025-12-31-mary-ann.ics'
+    );
+  });
+});
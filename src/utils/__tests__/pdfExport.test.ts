@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import { generatePlanPdf, getPdfFileName, layoutPlanPdf } from '../pdfExport';
+import type { AppState } from '../../types';
+
+const state: AppState = {
+  config: {
+    startDate: '2025-01-01',
+    selectedPattern: 'alt-weeks',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  },
+  parents: {
+    parentA: { name: 'Jane Smith', colorClass: 'bg-blue-500' },
+    parentB: { name: 'John Smith', colorClass: 'bg-pink-500' },
+  },
+  familyInfo: { children: [], planStartDate: '2025-01-01' },
+  holidays: {
+    holidayConfigs: [
+      { holidayId: 'thanksgiving', enabled: true, assignment: 'always-parent-b' },
+    ],
+    birthdays: [],
+  },
+};
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+describe('generatePlanPdf', () => {
+  test('numbers every page', () => {
+    const pages = layoutPlanPdf(state);
+    const pdf = decode(generatePlanPdf(state));
+    expect(pdf).toContain(`/Count ${pages.length}`);
+    expect(pdf).toContain(`(Page 1 of ${pages.length}) Tj`);
+    expect(pdf).toContain(`(Page ${pages.length} of ${pages.length}) Tj`);
+  });
+
+  test('includes a signature block for each parent', () => {
+    const pdf = decode(generatePlanPdf(state));
+    expect(pdf).toContain('(SIGNATURES) Tj');
+    expect(pdf).toContain('(Jane Smith) Tj');
+    expect(pdf).toContain('(John Smith) Tj');
+  });
+
+  test('appends Exhibit A with the plan year calendar and its holidays', () => {
+    const pdf = decode(generatePlanPdf(state));
+    expect(pdf).toContain('(EXHIBIT A) Tj');
+    expect(pdf).toContain('(2025 Custody Calendar) Tj');
+    expect(pdf).toContain('(December) Tj');
+    expect(pdf).toContain('(Thanksgiving) Tj');
+  });
+
+  test('shows a different year when asked', () => {
+    const pdf = decode(generatePlanPdf(state, { year: 2026 }));
+    expect(pdf).toContain('(2026 Custody Calendar) Tj');
+  });
+
+  test('fills calendar days with each parent color', () => {
+    const pdf = decode(generatePlanPdf(state, { parentColors: { parentA: '#ff0000', parentB: '#0000ff' } }));
+    // 45% tints of pure red and pure blue
+    expect(pdf).toContain('1 0.55 0.55 rg');
+    expect(pdf).toContain('0.55 0.55 1 rg');
+  });
+
+  test('produces the same bytes for the same plan', () => {
+    expect(generatePlanPdf(state)).toEqual(generatePlanPdf(state));
+  });
+});
+
+describe('getPdfFileName', () => {
+  test('builds a file name from the title and date', () => {
+    expect(getPdfFileName('HOLIDAY AND VACATION PLAN', '2025-03-01')).toBe('holiday-and-vacation-plan-2025-03-01.pdf');
+  });
+});
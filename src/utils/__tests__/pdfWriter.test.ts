@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import { createPdfPage, drawText, fillRect, measureText, serializePdf, wrapText } from '../pdfWriter';
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+describe('measureText', () => {
+  test('uses the width of each glyph in the font', () => {
+    // Times-Roman: "A" is 722 units, "i" is 278 units
+    expect(measureText('Ai', 'regular', 10)).toBeCloseTo(10);
+    expect(measureText('plan', 'bold', 10)).toBeGreaterThan(measureText('plan', 'regular', 10));
+  });
+
+  test('measures typographic punctuation', () => {
+    expect(measureText('–', 'regular', 10)).toBeCloseTo(5);
+  });
+});
+
+describe('wrapText', () => {
+  test('breaks lines between words to fit the width', () => {
+    const lines = wrapText('The children shall spend alternating weeks with each parent.', 'regular', 12, 150);
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(measureText(line, 'regular', 12)).toBeLessThanOrEqual(150);
+    }
+    expect(lines.join(' ')).toBe('The children shall spend alternating weeks with each parent.');
+  });
+
+  test('keeps an empty paragraph as one empty line', () => {
+    expect(wrapText('', 'regular', 12, 100)).toEqual(['']);
+  });
+});
+
+describe('serializePdf', () => {
+  function createDocument(): Uint8Array {
+    const page = createPdfPage();
+    drawText(page, 'Custody (Exhibit) \\ Plan – “A”', 72, 72, 'bold', 12);
+    fillRect(page, 72, 100, 50, 20, '#3b82f6');
+    return serializePdf([page, createPdfPage()], { title: 'Plan' });
+  }
+
+  test('writes a PDF header, page tree and trailer', () => {
+    const pdf = decode(createDocument());
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf).toContain('/Type /Pages');
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('/BaseFont /Times-Bold');
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+  });
+
+  test('escapes text and encodes punctuation as WinAnsi', () => {
+    const pdf = decode(createDocument());
+    expect(pdf).toContain('(Custody \\(Exhibit\\) \\\\ Plan \\226 \\223A\\224) Tj');
+  });
+
+  test('points the cross-reference table at each object', () => {
+    const pdf = decode(createDocument());
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    expect(offsets).toHaveLength(10);
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  test('produces the same bytes for the same pages', () => {
+    expect(createDocument()).toEqual(createDocument());
+  });
+});
@@ -0,0 +1,341 @@
+import { describe, test, expect } from 'vitest';
+import {
+  PLAN_FILE_FORMAT,
+  PLAN_FILE_VERSION,
+  createPlanFile,
+  serializePlanFile,
+  parsePlanFile,
+  importPlanData,
+  validateAppState,
+  restoreStoredState,
+  restoreStoredScenarios,
+  getPlanFileName,
+} from '../planFile';
+import { initialAppState } from '../../context/AppStateContext';
+import { DEFAULT_SUMMER_VACATION_CONFIG, DEFAULT_WINTER_BREAK_SPLIT } from '../../data/holidays';
+import type { AppState } from '../../types';
+
+const plan: AppState = {
+  ...initialAppState,
+  config: {
+    startDate: '2025-01-01',
+    selectedPattern: 'alt-weeks',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+    calculationMode: 'overnights',
+  },
+  parents: {
+    parentA: { name: 'Mom', colorClass: 'bg-blue-500' },
+    parentB: { name: 'Dad', colorClass: 'bg-pink-500' },
+  },
+  familyInfo: {
+    children: [{ id: '1', name: 'Emma', birthdate: '2018-05-15', custodyEndAge: 18 }],
+    planStartDate: '2025-01-01',
+  },
+  scheduleExceptions: [
+    { id: 'ex-1', startDate: '2025-11-29', endDate: '2025-11-29', parent: 'parentB', reason: 'Family wedding' },
+  ],
+  provisions: [
+    { provisionId: 'exchange-location', values: { exchangeLocation: 'the police station' } },
+  ],
+};
+
+describe('createPlanFile', () => {
+  test('wraps the plan in a versioned envelope', () => {
+    const file = createPlanFile(plan, '2025-03-01T12:00:00.000Z');
+    expect(file).toEqual({
+      format: PLAN_FILE_FORMAT,
+      version: PLAN_FILE_VERSION,
+      exportedAt: '2025-03-01T12:00:00.000Z',
+      state: plan,
+    });
+  });
+
+  test('getPlanFileName includes the date', () => {
+    expect(getPlanFileName('2025-03-01')).toBe('custody-plan-2025-03-01.json');
+  });
+});
+
+describe('parsePlanFile', () => {
+  test('round-trips an exported plan', () => {
+    const result = parsePlanFile(serializePlanFile(plan));
+    expect(result).toEqual({ valid: true, state: plan });
+  });
+
+  test('rejects text that is not JSON', () => {
+    expect(parsePlanFile('not json')).toEqual({ valid: false, errors: ['The file is not valid JSON'] });
+  });
+
+  test('rejects JSON that is not a plan file', () => {
+    expect(parsePlanFile('{"format":"something-else"}')).toEqual({
+      valid: false,
+      errors: ['This is not a custody plan file'],
+    });
+    expect(parsePlanFile('[1, 2, 3]').valid).toBe(false);
+  });
+
+  test('rejects files from a newer format version', () => {
+    const result = importPlanData({ ...createPlanFile(plan), version: PLAN_FILE_VERSION + 1 });
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors[0]).toContain('newer version of the app');
+    }
+  });
+
+  test('lists every invalid field with its path', () => {
+    const broken = {
+      ...plan,
+      config: { ...plan.config, startDate: '2025-13-45', selectedPattern: 'every-day' },
+      scheduleExceptions: [{ ...plan.scheduleExceptions![0], endDate: '2025-11-01' }],
+    };
+    const result = importPlanData(createPlanFile(broken as unknown as AppState));
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toHaveLength(3);
+      expect(result.errors[0]).toBe('plan.config.startDate must be a date in YYYY-MM-DD format (found "2025-13-45")');
+      expect(result.errors[1]).toContain('plan.config.selectedPattern must be one of');
+      expect(result.errors[2]).toBe('plan.scheduleExceptions[0]: End date must be on or after the start date');
+    }
+  });
+
+  test('checks third-party blocks', () => {
+    const block = {
+      id: 'school',
+      label: 'School',
+      weekdays: [1, 2, 3, 4, 5],
+      startTime: '08:00',
+      endTime: '15:00',
+      followsSchoolCalendar: true,
+    };
+    expect(importPlanData(createPlanFile({ ...plan, thirdPartyBlocks: [block] })).valid).toBe(true);
+
+    const broken = { ...plan, thirdPartyBlocks: [{ ...block, weekdays: [7] }, { ...block, endTime: '07:00' }] };
+    const result = importPlanData(createPlanFile(broken as unknown as AppState));
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        'plan.thirdPartyBlocks[0].weekdays must be a list of weekdays from 0 (Sunday) to 6 (Saturday) (found a list)',
+        'plan.thirdPartyBlocks[1]: End time must be after the start time',
+      ],
+    });
+  });
+
+  test('validates holiday date overrides', () => {
+    const holidayConfigs = [
+      {
+        holidayId: 'spring-break',
+        enabled: true,
+        assignment: 'alternate-odd-even',
+        dateOverrides: [{ year: 2026, startDate: '2026-03-16', endDate: '2026-03-20' }],
+      },
+    ];
+    const withOverrides = { ...plan, holidays: { ...initialAppState.holidays, holidayConfigs } };
+    expect(importPlanData(createPlanFile(withOverrides as unknown as AppState)).valid).toBe(true);
+
+    const brokenConfigs = [{ ...holidayConfigs[0], dateOverrides: [{ year: 26, startDate: 'March 16', endDate: '2026-03-20' }] }];
+    const broken = { ...plan, holidays: { ...initialAppState.holidays, holidayConfigs: brokenConfigs } };
+    const result = importPlanData(createPlanFile(broken as unknown as AppState));
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        'plan.holidays.holidayConfigs[0].dateOverrides[0].year must be a whole number from 1900 to 2200 (found 26)',
+        'plan.holidays.holidayConfigs[0].dateOverrides[0].startDate must be a date in YYYY-MM-DD format (found "March 16")',
+      ],
+    });
+  });
+
+  test('validates holiday expansion rules', () => {
+    const holidayConfigs = [
+      {
+        holidayId: 'memorial-day',
+        enabled: true,
+        assignment: 'alternate-odd-even',
+        expansionRule: { type: 'day-of-week-conditional', rules: [{ dayOfWeek: [1], expansion: 'full-weekend' }] },
+      },
+    ];
+    const withRule = { ...plan, holidays: { ...initialAppState.holidays, holidayConfigs } };
+    expect(importPlanData(createPlanFile(withRule as unknown as AppState)).valid).toBe(true);
+
+    const brokenConfigs = [
+      { ...holidayConfigs[0], expansionRule: { type: 'day-of-week-conditional', rules: [{ dayOfWeek: [7], expansion: 'all' }] } },
+      { ...holidayConfigs[0], expansionRule: { type: 'always', days: 0 } },
+    ];
+    const broken = { ...plan, holidays: { ...initialAppState.holidays, holidayConfigs: brokenConfigs } };
+    expect(importPlanData(createPlanFile(broken as unknown as AppState))).toEqual({
+      valid: false,
+      errors: [
+        'plan.holidays.holidayConfigs[0].expansionRule.rules[0].dayOfWeek must be a list of weekdays from 0 (Sunday) to 6 (Saturday) (found a list)',
+        'plan.holidays.holidayConfigs[0].expansionRule.rules[0].expansion must be one of "none", "full-weekend", "include-friday", "include-monday" (found "all")',
+        'plan.holidays.holidayConfigs[1].expansionRule.days must be a whole number from 1 to 14 (found 0)',
+      ],
+    });
+  });
+
+  test('rejects expansion rules on holidays that cover a date range', () => {
+    const holidayConfigs = [
+      { holidayId: 'spring-break', enabled: true, assignment: 'alternate-odd-even', expansionRule: { type: 'always', days: 3 } },
+    ];
+    const broken = { ...plan, holidays: { ...initialAppState.holidays, holidayConfigs } };
+    expect(importPlanData(createPlanFile(broken as unknown as AppState))).toEqual({
+      valid: false,
+      errors: [
+        'plan.holidays.holidayConfigs[0].expansionRule cannot be used for Spring Break, which covers a range of dates (use date overrides instead)',
+      ],
+    });
+  });
+
+  test('requires provision values to be text', () => {
+    const broken = { ...plan, provisions: [{ provisionId: 'exchange-location', values: { exchangeLocation: 3 } }] };
+    const result = importPlanData(createPlanFile(broken as unknown as AppState));
+    expect(result).toEqual({
+      valid: false,
+      errors: ['plan.provisions[0].values.exchangeLocation must be text (found 3)'],
+    });
+  });
+});
+
+describe('migrations', () => {
+  test('imports a bare version 1 plan and fills in missing fields', () => {
+    const legacy = {
+      config: { startDate: '2024-09-01', selectedPattern: '2-2-3', startingParent: 'parentB' },
+      parents: plan.parents,
+    };
+    const result = importPlanData(legacy);
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.migratedFrom).toBe(1);
+      expect(result.state.config.exchangeTime).toBe('18:00');
+      expect(result.state.familyInfo).toEqual({ children: [], planStartDate: '2024-09-01' });
+    }
+  });
+
+  test('current files are not reported as migrated', () => {
+    const result = importPlanData(createPlanFile(plan));
+    expect(result.valid && result.migratedFrom).toBeUndefined();
+  });
+});
+
+describe('validateAppState', () => {
+  test('accepts the default state', () => {
+    expect(validateAppState(initialAppState)).toEqual([]);
+  });
+
+  test('reports missing sections', () => {
+    expect(validateAppState({})).toEqual([
+      'plan.config must be an object (found nothing)',
+      'plan.parents must be an object (found nothing)',
+      'plan.familyInfo must be an object (found nothing)',
+    ]);
+  });
+
+  test('checks the holiday settings the engine reads', () => {
+    const state = {
+      ...plan,
+      holidays: {
+        ...initialAppState.holidays,
+        winterBreakSplit: { ...DEFAULT_WINTER_BREAK_SPLIT, splitDate: 'Dec 26' },
+        summerVacationConfig: { ...DEFAULT_SUMMER_VACATION_CONFIG, weeksPerParent: 0 },
+        religiousHolidayConfigs: [{ holidayId: 'passover', enabled: true }],
+        customReligiousHolidays: [{ id: 'c-1', name: 'Family Feast', duration: 1, assignment: 'always-parent-a' }],
+      },
+    };
+    expect(validateAppState(state)).toEqual([
+      'plan.holidays.winterBreakSplit.splitDate must be a month and day in MM-DD format (found "Dec 26")',
+      'plan.holidays.summerVacationConfig.weeksPerParent must be a whole number from 1 to 13 (found 0)',
+      'plan.holidays.religiousHolidayConfigs[0].assignment must be one of "alternate-odd-even", "always-parent-a", "always-parent-b", "split-period", "selection-priority", "extend-weekend" (found nothing)',
+      'plan.holidays.customReligiousHolidays[0].dates must be an object of start dates in YYYY-MM-DD format keyed by year (found nothing)',
+    ]);
+
+    const customHoliday = { id: 'c-1', name: 'Family Feast', duration: 2, dates: { 2025: '2025-10-04' }, assignment: 'always-parent-a' };
+    expect(
+      validateAppState({ ...plan, holidays: { ...initialAppState.holidays, customReligiousHolidays: [customHoliday] } })
+    ).toEqual([]);
+  });
+
+  test('requires a custom pattern of 2 to 56 days', () => {
+    const withPattern = (customPattern: string[]) => ({ ...plan, config: { ...plan.config, customPattern } });
+    expect(validateAppState(withPattern(['A', 'B']))).toEqual([]);
+    expect(validateAppState(withPattern([]))).toEqual([
+      'plan.config.customPattern must be a list of 2 to 56 "A" and "B" days (found a list)',
+    ]);
+    expect(validateAppState(withPattern(Array(57).fill('A')))).toHaveLength(1);
+  });
+
+  test('allows children without a birthdate yet', () => {
+    const state = {
+      ...plan,
+      familyInfo: { ...plan.familyInfo, children: [{ id: '2', name: 'Baby', birthdate: '', custodyEndAge: 18 }] },
+    };
+    expect(validateAppState(state)).toEqual([]);
+  });
+});
+
+describe('restoreStoredState', () => {
+  test('returns no plan and no errors when nothing is stored', () => {
+    expect(restoreStoredState(null)).toEqual({ state: null, errors: [] });
+  });
+
+  test('restores a valid stored plan', () => {
+    expect(restoreStoredState(plan)).toEqual({ state: plan, errors: [] });
+  });
+
+  test('reports why an invalid stored plan cannot be used', () => {
+    const stored = { ...plan, config: { ...plan.config, exchangeTime: '6pm' } };
+    expect(restoreStoredState(stored)).toEqual({
+      state: null,
+      errors: ['plan.config.exchangeTime must be a time in HH:MM format (found "6pm")'],
+    });
+  });
+
+  test('restores a stored plan whose overnight cutoff was cleared', () => {
+    const stored = JSON.parse(JSON.stringify({ ...plan, config: { ...plan.config, overnightCutoffTime: '' } }));
+    expect(restoreStoredState(stored)).toEqual({ state: stored, errors: [] });
+  });
+});
+
+describe('restoreStoredScenarios', () => {
+  const draftA = { id: 'scenario-a', name: 'Draft A', state: plan, updatedAt: '2026-01-01T00:00:00.000Z' };
+  const draftB = {
+    id: 'scenario-b',
+    name: 'Draft B',
+    state: { ...plan, config: { ...plan.config, exchangeTime: '6pm' } },
+    updatedAt: '2026-01-02T00:00:00.000Z',
+  };
+
+  test('returns no store and no errors when nothing is stored', () => {
+    expect(restoreStoredScenarios(null)).toEqual({ store: null, dropped: [], errors: [] });
+  });
+
+  test('restores valid stored scenarios', () => {
+    const stored = { scenarios: [draftA], activeScenarioId: 'scenario-a' };
+    expect(restoreStoredScenarios(stored)).toEqual({ store: stored, dropped: [], errors: [] });
+  });
+
+  test('drops scenarios whose plan is invalid and keeps the rest', () => {
+    const result = restoreStoredScenarios({ scenarios: [draftA, draftB], activeScenarioId: 'scenario-a' });
+    expect(result.store).toEqual({ scenarios: [draftA], activeScenarioId: 'scenario-a' });
+    expect(result.dropped).toEqual([draftB]);
+    expect(result.errors).toEqual([
+      'Scenario "Draft B": plan.config.exchangeTime must be a time in HH:MM format (found "6pm")',
+    ]);
+  });
+
+  test('leaves no active scenario when the active one is dropped', () => {
+    const result = restoreStoredScenarios({ scenarios: [draftA, draftB], activeScenarioId: 'scenario-b' });
+    expect(result.store?.activeScenarioId).toBeNull();
+  });
+
+  test('drops scenarios missing their id or name', () => {
+    const result = restoreStoredScenarios({ scenarios: [draftA, { state: plan }], activeScenarioId: 'scenario-a' });
+    expect(result.store?.scenarios).toEqual([draftA]);
+    expect(result.errors).toEqual(['Scenario 2 is missing its id, name or last-changed time']);
+  });
+
+  test('rejects a stored value that is not a scenario list', () => {
+    expect(restoreStoredScenarios({ scenarios: 'none' })).toEqual({
+      store: null,
+      dropped: [{ scenarios: 'none' }],
+      errors: ['The saved scenarios are not a list of scenarios'],
+    });
+  });
+});
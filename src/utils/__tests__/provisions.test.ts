@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import {
+  BLANK_VALUE,
+  fillProvisionText,
+  getMissingProvisionValues,
+  getOrderedProvisions,
+  getPlaceholderNames,
+} from '../provisions';
+
+describe('getPlaceholderNames', () => {
+  test('lists each placeholder once, in order of first use', () => {
+    expect(getPlaceholderNames('At {{place}} by {{ time }}, or {{place}} again')).toEqual(['place', 'time']);
+    expect(getPlaceholderNames('No placeholders')).toEqual([]);
+  });
+});
+
+describe('fillProvisionText', () => {
+  test('replaces placeholders with their values', () => {
+    expect(fillProvisionText('Exchanges at {{place}}.', { place: 'the school' })).toBe('Exchanges at the school.');
+  });
+
+  test('prints a blank line for missing values', () => {
+    expect(fillProvisionText('Within {{days}} days.', { days: '  ' })).toBe(`Within ${BLANK_VALUE} days.`);
+    expect(fillProvisionText('Within {{days}} days.', {})).toBe(`Within ${BLANK_VALUE} days.`);
+  });
+});
+
+describe('getMissingProvisionValues', () => {
+  test('lists the variables without a value', () => {
+    expect(getMissingProvisionValues({ provisionId: 'exchange-delays', values: { graceMinutes: '15' } }))
+      .toEqual(['waitMinutes']);
+    expect(getMissingProvisionValues({ provisionId: 'no-disparagement', values: {} })).toEqual([]);
+    expect(getMissingProvisionValues({ provisionId: 'unknown', values: {} })).toEqual([]);
+  });
+});
+
+describe('getOrderedProvisions', () => {
+  test('orders provisions by category and drops unknown ones', () => {
+    const ordered = getOrderedProvisions([
+      { provisionId: 'travel-notice', values: {} },
+      { provisionId: 'unknown', values: {} },
+      { provisionId: 'no-disparagement', values: {} },
+      { provisionId: 'joint-legal-custody', values: {} },
+      { provisionId: 'parent-communication', values: {} },
+    ]);
+    expect(ordered.map(({ provision }) => provision.id)).toEqual([
+      'joint-legal-custody',
+      'no-disparagement',
+      'parent-communication',
+      'travel-notice',
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'vitest';
+import { compareScenarios } from '../scenarioComparison';
+import type { AppState } from '../../types';
+
+const baseState: AppState = {
+  config: {
+    startDate: '2025-01-01',
+    selectedPattern: 'all-to-one',
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+  },
+  parents: {
+    parentA: { name: 'Mom', colorClass: 'bg-blue-500' },
+    parentB: { name: 'Dad', colorClass: 'bg-pink-500' },
+  },
+  holidays: {
+    holidayConfigs: [{ holidayId: 'thanksgiving', enabled: true, assignment: 'always-parent-a' }],
+    birthdays: [],
+  },
+  familyInfo: { children: [], planStartDate: '2025-01-01' },
+};
+
+const giveThanksgiving: AppState = {
+  ...baseState,
+  holidays: {
+    holidayConfigs: [{ holidayId: 'thanksgiving', enabled: true, assignment: 'always-parent-b' }],
+    birthdays: [],
+  },
+};
+
+describe('compareScenarios', () => {
+  test('reports the yearly change for Parent A', () => {
+    const comparison = compareScenarios(baseState, giveThanksgiving, 2025);
+    expect(comparison.year).toBe(2025);
+    expect(comparison.statsA.parentA.days).toBe(365);
+    expect(comparison.statsB.parentA.days).toBe(360);
+    expect(comparison.daysDelta).toBe(-5);
+    expect(comparison.percentagePointsDelta).toBeCloseTo(-1.37, 2);
+  });
+
+  test('breaks the change down by month', () => {
+    const comparison = compareScenarios(baseState, giveThanksgiving, 2025);
+    expect(comparison.monthly).toHaveLength(12);
+    const nov = comparison.monthly.find((row) => row.label === 'Nov');
+    const dec = comparison.monthly.find((row) => row.label === 'Dec');
+    expect(nov?.daysDelta).toBe(-4);
+    expect(dec?.daysDelta).toBe(-1);
+    expect(comparison.monthly.reduce((sum, row) => sum + row.daysDelta, 0)).toBe(-5);
+  });
+
+  test('breaks the change down by holiday', () => {
+    const comparison = compareScenarios(baseState, giveThanksgiving, 2025);
+    expect(comparison.holidays).toEqual([
+      {
+        label: 'Thanksgiving',
+        totalDays: 5,
+        parentADaysA: 5,
+        parentADaysB: 0,
+        daysDelta: -5,
+        percentagePointsDelta: -1.37,
+      },
+    ]);
+  });
+
+  test('holidays only in one scenario are still compared', () => {
+    const noHolidays: AppState = { ...baseState, holidays: { holidayConfigs: [], birthdays: [] } };
+    const comparison = compareScenarios(noHolidays, giveThanksgiving, 2025);
+    expect(comparison.holidays.map((row) => row.label)).toEqual(['Thanksgiving']);
+    expect(comparison.holidays[0].daysDelta).toBe(-5);
+  });
+
+  test('identical scenarios have no differences', () => {
+    const comparison = compareScenarios(baseState, baseState, 2025);
+    expect(comparison.daysDelta).toBe(0);
+    expect(comparison.monthly.every((row) => row.daysDelta === 0)).toBe(true);
+    expect(comparison.holidays.every((row) => row.daysDelta === 0)).toBe(true);
+  });
+});
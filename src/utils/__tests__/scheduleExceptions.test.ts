@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'vitest';
+import { validateScheduleException, sortScheduleExceptions } from '../scheduleExceptions';
+import type { ScheduleException } from '../../types';
+
+function exception(overrides: Partial<ScheduleException> = {}): ScheduleException {
+  return {
+    id: 'exception-1',
+    startDate: '2025-11-29',
+    endDate: '2025-11-29',
+    parent: 'parentB',
+    reason: 'Family wedding',
+    ...overrides,
+  };
+}
+
+describe('validateScheduleException', () => {
+  test('accepts a single-day exception with a reason', () => {
+    expect(validateScheduleException(exception())).toEqual({ valid: true });
+  });
+
+  test('requires dates', () => {
+    const result = validateScheduleException(exception({ startDate: '' }));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('start and end date');
+  });
+
+  test('rejects an end date before the start date', () => {
+    const result = validateScheduleException(exception({ endDate: '2025-11-28' }));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('on or after');
+  });
+
+  test('requires a reason', () => {
+    const result = validateScheduleException(exception({ reason: '   ' }));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('reason');
+  });
+});
+
+describe('sortScheduleExceptions', () => {
+  test('orders exceptions by start date without mutating the input', () => {
+    const later = exception({ id: 'later', startDate: '2025-12-20', endDate: '2025-12-21' });
+    const earlier = exception({ id: 'earlier' });
+    const input = [later, earlier];
+
+    expect(sortScheduleExceptions(input).map((e) => e.id)).toEqual(['earlier', 'later']);
+    expect(input[0].id).toBe('later');
+  });
+});
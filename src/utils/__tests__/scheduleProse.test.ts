@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'vitest';
+import { describeRegularSchedule } from '../scheduleProse';
+import type { AppConfig, PatternType } from '../../types';
+
+const options = {
+  parentNames: { parentA: 'the Father', parentB: 'the Mother' },
+  exchangeTime: '6:00 PM',
+};
+
+/**
+ * Build a config starting on Monday, January 6, 2025.
+ */
+function createConfig(selectedPattern: PatternType, overrides?: Partial<AppConfig>): AppConfig {
+  return {
+    startDate: '2025-01-06',
+    selectedPattern,
+    startingParent: 'parentA',
+    exchangeTime: '18:00',
+    ...overrides,
+  };
+}
+
+describe('describeRegularSchedule', () => {
+  test('describes 2-2-5-5 as fixed weekdays and alternating weekends', () => {
+    const [rotation, exchange] = describeRegularSchedule(createConfig('2-2-5-5'), options);
+    expect(rotation).toBe(
+      'The Father shall have the children every Monday and Tuesday. ' +
+      'The Mother shall have the children every Wednesday and Thursday. ' +
+      'Friday through Sunday shall alternate between the parents each week, beginning with the Father on Friday, January 10, 2025.'
+    );
+    expect(exchange).toBe('Exchanges under the regular schedule shall occur at 6:00 PM on the first day of each parent\'s custodial period.');
+  });
+
+  test('describes 3-4-4-3 with the alternating midweek day', () => {
+    const [rotation] = describeRegularSchedule(createConfig('3-4-4-3'), options);
+    expect(rotation).toBe(
+      'The Father shall have the children every Monday through Wednesday. ' +
+      'The Mother shall have the children every Friday through Sunday. ' +
+      'Thursday shall alternate between the parents each week, beginning with the Mother on Thursday, January 9, 2025.'
+    );
+  });
+
+  test('describes every other weekend from the start date weekday', () => {
+    const [rotation] = describeRegularSchedule(createConfig('every-other-weekend'), options);
+    expect(rotation).toBe(
+      'The Father shall have the children every Monday through Friday. ' +
+      'Saturday and Sunday shall alternate between the parents each week, beginning with the Mother on Saturday, January 11, 2025.'
+    );
+  });
+
+  test('describes rotations without fixed weekdays week by week', () => {
+    const [rotation] = describeRegularSchedule(createConfig('2-2-3'), options);
+    expect(rotation).toBe(
+      'The regular schedule repeats every two weeks, beginning Monday, January 6, 2025. ' +
+      'In the first week of each cycle, the Father shall have the children Monday and Tuesday, and Friday through Sunday, and the Mother shall have the children Wednesday and Thursday. ' +
+      'In the second week of each cycle, the Father shall have the children Wednesday and Thursday, and the Mother shall have the children Monday and Tuesday, and Friday through Sunday.'
+    );
+  });
+
+  test('names the starting parent first', () => {
+    const [rotation] = describeRegularSchedule(createConfig('alt-weeks', { startingParent: 'parentB' }), options);
+    expect(rotation).toContain('In the first week of each cycle, the Mother shall have the children for the entire week.');
+    expect(rotation).toContain('In the second week of each cycle, the Father shall have the children for the entire week.');
+  });
+
+  test('describes same weekends each month by weekend number', () => {
+    const [rotation] = describeRegularSchedule(createConfig('same-weekends-monthly'), options);
+    expect(rotation).toContain('The Father shall have the children every Monday through Friday and on the second and fourth weekends of each month.');
+    expect(rotation).toContain('The Mother shall have the children on the first, third and fifth weekends of each month.');
+  });
+
+  test('describes custom cycles that are not whole weeks as periods', () => {
+    const config = createConfig('custom', { customPattern: ['A', 'A', 'A', 'B', 'B', 'B', 'B', 'B', 'B', 'A'] });
+    const [rotation] = describeRegularSchedule(config, { ...options, parentNames: { parentA: 'John', parentB: 'Jane' } });
+    expect(rotation).toBe(
+      'The regular schedule repeats every ten days, beginning Monday, January 6, 2025. ' +
+      'In each cycle, the children shall be with John for three days, then Jane for six days, then John for one day.'
+    );
+  });
+
+  test('gives all time to the starting parent without a rotation', () => {
+    expect(describeRegularSchedule(createConfig('all-to-one'), options)).toEqual([
+      'The Father shall have the children at all times under the regular schedule. The Mother shall have no regularly scheduled custodial time.',
+    ]);
+    expect(describeRegularSchedule(createConfig('custom'), options)).toHaveLength(1);
+  });
+});
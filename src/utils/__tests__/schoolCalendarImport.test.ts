@@ -0,0 +1,200 @@
+import { describe, test, expect } from 'vitest';
+import {
+  applySchoolCalendarImport,
+  classifySchoolEvent,
+  createSchoolCalendarImportItems,
+  parseCsvCalendar,
+  parseIcsCalendar,
+  parseSchoolCalendarFile,
+  summarizeSchoolCalendarImport,
+  type SchoolCalendarEvent,
+  type SchoolCalendarImportItem,
+  type SchoolEventCategory,
+} from '../schoolCalendarImport';
+import { createDefaultHolidayConfigs } from '../../data/holidays';
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'SUMMARY:Thanksgiving Break\\, No School',
+  'DTSTART;VALUE=DATE:20251124',
+  'DTEND;VALUE=DATE:20251129',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'SUMMARY:Teacher Workday - No',
+  '  Students',
+  'DTSTART;VALUE=DATE:20251010',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'SUMMARY:Board Meeting',
+  'DTSTART:20251014T180000Z',
+  'DTEND:20251014T200000Z',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20251015',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+function item(summary: string, startDate: string, endDate: string, category: SchoolEventCategory): SchoolCalendarImportItem {
+  return { id: `${category}-${startDate}`, event: { summary, startDate, endDate }, category };
+}
+
+describe('parseIcsCalendar', () => {
+  const result = parseIcsCalendar(ICS);
+
+  test('reads events in date order, unfolding and unescaping text', () => {
+    expect(result.events.map((event) => event.summary)).toEqual([
+      'Teacher Workday - No Students',
+      'Board Meeting',
+      'Thanksgiving Break, No School',
+    ]);
+  });
+
+  test('treats an all-day DTEND as exclusive and a missing DTEND as one day', () => {
+    expect(result.events[2]).toMatchObject({ startDate: '2025-11-24', endDate: '2025-11-28' });
+    expect(result.events[0]).toMatchObject({ startDate: '2025-10-10', endDate: '2025-10-10' });
+    expect(result.events[1]).toMatchObject({ startDate: '2025-10-14', endDate: '2025-10-14' });
+  });
+
+  test('reports events it cannot read', () => {
+    expect(result.errors).toEqual(['Event 4 has no name']);
+    expect(parseIcsCalendar('BEGIN:VCALENDAR\nEND:VCALENDAR').errors).toEqual(['The file has no calendar events']);
+  });
+});
+
+describe('parseCsvCalendar', () => {
+  test('reads named columns with ISO or US dates and quoted fields', () => {
+    const csv = [
+      'Date,End Date,Event',
+      '3/30/2026,4/3/2026,Spring Break',
+      '2026-01-19,,"Professional Development, No School"',
+    ].join('\n');
+    expect(parseCsvCalendar(csv)).toEqual({
+      events: [
+        { summary: 'Professional Development, No School', startDate: '2026-01-19', endDate: '2026-01-19' },
+        { summary: 'Spring Break', startDate: '2026-03-30', endDate: '2026-04-03' },
+      ],
+      errors: [],
+    });
+  });
+
+  test('reports rows it cannot read', () => {
+    const csv = ['Event,Date', 'Staff Day,2/30/2026', ',2026-02-02'].join('\n');
+    expect(parseCsvCalendar(csv).errors).toEqual([
+      'Row 2: could not read the date "2/30/2026"',
+      'Row 3 has no event name',
+    ]);
+  });
+
+  test('requires a header row naming the columns', () => {
+    expect(parseCsvCalendar('2026-01-19,Staff Day').errors).toEqual([
+      'The first row must name an event column and a date (or start date) column',
+    ]);
+  });
+});
+
+describe('parseSchoolCalendarFile', () => {
+  test('chooses the format from the contents', () => {
+    expect(parseSchoolCalendarFile(ICS).events).toHaveLength(3);
+    expect(parseSchoolCalendarFile('Event,Date\nStaff Day,2026-02-02').events).toHaveLength(1);
+  });
+});
+
+describe('classifySchoolEvent', () => {
+  const classify = (summary: string) => classifySchoolEvent({ summary, startDate: '2026-01-01', endDate: '2026-01-01' });
+
+  test('suggests categories from event names', () => {
+    expect(classify('Teacher Workday - No Students')).toBe('in-service');
+    expect(classify('Spring Recess')).toBe('spring-break');
+    expect(classify('Winter Break')).toBe('winter-break');
+    expect(classify('Last Day of School')).toBe('last-day-of-school');
+    expect(classify('First Day for Students')).toBe('first-day-of-school');
+    expect(classify('Board Meeting')).toBe('ignore');
+  });
+
+  test('reads track breaks before the season in their name', () => {
+    expect(classify('Track B Winter Intersession')).toBe('track-break');
+    expect(classify('Track A Off-Track')).toBe('track-break');
+  });
+});
+
+describe('applySchoolCalendarImport', () => {
+  const empty = { inServiceDays: [], trackBreaks: [], holidayConfigs: createDefaultHolidayConfigs() };
+  const springBreak = (configs: { holidayId: string }[]) =>
+    configs.find((config) => config.holidayId === 'spring-break') as { dateOverrides?: unknown };
+
+  test('merges in-service days and adds new track breaks', () => {
+    const items = [
+      item('Staff Development', '2026-01-19', '2026-01-20', 'in-service'),
+      item('Track A Break', '2026-03-02', '2026-03-20', 'track-break'),
+      item('Board Meeting', '2026-01-21', '2026-01-21', 'ignore'),
+    ];
+    const current = {
+      ...empty,
+      inServiceDays: ['2026-01-20', '2025-10-10'],
+      trackBreaks: [{ id: 'tb-1', name: 'Fall', startDate: '2025-10-06', endDate: '2025-10-24' }],
+    };
+    const result = applySchoolCalendarImport(items, current);
+
+    expect(result.inServiceDays).toEqual(['2025-10-10', '2026-01-19', '2026-01-20']);
+    expect(result.trackBreaks.map((trackBreak) => trackBreak.id)).toEqual(['tb-1', 'track-break-2026-03-02']);
+    expect(applySchoolCalendarImport(items, result).trackBreaks).toHaveLength(2);
+  });
+
+  test('stores break dates as overrides for their year', () => {
+    const current = {
+      ...empty,
+      holidayConfigs: empty.holidayConfigs.map((config) =>
+        config.holidayId === 'spring-break'
+          ? { ...config, dateOverrides: [{ year: 2026, startDate: '2026-03-16', endDate: '2026-03-20' }] }
+          : config
+      ),
+    };
+    const result = applySchoolCalendarImport([item('Spring Break', '2026-03-30', '2026-04-03', 'spring-break')], current);
+    expect(springBreak(result.holidayConfigs).dateOverrides).toEqual([
+      { year: 2026, startDate: '2026-03-30', endDate: '2026-04-03' },
+    ]);
+  });
+
+  test('derives summer vacation from the last and first days of school', () => {
+    const items = [
+      item('Last Day of School', '2026-05-21', '2026-05-21', 'last-day-of-school'),
+      item('First Day of School', '2026-08-10', '2026-08-10', 'first-day-of-school'),
+    ];
+    const result = applySchoolCalendarImport(items, { ...empty, holidayConfigs: [] });
+    expect(result.holidayConfigs).toEqual([
+      {
+        holidayId: 'summer-vacation',
+        enabled: true,
+        assignment: 'selection-priority',
+        dateOverrides: [{ year: 2026, startDate: '2026-05-22', endDate: '2026-08-09' }],
+      },
+    ]);
+
+    const explicit = applySchoolCalendarImport(
+      [...items, item('Summer Vacation', '2026-05-25', '2026-08-07', 'summer-vacation')],
+      { ...empty, holidayConfigs: [] }
+    );
+    expect(explicit.holidayConfigs[0].dateOverrides).toEqual([
+      { year: 2026, startDate: '2026-05-25', endDate: '2026-08-07' },
+    ]);
+  });
+});
+
+describe('summarizeSchoolCalendarImport', () => {
+  test('describes what will change', () => {
+    const events: SchoolCalendarEvent[] = [
+      { summary: 'Teacher Workday', startDate: '2025-10-09', endDate: '2025-10-10' },
+      { summary: 'Track C Intersession', startDate: '2026-02-02', endDate: '2026-02-27' },
+      { summary: 'Spring Break', startDate: '2026-03-30', endDate: '2026-04-03' },
+      { summary: 'Board Meeting', startDate: '2026-04-14', endDate: '2026-04-14' },
+    ];
+    expect(summarizeSchoolCalendarImport(createSchoolCalendarImportItems(events))).toEqual([
+      '2 in-service days',
+      '1 track break',
+      'Spring Break dates for 2026',
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, test, expect } from 'vitest';
+import {
+  getSummerWeeks,
+  getFirstPicker,
+  getSelectionDeadlineDate,
+  getPickEndDate,
+  getNextPicker,
+  canPickSummerWeeks,
+  getSummerPickForDate,
+  isSummerSelectionActive,
+  addSummerPick,
+  removeLastSummerPick,
+} from '../summerSelection';
+import { DEFAULT_SUMMER_VACATION_CONFIG } from '../../data/holidays';
+import type { SelectionPriorityConfig, SummerVacationPick } from '../../types/holidays';
+
+const config: SelectionPriorityConfig = DEFAULT_SUMMER_VACATION_CONFIG;
+
+function pick(parent: SummerVacationPick['parent'], startDate: string, weeks = 1): SummerVacationPick {
+  return { parent, startDate, weeks, pickedOn: '2025-03-01' };
+}
+
+describe('getSummerWeeks', () => {
+  test('splits the summer window into full 7-day weeks', () => {
+    // June 1 - August 15, 2025 is 76 days: 10 full weeks
+    const weeks = getSummerWeeks(2025);
+    expect(weeks).toHaveLength(10);
+    expect(weeks[0]).toEqual({ index: 0, startDate: '2025-06-01', endDate: '2025-06-07' });
+    expect(weeks[9]).toEqual({ index: 9, startDate: '2025-08-03', endDate: '2025-08-09' });
+  });
+
+  test('starts from the summer dates entered for the year', () => {
+    const weeks = getSummerWeeks(2026, [{ year: 2026, startDate: '2026-05-22', endDate: '2026-08-09' }]);
+    expect(weeks).toHaveLength(11);
+    expect(weeks[0]).toEqual({ index: 0, startDate: '2026-05-22', endDate: '2026-05-28' });
+  });
+});
+
+describe('getFirstPicker', () => {
+  test('uses firstPickOddYears in odd years and the other parent in even years', () => {
+    expect(getFirstPicker(config, 2025)).toBe('parentA');
+    expect(getFirstPicker(config, 2026)).toBe('parentB');
+  });
+});
+
+describe('getSelectionDeadlineDate', () => {
+  test('parses month names', () => {
+    expect(getSelectionDeadlineDate('April 1', 2025)).toBe('2025-04-01');
+    expect(getSelectionDeadlineDate('Apr 15th', 2025)).toBe('2025-04-15');
+  });
+
+  test('parses numeric and ISO dates', () => {
+    expect(getSelectionDeadlineDate('4/1', 2025)).toBe('2025-04-01');
+    expect(getSelectionDeadlineDate('04-01', 2026)).toBe('2026-04-01');
+    expect(getSelectionDeadlineDate('2025-03-15', 2025)).toBe('2025-03-15');
+  });
+
+  test('returns null for unparseable deadlines', () => {
+    expect(getSelectionDeadlineDate('30 days before summer', 2025)).toBeNull();
+    expect(getSelectionDeadlineDate('February 30', 2025)).toBeNull();
+    expect(getSelectionDeadlineDate('', 2025)).toBeNull();
+  });
+});
+
+describe('getPickEndDate', () => {
+  test('covers whole weeks', () => {
+    expect(getPickEndDate(pick('parentA', '2025-06-01'))).toBe('2025-06-07');
+    expect(getPickEndDate(pick('parentA', '2025-06-01', 2))).toBe('2025-06-14');
+  });
+});
+
+describe('getNextPicker', () => {
+  test('alternates starting with the first picker', () => {
+    expect(getNextPicker(config, [], 2025)).toBe('parentA');
+    expect(getNextPicker(config, [pick('parentA', '2025-06-01')], 2025)).toBe('parentB');
+    expect(getNextPicker(config, [pick('parentA', '2025-06-01'), pick('parentB', '2025-06-08')], 2025)).toBe('parentA');
+  });
+
+  test('skips a parent who has used all their weeks', () => {
+    const picks = [pick('parentA', '2025-06-01', 2)];
+    expect(getNextPicker(config, picks, 2025)).toBe('parentB');
+    expect(getNextPicker(config, [...picks, pick('parentB', '2025-06-22')], 2025)).toBe('parentB');
+  });
+
+  test('returns null when both parents are done', () => {
+    const picks = [pick('parentA', '2025-06-01', 2), pick('parentB', '2025-06-22', 2)];
+    expect(getNextPicker(config, picks, 2025)).toBeNull();
+  });
+});
+
+describe('canPickSummerWeeks', () => {
+  test('accepts a valid first pick', () => {
+    expect(canPickSummerWeeks(pick('parentA', '2025-06-01', 2), [], config, 2025)).toEqual({ valid: true });
+  });
+
+  test('enforces the pick order', () => {
+    const result = canPickSummerWeeks(pick('parentB', '2025-06-01'), [], config, 2025, {
+      parentA: 'Alex',
+      parentB: 'Blake',
+    });
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe("It is Alex's turn to pick");
+  });
+
+  test('enforces the selection deadline', () => {
+    const late = { ...pick('parentA', '2025-06-01'), pickedOn: '2025-04-02' };
+    const result = canPickSummerWeeks(late, [], config, 2025);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('deadline');
+  });
+
+  test('does not enforce an unparseable deadline', () => {
+    const late = { ...pick('parentA', '2025-06-01'), pickedOn: '2025-05-20' };
+    const loose = { ...config, selectionDeadline: 'Before school ends' };
+    expect(canPickSummerWeeks(late, [], loose, 2025).valid).toBe(true);
+  });
+
+  test('enforces maxConsecutiveWeeks, including adjacent blocks', () => {
+    const lenient = { ...config, weeksPerParent: 4 };
+    expect(canPickSummerWeeks(pick('parentA', '2025-06-01', 3), [], lenient, 2025).valid).toBe(false);
+
+    const picks = [pick('parentA', '2025-06-01', 2), pick('parentB', '2025-07-06')];
+    const result = canPickSummerWeeks(pick('parentA', '2025-06-15'), picks, lenient, 2025);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('No more than 2 consecutive weeks allowed');
+  });
+
+  test('limits picks to the weeks a parent has left', () => {
+    const picks = [pick('parentA', '2025-06-01'), pick('parentB', '2025-06-08')];
+    const result = canPickSummerWeeks(pick('parentA', '2025-07-06', 2), picks, config, 2025);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('Parent A has only 1 week left');
+  });
+
+  test('rejects overlapping picks', () => {
+    const picks = [pick('parentA', '2025-06-01', 2)];
+    const result = canPickSummerWeeks(pick('parentB', '2025-06-08'), picks, config, 2025);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('Overlaps weeks already picked by Parent A');
+  });
+
+  test('rejects weeks outside the summer or not aligned to a summer week', () => {
+    expect(canPickSummerWeeks(pick('parentA', '2025-06-03'), [], config, 2025).valid).toBe(false);
+    expect(canPickSummerWeeks(pick('parentA', '2025-08-03', 2), [], config, 2025).valid).toBe(false);
+  });
+});
+
+describe('getSummerPickForDate', () => {
+  const selections = [{ year: 2025, picks: [pick('parentB', '2025-06-08', 2)] }];
+
+  test('finds the pick covering a date', () => {
+    expect(getSummerPickForDate('2025-06-08', selections)?.parent).toBe('parentB');
+    expect(getSummerPickForDate('2025-06-21', selections)?.parent).toBe('parentB');
+  });
+
+  test('returns null outside picked weeks and other years', () => {
+    expect(getSummerPickForDate('2025-06-22', selections)).toBeNull();
+    expect(getSummerPickForDate('2026-06-10', selections)).toBeNull();
+    expect(getSummerPickForDate('2025-06-10', undefined)).toBeNull();
+  });
+});
+
+describe('isSummerSelectionActive', () => {
+  test('requires summer vacation to be enabled with selection priority', () => {
+    expect(isSummerSelectionActive([{ holidayId: 'summer-vacation', enabled: true, assignment: 'selection-priority' }])).toBe(true);
+    expect(isSummerSelectionActive([{ holidayId: 'summer-vacation', enabled: false, assignment: 'selection-priority' }])).toBe(false);
+    expect(isSummerSelectionActive([{ holidayId: 'summer-vacation', enabled: true, assignment: 'alternate-odd-even' }])).toBe(false);
+    expect(isSummerSelectionActive(undefined)).toBe(false);
+  });
+});
+
+describe('addSummerPick / removeLastSummerPick', () => {
+  test('creates the year selection on first pick and appends later picks', () => {
+    const first = addSummerPick(undefined, 2025, pick('parentA', '2025-06-01'));
+    expect(first).toEqual([{ year: 2025, picks: [pick('parentA', '2025-06-01')] }]);
+
+    const second = addSummerPick(first, 2025, pick('parentB', '2025-06-08'));
+    expect(second[0].picks).toHaveLength(2);
+    expect(addSummerPick(second, 2026, pick('parentB', '2026-06-07'))).toHaveLength(2);
+  });
+
+  test('removes only the most recent pick for the year', () => {
+    const selections = [
+      { year: 2025, picks: [pick('parentA', '2025-06-01'), pick('parentB', '2025-06-08')] },
+      { year: 2026, picks: [pick('parentB', '2026-06-07')] },
+    ];
+    const result = removeLastSummerPick(selections, 2025);
+    expect(result[0].picks).toEqual([pick('parentA', '2025-06-01')]);
+    expect(result[1].picks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, test, expect } from 'vitest';
+import { applyCourtTemplate, parseSplitDate } from '../templateApplication';
+import { NEVADA_8TH_DISTRICT_TEMPLATE } from '../../data/templates/nevada-8th-district';
+import { DEFAULT_SUMMER_VACATION_CONFIG, createDefaultHolidayConfigs } from '../../data/holidays';
+import type { CourtTemplate } from '../../types';
+
+const BARE_TEMPLATE: CourtTemplate = {
+  id: 'test-template',
+  name: 'Test Template',
+  jurisdiction: 'Test County',
+  version: '1.0.0',
+  description: 'Template for tests',
+  defaultPattern: '2-2-5-5',
+  defaultExchangeTime: '17:00',
+  holidays: [],
+  majorBreaks: [],
+  requiresChildAge: false,
+};
+
+describe('parseSplitDate', () => {
+  test('reads month names with an optional time of day', () => {
+    expect(parseSplitDate('December 26 at 12:00 PM')).toBe('12-26');
+    expect(parseSplitDate('Dec 30')).toBe('12-30');
+    expect(parseSplitDate('july 4')).toBe('07-04');
+  });
+
+  test('reads MM-DD dates', () => {
+    expect(parseSplitDate('3-9')).toBe('03-09');
+    expect(parseSplitDate('12-26')).toBe('12-26');
+  });
+
+  test('returns null for text without a month and day', () => {
+    expect(parseSplitDate('halfway through the break')).toBeNull();
+    expect(parseSplitDate('13-01')).toBeNull();
+    expect(parseSplitDate('Ju 4')).toBeNull();
+  });
+});
+
+describe('applyCourtTemplate', () => {
+  const nevada = applyCourtTemplate(NEVADA_8TH_DISTRICT_TEMPLATE);
+  const nevadaConfig = (holidayId: string) =>
+    nevada.holidays.holidayConfigs.find((config) => config.holidayId === holidayId);
+
+  test('applies the pattern and exchange time', () => {
+    expect(nevada.config).toEqual({ selectedPattern: 'every-other-weekend', exchangeTime: '18:00' });
+  });
+
+  test('applies holiday assignments, exchange times and odd-year parents', () => {
+    expect(nevadaConfig('thanksgiving')).toMatchObject({
+      enabled: true,
+      assignment: 'alternate-odd-even',
+      exchangeTime: '18:00',
+      oddYearParent: 'parentB',
+    });
+    expect(nevadaConfig('mothers-day')?.assignment).toBe('always-parent-b');
+    expect(nevadaConfig('mothers-day')?.oddYearParent).toBeUndefined();
+  });
+
+  test('applies holiday expansion rules', () => {
+    const expansionRule = { type: 'always', days: 1 } as const;
+    const { holidays } = applyCourtTemplate({
+      ...NEVADA_8TH_DISTRICT_TEMPLATE,
+      holidays: [{ holidayId: 'memorial-day', assignment: 'alternate-odd-even', expansionRule }],
+    });
+    expect(holidays.holidayConfigs.find((config) => config.holidayId === 'memorial-day')?.expansionRule).toEqual(
+      expansionRule
+    );
+    expect(nevadaConfig('memorial-day')?.expansionRule).toBeUndefined();
+  });
+
+  test('keeps every calendar holiday, with defaults for those the template omits', () => {
+    expect(nevada.holidays.holidayConfigs.map((config) => config.holidayId)).toEqual(
+      createDefaultHolidayConfigs().map((config) => config.holidayId)
+    );
+  });
+
+  test('turns the selection break into the summer vacation rules', () => {
+    expect(nevada.holidays.summerVacationConfig).toEqual({
+      holidayId: 'summer-vacation',
+      weeksPerParent: 2,
+      blocksPerParent: 2,
+      selectionDeadline: 'April 1',
+      firstPickOddYears: 'parentA',
+      maxConsecutiveWeeks: 2,
+    });
+    expect(nevadaConfig('summer-vacation')?.assignment).toBe('selection-priority');
+  });
+
+  test('turns the split break into the winter break split', () => {
+    expect(nevada.holidays.winterBreakSplit).toMatchObject({
+      holidayId: 'winter-break',
+      splitPoint: 'December 26 at 12:00 PM',
+      splitDate: '12-26',
+    });
+    expect(nevadaConfig('winter-break')?.assignment).toBe('split-period');
+  });
+
+  test('reports holidays missing from the calendar and break dates that differ', () => {
+    expect(nevada.unmapped).toEqual([
+      { field: 'holidays[0]', reason: '"new-years-day" is not in the holiday calendar' },
+      { field: 'holidays[3]', reason: '"easter" is not in the holiday calendar' },
+      {
+        field: 'majorBreaks[2]',
+        reason: 'Dates March 15 – March 22 differ from the holiday calendar (March 17 – March 23); the calendar dates are used',
+      },
+    ]);
+  });
+
+  test('gives other split breaks their own split configuration', () => {
+    const result = applyCourtTemplate({
+      ...BARE_TEMPLATE,
+      majorBreaks: [
+        { breakId: 'spring-break', name: 'Spring Break', startMonth: 3, startDay: 17, endMonth: 3, endDay: 23, isSplit: true, splitDate: 'March 20' },
+      ],
+    });
+    const springBreak = result.holidays.holidayConfigs.find((config) => config.holidayId === 'spring-break');
+    expect(springBreak?.assignment).toBe('split-period');
+    expect(springBreak?.splitConfig).toMatchObject({ holidayId: 'spring-break', splitDate: '03-20', segment1Name: 'First half' });
+    expect(result.unmapped).toEqual([]);
+  });
+
+  test('reports what a split or selection break cannot use', () => {
+    const result = applyCourtTemplate({
+      ...BARE_TEMPLATE,
+      holidays: [{ holidayId: 'fathers-day', assignment: 'always-parent-a', oddYearParent: 'parentB' }],
+      majorBreaks: [
+        { breakId: 'summer-vacation', name: 'Summer', startMonth: 6, startDay: 1, endMonth: 8, endDay: 15, weeksPerParent: 3 },
+        { breakId: 'winter-break', name: 'Winter', startMonth: 12, startDay: 23, endMonth: 1, endDay: 2, weeksPerParent: 1, isSplit: true, splitDate: 'midway' },
+        { breakId: 'spring-break', name: 'Spring', startMonth: 3, startDay: 17, endMonth: 3, endDay: 23, firstPickOddYears: 'parentB' },
+      ],
+    });
+
+    expect(result.unmapped.map((entry) => entry.field)).toEqual([
+      'holidays[0].oddYearParent',
+      'majorBreaks[1].weeksPerParent',
+      'majorBreaks[1].splitDate',
+      'majorBreaks[2].firstPickOddYears',
+    ]);
+    expect(result.holidays.summerVacationConfig).toEqual({
+      holidayId: 'summer-vacation',
+      weeksPerParent: 3,
+      blocksPerParent: DEFAULT_SUMMER_VACATION_CONFIG.blocksPerParent,
+      selectionDeadline: DEFAULT_SUMMER_VACATION_CONFIG.selectionDeadline,
+      firstPickOddYears: DEFAULT_SUMMER_VACATION_CONFIG.firstPickOddYears,
+    });
+  });
+
+  test('alternates holidays assigned week selection other than Summer Vacation', () => {
+    const result = applyCourtTemplate({
+      ...BARE_TEMPLATE,
+      holidays: [{ holidayId: 'winter-break', assignment: 'selection-priority', oddYearParent: 'parentB' }],
+      majorBreaks: [
+        { breakId: 'spring-break', name: 'Spring', startMonth: 3, startDay: 17, endMonth: 3, endDay: 23, weeksPerParent: 1 },
+      ],
+    });
+
+    const config = (holidayId: string) => result.holidays.holidayConfigs.find((c) => c.holidayId === holidayId);
+    expect(config('winter-break')).toMatchObject({ assignment: 'alternate-odd-even', oddYearParent: 'parentB' });
+    expect(config('spring-break')?.assignment).toBe('alternate-odd-even');
+    expect(result.holidays.summerVacationConfig).toEqual(DEFAULT_SUMMER_VACATION_CONFIG);
+    expect(result.unmapped).toEqual([
+      {
+        field: 'holidays[0].assignment',
+        reason: 'Week selection is only supported for Summer Vacation; the holiday alternates by year instead',
+      },
+      { field: 'majorBreaks[0].weeksPerParent', reason: 'Week selection is only supported for Summer Vacation' },
+    ]);
+  });
+
+  test('alternates split holidays that have no usable split break', () => {
+    const result = applyCourtTemplate({
+      ...BARE_TEMPLATE,
+      holidays: [
+        { holidayId: 'spring-break', assignment: 'split-period' },
+        { holidayId: 'thanksgiving', assignment: 'split-period' },
+        { holidayId: 'winter-break', assignment: 'split-period' },
+      ],
+      majorBreaks: [
+        { breakId: 'spring-break', name: 'Spring', startMonth: 3, startDay: 17, endMonth: 3, endDay: 23, isSplit: true, splitDate: 'midway' },
+      ],
+    });
+
+    const config = (holidayId: string) => result.holidays.holidayConfigs.find((c) => c.holidayId === holidayId);
+    expect(config('spring-break')?.assignment).toBe('alternate-odd-even');
+    expect(config('thanksgiving')?.assignment).toBe('alternate-odd-even');
+    expect(config('winter-break')?.assignment).toBe('split-period');
+    expect(result.unmapped.map((entry) => entry.field)).toEqual([
+      'holidays[0].assignment',
+      'holidays[1].assignment',
+      'majorBreaks[0].splitDate',
+    ]);
+  });
+});
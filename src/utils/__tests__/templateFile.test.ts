@@ -0,0 +1,198 @@
+import { describe, test, expect } from 'vitest';
+import {
+  compareTemplateVersions,
+  describeTemplateUpdate,
+  importTemplateData,
+  mergeTemplate,
+  parseTemplateFile,
+  parseTemplateVersion,
+  restoreImportedTemplates,
+  validateCourtTemplate,
+} from '../templateFile';
+import type { CourtTemplate } from '../../types';
+
+const TEMPLATE: CourtTemplate = {
+  id: 'test-county-standard',
+  name: 'Test County - Standard',
+  jurisdiction: 'Test County',
+  version: '1.2.0',
+  description: 'Template for tests',
+  defaultPattern: 'alt-weeks',
+  defaultExchangeTime: '17:00',
+  holidays: [{ holidayId: 'thanksgiving', assignment: 'alternate-odd-even', oddYearParent: 'parentB' }],
+  majorBreaks: [
+    { breakId: 'winter-break', name: 'Winter Break', startMonth: 12, startDay: 23, endMonth: 1, endDay: 2, isSplit: true, splitDate: 'December 26' },
+  ],
+  requiresChildAge: false,
+};
+
+describe('parseTemplateVersion', () => {
+  test('parses releases and pre-releases', () => {
+    expect(parseTemplateVersion('1.4.2')).toEqual({ major: 1, minor: 4, patch: 2, prerelease: [] });
+    expect(parseTemplateVersion('2.0.0-beta.1+build.5')).toEqual({ major: 2, minor: 0, patch: 0, prerelease: ['beta', '1'] });
+  });
+
+  test('rejects text that is not a semantic version', () => {
+    expect(parseTemplateVersion('1.4')).toBeNull();
+    expect(parseTemplateVersion('01.0.0')).toBeNull();
+    expect(parseTemplateVersion('v1.0.0')).toBeNull();
+  });
+});
+
+describe('compareTemplateVersions', () => {
+  test('compares numerically, not as text', () => {
+    expect(compareTemplateVersions('1.10.0', '1.9.2')).toBeGreaterThan(0);
+    expect(compareTemplateVersions('1.0.0', '2.0.0')).toBeLessThan(0);
+    expect(compareTemplateVersions('3.1.4', '3.1.4')).toBe(0);
+  });
+
+  test('orders pre-releases before their release', () => {
+    expect(compareTemplateVersions('2.0.0-beta.1', '2.0.0')).toBeLessThan(0);
+    expect(compareTemplateVersions('2.0.0-beta.2', '2.0.0-beta.11')).toBeLessThan(0);
+    expect(compareTemplateVersions('2.0.0-beta', '2.0.0-alpha.1')).toBeGreaterThan(0);
+    expect(compareTemplateVersions('2.0.0-beta', '2.0.0-beta.1')).toBeLessThan(0);
+  });
+
+  test('sorts invalid versions first', () => {
+    expect(compareTemplateVersions('latest', '0.0.1')).toBeLessThan(0);
+    expect(compareTemplateVersions('latest', 'newest')).toBe(0);
+  });
+});
+
+describe('validateCourtTemplate', () => {
+  test('accepts a valid template', () => {
+    expect(validateCourtTemplate(TEMPLATE)).toEqual([]);
+  });
+
+  test('rejects holidays and breaks that are not in the holiday calendar', () => {
+    expect(
+      validateCourtTemplate({
+        ...TEMPLATE,
+        holidays: [{ holidayId: 'pioneer-day', assignment: 'alternate-odd-even' }],
+        majorBreaks: [{ ...TEMPLATE.majorBreaks[0], breakId: 'memorial-day' }],
+      })
+    ).toEqual([
+      'template.holidays[0].holidayId must be a holiday in the holiday calendar (found "pioneer-day")',
+      'template.majorBreaks[0].breakId must be a major break in the holiday calendar (found "memorial-day")',
+    ]);
+  });
+
+  test('reports each bad field with its path', () => {
+    const errors = validateCourtTemplate({
+      ...TEMPLATE,
+      id: 'Test County',
+      version: '1.2',
+      defaultExchangeTime: '5pm',
+      holidays: [{ holidayId: 'thanksgiving', assignment: 'sometimes', oddYearParnet: 'parentB' }],
+      majorBreaks: [{ ...TEMPLATE.majorBreaks[0], startMonth: 13 }],
+    });
+    expect(errors).toEqual([
+      'template.id must be lowercase letters and numbers joined by hyphens (found "Test County")',
+      'template.version must be a semantic version such as "1.0.0" (found "1.2")',
+      'template.defaultExchangeTime must be a time in HH:MM format (found "5pm")',
+      'template.holidays[0].oddYearParnet is not a template field',
+      'template.holidays[0].assignment must be one of "alternate-odd-even", "always-parent-a", "always-parent-b", "split-period", "selection-priority", "extend-weekend" (found "sometimes")',
+      'template.majorBreaks[0].startMonth must be a whole number from 1 to 12 (found 13)',
+    ]);
+  });
+
+  test('checks holiday expansion rules', () => {
+    const holiday = { holidayId: 'memorial-day', assignment: 'alternate-odd-even' };
+    expect(
+      validateCourtTemplate({
+        ...TEMPLATE,
+        holidays: [{ ...holiday, expansionRule: { type: 'weekend-adjacent', expandTo: 'full-weekend' } }],
+      })
+    ).toEqual([]);
+    expect(
+      validateCourtTemplate({ ...TEMPLATE, holidays: [{ ...holiday, expansionRule: { type: 'sometimes' } }] })
+    ).toEqual([
+      'template.holidays[0].expansionRule.type must be one of "always", "weekend-adjacent", "day-of-week-conditional" (found "sometimes")',
+    ]);
+    expect(
+      validateCourtTemplate({
+        ...TEMPLATE,
+        holidays: [
+          { holidayId: 'winter-break', assignment: 'split-period', expansionRule: { type: 'always', days: 3 } },
+        ],
+      })
+    ).toEqual([
+      'template.holidays[0].expansionRule cannot be used for Winter Break, which covers a range of dates (use date overrides instead)',
+    ]);
+  });
+
+  test('rejects data that is not an object', () => {
+    expect(validateCourtTemplate([])).toEqual(['The template must be an object']);
+  });
+});
+
+describe('parseTemplateFile', () => {
+  test('returns the template without its schema reference', () => {
+    const result = parseTemplateFile(JSON.stringify({ $schema: './court-template.schema.json', ...TEMPLATE }));
+    expect(result).toEqual({ valid: true, template: TEMPLATE });
+  });
+
+  test('explains text that is not JSON', () => {
+    expect(parseTemplateFile('{ id: ')).toEqual({ valid: false, errors: ['The file is not valid JSON'] });
+  });
+
+  test('returns validation errors', () => {
+    const result = importTemplateData({ ...TEMPLATE, requiresChildAge: 'no' });
+    expect(result.valid).toBe(false);
+  });
+});
+
+describe('mergeTemplate', () => {
+  const registry = { [TEMPLATE.id]: TEMPLATE };
+
+  test('adds a template with a new ID', () => {
+    const other = { ...TEMPLATE, id: 'other-county' };
+    const result = mergeTemplate(registry, other);
+    expect(result.update).toEqual({ id: 'other-county', version: '1.2.0', status: 'added' });
+    expect(Object.keys(result.registry)).toEqual([TEMPLATE.id, 'other-county']);
+    expect(Object.keys(registry)).toEqual([TEMPLATE.id]);
+  });
+
+  test('replaces an older version and flags major updates', () => {
+    const minor = mergeTemplate(registry, { ...TEMPLATE, version: '1.3.0' });
+    expect(minor.update).toMatchObject({ status: 'updated', installedVersion: '1.2.0', isMajorUpdate: false });
+    expect(minor.registry[TEMPLATE.id].version).toBe('1.3.0');
+
+    const major = mergeTemplate(registry, { ...TEMPLATE, version: '2.0.0' });
+    expect(major.update.isMajorUpdate).toBe(true);
+  });
+
+  test('keeps the installed template when the import is not newer', () => {
+    const same = mergeTemplate(registry, { ...TEMPLATE, name: 'Renamed' });
+    expect(same.update.status).toBe('unchanged');
+    expect(same.registry).toBe(registry);
+
+    const older = mergeTemplate(registry, { ...TEMPLATE, version: '1.1.9' });
+    expect(older.update).toMatchObject({ status: 'older', installedVersion: '1.2.0' });
+    expect(older.registry[TEMPLATE.id]).toBe(TEMPLATE);
+  });
+});
+
+describe('describeTemplateUpdate', () => {
+  test('describes each outcome', () => {
+    expect(describeTemplateUpdate({ id: 'a', version: '1.0.0', status: 'added' }, 'County')).toBe(
+      'Added "County" (version 1.0.0).'
+    );
+    expect(
+      describeTemplateUpdate({ id: 'a', version: '2.0.0', status: 'updated', installedVersion: '1.0.0', isMajorUpdate: true }, 'County')
+    ).toBe('Updated "County" from version 1.0.0 to 2.0.0. This is a major update; review its holiday rules before using it.');
+    expect(describeTemplateUpdate({ id: 'a', version: '1.0.0', status: 'unchanged', installedVersion: '1.0.0' }, 'County')).toBe(
+      'Version 1.0.0 of "County" is already installed.'
+    );
+    expect(describeTemplateUpdate({ id: 'a', version: '1.0.0', status: 'older', installedVersion: '1.1.0' }, 'County')).toBe(
+      'A newer version (1.1.0) of "County" is already installed; version 1.0.0 was not imported.'
+    );
+  });
+});
+
+describe('restoreImportedTemplates', () => {
+  test('keeps valid templates and drops the rest', () => {
+    expect(restoreImportedTemplates([TEMPLATE, { id: 'broken' }])).toEqual([TEMPLATE]);
+    expect(restoreImportedTemplates('not a list')).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import { validateThirdPartyBlock, formatWeekdays } from '../thirdPartyTime';
+import type { ThirdPartyBlock } from '../../types';
+
+function block(overrides: Partial<ThirdPartyBlock> = {}): ThirdPartyBlock {
+  return {
+    id: 'school',
+    label: 'School',
+    weekdays: [1, 2, 3, 4, 5],
+    startTime: '08:00',
+    endTime: '15:00',
+    startDate: '2025-08-11',
+    endDate: '2026-05-29',
+    followsSchoolCalendar: true,
+    ...overrides,
+  };
+}
+
+describe('validateThirdPartyBlock', () => {
+  test('accepts a school-day block', () => {
+    expect(validateThirdPartyBlock(block())).toEqual({ valid: true });
+    expect(validateThirdPartyBlock(block({ startDate: undefined, endDate: undefined }))).toEqual({ valid: true });
+  });
+
+  test('requires a label and at least one weekday', () => {
+    expect(validateThirdPartyBlock(block({ label: ' ' })).reason).toContain('label');
+    expect(validateThirdPartyBlock(block({ weekdays: [] })).reason).toContain('day of the week');
+    expect(validateThirdPartyBlock(block({ weekdays: [7] })).valid).toBe(false);
+  });
+
+  test('rejects an end time at or before the start time', () => {
+    const result = validateThirdPartyBlock(block({ endTime: '08:00' }));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('after the start time');
+  });
+
+  test('rejects a last date before the first date', () => {
+    const result = validateThirdPartyBlock(block({ endDate: '2025-08-01' }));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('on or after');
+  });
+});
+
+describe('formatWeekdays', () => {
+  test('shows consecutive days as a range', () => {
+    expect(formatWeekdays([5, 1, 2, 3, 4])).toBe('Mon–Fri');
+  });
+
+  test('lists other days individually', () => {
+    expect(formatWeekdays([1, 3, 5])).toBe('Mon, Wed, Fri');
+    expect(formatWeekdays([2, 4])).toBe('Tue, Thu');
+  });
+});
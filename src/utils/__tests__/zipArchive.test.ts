@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'vitest';
+import { crc32, createZipArchive } from '../zipArchive';
+
+/**
+ * Read the entry names and contents back from a stored archive's local headers.
+ */
+function readEntries(archive: Uint8Array): { name: string; text: string }[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const entries: { name: string; text: string }[] = [];
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const nameStart = offset + 30;
+    const dataStart = nameStart + nameLength;
+    entries.push({
+      name: decoder.decode(archive.slice(nameStart, dataStart)),
+      text: decoder.decode(archive.slice(dataStart, dataStart + size)),
+    });
+    offset = dataStart + size;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  test('matches known checksums', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZipArchive', () => {
+  test('stores entries in order and can be read back', () => {
+    const archive = createZipArchive([
+      { name: 'a.txt', data: 'first' },
+      { name: 'folder/b.txt', data: new TextEncoder().encode('second – with UTF-8') },
+    ]);
+    expect(readEntries(archive)).toEqual([
+      { name: 'a.txt', text: 'first' },
+      { name: 'folder/b.txt', text: 'second – with UTF-8' },
+    ]);
+  });
+
+  test('ends with a directory record pointing at every entry', () => {
+    const archive = createZipArchive([{ name: 'a.txt', data: 'x' }, { name: 'b.txt', data: 'y' }]);
+    const view = new DataView(archive.buffer);
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+
+  test('produces the same bytes for the same input', () => {
+    const entries = [{ name: 'a.txt', data: 'same' }];
+    expect(createZipArchive(entries)).toEqual(createZipArchive(entries));
+  });
+});
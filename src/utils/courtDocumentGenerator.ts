@@ -10,7 +10,13 @@
 
 import type { AppState, HolidayAssignment, MajorBreakConfig, ParentId } from '../types';
 import { NEVADA_8TH_DISTRICT_TEMPLATE } from '../data/templates/nevada-8th-district';
-import { getHolidayById } from '../data/holidays';
+import type { ExpansionRule } from '../types/holidays';
+import { getHolidayById, supportsExpansionRule } from '../data/holidays';
+import { getCalculationMethod } from '../hooks/useCustodyEngine';
+import { describeRegularSchedule } from './scheduleProse';
+import { describeExpansionRule, getExpansionRuleForHoliday } from './holidayExpansion';
+import { fillProvisionText, getOrderedProvisions } from './provisions';
+import { PROVISION_CATEGORIES } from '../data/provisions';
 
 // ============================================================================
 // Type Definitions
@@ -37,6 +43,16 @@ export interface CourtDocumentSection {
   content: string | string[] | TableData;
 }
 
+/**
+ * A person who signs the document.
+ */
+export interface DocumentSignatory {
+  /** Printed name under the signature line */
+  name: string;
+  /** Role printed under the name (e.g., "Father") */
+  role: string;
+}
+
 /**
  * Complete court document structure.
  */
@@ -126,6 +142,9 @@ function getYearAssignmentLabels(
     const evenParent = assignment.oddYearParent === 'parentA' ? parentBLabel : parentALabel;
     return [oddParent, evenParent];
   }
+  if (assignment.assignment === 'extend-weekend') {
+    return ['Parent with the weekend', 'Parent with the weekend'];
+  }
   // For split-period, selection-priority, etc.
   return ['Split', 'Split'];
 }
@@ -142,6 +161,14 @@ function formatExchangeTime(time: string): string {
   return `${hour12}:${minutes.toString().padStart(2, '0')} ${period}`;
 }
 
+/**
+ * Format a date for the document (e.g., "March 22, 2027").
+ */
+function formatDocumentDate(dateStr: string): string {
+  const date = new Date(dateStr + 'T00:00:00');
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
 /**
  * Get the holiday name from a holiday ID.
  */
@@ -188,6 +215,37 @@ function generateDocumentHeader(appState: AppState): CourtDocumentSection[] {
   ];
 }
 
+/**
+ * Get how a parent is referred to mid-sentence: "the Father" for a
+ * relationship label, or the parent's name.
+ */
+function getParentReference(appState: AppState, parentId: ParentId): string {
+  const label = getParentLabel(appState, parentId);
+  const parent = parentId === 'parentA' ? appState.parents.parentA : appState.parents.parentB;
+  return parent.relationship && parent.relationship !== 'other' ? `the ${label}` : label;
+}
+
+/**
+ * Generate the regular custody schedule section from the selected pattern.
+ */
+function generateRegularScheduleSection(appState: AppState): CourtDocumentSection[] {
+  const paragraphs = describeRegularSchedule(appState.config, {
+    parentNames: {
+      parentA: getParentReference(appState, 'parentA'),
+      parentB: getParentReference(appState, 'parentB'),
+    },
+    exchangeTime: formatExchangeTime(appState.config.exchangeTime || '18:00'),
+  });
+
+  return [
+    {
+      type: 'section-title',
+      content: 'REGULAR CUSTODY SCHEDULE',
+    },
+    ...paragraphs.map((paragraph): CourtDocumentSection => ({ type: 'paragraph', content: paragraph })),
+  ];
+}
+
 /**
  * Generate the three-day weekend holidays table.
  */
@@ -348,6 +406,33 @@ function generateMajorBreaksSection(appState: AppState): CourtDocumentSection[]
       });
     }
   }
+
+  // Dates entered for specific years, where the school calendar moves a break
+  const dateRows = (appState.holidays?.holidayConfigs ?? [])
+    .filter((config) => config.enabled && config.dateOverrides && config.dateOverrides.length > 0)
+    .flatMap((config) =>
+      (config.dateOverrides ?? []).map((override) => [
+        getHolidayName(config.holidayId),
+        String(override.year),
+        `${formatDocumentDate(override.startDate)} through ${formatDocumentDate(override.endDate)}`,
+      ])
+    )
+    .sort((a, b) => Number(a[1]) - Number(b[1]) || a[0].localeCompare(b[0]));
+  if (dateRows.length > 0) {
+    sections.push(
+      {
+        type: 'paragraph',
+        content: 'BREAK DATES: In the following years, the breaks below shall fall on these dates, as set by the school calendar:',
+      },
+      {
+        type: 'table',
+        content: {
+          headers: ['Break', 'Year', 'Dates'],
+          rows: dateRows,
+        },
+      }
+    );
+  }
   
   return sections;
 }
@@ -479,11 +564,69 @@ function generateTransportationSection(appState: AppState): CourtDocumentSection
   ];
 }
 
+/**
+ * Generate a section for each category of provisions chosen from the library.
+ */
+function generateProvisionSections(appState: AppState): CourtDocumentSection[] {
+  const provisions = getOrderedProvisions(appState.provisions ?? []);
+
+  return PROVISION_CATEGORIES.flatMap((category) => {
+    const inCategory = provisions.filter(({ provision }) => provision.category === category.id);
+    if (inCategory.length === 0) return [];
+
+    return [
+      {
+        type: 'section-title',
+        content: category.label.toUpperCase(),
+      },
+      ...inCategory.map(({ provision, values }): CourtDocumentSection => ({
+        type: 'paragraph',
+        content: `${provision.title.toUpperCase()}: ${fillProvisionText(provision.text, values)}`,
+      })),
+    ];
+  });
+}
+
+/**
+ * Generate the section stating how custody time is counted.
+ */
+function generateTimeshareCalculationSection(appState: AppState): CourtDocumentSection[] {
+  const method = getCalculationMethod(appState.config);
+
+  return [
+    {
+      type: 'section-title',
+      content: 'TIMESHARE CALCULATION',
+    },
+    {
+      type: 'paragraph',
+      content: `Custody timeshare is calculated by the ${method.label.toLowerCase()} method. ${method.description}`,
+    },
+  ];
+}
+
 /**
  * Generate footnotes for special rules.
+ *
+ * Each enabled holiday with an expansion rule (the user's rule, or else the
+ * holiday's built-in rule) gets a footnote explaining which days it covers.
+ * Without holiday settings, the template's holidays are described. Date-range
+ * holidays are skipped because the calendar does not apply rules to them.
+ * The standing Independence Day, Halloween and Winter Break notes follow.
  */
-function generateFootnotes(): string[] {
+function generateFootnotes(appState: AppState): string[] {
+  const holidays: { holidayId: string; expansionRule?: ExpansionRule }[] = appState.holidays
+    ? appState.holidays.holidayConfigs.filter((config) => config.enabled)
+    : NEVADA_8TH_DISTRICT_TEMPLATE.holidays.filter((assignment) => assignment.enabled !== false);
+
+  const expansionNotes = holidays.flatMap(({ holidayId, expansionRule }) => {
+    const holiday = getHolidayById(holidayId);
+    const rule = expansionRule ?? getExpansionRuleForHoliday(holidayId);
+    return holiday && rule && supportsExpansionRule(holiday) ? [`${holiday.name}: ${describeExpansionRule(rule)}`] : [];
+  });
+
   return [
+    ...expansionNotes,
     'Independence Day: When July 4 falls on a Tuesday, Wednesday, or Thursday, the holiday period may be extended to include the adjacent weekend at the discretion of the custodial parent for that holiday.',
     "Halloween: The non-custodial parent for Halloween may have reasonable access to the children for trick-or-treating in the other parent's neighborhood.",
     "Winter Break split occurs at 12:00 PM on December 26, with the parent having the children for Christmas delivering the children to the other parent's residence.",
@@ -510,14 +653,17 @@ function generateFootnotes(): string[] {
 export function generateCourtDocument(appState: AppState): CourtDocument {
   const sections: CourtDocumentSection[] = [
     ...generateDocumentHeader(appState),
+    ...generateRegularScheduleSection(appState),
     ...generateThreeDayWeekendTable(appState),
     ...generateSpecialHolidaysTable(appState),
     ...generateMajorBreaksSection(appState),
     ...generateBirthdaysSection(appState),
     ...generateTransportationSection(appState),
+    ...generateProvisionSections(appState),
+    ...generateTimeshareCalculationSection(appState),
   ];
   
-  const footnotes = generateFootnotes();
+  const footnotes = generateFootnotes(appState);
   
   return {
     title: 'HOLIDAY AND VACATION PLAN',
@@ -616,6 +762,20 @@ export function generatePlainText(document: CourtDocument): string {
   return lines.join('\n');
 }
 
+/**
+ * Get the signature blocks for a document, one per parent.
+ *
+ * @param appState - The current application state
+ * @returns Parent A's and Parent B's names with their roles (e.g., "Father")
+ */
+export function getDocumentSignatories(appState: AppState): DocumentSignatory[] {
+  return (['parentA', 'parentB'] as const).map((parentId) => {
+    const name = getParentName(appState, parentId);
+    const label = getParentLabel(appState, parentId);
+    return { name, role: label === name ? 'Parent' : label };
+  });
+}
+
 /**
  * Get all holiday assignments from the Nevada 8th District template.
  * Useful for displaying holiday tables in the UI.
@@ -0,0 +1,246 @@
+/**
+ * Custody Conflict Detection
+ *
+ * getOwnerForDateComplete resolves overlapping rules silently by priority
+ * (exception > track break claim > summer pick > in-service attachment >
+ * birthday > holiday > base schedule). This module reports where two of those
+ * layers claim the same date for different parents, which layer won and which
+ * lost, so overlaps can be surfaced to the parents instead of hidden.
+ *
+ * The base schedule is not treated as a layer: overriding it is the purpose of
+ * every other rule, so it never produces a conflict.
+ */
+
+import type {
+  AppConfig,
+  HolidayState,
+  InServiceDayConfig,
+  ParentId,
+  ScheduleException,
+  SchoolType,
+  TrackBreak,
+} from '../types';
+import {
+  addDays,
+  getScheduleExceptionForDate,
+  getTrackBreakInfo,
+  resolveInServiceDay,
+  getBirthdayForDate,
+  getBirthdayLabel,
+  getHolidayOverrideForDate,
+  resolveAssignment,
+  resolveHolidayOwner,
+} from '../hooks/useCustodyEngine';
+import { getSummerPickForDate, isSummerSelectionActive } from './summerSelection';
+
+/**
+ * Custody rule layers that can claim a date, highest priority first.
+ */
+export type CustodyLayer =
+  | 'exception'
+  | 'track-break'
+  | 'summer-vacation'
+  | 'in-service'
+  | 'birthday'
+  | 'holiday';
+
+/**
+ * A layer's claim on a date.
+ */
+export interface LayerClaim {
+  /** Layer making the claim */
+  layer: CustodyLayer;
+  /** Parent the layer assigns the date to */
+  owner: ParentId;
+  /** Display label (e.g., "Thanksgiving", "Fall Track Break") */
+  label: string;
+}
+
+/**
+ * A date range where a higher-priority layer overrode a lower one that
+ * assigned the dates to the other parent.
+ */
+export interface CustodyConflict {
+  /** First date of the conflict (YYYY-MM-DD) */
+  startDate: string;
+  /** Last date of the conflict (YYYY-MM-DD), inclusive */
+  endDate: string;
+  /** Claim that decided the dates */
+  winner: LayerClaim;
+  /** Claim that was overridden */
+  loser: LayerClaim;
+}
+
+const LAYER_LABELS: Record<CustodyLayer, string> = {
+  'exception': 'Exception',
+  'track-break': 'Track break vacation',
+  'summer-vacation': 'Summer vacation pick',
+  'in-service': 'In-service attachment',
+  'birthday': 'Birthday',
+  'holiday': 'Holiday',
+};
+
+/**
+ * Get the display name for a layer (e.g., "Track break vacation").
+ */
+export function getLayerLabel(layer: CustodyLayer): string {
+  return LAYER_LABELS[layer];
+}
+
+/**
+ * Get every layer's claim on a date, in priority order (the first claim wins).
+ * Takes the same inputs as getOwnerForDateComplete.
+ */
+export function getLayerClaimsForDate(
+  date: string,
+  config: AppConfig,
+  holidays?: HolidayState,
+  inServiceDays?: string[],
+  inServiceConfig?: InServiceDayConfig,
+  trackBreaks?: TrackBreak[],
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[]
+): LayerClaim[] {
+  const claims: LayerClaim[] = [];
+  const year = parseInt(date.split('-')[0], 10);
+
+  const exception = getScheduleExceptionForDate(date, exceptions);
+  if (exception) {
+    claims.push({ layer: 'exception', owner: exception.parent, label: exception.reason });
+  }
+
+  const trackBreakInfo = getTrackBreakInfo(date, trackBreaks, schoolType);
+  if (trackBreakInfo.isTrackBreak && trackBreakInfo.vacationClaimed) {
+    claims.push({
+      layer: 'track-break',
+      owner: trackBreakInfo.vacationClaimed.claimedBy,
+      label: trackBreakInfo.trackBreakName ?? 'Track Break',
+    });
+  }
+
+  const summerPick = isSummerSelectionActive(holidays?.holidayConfigs)
+    ? getSummerPickForDate(date, holidays?.summerSelections)
+    : null;
+  if (summerPick) {
+    claims.push({ layer: 'summer-vacation', owner: summerPick.parent, label: 'Summer Vacation' });
+  }
+
+  const isInServiceDay = inServiceDays?.includes(date) ?? false;
+  if (isInServiceDay) {
+    const inService = resolveInServiceDay(date, true, inServiceConfig, config, holidays);
+    if (inService.isInServiceAttached) {
+      claims.push({ layer: 'in-service', owner: inService.owner, label: 'In-Service Day' });
+    }
+  }
+
+  const birthday = getBirthdayForDate(date, holidays);
+  if (birthday) {
+    claims.push({
+      layer: 'birthday',
+      owner: resolveAssignment(birthday.defaultAssignment, year, config.startingParent),
+      label: getBirthdayLabel(birthday),
+    });
+  }
+
+  const holidayInfo = getHolidayOverrideForDate(date, holidays);
+  if (holidayInfo && holidayInfo.assignment !== 'selection-priority') {
+    claims.push({
+      layer: 'holiday',
+      owner: resolveHolidayOwner(date, holidayInfo, config.startingParent, holidays, config),
+      label: holidayInfo.name,
+    });
+  }
+
+  return claims;
+}
+
+function isSameClaim(a: LayerClaim, b: LayerClaim): boolean {
+  return a.layer === b.layer && a.owner === b.owner && a.label === b.label;
+}
+
+/**
+ * Find every date range between two dates (inclusive) where layers disagree.
+ * Consecutive dates with the same winner and loser are merged into one range.
+ * Takes the same inputs as getOwnerForDateComplete.
+ */
+export function detectCustodyConflicts(
+  startDate: string,
+  endDate: string,
+  config: AppConfig,
+  holidays?: HolidayState,
+  inServiceDays?: string[],
+  inServiceConfig?: InServiceDayConfig,
+  trackBreaks?: TrackBreak[],
+  schoolType?: SchoolType,
+  exceptions?: ScheduleException[]
+): CustodyConflict[] {
+  const conflicts: CustodyConflict[] = [];
+  // Ranges that reached the previous date and may continue
+  let open: CustodyConflict[] = [];
+
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const [winner, ...others] = getLayerClaimsForDate(
+      date,
+      config,
+      holidays,
+      inServiceDays,
+      inServiceConfig,
+      trackBreaks,
+      schoolType,
+      exceptions
+    );
+    if (!winner) {
+      open = [];
+      continue;
+    }
+
+    const losers = others.filter((claim) => claim.owner !== winner.owner);
+    const previousDate = addDays(date, -1);
+
+    const stillOpen: CustodyConflict[] = [];
+    for (const loser of losers) {
+      const existing = open.find(
+        (c) => c.endDate === previousDate && isSameClaim(c.winner, winner) && isSameClaim(c.loser, loser)
+      );
+      if (existing) {
+        existing.endDate = date;
+        stillOpen.push(existing);
+      } else {
+        const conflict = { startDate: date, endDate: date, winner, loser };
+        conflicts.push(conflict);
+        stillOpen.push(conflict);
+      }
+    }
+    open = stillOpen;
+  }
+
+  return conflicts;
+}
+
+/**
+ * Format a conflict's date range for display (e.g., "Nov 27" or "Nov 27 – Nov 30").
+ */
+export function formatDateRange(startDate: string, endDate: string): string {
+  const format = (dateStr: string) =>
+    new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return startDate === endDate ? format(startDate) : `${format(startDate)} – ${format(endDate)}`;
+}
+
+/**
+ * Describe a conflict in one sentence for warnings.
+ *
+ * @example
+ * "Fall Track Break (track break vacation, Mom) overrides Thanksgiving (holiday, Dad)"
+ */
+export function describeConflict(
+  conflict: CustodyConflict,
+  parentNames?: { parentA: string; parentB: string }
+): string {
+  const nameOf = (parent: ParentId) => parent === 'parentA'
+    ? (parentNames?.parentA ?? 'Parent A')
+    : (parentNames?.parentB ?? 'Parent B');
+  const describe = (claim: LayerClaim) =>
+    `${claim.label} (${getLayerLabel(claim.layer).toLowerCase()}, ${nameOf(claim.owner)})`;
+
+  return `${describe(conflict.winner)} overrides ${describe(conflict.loser)}`;
+}
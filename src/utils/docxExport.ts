@@ -0,0 +1,438 @@
+/**
+ * Word (.docx) Export
+ *
+ * Builds an editable Word document from the structured CourtDocument so
+ * attorneys can revise the plan before filing. Every part is generated in the
+ * browser: the WordprocessingML parts are written as XML strings and packaged
+ * with the ZIP writer, with no server involved.
+ *
+ * Section types map to real Word constructs:
+ * - header: centered court caption lines
+ * - section-title: the document title, or a numbered heading ("1.", "2.", ...)
+ * - paragraph: justified body text (paragraphs before the first heading form the case caption)
+ * - table: a bordered table with a repeating header row
+ * - footnote: a footnote attached to the preceding paragraph
+ *
+ * Document footnotes are attached to the table row or paragraph they describe,
+ * followed by signature blocks for each signatory. Legal styling throughout:
+ * 12pt Times New Roman, 1-inch margins and "Page X of Y" footers.
+ */
+
+import type { CourtDocument, DocumentSignatory, TableData } from './courtDocumentGenerator';
+import { createZipArchive, type ZipEntry } from './zipArchive';
+
+/**
+ * Options for the Word export.
+ */
+export interface DocxExportOptions {
+  /** Signature blocks to add at the end of the document (default: none) */
+  signatories?: DocumentSignatory[];
+}
+
+/** MIME type of a .docx file */
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/** Letter paper and margins, in twentieths of a point */
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const PAGE_MARGIN = 1440;
+
+/**
+ * Escape text for use in XML content or attribute values.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * A run of text, optionally bold or italic.
+ */
+function run(text: string, format: { bold?: boolean; italic?: boolean } = {}): string {
+  const properties = `${format.bold ? '<w:b/>' : ''}${format.italic ? '<w:i/>' : ''}`;
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+/**
+ * A run referencing a footnote by id.
+ */
+function footnoteReference(id: number): string {
+  return `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${id}"/></w:r>`;
+}
+
+/**
+ * A paragraph with a style and its runs.
+ */
+function paragraph(style: string, runs: string): string {
+  return `<w:p><w:pPr><w:pStyle w:val="${style}"/></w:pPr>${runs}</w:p>`;
+}
+
+/**
+ * A simple field (e.g., PAGE) displayed with placeholder text until Word updates it.
+ */
+function field(instruction: string, placeholder: string): string {
+  return `<w:fldSimple w:instr=" ${instruction} ">${run(placeholder)}</w:fldSimple>`;
+}
+
+/**
+ * Get the subject a note is about: the text before a colon
+ * ("Halloween: ..."), or else its first two words ("Winter Break split ...").
+ */
+function getNoteSubject(note: string): string {
+  // A colon inside a time ("12:00 PM") is not a label
+  const label = note.match(/^(.+?):\s/)?.[1];
+  const subject = label ?? note.split(/\s+/).slice(0, 2).join(' ');
+  return subject.trim().toLowerCase();
+}
+
+/**
+ * Collects footnotes while the body is written, numbering them in order of reference.
+ */
+interface FootnoteCollector {
+  notes: string[];
+  /** Add a note and return the run that references it */
+  add: (note: string) => string;
+}
+
+function createFootnoteCollector(): FootnoteCollector {
+  const notes: string[] = [];
+  return {
+    notes,
+    add(note: string) {
+      notes.push(note);
+      // Ids -1 and 0 are reserved for the separator footnotes
+      return footnoteReference(notes.length);
+    },
+  };
+}
+
+/**
+ * Write a table, attaching any document notes whose subject matches a row's first cell.
+ */
+function writeTable(
+  table: TableData,
+  pendingNotes: string[],
+  footnotes: FootnoteCollector
+): string {
+  const columnWidth = Math.floor((PAGE_WIDTH - PAGE_MARGIN * 2) / Math.max(table.headers.length, 1));
+  const cell = (content: string, runs: string) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/></w:tcPr>${paragraph(content, runs)}</w:tc>`;
+
+  const headerRow = `<w:tr><w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>${table.headers
+    .map((header) => cell('TableText', run(header, { bold: true })))
+    .join('')}</w:tr>`;
+
+  const rows = table.rows.map((row) => {
+    const cells = row.map((value, i) => {
+      let runs = run(value);
+      if (i === 0) {
+        runs += takeMatchingNotes(value, pendingNotes).map(footnotes.add).join('');
+      }
+      return cell('TableText', runs);
+    });
+    return `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cells.join('')}</w:tr>`;
+  });
+
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="000000"/>`;
+  return [
+    '<w:tbl>',
+    '<w:tblPr><w:tblW w:w="5000" w:type="pct"/>',
+    `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>`,
+    '<w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar>',
+    '</w:tblPr>',
+    `<w:tblGrid>${table.headers.map(() => `<w:gridCol w:w="${columnWidth}"/>`).join('')}</w:tblGrid>`,
+    headerRow,
+    ...rows,
+    '</w:tbl>',
+    // Word needs a paragraph between consecutive tables
+    paragraph('BodyText', ''),
+  ].join('');
+}
+
+/**
+ * Remove and return the pending notes whose subject starts the given text.
+ */
+function takeMatchingNotes(text: string, pendingNotes: string[]): string[] {
+  const lowerText = text.toLowerCase();
+  const matches = pendingNotes.filter((note) => lowerText.startsWith(getNoteSubject(note)));
+  for (const note of matches) {
+    pendingNotes.splice(pendingNotes.indexOf(note), 1);
+  }
+  return matches;
+}
+
+/**
+ * Write the signature blocks as a borderless table, one column per signatory.
+ */
+function writeSignatures(signatories: DocumentSignatory[]): string {
+  if (signatories.length === 0) return '';
+  const columnWidth = Math.floor((PAGE_WIDTH - PAGE_MARGIN * 2) / signatories.length);
+  const cells = signatories.map((signatory) => [
+    `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/></w:tcPr>`,
+    paragraph('Signature', run('Dated: ____________________')),
+    paragraph('SignatureLine', run('______________________________')),
+    paragraph('Signature', run(signatory.name)),
+    paragraph('Signature', run(signatory.role, { italic: true })),
+    '</w:tc>',
+  ].join(''));
+
+  return [
+    paragraph('BodyText', run('IT IS SO AGREED.', { bold: true })),
+    '<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblLayout w:type="fixed"/></w:tblPr>',
+    `<w:tblGrid>${signatories.map(() => `<w:gridCol w:w="${columnWidth}"/>`).join('')}</w:tblGrid>`,
+    `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cells.join('')}</w:tr>`,
+    '</w:tbl>',
+    // The body cannot end with a table
+    paragraph('BodyText', ''),
+  ].join('');
+}
+
+/**
+ * Write word/document.xml and collect the footnotes it references.
+ */
+function writeDocumentBody(document: CourtDocument, options: DocxExportOptions): { xml: string; notes: string[] } {
+  const footnotes = createFootnoteCollector();
+  const pendingNotes = [...document.footnotes];
+  const body: string[] = [];
+  let hasHeading = false;
+
+  for (const section of document.sections) {
+    const text = Array.isArray(section.content) ? section.content.join(' ') : section.content;
+
+    switch (section.type) {
+      case 'header':
+        body.push(paragraph('CourtHeader', run(text as string)));
+        break;
+
+      case 'section-title':
+        if (text === document.title) {
+          body.push(paragraph('Title', run(text as string)));
+        } else {
+          hasHeading = true;
+          body.push(paragraph('Heading1', run(text as string)));
+        }
+        break;
+
+      case 'paragraph': {
+        const content = text as string;
+        const references = takeMatchingNotes(content, pendingNotes).map(footnotes.add).join('');
+        if (hasHeading) {
+          body.push(paragraph('BodyText', run(content) + references));
+        } else {
+          // Paragraphs before the first heading belong to the case caption
+          body.push(paragraph('CaseCaption', run(content, { italic: true }) + references));
+          body.push(paragraph('CaseCaption', run('Case No: _______________')));
+        }
+        break;
+      }
+
+      case 'table':
+        body.push(writeTable(section.content as TableData, pendingNotes, footnotes));
+        break;
+
+      case 'footnote': {
+        // Attach to the end of the previous paragraph, or stand alone if there is none
+        const reference = footnotes.add(text as string);
+        const last = body.length - 1;
+        if (last >= 0 && body[last].endsWith('</w:p>')) {
+          body[last] = body[last].slice(0, -'</w:p>'.length) + reference + '</w:p>';
+        } else {
+          body.push(paragraph('BodyText', reference));
+        }
+        break;
+      }
+    }
+  }
+
+  // Notes that describe nothing in the body are attached to the title
+  if (pendingNotes.length > 0) {
+    const references = pendingNotes.map(footnotes.add).join('');
+    const titleIndex = body.findIndex((p) => p.includes('<w:pStyle w:val="Title"/>'));
+    if (titleIndex >= 0) {
+      body[titleIndex] = body[titleIndex].slice(0, -'</w:p>'.length) + references + '</w:p>';
+    } else {
+      body.push(paragraph('BodyText', references));
+    }
+  }
+
+  body.push(writeSignatures(options.signatories ?? []));
+
+  const sectionProperties = [
+    '<w:sectPr>',
+    '<w:headerReference w:type="default" r:id="rIdHeader"/>',
+    '<w:footerReference w:type="default" r:id="rIdFooter"/>',
+    `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`,
+    `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="720" w:footer="720" w:gutter="0"/>`,
+    '</w:sectPr>',
+  ].join('');
+
+  return {
+    xml: `${XML_DECLARATION}<w:document xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}"><w:body>${body.join('')}${sectionProperties}</w:body></w:document>`,
+    notes: footnotes.notes,
+  };
+}
+
+/**
+ * Write word/footnotes.xml, including the separator footnotes Word requires.
+ */
+function writeFootnotes(notes: string[]): string {
+  const entries = notes.map((note, i) =>
+    `<w:footnote w:id="${i + 1}"><w:p><w:pPr><w:pStyle w:val="FootnoteText"/></w:pPr>` +
+    '<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>' +
+    `${run(` ${note}`)}</w:p></w:footnote>`
+  );
+  return [
+    XML_DECLARATION,
+    `<w:footnotes xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}">`,
+    '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>',
+    '<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>',
+    ...entries,
+    '</w:footnotes>',
+  ].join('');
+}
+
+/**
+ * Write word/styles.xml: 12pt Times New Roman with legal paragraph styles.
+ */
+function writeStyles(): string {
+  const style = (type: string, id: string, name: string, properties: string) =>
+    `<w:style w:type="${type}" w:styleId="${id}"><w:name w:val="${name}"/>${type === 'paragraph' && id !== 'Normal' ? '<w:basedOn w:val="Normal"/>' : ''}${properties}</w:style>`;
+
+  return [
+    XML_DECLARATION,
+    `<w:styles xmlns:w="${W_NAMESPACE}">`,
+    '<w:docDefaults>',
+    '<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>',
+    '<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr></w:pPrDefault>',
+    '</w:docDefaults>',
+    style('paragraph', 'Normal', 'Normal', ''),
+    style('paragraph', 'CourtHeader', 'Court Header', '<w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:caps/></w:rPr>'),
+    style('paragraph', 'Title', 'Title', '<w:pPr><w:pBdr><w:top w:val="single" w:sz="12" w:space="4" w:color="000000"/><w:bottom w:val="single" w:sz="12" w:space="4" w:color="000000"/></w:pBdr><w:spacing w:before="360" w:after="240"/><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:caps/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr>'),
+    style('paragraph', 'CaseCaption', 'Case Caption', '<w:pPr><w:spacing w:after="120"/><w:jc w:val="center"/></w:pPr>'),
+    style('paragraph', 'Heading1', 'heading 1', '<w:pPr><w:keepNext/><w:numPr><w:numId w:val="1"/></w:numPr><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:caps/></w:rPr>'),
+    style('paragraph', 'BodyText', 'Body Text', '<w:pPr><w:spacing w:after="240" w:line="360" w:lineRule="auto"/><w:jc w:val="both"/></w:pPr>'),
+    style('paragraph', 'TableText', 'Table Text', '<w:pPr><w:spacing w:before="40" w:after="40"/></w:pPr><w:rPr><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr>'),
+    style('paragraph', 'Signature', 'Signature', '<w:pPr><w:keepNext/><w:keepLines/></w:pPr>'),
+    style('paragraph', 'SignatureLine', 'Signature Line', '<w:pPr><w:keepNext/><w:spacing w:before="720"/></w:pPr>'),
+    style('paragraph', 'FootnoteText', 'footnote text', '<w:rPr><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr>'),
+    style('paragraph', 'HeaderFooter', 'Header Footer', '<w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr>'),
+    style('character', 'FootnoteReference', 'footnote reference', '<w:rPr><w:vertAlign w:val="superscript"/></w:rPr>'),
+    '</w:styles>',
+  ].join('');
+}
+
+/**
+ * Write word/numbering.xml: decimal numbering ("1.", "2.", ...) for section headings.
+ */
+function writeNumbering(): string {
+  return [
+    XML_DECLARATION,
+    `<w:numbering xmlns:w="${W_NAMESPACE}">`,
+    '<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>',
+    '<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:pStyle w:val="Heading1"/><w:lvlText w:val="%1."/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="720"/></w:pPr></w:lvl>',
+    '</w:abstractNum>',
+    '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>',
+    '</w:numbering>',
+  ].join('');
+}
+
+/**
+ * Write the package parts of a .docx for a court document.
+ *
+ * @param document - The court document to export
+ * @param options - Signature blocks to add
+ * @returns The parts, in the order they are added to the archive
+ */
+export function generateDocxParts(document: CourtDocument, options: DocxExportOptions = {}): ZipEntry[] {
+  const { xml, notes } = writeDocumentBody(document, options);
+  const relationship = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="${RELATIONSHIP_TYPE}/${type}" Target="${target}"/>`;
+  const override = (part: string, type: string) =>
+    `<Override PartName="${part}" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.${type}+xml"/>`;
+
+  return [
+    {
+      name: '[Content_Types].xml',
+      data: [
+        XML_DECLARATION,
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        override('/word/document.xml', 'document.main'),
+        override('/word/styles.xml', 'styles'),
+        override('/word/numbering.xml', 'numbering'),
+        override('/word/footnotes.xml', 'footnotes'),
+        override('/word/header1.xml', 'header'),
+        override('/word/footer1.xml', 'footer'),
+        '</Types>',
+      ].join(''),
+    },
+    {
+      name: '_rels/.rels',
+      data: `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationship('rId1', 'officeDocument', 'word/document.xml')}</Relationships>`,
+    },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: [
+        XML_DECLARATION,
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        relationship('rIdStyles', 'styles', 'styles.xml'),
+        relationship('rIdNumbering', 'numbering', 'numbering.xml'),
+        relationship('rIdFootnotes', 'footnotes', 'footnotes.xml'),
+        relationship('rIdHeader', 'header', 'header1.xml'),
+        relationship('rIdFooter', 'footer', 'footer1.xml'),
+        '</Relationships>',
+      ].join(''),
+    },
+    { name: 'word/document.xml', data: xml },
+    { name: 'word/styles.xml', data: writeStyles() },
+    { name: 'word/numbering.xml', data: writeNumbering() },
+    { name: 'word/footnotes.xml', data: writeFootnotes(notes) },
+    {
+      name: 'word/header1.xml',
+      data: `${XML_DECLARATION}<w:hdr xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}">${paragraph('HeaderFooter', run(document.title))}</w:hdr>`,
+    },
+    {
+      name: 'word/footer1.xml',
+      data: `${XML_DECLARATION}<w:ftr xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}">${paragraph(
+        'HeaderFooter',
+        run('Page ') + field('PAGE', '1') + run(' of ') + field('NUMPAGES', '1')
+      )}</w:ftr>`,
+    },
+  ];
+}
+
+/**
+ * Generate a .docx file for a court document.
+ *
+ * @param document - The court document to export
+ * @param options - Signature blocks to add
+ * @returns The .docx file bytes
+ *
+ * @example
+ * ```typescript
+ * const bytes = generateDocx(generateCourtDocument(appState), {
+ *   signatories: getDocumentSignatories(appState),
+ * });
+ * const blob = new Blob([bytes], { type: DOCX_MIME_TYPE });
+ * ```
+ */
+export function generateDocx(document: CourtDocument, options: DocxExportOptions = {}): Uint8Array<ArrayBuffer> {
+  return createZipArchive(generateDocxParts(document, options));
+}
+
+/**
+ * Get the download file name for a Word export (e.g., "holiday-and-vacation-plan-2025-03-01.docx").
+ */
+export function getDocxFileName(title: string, date: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'custody-plan'}-${date}.docx`;
+}
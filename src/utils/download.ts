@@ -0,0 +1,23 @@
+/**
+ * Browser Downloads
+ *
+ * Saves generated files (plans, calendars, documents) through the browser's
+ * download prompt, entirely client-side.
+ */
+
+/**
+ * Save contents as a file through the browser's download prompt.
+ *
+ * @param contents - Text or bytes to save
+ * @param fileName - Suggested file name (e.g., "custody-plan-2025-03-01.json")
+ * @param type - MIME type of the file
+ */
+export function downloadFile(contents: BlobPart, fileName: string, type: string): void {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
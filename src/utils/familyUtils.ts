@@ -1,4 +1,4 @@
-import type { Child, BirthdayConfig } from '../types';
+import type { Child, BirthdayConfig, FamilyInfo } from '../types';
 
 /**
  * Calculate when the custody plan expires based on the youngest child.
@@ -38,6 +38,27 @@ export function calculatePlanExpiration(children: Child[]): string | null {
   return birthDate.toISOString().split('T')[0];
 }
 
+/**
+ * Get the date range the custody plan covers, for projecting stats over its lifetime.
+ * Uses the manual planEndDate when set, otherwise the calculated plan expiration.
+ *
+ * @param familyInfo - Family information with the plan dates and children
+ * @returns Start and end dates (YYYY-MM-DD), or null if the end cannot be determined
+ *
+ * @example
+ * ```typescript
+ * getPlanDateRange({ planStartDate: '2025-01-01', children: [{ birthdate: '2018-07-20', custodyEndAge: 18, ... }] });
+ * // Returns { startDate: '2025-01-01', endDate: '2036-07-20' }
+ * ```
+ */
+export function getPlanDateRange(
+  familyInfo: FamilyInfo
+): { startDate: string; endDate: string } | null {
+  const endDate = familyInfo.planEndDate || calculatePlanExpiration(familyInfo.children);
+  if (!familyInfo.planStartDate || !endDate || endDate < familyInfo.planStartDate) return null;
+  return { startDate: familyInfo.planStartDate, endDate };
+}
+
 /**
  * Generate birthday holiday configs from children.
  * Creates a birthday entry for each child with their birthdate.
@@ -0,0 +1,75 @@
+/**
+ * Holiday Date Overrides
+ *
+ * School breaks move from year to year (Spring Break 2027 might be March 22–26),
+ * so a holiday config can record the actual dates for specific years. An
+ * override is keyed by the year the break starts in and replaces the calculated
+ * dates for that year only (see getHolidayDates).
+ */
+
+import type { HolidayDateOverride } from '../types';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Longest break an override may describe, which catches mistyped years */
+const MAX_OVERRIDE_DAYS = 120;
+
+/**
+ * Validate a date override before it is stored.
+ *
+ * @param override - The proposed override
+ * @returns Object with valid boolean and optional reason string
+ */
+export function validateHolidayDateOverride(
+  override: HolidayDateOverride
+): { valid: boolean; reason?: string } {
+  if (!ISO_DATE.test(override.startDate) || !ISO_DATE.test(override.endDate)) {
+    return { valid: false, reason: 'Choose the first and last day of the break' };
+  }
+  if (override.endDate < override.startDate) {
+    return { valid: false, reason: 'Last day must be on or after the first day' };
+  }
+  if (parseInt(override.startDate.split('-')[0], 10) !== override.year) {
+    return { valid: false, reason: `The break must start in ${override.year}` };
+  }
+  const days =
+    (new Date(override.endDate + 'T00:00:00').getTime() - new Date(override.startDate + 'T00:00:00').getTime()) /
+    (1000 * 60 * 60 * 24);
+  if (days >= MAX_OVERRIDE_DAYS) {
+    return { valid: false, reason: `A break can last at most ${MAX_OVERRIDE_DAYS} days` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Create an override from a break's first and last day, keyed by the start year.
+ */
+export function createHolidayDateOverride(startDate: string, endDate: string): HolidayDateOverride {
+  return { year: parseInt(startDate.split('-')[0], 10), startDate, endDate };
+}
+
+/**
+ * Add an override, replacing any existing override for the same year.
+ *
+ * @param overrides - Existing overrides (not modified)
+ * @param override - The override to add
+ * @returns Overrides sorted by year
+ */
+export function setHolidayDateOverride(
+  overrides: HolidayDateOverride[] | undefined,
+  override: HolidayDateOverride
+): HolidayDateOverride[] {
+  return [...(overrides ?? []).filter((existing) => existing.year !== override.year), override].sort(
+    (a, b) => a.year - b.year
+  );
+}
+
+/**
+ * Remove the override for a year.
+ */
+export function removeHolidayDateOverride(
+  overrides: HolidayDateOverride[] | undefined,
+  year: number
+): HolidayDateOverride[] {
+  return (overrides ?? []).filter((override) => override.year !== year);
+}
@@ -12,26 +12,28 @@
  * - Halloween → Always single day (Oct 31 evening only)
  */
 
-/**
- * Expansion rule types:
- * - 'always': Always expand to a fixed number of days
- * - 'weekend-adjacent': Expand based on proximity to weekend
- * - 'day-of-week-conditional': Expand based on which day of week the holiday falls on
- */
-export type ExpansionRule =
-  | { type: 'always'; days: number }
-  | { type: 'weekend-adjacent'; expandTo: 'full-weekend' | 'include-friday' | 'include-monday' }
-  | { type: 'day-of-week-conditional'; rules: DayOfWeekRule[] };
+import type { DayOfWeekRule, ExpansionRule, WeekendExpansion } from '../types/holidays';
 
-/**
- * Rule for conditional expansion based on day of week.
- * @property dayOfWeek - Array of day numbers (0=Sun, 1=Mon, ..., 6=Sat)
- * @property expansion - How to expand when holiday falls on these days
- */
-export interface DayOfWeekRule {
-  dayOfWeek: number[]; // 0=Sun, 1=Mon, ..., 6=Sat
-  expansion: 'none' | 'include-friday' | 'include-monday' | 'full-weekend';
-}
+// Rules can be attached to any holiday config or template holiday; the types live with them
+export type { DayOfWeekRule, ExpansionRule, WeekendExpansion } from '../types/holidays';
+
+/** Longest span an 'always' rule may cover */
+export const MAX_EXPANSION_DAYS = 14;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Days a weekend expansion can change, listed from the start of the weekend */
+const WEEKEND_EXPANSION_DAYS: Record<WeekendExpansion, number[]> = {
+  'full-weekend': [5, 6, 0, 1],
+  'include-friday': [6, 0],
+  'include-monday': [6, 0],
+};
+
+const WEEKEND_EXPANSION_PHRASES: Record<WeekendExpansion, string> = {
+  'full-weekend': 'it is extended to include the attached weekend',
+  'include-friday': 'it is extended to begin on the Friday before',
+  'include-monday': 'it is extended through the Monday after',
+};
 
 /**
  * Add days to a date string, returning a new date string.
@@ -170,7 +172,7 @@ function getAlwaysExpansion(baseDate: string, days: number): string[] {
  */
 function getWeekendAdjacentExpansion(
   baseDate: string,
-  expandTo: 'full-weekend' | 'include-friday' | 'include-monday',
+  expandTo: WeekendExpansion,
   dayOfWeek: number
 ): string[] {
   switch (expandTo) {
@@ -328,3 +330,63 @@ export function getExpansionRuleForHoliday(holidayId: string): ExpansionRule | u
 export function hasCustomExpansionRule(holidayId: string): boolean {
   return holidayId in HOLIDAY_EXPANSION_RULES;
 }
+
+/**
+ * Explain an expansion rule in plain language for the court document.
+ * Only the days a rule actually changes are mentioned; a weekend expansion
+ * has no effect midweek, so those days are described as a single day.
+ *
+ * @param rule - The expansion rule to explain
+ * @param holidayName - How to refer to the holiday (default: "the holiday")
+ * @returns One or more sentences
+ *
+ * @example
+ * describeExpansionRule(JULY_4_EXPANSION)
+ * // "When the holiday falls on a Friday, Saturday or Monday, it is extended
+ * //  to include the attached weekend. When it falls on a Sunday, it is extended
+ * //  to begin on the Friday before. Otherwise the holiday is a single day."
+ */
+export function describeExpansionRule(rule: ExpansionRule, holidayName = 'the holiday'): string {
+  const subject = holidayName.charAt(0).toUpperCase() + holidayName.slice(1);
+  if (rule.type === 'always') {
+    return rule.days === 1
+      ? `${subject} is a single day.`
+      : `${subject} covers ${rule.days} days, beginning on the holiday date.`;
+  }
+
+  const rules: DayOfWeekRule[] =
+    rule.type === 'weekend-adjacent' ? [{ dayOfWeek: [0, 1, 2, 3, 4, 5, 6], expansion: rule.expandTo }] : rule.rules;
+
+  // Group the days each expansion changes, keeping the first rule that matches a day
+  const described = new Set<number>();
+  const groups: { expansion: WeekendExpansion; days: number[] }[] = [];
+  for (const dayRule of rules) {
+    const { expansion } = dayRule;
+    const days = dayRule.dayOfWeek.filter((day) => !described.has(day));
+    days.forEach((day) => described.add(day));
+    if (expansion === 'none') continue;
+
+    const changed = WEEKEND_EXPANSION_DAYS[expansion].filter((day) => days.includes(day));
+    if (changed.length === 0) continue;
+    const group = groups.find((g) => g.expansion === expansion);
+    if (group) {
+      group.days.push(...changed);
+    } else {
+      groups.push({ expansion, days: changed });
+    }
+  }
+
+  if (groups.length === 0) {
+    return `${subject} is a single day.`;
+  }
+
+  const sentences = groups.map((group, i) => {
+    const order = WEEKEND_EXPANSION_DAYS['full-weekend'];
+    const names = [...group.days].sort((a, b) => order.indexOf(a) - order.indexOf(b)).map((day) => DAY_NAMES[day]);
+    const dayList = names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0];
+    return `When ${i === 0 ? holidayName : 'it'} falls on a ${dayList}, ${WEEKEND_EXPANSION_PHRASES[group.expansion]}.`;
+  });
+  // Tuesday through Thursday are never next to a weekend
+  sentences.push(`Otherwise ${holidayName} is a single day.`);
+  return sentences.join(' ');
+}
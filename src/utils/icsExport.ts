@@ -0,0 +1,265 @@
+/**
+ * iCalendar (.ics) Export
+ *
+ * Turns the resolved custody schedule into an RFC 5545 calendar so parents can
+ * subscribe to it in their phone calendars. Consecutive days with the same
+ * parent are collapsed into one custody block that starts and ends at the
+ * exchange time, and the names of holidays and track breaks inside a block are
+ * added to its summary.
+ *
+ * Times are written as floating local times (no time zone), so an exchange at
+ * 6:00 PM shows at 6:00 PM wherever the calendar is opened.
+ */
+
+import type { AppState, ParentId } from '../types';
+import {
+  addDays,
+  getExchangeTimeForDate,
+  getOwnerForDateComplete,
+  parseExchangeTime,
+} from '../hooks/useCustodyEngine';
+
+/**
+ * A run of consecutive days with the same parent.
+ */
+export interface CustodyBlock {
+  /** Parent with the children during the block */
+  parent: ParentId;
+  /** First day of the block (YYYY-MM-DD) */
+  startDate: string;
+  /** Exchange time that starts the block ("HH:MM"), or "00:00" when cut off by the range start */
+  startTime: string;
+  /** Day the block ends, the first day of the next block (YYYY-MM-DD) */
+  endDate: string;
+  /** Exchange time that ends the block ("HH:MM"), or "00:00" when cut off by the range end */
+  endTime: string;
+  /** Holiday and track break names within the block, in calendar order */
+  labels: string[];
+}
+
+/**
+ * Options for generating a calendar file.
+ */
+export interface IcsExportOptions {
+  /** First date to export (YYYY-MM-DD) */
+  startDate: string;
+  /** Last date to export (YYYY-MM-DD) */
+  endDate: string;
+  /** Only export this parent's blocks; both parents are exported when omitted */
+  parent?: ParentId;
+  /** Time the file is generated, used for DTSTAMP (default: now) */
+  generatedAt?: Date;
+}
+
+/** Maximum length of a content line in octets, excluding the line break */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Exchange time ("HH:MM") at which custody passes to the owner of dates[i].
+ * Uses the holiday's own exchange time when either side of the handoff is a
+ * holiday, matching how the stats count handoffs.
+ */
+function getHandoffTime(
+  dates: string[],
+  results: ReturnType<typeof getOwnerForDateComplete>[],
+  i: number,
+  state: AppState
+): string {
+  const exchangeTime = results[i].isHolidayOverride
+    ? getExchangeTimeForDate(dates[i], state.config, state.holidays)
+    : results[i - 1].isHolidayOverride
+      ? getExchangeTimeForDate(dates[i - 1], state.config, state.holidays)
+      : state.config.exchangeTime;
+  // Normalize to "HH:MM", falling back to the regular exchange time when unparseable
+  const minutes = parseExchangeTime(exchangeTime) ?? parseExchangeTime(state.config.exchangeTime) ?? 0;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Collapse the resolved schedule for a date range into custody blocks.
+ *
+ * A block starts at the exchange on the day its parent takes over and ends at
+ * the exchange on the day the other parent takes over. Blocks that continue
+ * past either end of the range are cut off at midnight.
+ *
+ * @param state - The plan to resolve
+ * @param startDate - First date of the range (YYYY-MM-DD)
+ * @param endDate - Last date of the range (YYYY-MM-DD)
+ * @returns Custody blocks for both parents in calendar order, or an empty array for an invalid range
+ *
+ * @example
+ * ```typescript
+ * // Alternating weeks from Wednesday, January 1, 2025, exchange at 18:00
+ * getCustodyBlocks(state, '2025-01-01', '2025-01-20')[1];
+ * // { parent: 'parentB', startDate: '2025-01-08', startTime: '18:00',
+ * //   endDate: '2025-01-15', endTime: '18:00', labels: [] }
+ * ```
+ */
+export function getCustodyBlocks(state: AppState, startDate: string, endDate: string): CustodyBlock[] {
+  if (!startDate || !endDate || startDate > endDate) return [];
+
+  // Resolve one extra day on each side to tell whether blocks continue past the range
+  const dates: string[] = [];
+  const lastDate = addDays(endDate, 1);
+  for (let date = addDays(startDate, -1); date <= lastDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  const results = dates.map((date) => getOwnerForDateComplete(
+    date,
+    state.config,
+    state.holidays,
+    state.inServiceDays,
+    state.inServiceConfig,
+    state.trackBreaks,
+    state.schoolType,
+    state.scheduleExceptions
+  ));
+
+  const blocks: CustodyBlock[] = [];
+  const lastIndex = dates.length - 2;
+  for (let i = 1; i <= lastIndex; i++) {
+    const labels: string[] = [];
+    let j = i;
+    for (; j <= lastIndex && results[j].owner === results[i].owner; j++) {
+      const result = results[j];
+      const names = [
+        result.isHolidayOverride ? result.holidayName : undefined,
+        result.isTrackBreak ? result.trackBreakName : undefined,
+      ];
+      for (const name of names) {
+        if (name && !labels.includes(name)) labels.push(name);
+      }
+    }
+
+    const startsInRange = results[i - 1].owner !== results[i].owner;
+    const endsInRange = results[j].owner !== results[i].owner;
+    blocks.push({
+      parent: results[i].owner,
+      startDate: dates[i],
+      startTime: startsInRange ? getHandoffTime(dates, results, i, state) : '00:00',
+      endDate: dates[j],
+      endTime: endsInRange ? getHandoffTime(dates, results, j, state) : '00:00',
+      labels,
+    });
+    i = j - 1;
+  }
+  return blocks;
+}
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11).
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line longer than 75 octets onto continuation lines
+ * that start with a space (RFC 5545 section 3.1).
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a date and "HH:MM" time as a floating DATE-TIME (e.g., "20250101T180000").
+ */
+function formatDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME for DTSTAMP (e.g., "20250101T120000Z").
+ */
+function formatTimestamp(instant: Date): string {
+  return `${instant.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+/**
+ * Build the event summary for a block (e.g., "With Mom (Thanksgiving)").
+ */
+function getBlockSummary(block: CustodyBlock, state: AppState): string {
+  const summary = `With ${state.parents[block.parent].name}`;
+  return block.labels.length > 0 ? `${summary} (${block.labels.join(', ')})` : summary;
+}
+
+/**
+ * Generate an RFC 5545 calendar with one event per custody block.
+ *
+ * @param state - The plan to export
+ * @param options - Date range, optional parent filter and generation time
+ * @returns The calendar text, with CRLF line breaks
+ *
+ * @example
+ * ```typescript
+ * const ics = generateIcsCalendar(appState, {
+ *   startDate: '2025-01-01',
+ *   endDate: '2025-12-31',
+ *   parent: 'parentA',
+ * });
+ * ```
+ */
+export function generateIcsCalendar(state: AppState, options: IcsExportOptions): string {
+  const { startDate, endDate, parent, generatedAt = new Date() } = options;
+  const blocks = getCustodyBlocks(state, startDate, endDate)
+    .filter((block) => !parent || block.parent === parent);
+  const calendarName = parent
+    ? `Custody Schedule - ${state.parents[parent].name}`
+    : 'Custody Schedule';
+  const timestamp = formatTimestamp(generatedAt);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Custody Calculator//Custody Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  for (const block of blocks) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${block.startDate}-${block.parent}@custody-calculator`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART:${formatDateTime(block.startDate, block.startTime)}`,
+      `DTEND:${formatDateTime(block.endDate, block.endTime)}`,
+      `SUMMARY:${escapeText(getBlockSummary(block, state))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Get the download file name for a calendar export
+ * (e.g., "custody-schedule-2025-01-01-to-2025-12-31.ics").
+ */
+export function getIcsFileName(startDate: string, endDate: string, parentName?: string): string {
+  const slug = parentName?.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  const suffix = slug ? `-${slug}` : '';
+  return `custody-schedule-${startDate}-to-${endDate}${suffix}.ics`;
+}
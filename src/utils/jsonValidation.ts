@@ -0,0 +1,200 @@
+/**
+ * JSON Validation Helpers
+ *
+ * Checks parsed JSON against the app's shapes and collects readable errors
+ * with the path of each bad field, e.g. "plan.config.exchangeTime must be a
+ * time in HH:MM format (found "6pm")". Used by plan and template imports.
+ */
+
+import type { ParentId, PatternType } from '../types';
+import type { AssignmentType, ExpansionRule, WeekendExpansion } from '../types/holidays';
+import { MAX_EXPANSION_DAYS } from './holidayExpansion';
+import { getHolidayById, supportsExpansionRule } from '../data/holidays';
+
+export type UnknownRecord = Record<string, unknown>;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const PATTERN_TYPES: PatternType[] = [
+  'alt-weeks',
+  '2-2-3',
+  '2-2-5-5',
+  '3-4-4-3',
+  'every-weekend',
+  'every-other-weekend',
+  'same-weekends-monthly',
+  'all-to-one',
+  'custom',
+];
+export const PARENT_IDS: ParentId[] = ['parentA', 'parentB'];
+export const ASSIGNMENT_TYPES: AssignmentType[] = [
+  'alternate-odd-even',
+  'always-parent-a',
+  'always-parent-b',
+  'split-period',
+  'selection-priority',
+  'extend-weekend',
+];
+export const EXPANSION_RULE_TYPES: ExpansionRule['type'][] = ['always', 'weekend-adjacent', 'day-of-week-conditional'];
+export const WEEKEND_EXPANSIONS: WeekendExpansion[] = ['full-weekend', 'include-friday', 'include-monday'];
+
+export function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Show a value in an error message (e.g., "2025-13-01", 42, an object).
+ */
+export function describeValue(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (typeof value === 'string') return `"${value}"`;
+  if (Array.isArray(value)) return 'a list';
+  if (isRecord(value)) return 'an object';
+  return String(value);
+}
+
+/**
+ * An object being validated, with its path for error messages (e.g., "plan.config").
+ */
+export interface Scope {
+  errors: string[];
+  record: UnknownRecord;
+  path: string;
+}
+
+export function fail(scope: Scope, key: string, expected: string) {
+  scope.errors.push(`${scope.path}.${key} must be ${expected} (found ${describeValue(scope.record[key])})`);
+}
+
+export function checkString(scope: Scope, key: string, optional = false) {
+  const value = scope.record[key];
+  if (optional && value === undefined) return;
+  if (typeof value !== 'string') fail(scope, key, 'text');
+}
+
+export function checkBoolean(scope: Scope, key: string, optional = false) {
+  const value = scope.record[key];
+  if (optional && value === undefined) return;
+  if (typeof value !== 'boolean') fail(scope, key, 'true or false');
+}
+
+export function checkInteger(scope: Scope, key: string, min: number, max: number, optional = false) {
+  const value = scope.record[key];
+  if (optional && value === undefined) return;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    fail(scope, key, `a whole number from ${min} to ${max}`);
+  }
+}
+
+export function isIsoDate(value: unknown): boolean {
+  return typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+export function checkDate(scope: Scope, key: string, optional = false) {
+  const value = scope.record[key];
+  if (optional && value === undefined) return;
+  if (!isIsoDate(value)) fail(scope, key, 'a date in YYYY-MM-DD format');
+}
+
+/** Check an HH:MM time; an optional time may also be '' (a cleared time input) */
+export function checkTime(scope: Scope, key: string, optional = false) {
+  const value = scope.record[key];
+  if (optional && (value === undefined || value === '')) return;
+  if (typeof value !== 'string' || !TIME.test(value)) fail(scope, key, 'a time in HH:MM format');
+}
+
+export function checkOneOf(scope: Scope, key: string, options: readonly string[], optional = false) {
+  const value = scope.record[key];
+  if (optional && value === undefined) return;
+  if (typeof value !== 'string' || !options.includes(value)) {
+    fail(scope, key, `one of ${options.map((o) => `"${o}"`).join(', ')}`);
+  }
+}
+
+/**
+ * Check a nested object; returns its scope, or null if it is missing or not an object.
+ */
+export function checkObject(scope: Scope, key: string, optional = false): Scope | null {
+  const value = scope.record[key];
+  if (optional && value === undefined) return null;
+  if (!isRecord(value)) {
+    fail(scope, key, 'an object');
+    return null;
+  }
+  return { errors: scope.errors, record: value, path: `${scope.path}.${key}` };
+}
+
+/**
+ * Check a holiday expansion rule; the fields required depend on its type.
+ */
+export function checkExpansionRule(scope: Scope, key: string, optional = false) {
+  const rule = checkObject(scope, key, optional);
+  if (!rule) return;
+  checkOneOf(rule, 'type', EXPANSION_RULE_TYPES);
+  switch (rule.record.type) {
+    case 'always':
+      checkInteger(rule, 'days', 1, MAX_EXPANSION_DAYS);
+      break;
+    case 'weekend-adjacent':
+      checkOneOf(rule, 'expandTo', WEEKEND_EXPANSIONS);
+      break;
+    case 'day-of-week-conditional':
+      checkList(rule, 'rules', false, (entry) => {
+        const dayOfWeek = entry.record.dayOfWeek;
+        if (!Array.isArray(dayOfWeek) || dayOfWeek.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+          fail(entry, 'dayOfWeek', 'a list of weekdays from 0 (Sunday) to 6 (Saturday)');
+        }
+        checkOneOf(entry, 'expansion', ['none', ...WEEKEND_EXPANSIONS]);
+      });
+      break;
+  }
+}
+
+/**
+ * Check the expansion rule on a holiday config or template holiday. Holidays
+ * that cover a date range cannot have one, since the calendar would not apply it.
+ */
+export function checkHolidayExpansionRule(scope: Scope) {
+  if (scope.record.expansionRule === undefined) return;
+  checkExpansionRule(scope, 'expansionRule');
+  const { holidayId } = scope.record;
+  const holiday = typeof holidayId === 'string' ? getHolidayById(holidayId) : undefined;
+  if (holiday && !supportsExpansionRule(holiday)) {
+    scope.errors.push(
+      `${scope.path}.expansionRule cannot be used for ${holiday.name}, which covers a range of dates (use date overrides instead)`
+    );
+  }
+}
+
+/**
+ * Check that an ID names a holiday in the holiday calendar; with major breaks
+ * only, the holiday must be one of the major breaks.
+ */
+export function checkCalendarHolidayId(scope: Scope, key: string, majorBreaksOnly = false) {
+  const value = scope.record[key];
+  const holiday = typeof value === 'string' ? getHolidayById(value) : undefined;
+  if (!holiday || (majorBreaksOnly && holiday.category !== 'major-break')) {
+    fail(scope, key, majorBreaksOnly ? 'a major break in the holiday calendar' : 'a holiday in the holiday calendar');
+  }
+}
+
+/**
+ * Check a list; runs checkEntry on each entry that is an object.
+ */
+export function checkList(scope: Scope, key: string, optional: boolean, checkEntry?: (entry: Scope) => void) {
+  const value = scope.record[key];
+  if (optional && value === undefined) return;
+  if (!Array.isArray(value)) {
+    fail(scope, key, 'a list');
+    return;
+  }
+  value.forEach((entry, i) => {
+    const path = `${scope.path}.${key}[${i}]`;
+    if (!isRecord(entry)) {
+      scope.errors.push(`${path} must be an object (found ${describeValue(entry)})`);
+      return;
+    }
+    checkEntry?.({ errors: scope.errors, record: entry, path });
+  });
+}
@@ -0,0 +1,539 @@
+/**
+ * PDF Export
+ *
+ * Lays out the parenting plan as a PDF with the pdfWriter, so the filed
+ * document looks the same on every machine instead of depending on the
+ * browser's print engine. The output is deterministic: the same plan and
+ * options always produce the same bytes.
+ *
+ * The document has:
+ * - a caption with the court header, the parties and a case number block
+ * - the body from generateCourtDocument, with numbered sections, tables and notes
+ * - a signature page for both parents
+ * - Exhibit A: the year's calendar in parent colors with holiday markers (from
+ *   generateMonthDays), followed by a list of the year's holidays and birthdays
+ * - "Page X of Y" on every page
+ */
+
+import type { AppState, CalendarDay, ParentId } from '../types';
+import {
+  generateCourtDocument,
+  getDocumentSignatories,
+  type CourtDocument,
+  type DocumentSignatory,
+  type TableData,
+} from './courtDocumentGenerator';
+import { generateMonthDays } from '../hooks/useCustodyEngine';
+import {
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  createPdfPage,
+  drawLine,
+  drawText,
+  fillPolygon,
+  fillRect,
+  measureText,
+  serializePdf,
+  strokeRect,
+  wrapText,
+  type PdfFont,
+  type PdfPage,
+} from './pdfWriter';
+
+/**
+ * Options for the PDF export.
+ */
+export interface PlanPdfOptions {
+  /** Year shown in Exhibit A (default: the year the plan starts) */
+  year?: number;
+  /** Calendar colors for each parent as "#rrggbb" (default: blue and pink) */
+  parentColors?: Record<ParentId, string>;
+}
+
+const MARGIN = 72;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+/** Lowest baseline for body content, leaving room for the page number */
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - MARGIN;
+const BODY_SIZE = 12;
+const BODY_LINE_HEIGHT = 18;
+const TABLE_SIZE = 10;
+const TABLE_LINE_HEIGHT = 13;
+const TABLE_PADDING = 4;
+const HEADER_FILL = '#e5e7eb';
+const HOLIDAY_MARKER_COLOR = '#111827';
+
+const DEFAULT_PARENT_COLORS: Record<ParentId, string> = {
+  parentA: '#3b82f6',
+  parentB: '#ec4899',
+};
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+/**
+ * Pages being laid out, with a cursor for flowing content from top to bottom.
+ */
+interface Flow {
+  pages: PdfPage[];
+  /** Page content is being added to */
+  page: PdfPage;
+  /** Distance from the top of the page to the next free line */
+  y: number;
+}
+
+function createFlow(): Flow {
+  const page = createPdfPage();
+  return { pages: [page], page, y: MARGIN };
+}
+
+/**
+ * Start a new page and move the cursor to its top.
+ */
+function addPage(flow: Flow): void {
+  flow.page = createPdfPage();
+  flow.pages.push(flow.page);
+  flow.y = MARGIN;
+}
+
+/**
+ * Start a new page unless the next `height` points fit on the current one.
+ */
+function ensureSpace(flow: Flow, height: number): void {
+  if (flow.y + height > CONTENT_BOTTOM) {
+    addPage(flow);
+  }
+}
+
+/**
+ * Mix a color with white (amount 0 = white, 1 = the color).
+ */
+function tint(hex: string, amount: number): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const channels = [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map((channel) => Math.round(255 - (255 - channel) * amount));
+  return `#${channels.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Write a line of text centered on the page.
+ */
+function drawCentered(flow: Flow, text: string, font: PdfFont, size: number): void {
+  const width = measureText(text, font, size);
+  drawText(flow.page, text, (PDF_PAGE_WIDTH - width) / 2, flow.y + size, font, size);
+}
+
+/**
+ * Flow a paragraph, justified except for its last line.
+ */
+function writeParagraph(
+  flow: Flow,
+  text: string,
+  options: { font?: PdfFont; size?: number; lineHeight?: number; indent?: number; justify?: boolean } = {}
+): void {
+  const { font = 'regular', size = BODY_SIZE, lineHeight = BODY_LINE_HEIGHT, indent = 0, justify = true } = options;
+  const width = CONTENT_WIDTH - indent;
+  const lines = wrapText(text, font, size, width);
+  lines.forEach((line, i) => {
+    ensureSpace(flow, lineHeight);
+    const isLastLine = i === lines.length - 1;
+    drawText(flow.page, line, MARGIN + indent, flow.y + size, font, size, {
+      justifyWidth: justify && !isLastLine ? width : undefined,
+    });
+    flow.y += lineHeight;
+  });
+  flow.y += lineHeight / 2;
+}
+
+/**
+ * Write the caption: court header lines, the parties and the case number block.
+ */
+function writeCaption(flow: Flow, headers: string[], signatories: DocumentSignatory[]): void {
+  for (const header of headers) {
+    drawCentered(flow, header.toUpperCase(), 'bold', BODY_SIZE);
+    flow.y += BODY_LINE_HEIGHT;
+  }
+  flow.y += BODY_LINE_HEIGHT;
+
+  // Parties on the left, closed by a rule; case details on the right
+  const top = flow.y;
+  const partyLines = signatories.flatMap((signatory, i) => [
+    `${signatory.name.toUpperCase()},`,
+    `                    ${signatory.role}${i === signatories.length - 1 ? '.' : ','}`,
+    ...(i < signatories.length - 1 ? ['', 'and', ''] : []),
+  ]);
+  partyLines.forEach((line, i) => {
+    drawText(flow.page, line, MARGIN, top + BODY_SIZE + i * BODY_LINE_HEIGHT, 'regular', BODY_SIZE);
+  });
+  const bottom = top + partyLines.length * BODY_LINE_HEIGHT + BODY_SIZE / 2;
+  const dividerX = MARGIN + CONTENT_WIDTH / 2 + 18;
+  drawLine(flow.page, dividerX, top, dividerX, bottom);
+  drawLine(flow.page, MARGIN, bottom, dividerX, bottom);
+
+  const detailsY = top + BODY_SIZE + BODY_LINE_HEIGHT;
+  drawText(flow.page, 'Case No: _______________', dividerX + 18, detailsY, 'regular', BODY_SIZE);
+  drawText(flow.page, 'Dept No: _______________', dividerX + 18, detailsY + BODY_LINE_HEIGHT * 2, 'regular', BODY_SIZE);
+
+  flow.y = bottom + BODY_LINE_HEIGHT;
+}
+
+/**
+ * Write the document title between two rules.
+ */
+function writeTitle(flow: Flow, title: string): void {
+  ensureSpace(flow, 48);
+  drawLine(flow.page, MARGIN, flow.y, MARGIN + CONTENT_WIDTH, flow.y, 1);
+  flow.y += 8;
+  drawCentered(flow, title.toUpperCase(), 'bold', 14);
+  flow.y += 22;
+  drawLine(flow.page, MARGIN, flow.y, MARGIN + CONTENT_WIDTH, flow.y, 1);
+  flow.y += BODY_LINE_HEIGHT;
+}
+
+/**
+ * Write a section heading, keeping it on the same page as the first lines after it.
+ */
+function writeHeading(flow: Flow, text: string): void {
+  ensureSpace(flow, BODY_LINE_HEIGHT * 4);
+  flow.y += BODY_LINE_HEIGHT / 2;
+  drawText(flow.page, text.toUpperCase(), MARGIN, flow.y + BODY_SIZE, 'bold', BODY_SIZE);
+  flow.y += BODY_LINE_HEIGHT;
+}
+
+/**
+ * Get column widths proportional to each column's longest text, filling the content width.
+ */
+function getColumnWidths(table: TableData): number[] {
+  const natural = table.headers.map((header, i) => Math.max(
+    measureText(header, 'bold', TABLE_SIZE),
+    ...table.rows.map((row) => measureText(row[i] ?? '', 'regular', TABLE_SIZE))
+  ) + TABLE_PADDING * 2);
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  // Narrow columns keep their natural width; the rest share what is left
+  const minimum = CONTENT_WIDTH / table.headers.length / 2;
+  const widths = natural.map((width) => Math.max(width * (CONTENT_WIDTH / total), Math.min(width, minimum)));
+  const scale = CONTENT_WIDTH / widths.reduce((sum, width) => sum + width, 0);
+  return widths.map((width) => width * scale);
+}
+
+/**
+ * Write a bordered table, repeating the header row on each page it continues onto.
+ */
+function writeTable(flow: Flow, table: TableData): void {
+  const widths = getColumnWidths(table);
+
+  const writeRow = (cells: string[], font: PdfFont, fill?: string) => {
+    const wrapped = cells.map((cell, i) => wrapText(cell ?? '', font, TABLE_SIZE, widths[i] - TABLE_PADDING * 2));
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * TABLE_LINE_HEIGHT + TABLE_PADDING * 2;
+    let x = MARGIN;
+    wrapped.forEach((lines, i) => {
+      if (fill) fillRect(flow.page, x, flow.y, widths[i], height, fill);
+      strokeRect(flow.page, x, flow.y, widths[i], height);
+      lines.forEach((line, lineIndex) => {
+        drawText(
+          flow.page,
+          line,
+          x + TABLE_PADDING,
+          flow.y + TABLE_PADDING + TABLE_SIZE + lineIndex * TABLE_LINE_HEIGHT,
+          font,
+          TABLE_SIZE
+        );
+      });
+      x += widths[i];
+    });
+    flow.y += height;
+    return height;
+  };
+
+  const rowHeight = (cells: string[], font: PdfFont) =>
+    Math.max(...cells.map((cell, i) => wrapText(cell ?? '', font, TABLE_SIZE, widths[i] - TABLE_PADDING * 2).length)) *
+      TABLE_LINE_HEIGHT + TABLE_PADDING * 2;
+
+  const headerHeight = rowHeight(table.headers, 'bold');
+  ensureSpace(flow, headerHeight + (table.rows[0] ? rowHeight(table.rows[0], 'regular') : 0));
+  writeRow(table.headers, 'bold', HEADER_FILL);
+  for (const row of table.rows) {
+    if (flow.y + rowHeight(row, 'regular') > CONTENT_BOTTOM) {
+      addPage(flow);
+      writeRow(table.headers, 'bold', HEADER_FILL);
+    }
+    writeRow(row, 'regular');
+  }
+  flow.y += BODY_LINE_HEIGHT;
+}
+
+/**
+ * Write the body of the court document: caption, title, sections and notes.
+ */
+function writeDocumentBody(flow: Flow, document: CourtDocument, signatories: DocumentSignatory[]): void {
+  const headers = document.sections
+    .filter((section) => section.type === 'header')
+    .map((section) => section.content as string);
+  writeCaption(flow, headers, signatories);
+
+  let sectionNumber = 0;
+  for (const section of document.sections) {
+    const text = Array.isArray(section.content) ? section.content.join(' ') : section.content;
+
+    switch (section.type) {
+      case 'section-title':
+        if (text === document.title) {
+          writeTitle(flow, text);
+        } else {
+          sectionNumber++;
+          writeHeading(flow, `${sectionNumber}. ${text as string}`);
+        }
+        break;
+
+      case 'paragraph':
+        if (sectionNumber === 0) {
+          // Paragraphs before the first numbered section belong to the caption
+          ensureSpace(flow, BODY_LINE_HEIGHT);
+          drawCentered(flow, text as string, 'italic', BODY_SIZE);
+          flow.y += BODY_LINE_HEIGHT * 1.5;
+        } else {
+          writeParagraph(flow, text as string);
+        }
+        break;
+
+      case 'table':
+        writeTable(flow, section.content as TableData);
+        break;
+
+      case 'footnote':
+        writeParagraph(flow, `* ${text as string}`, { font: 'italic', size: 10, lineHeight: 13, justify: false });
+        break;
+    }
+  }
+
+  if (document.footnotes.length > 0) {
+    writeHeading(flow, 'Notes');
+    document.footnotes.forEach((note, i) => {
+      writeParagraph(flow, `${i + 1}. ${note}`, { size: 10, lineHeight: 13 });
+    });
+  }
+}
+
+/**
+ * Write the signature page: one block per signatory, side by side.
+ */
+function writeSignaturePage(flow: Flow, signatories: DocumentSignatory[]): void {
+  addPage(flow);
+  drawCentered(flow, 'SIGNATURES', 'bold', BODY_SIZE);
+  flow.y += BODY_LINE_HEIGHT * 2;
+  writeParagraph(
+    flow,
+    'IT IS SO AGREED. Each parent has read this plan and agrees to follow it.',
+    { justify: false }
+  );
+  flow.y += BODY_LINE_HEIGHT;
+
+  const columnWidth = CONTENT_WIDTH / Math.max(signatories.length, 1);
+  const top = flow.y;
+  signatories.forEach((signatory, i) => {
+    const x = MARGIN + i * columnWidth;
+    const lineEnd = x + columnWidth - 24;
+    drawText(flow.page, 'Dated: ____________________', x, top + BODY_SIZE, 'regular', BODY_SIZE);
+    drawLine(flow.page, x, top + 72, lineEnd, top + 72);
+    drawText(flow.page, signatory.name, x, top + 72 + BODY_LINE_HEIGHT, 'regular', BODY_SIZE);
+    drawText(flow.page, signatory.role, x, top + 72 + BODY_LINE_HEIGHT * 2, 'italic', BODY_SIZE);
+  });
+  flow.y = top + 72 + BODY_LINE_HEIGHT * 3;
+}
+
+/**
+ * Get the name marked on a calendar day (holiday first, then birthday), if any.
+ */
+function getMarkedName(day: CalendarDay): string | undefined {
+  return day.holidayName ?? day.birthdayName;
+}
+
+/**
+ * Draw one month of the Exhibit A calendar with its top-left corner at (x, y).
+ */
+function drawMonth(
+  page: PdfPage,
+  days: CalendarDay[],
+  month: number,
+  x: number,
+  y: number,
+  cellWidth: number,
+  cellHeight: number,
+  colors: Record<ParentId, string>
+): void {
+  const title = MONTH_NAMES[month];
+  const monthWidth = cellWidth * 7;
+  drawText(page, title, x + (monthWidth - measureText(title, 'bold', 9)) / 2, y + 9, 'bold', 9);
+
+  WEEKDAY_LETTERS.forEach((letter, i) => {
+    const letterX = x + i * cellWidth + (cellWidth - measureText(letter, 'bold', 7)) / 2;
+    drawText(page, letter, letterX, y + 20, 'bold', 7);
+  });
+
+  const gridTop = y + 24;
+  days.forEach((day, i) => {
+    if (!day.isCurrentMonth) return;
+    const cellX = x + (i % 7) * cellWidth;
+    const cellY = gridTop + Math.floor(i / 7) * cellHeight;
+    fillRect(page, cellX, cellY, cellWidth, cellHeight, tint(colors[day.owner], 0.45));
+    strokeRect(page, cellX, cellY, cellWidth, cellHeight, 0.25);
+    drawText(page, String(day.dayOfMonth), cellX + 2, cellY + 8, 'regular', 7);
+    if (getMarkedName(day)) {
+      // Holiday marker: a filled triangle in the top-right corner
+      const right = cellX + cellWidth;
+      fillPolygon(page, [[right - 7, cellY], [right, cellY], [right, cellY + 7]], HOLIDAY_MARKER_COLOR);
+    }
+  });
+}
+
+/**
+ * Format a date for the holiday list (e.g., "Nov 27").
+ */
+function formatShortDate(date: string): string {
+  const [, month, day] = date.split('-').map(Number);
+  return `${MONTH_NAMES[month - 1].slice(0, 3)} ${day}`;
+}
+
+/**
+ * List the marked days of a year as rows of date range, name and parent,
+ * grouping consecutive days with the same name and parent.
+ */
+function getMarkedDayRows(months: CalendarDay[][], parentNames: Record<ParentId, string>): string[][] {
+  const days = months.flatMap((monthDays) => monthDays.filter((day) => day.isCurrentMonth));
+  const runs: { start: string; end: string; name: string; owner: ParentId }[] = [];
+  days.forEach((day, i) => {
+    const name = getMarkedName(day);
+    if (!name) return;
+    const last = runs[runs.length - 1];
+    if (last && last.name === name && last.owner === day.owner && last.end === days[i - 1]?.date) {
+      last.end = day.date;
+    } else {
+      runs.push({ start: day.date, end: day.date, name, owner: day.owner });
+    }
+  });
+  return runs.map((run) => [
+    run.start === run.end ? formatShortDate(run.start) : `${formatShortDate(run.start)} – ${formatShortDate(run.end)}`,
+    run.name,
+    parentNames[run.owner],
+  ]);
+}
+
+/**
+ * Write Exhibit A: the year's calendar in parent colors, then the list of marked days.
+ */
+function writeExhibitA(flow: Flow, appState: AppState, year: number, colors: Record<ParentId, string>): void {
+  const months = MONTH_NAMES.map((_, month) => generateMonthDays(
+    year,
+    month,
+    appState.config,
+    false,
+    appState.holidays,
+    appState.inServiceDays,
+    appState.inServiceConfig,
+    appState.trackBreaks,
+    appState.schoolType,
+    appState.scheduleExceptions
+  ));
+  const parentNames: Record<ParentId, string> = {
+    parentA: appState.parents.parentA.name || 'Parent A',
+    parentB: appState.parents.parentB.name || 'Parent B',
+  };
+
+  addPage(flow);
+  drawCentered(flow, 'EXHIBIT A', 'bold', 14);
+  flow.y += 20;
+  drawCentered(flow, `${year} Custody Calendar`, 'regular', BODY_SIZE);
+  flow.y += 24;
+
+  // Legend: a swatch per parent and the holiday marker
+  let legendX = MARGIN;
+  for (const parentId of ['parentA', 'parentB'] as const) {
+    fillRect(flow.page, legendX, flow.y, 10, 10, tint(colors[parentId], 0.45));
+    strokeRect(flow.page, legendX, flow.y, 10, 10, 0.25);
+    drawText(flow.page, parentNames[parentId], legendX + 14, flow.y + 8.5, 'regular', 10);
+    legendX += 14 + measureText(parentNames[parentId], 'regular', 10) + 24;
+  }
+  fillPolygon(flow.page, [[legendX, flow.y], [legendX + 10, flow.y], [legendX + 10, flow.y + 10]], HOLIDAY_MARKER_COLOR);
+  drawText(flow.page, 'Holiday or birthday', legendX + 14, flow.y + 8.5, 'regular', 10);
+  flow.y += 24;
+
+  // Three columns by four rows of months
+  const gap = 18;
+  const cellWidth = (CONTENT_WIDTH - gap * 2) / 3 / 7;
+  const cellHeight = 15;
+  const monthHeight = 24 + cellHeight * 6 + gap;
+  months.forEach((days, month) => {
+    const x = MARGIN + (month % 3) * (cellWidth * 7 + gap);
+    const y = flow.y + Math.floor(month / 3) * monthHeight;
+    drawMonth(flow.page, days, month, x, y, cellWidth, cellHeight, colors);
+  });
+
+  const rows = getMarkedDayRows(months, parentNames);
+  if (rows.length > 0) {
+    addPage(flow);
+    drawCentered(flow, `EXHIBIT A (continued): HOLIDAYS AND BIRTHDAYS IN ${year}`, 'bold', BODY_SIZE);
+    flow.y += BODY_LINE_HEIGHT * 1.5;
+    writeTable(flow, { headers: ['Dates', 'Holiday or Birthday', 'With'], rows });
+  }
+}
+
+/**
+ * Write "Page X of Y" at the bottom of every page.
+ */
+function writePageNumbers(pages: PdfPage[]): void {
+  pages.forEach((page, i) => {
+    const text = `Page ${i + 1} of ${pages.length}`;
+    const width = measureText(text, 'regular', 10);
+    drawText(page, text, (PDF_PAGE_WIDTH - width) / 2, PDF_PAGE_HEIGHT - 36, 'regular', 10);
+  });
+}
+
+/**
+ * Lay out the parenting plan as PDF pages.
+ *
+ * @param appState - The plan to export
+ * @param options - Exhibit year and parent colors
+ * @returns Pages in order, with page numbers
+ */
+export function layoutPlanPdf(appState: AppState, options: PlanPdfOptions = {}): PdfPage[] {
+  const document = generateCourtDocument(appState);
+  const signatories = getDocumentSignatories(appState);
+  const startDate = appState.familyInfo?.planStartDate || appState.config.startDate;
+  const year = options.year ?? parseInt(startDate.slice(0, 4), 10);
+
+  const flow = createFlow();
+  writeDocumentBody(flow, document, signatories);
+  writeSignaturePage(flow, signatories);
+  writeExhibitA(flow, appState, year, options.parentColors ?? DEFAULT_PARENT_COLORS);
+  writePageNumbers(flow.pages);
+  return flow.pages;
+}
+
+/**
+ * Generate the parenting plan as a PDF file.
+ *
+ * @param appState - The plan to export
+ * @param options - Exhibit year and parent colors
+ * @returns The PDF file bytes
+ *
+ * @example
+ * ```typescript
+ * const bytes = generatePlanPdf(appState, { year: 2025 });
+ * downloadFile(bytes, getPdfFileName('HOLIDAY AND VACATION PLAN', '2025-03-01'), 'application/pdf');
+ * ```
+ */
+export function generatePlanPdf(appState: AppState, options: PlanPdfOptions = {}): Uint8Array<ArrayBuffer> {
+  const { title } = generateCourtDocument(appState);
+  return serializePdf(layoutPlanPdf(appState, options), { title });
+}
+
+/**
+ * Get the download file name for a PDF export (e.g., "holiday-and-vacation-plan-2025-03-01.pdf").
+ */
+export function getPdfFileName(title: string, date: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'custody-plan'}-${date}.pdf`;
+}
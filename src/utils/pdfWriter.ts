@@ -0,0 +1,300 @@
+/**
+ * PDF Writer
+ *
+ * A small, dependency-free PDF 1.4 writer for generated documents. Pages are
+ * drawn with text, rectangles, lines and filled shapes using the standard
+ * Times fonts (no embedding), and the file carries no timestamps or random
+ * IDs, so the same pages always serialize to the same bytes.
+ *
+ * Positions are in points (1/72 inch) measured from the top-left corner of the
+ * page; the writer converts them to PDF's bottom-left origin.
+ */
+
+/** US Letter page size, in points */
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+/**
+ * Fonts available to pages: the standard Times family.
+ */
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+/**
+ * A page being drawn, as a list of content stream operators.
+ */
+export interface PdfPage {
+  operations: string[];
+}
+
+/**
+ * Document information stored in the file.
+ */
+export interface PdfInfo {
+  /** Document title shown by PDF viewers */
+  title: string;
+}
+
+const BASE_FONTS: Record<PdfFont, { resource: string; name: string }> = {
+  regular: { resource: 'F1', name: 'Times-Roman' },
+  bold: { resource: 'F2', name: 'Times-Bold' },
+  italic: { resource: 'F3', name: 'Times-Italic' },
+};
+
+/**
+ * Glyph widths (per 1000 units of font size) for character codes 32-126,
+ * from the Adobe font metrics of the standard Times fonts.
+ */
+const GLYPH_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444,
+    921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+    556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+    333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500,
+    500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541,
+  ],
+  bold: [
+    250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500,
+    930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778,
+    611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500,
+    333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500,
+    556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520,
+  ],
+  italic: [
+    250, 333, 420, 500, 500, 833, 778, 214, 333, 333, 500, 675, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 675, 675, 675, 500,
+    920, 611, 611, 667, 722, 611, 611, 722, 722, 333, 444, 667, 556, 833, 667, 722,
+    611, 722, 611, 500, 556, 722, 611, 833, 611, 556, 556, 389, 278, 389, 422, 500,
+    333, 500, 500, 444, 500, 444, 278, 500, 500, 278, 278, 444, 278, 722, 500, 500,
+    500, 500, 389, 389, 278, 500, 444, 667, 444, 444, 389, 400, 275, 400, 541,
+  ],
+};
+
+/**
+ * WinAnsi codes for the typographic characters outside Latin-1 that generated
+ * text may contain, with their approximate widths.
+ */
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '‘': { code: 0x91, width: 333 },
+  '’': { code: 0x92, width: 333 },
+  '“': { code: 0x93, width: 444 },
+  '”': { code: 0x94, width: 444 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 500 },
+  '—': { code: 0x97, width: 1000 },
+};
+
+/** Width used for Latin-1 characters above ASCII, which are mostly accented letters */
+const DEFAULT_GLYPH_WIDTH = 500;
+
+/**
+ * Encode a character as a WinAnsi code, or "?" (63) when it has none.
+ */
+function toWinAnsi(char: string): number {
+  const code = char.codePointAt(0) ?? 63;
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char]?.code ?? 63;
+}
+
+/**
+ * Format a number for a content stream (at most 2 decimal places, no trailing zeros).
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Convert a "#rrggbb" color to fill or stroke operands (e.g., "0.23 0.51 0.96").
+ */
+function formatColor(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map((channel) => formatNumber(channel / 255))
+    .join(' ');
+}
+
+/**
+ * Escape text as a PDF literal string in WinAnsi encoding.
+ */
+function toPdfString(text: string): string {
+  let result = '(';
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    if (char === '(' || char === ')' || char === '\\') {
+      result += `\\${char}`;
+    } else if (code > 126) {
+      result += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+  return `${result})`;
+}
+
+/**
+ * Measure the width of text set in a font, in points.
+ */
+export function measureText(text: string, font: PdfFont, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (code >= 32 && code <= 126) {
+      units += GLYPH_WIDTHS[font][code - 32];
+    } else {
+      units += WIN_ANSI_EXTRAS[char]?.width ?? DEFAULT_GLYPH_WIDTH;
+    }
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines that fit a width, at spaces. Words longer than the
+ * width are kept whole on their own line.
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(candidate, font, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line || lines.length === 0) lines.push(line);
+  return lines;
+}
+
+/**
+ * Create an empty page.
+ */
+export function createPdfPage(): PdfPage {
+  return { operations: [] };
+}
+
+/**
+ * Draw text with its baseline at (x, y).
+ *
+ * @param options.color - Fill color as "#rrggbb" (default: black)
+ * @param options.justifyWidth - Stretch the spaces so the line fills this width
+ */
+export function drawText(
+  page: PdfPage,
+  text: string,
+  x: number,
+  y: number,
+  font: PdfFont,
+  size: number,
+  options: { color?: string; justifyWidth?: number } = {}
+): void {
+  let wordSpacing = 0;
+  if (options.justifyWidth !== undefined) {
+    const spaces = text.split(' ').length - 1;
+    if (spaces > 0) {
+      wordSpacing = (options.justifyWidth - measureText(text, font, size)) / spaces;
+    }
+  }
+  page.operations.push(
+    [
+      'BT',
+      `/${BASE_FONTS[font].resource} ${formatNumber(size)} Tf`,
+      `${formatColor(options.color ?? '#000000')} rg`,
+      // Word spacing is part of the text state, so it is reset for every line
+      `${formatNumber(Math.max(wordSpacing, 0))} Tw`,
+      `${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td`,
+      `${toPdfString(text)} Tj`,
+      'ET',
+    ].join(' ')
+  );
+}
+
+/**
+ * Fill a rectangle whose top-left corner is at (x, y).
+ */
+export function fillRect(page: PdfPage, x: number, y: number, width: number, height: number, color: string): void {
+  page.operations.push(
+    `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+  );
+}
+
+/**
+ * Outline a rectangle whose top-left corner is at (x, y).
+ */
+export function strokeRect(page: PdfPage, x: number, y: number, width: number, height: number, lineWidth = 0.5): void {
+  page.operations.push(
+    `0 0 0 RG ${formatNumber(lineWidth)} w ${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re S`
+  );
+}
+
+/**
+ * Draw a straight black line.
+ */
+export function drawLine(page: PdfPage, x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5): void {
+  page.operations.push(
+    `0 0 0 RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l S`
+  );
+}
+
+/**
+ * Fill a closed shape through the given points.
+ */
+export function fillPolygon(page: PdfPage, points: [number, number][], color: string): void {
+  const path = points
+    .map(([x, y], i) => `${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y)} ${i === 0 ? 'm' : 'l'}`)
+    .join(' ');
+  page.operations.push(`${formatColor(color)} rg ${path} h f`);
+}
+
+/**
+ * Serialize pages into a PDF file.
+ *
+ * @param pages - Pages in order
+ * @param info - Document information
+ * @returns The PDF file bytes
+ */
+export function serializePdf(pages: PdfPage[], info: PdfInfo): Uint8Array<ArrayBuffer> {
+  const fonts = Object.values(BASE_FONTS);
+  // Objects: catalog, page tree, info, fonts, then a page and a content stream per page
+  const fontObjectStart = 4;
+  const pageObjectStart = fontObjectStart + fonts.length;
+  const pageObjectId = (i: number) => pageObjectStart + i * 2;
+
+  const fontResources = fonts
+    .map((font, i) => `/${font.resource} ${fontObjectStart + i} 0 R`)
+    .join(' ');
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Title ${toPdfString(info.title)} /Producer (Custody Calculator) >>`,
+    ...fonts.map((font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font.name} /Encoding /WinAnsiEncoding >>`),
+  ];
+  pages.forEach((page, i) => {
+    const stream = page.operations.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageObjectId(i) + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Every character is a single byte: content is ASCII apart from the binary marker comment
+  let output = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(output.length);
+    output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    output += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0));
+}
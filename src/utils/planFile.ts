@@ -0,0 +1,476 @@
+/**
+ * Plan File Export & Import
+ *
+ * Saves the full plan (AppState) as a versioned, self-describing JSON file and
+ * reads it back. Imports are validated against the shapes in src/types, and
+ * files written by older versions of the app are migrated forward one version
+ * at a time, so a bad or outdated file produces readable errors instead of a
+ * broken calendar.
+ *
+ * Format versions:
+ * - 1: the bare AppState, as kept in localStorage (no envelope)
+ * - 2: `{ format, version, exportedAt, state }` envelope around the AppState
+ */
+
+import type {
+  AppState,
+  CalculationMode,
+  InServiceAttachmentRule,
+  Scenario,
+  ScenarioStore,
+  ScheduleException,
+  SchoolType,
+  ThirdPartyBlock,
+} from '../types';
+import { CUSTOM_PATTERN_MAX_LENGTH, CUSTOM_PATTERN_MIN_LENGTH } from '../data/patterns';
+import { validateScheduleException } from './scheduleExceptions';
+import { validateThirdPartyBlock } from './thirdPartyTime';
+import {
+  ASSIGNMENT_TYPES,
+  PARENT_IDS,
+  PATTERN_TYPES,
+  checkBoolean,
+  checkDate,
+  checkHolidayExpansionRule,
+  checkInteger,
+  checkList,
+  checkObject,
+  checkOneOf,
+  checkString,
+  checkTime,
+  describeValue,
+  fail,
+  isIsoDate,
+  isRecord,
+  type Scope,
+  type UnknownRecord,
+} from './jsonValidation';
+
+/**
+ * Identifies a file as a custody plan export.
+ */
+export const PLAN_FILE_FORMAT = 'custody-calculator-plan';
+
+/**
+ * Format version written by this version of the app.
+ */
+export const PLAN_FILE_VERSION = 2;
+
+/**
+ * Contents of an exported plan file.
+ */
+export interface PlanFile {
+  /** Always PLAN_FILE_FORMAT */
+  format: typeof PLAN_FILE_FORMAT;
+  /** Format version the file was written in */
+  version: number;
+  /** When the file was exported (ISO timestamp) */
+  exportedAt: string;
+  /** The exported plan */
+  state: AppState;
+}
+
+/**
+ * Result of importing a plan file.
+ */
+export type PlanImportResult =
+  | { valid: true; state: AppState; migratedFrom?: number }
+  | { valid: false; errors: string[] };
+
+const CALCULATION_MODES: CalculationMode[] = ['days', 'overnights', 'duration'];
+const BIRTHDAY_TYPES = ['child', 'parent-a', 'parent-b'];
+const ATTACHMENT_RULES: InServiceAttachmentRule[] = [
+  'attach-to-adjacent',
+  'follow-base-schedule',
+  'always-parent-a',
+  'always-parent-b',
+];
+const SCHOOL_TYPES: SchoolType[] = ['traditional', 'year-round'];
+/** A split day within a break (e.g., "12-26") */
+const MONTH_DAY = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+/**
+ * Validate a plan against the AppState shape.
+ *
+ * @param state - Parsed plan data
+ * @returns Readable error messages; empty when the plan is valid
+ */
+export function validateAppState(state: unknown): string[] {
+  if (!isRecord(state)) {
+    return ['The plan must be an object'];
+  }
+  const errors: string[] = [];
+  const root: Scope = { errors, record: state, path: 'plan' };
+
+  const config = checkObject(root, 'config');
+  if (config) {
+    checkDate(config, 'startDate');
+    checkOneOf(config, 'selectedPattern', PATTERN_TYPES);
+    checkOneOf(config, 'startingParent', PARENT_IDS);
+    checkTime(config, 'exchangeTime');
+    const customPattern = config.record.customPattern;
+    if (
+      customPattern !== undefined &&
+      (!Array.isArray(customPattern) ||
+        customPattern.length < CUSTOM_PATTERN_MIN_LENGTH ||
+        customPattern.length > CUSTOM_PATTERN_MAX_LENGTH ||
+        customPattern.some((d) => d !== 'A' && d !== 'B'))
+    ) {
+      fail(config, 'customPattern', `a list of ${CUSTOM_PATTERN_MIN_LENGTH} to ${CUSTOM_PATTERN_MAX_LENGTH} "A" and "B" days`);
+    }
+    checkOneOf(config, 'calculationMode', CALCULATION_MODES, true);
+    checkTime(config, 'overnightCutoffTime', true);
+    checkString(config, 'weightedVisitRuleId', true);
+    checkBoolean(config, 'deductThirdPartyTime', true);
+  }
+
+  const parents = checkObject(root, 'parents');
+  if (parents) {
+    for (const parentId of PARENT_IDS) {
+      const parent = checkObject(parents, parentId);
+      if (parent) {
+        checkString(parent, 'name');
+        checkString(parent, 'colorClass');
+      }
+    }
+  }
+
+  const holidays = checkObject(root, 'holidays', true);
+  if (holidays) {
+    checkList(holidays, 'holidayConfigs', false, (entry) => {
+      checkString(entry, 'holidayId');
+      checkBoolean(entry, 'enabled');
+      checkOneOf(entry, 'assignment', ASSIGNMENT_TYPES);
+      checkTime(entry, 'exchangeTime', true);
+      checkOneOf(entry, 'oddYearParent', PARENT_IDS, true);
+      checkList(entry, 'dateOverrides', true, (override) => {
+        checkInteger(override, 'year', 1900, 2200);
+        checkDate(override, 'startDate');
+        checkDate(override, 'endDate');
+      });
+      checkHolidayExpansionRule(entry);
+    });
+    checkList(holidays, 'birthdays', false, (entry) => {
+      checkString(entry, 'id');
+      checkString(entry, 'name');
+      checkOneOf(entry, 'type', BIRTHDAY_TYPES);
+      checkInteger(entry, 'month', 1, 12);
+      checkInteger(entry, 'day', 1, 31);
+      checkOneOf(entry, 'defaultAssignment', ASSIGNMENT_TYPES);
+    });
+    const winterBreakSplit = checkObject(holidays, 'winterBreakSplit', true);
+    if (winterBreakSplit) {
+      checkString(winterBreakSplit, 'holidayId');
+      checkString(winterBreakSplit, 'splitPoint');
+      const splitDate = winterBreakSplit.record.splitDate;
+      if (typeof splitDate !== 'string' || !MONTH_DAY.test(splitDate)) {
+        fail(winterBreakSplit, 'splitDate', 'a month and day in MM-DD format');
+      }
+      checkString(winterBreakSplit, 'segment1Name');
+      checkString(winterBreakSplit, 'segment2Name');
+      checkOneOf(winterBreakSplit, 'segment1Assignment', ASSIGNMENT_TYPES);
+      checkOneOf(winterBreakSplit, 'segment2Assignment', ASSIGNMENT_TYPES);
+    }
+    const summerVacationConfig = checkObject(holidays, 'summerVacationConfig', true);
+    if (summerVacationConfig) {
+      checkString(summerVacationConfig, 'holidayId');
+      checkInteger(summerVacationConfig, 'weeksPerParent', 1, 13);
+      checkInteger(summerVacationConfig, 'blocksPerParent', 1, 13);
+      checkString(summerVacationConfig, 'selectionDeadline');
+      checkOneOf(summerVacationConfig, 'firstPickOddYears', PARENT_IDS);
+      checkInteger(summerVacationConfig, 'maxConsecutiveWeeks', 1, 13, true);
+    }
+    checkList(holidays, 'summerSelections', true, (entry) => {
+      checkInteger(entry, 'year', 1900, 2200);
+      checkList(entry, 'picks', false, (pick) => {
+        checkOneOf(pick, 'parent', PARENT_IDS);
+        checkDate(pick, 'startDate');
+        checkInteger(pick, 'weeks', 1, 52);
+      });
+    });
+    checkList(holidays, 'religiousHolidayConfigs', true, (entry) => {
+      checkString(entry, 'holidayId');
+      checkBoolean(entry, 'enabled');
+      checkOneOf(entry, 'assignment', ASSIGNMENT_TYPES);
+    });
+    checkList(holidays, 'customReligiousHolidays', true, (entry) => {
+      checkString(entry, 'id');
+      checkString(entry, 'name');
+      checkInteger(entry, 'duration', 1, 14);
+      // Start dates keyed by year, e.g. { "2025": "2025-12-14" }
+      const dates = entry.record.dates;
+      if (!isRecord(dates) || Object.entries(dates).some(([year, date]) => !/^\d{4}$/.test(year) || !isIsoDate(date))) {
+        fail(entry, 'dates', 'an object of start dates in YYYY-MM-DD format keyed by year');
+      }
+      checkOneOf(entry, 'assignment', ASSIGNMENT_TYPES);
+    });
+  }
+
+  const familyInfo = checkObject(root, 'familyInfo');
+  if (familyInfo) {
+    checkList(familyInfo, 'children', false, (child) => {
+      checkString(child, 'id');
+      checkString(child, 'name');
+      // Children may be added before their birthdate is known
+      if (child.record.birthdate !== '') checkDate(child, 'birthdate');
+      checkInteger(child, 'custodyEndAge', 1, 30);
+    });
+    checkDate(familyInfo, 'planStartDate');
+    checkDate(familyInfo, 'planEndDate', true);
+  }
+
+  const inServiceDays = state.inServiceDays;
+  if (inServiceDays !== undefined && (!Array.isArray(inServiceDays) || !inServiceDays.every(isIsoDate))) {
+    fail(root, 'inServiceDays', 'a list of dates in YYYY-MM-DD format');
+  }
+  const inServiceConfig = checkObject(root, 'inServiceConfig', true);
+  if (inServiceConfig) {
+    checkBoolean(inServiceConfig, 'enabled');
+    checkOneOf(inServiceConfig, 'attachmentRule', ATTACHMENT_RULES);
+  }
+  checkOneOf(root, 'schoolType', SCHOOL_TYPES, true);
+  checkList(root, 'trackBreaks', true, (entry) => {
+    checkString(entry, 'id');
+    checkString(entry, 'name');
+    checkDate(entry, 'startDate');
+    checkDate(entry, 'endDate');
+  });
+  checkInteger(root, 'trackVacationNoticeDeadline', 0, 365, true);
+  checkList(root, 'scheduleExceptions', true, (entry) => {
+    const before = errors.length;
+    checkString(entry, 'id');
+    checkDate(entry, 'startDate');
+    checkDate(entry, 'endDate');
+    checkOneOf(entry, 'parent', PARENT_IDS);
+    checkString(entry, 'reason');
+    if (errors.length === before) {
+      const result = validateScheduleException(entry.record as unknown as ScheduleException);
+      if (!result.valid) errors.push(`${entry.path}: ${result.reason ?? 'invalid exception'}`);
+    }
+  });
+  checkList(root, 'thirdPartyBlocks', true, (entry) => {
+    const before = errors.length;
+    checkString(entry, 'id');
+    checkString(entry, 'label');
+    const weekdays = entry.record.weekdays;
+    if (!Array.isArray(weekdays) || !weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      fail(entry, 'weekdays', 'a list of weekdays from 0 (Sunday) to 6 (Saturday)');
+    }
+    checkTime(entry, 'startTime');
+    checkTime(entry, 'endTime');
+    checkDate(entry, 'startDate', true);
+    checkDate(entry, 'endDate', true);
+    checkBoolean(entry, 'followsSchoolCalendar');
+    if (errors.length === before) {
+      const result = validateThirdPartyBlock(entry.record as unknown as ThirdPartyBlock);
+      if (!result.valid) errors.push(`${entry.path}: ${result.reason ?? 'invalid block'}`);
+    }
+  });
+  checkList(root, 'provisions', true, (entry) => {
+    checkString(entry, 'provisionId');
+    const values = checkObject(entry, 'values');
+    if (values) {
+      for (const key of Object.keys(values.record)) checkString(values, key);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Forward migrations, keyed by the version they upgrade from.
+ * Each returns the file in the next version's shape.
+ */
+const MIGRATIONS: Record<number, (file: UnknownRecord) => UnknownRecord> = {
+  // Version 1 saves predate family info and could lack the exchange time
+  1: (file) => {
+    const state = isRecord(file.state) ? file.state : {};
+    const config = isRecord(state.config) ? state.config : undefined;
+    return {
+      ...file,
+      version: 2,
+      state: {
+        ...state,
+        ...(config && { config: { exchangeTime: '18:00', ...config } }),
+        familyInfo: state.familyInfo ?? {
+          children: [],
+          planStartDate: config?.startDate,
+        },
+      },
+    };
+  },
+};
+
+/**
+ * Wrap a plan in a versioned export file.
+ *
+ * @param state - The plan to export
+ * @param exportedAt - Export timestamp (defaults to now)
+ */
+export function createPlanFile(state: AppState, exportedAt: string = new Date().toISOString()): PlanFile {
+  return {
+    format: PLAN_FILE_FORMAT,
+    version: PLAN_FILE_VERSION,
+    exportedAt,
+    state,
+  };
+}
+
+/**
+ * Serialize a plan to the text of an export file.
+ */
+export function serializePlanFile(state: AppState, exportedAt?: string): string {
+  return JSON.stringify(createPlanFile(state, exportedAt), null, 2);
+}
+
+/**
+ * Suggest a file name for an export (e.g., "custody-plan-2025-11-03.json").
+ */
+export function getPlanFileName(date: string): string {
+  return `custody-plan-${date}.json`;
+}
+
+/**
+ * Import parsed plan data: detect its version, migrate it forward and validate it.
+ *
+ * @param data - Parsed JSON from an export file (or a bare AppState)
+ * @returns The plan, or readable errors explaining why it cannot be used
+ */
+export function importPlanData(data: unknown): PlanImportResult {
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['The file does not contain a custody plan'] };
+  }
+
+  let file: UnknownRecord;
+  if (data.format === undefined && 'config' in data) {
+    file = { format: PLAN_FILE_FORMAT, version: 1, state: data };
+  } else if (data.format !== PLAN_FILE_FORMAT) {
+    return { valid: false, errors: ['This is not a custody plan file'] };
+  } else {
+    file = data;
+  }
+
+  const version = file.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { valid: false, errors: [`The file has an invalid format version (${describeValue(version)})`] };
+  }
+  if (version > PLAN_FILE_VERSION) {
+    return {
+      valid: false,
+      errors: [
+        `This file was saved by a newer version of the app (format version ${version}); ` +
+          `this version can open files up to format version ${PLAN_FILE_VERSION}`,
+      ],
+    };
+  }
+
+  for (let v = version; v < PLAN_FILE_VERSION; v++) {
+    file = MIGRATIONS[v](file);
+  }
+
+  const errors = validateAppState(file.state);
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return {
+    valid: true,
+    state: file.state as AppState,
+    ...(version < PLAN_FILE_VERSION && { migratedFrom: version }),
+  };
+}
+
+/**
+ * Import the text of an export file.
+ *
+ * @param text - File contents
+ * @returns The plan, or readable errors explaining why it cannot be used
+ */
+export function parsePlanFile(text: string): PlanImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { valid: false, errors: ['The file is not valid JSON'] };
+  }
+  return importPlanData(data);
+}
+
+/**
+ * Result of restoring the plan saved in localStorage.
+ */
+export interface StoredStateRestore {
+  /** The plan, or null when nothing usable is stored */
+  state: AppState | null;
+  /** Why a stored plan could not be used (empty when it was restored or nothing is stored) */
+  errors: string[];
+}
+
+/**
+ * Restore the plan saved in localStorage, checking it like an imported file
+ * so a corrupt or outdated save cannot break the app.
+ *
+ * @param stored - The parsed localStorage value
+ * @returns The plan, or the errors that kept a stored plan from being used
+ */
+export function restoreStoredState(stored: unknown): StoredStateRestore {
+  if (stored === null || stored === undefined) return { state: null, errors: [] };
+  const result = importPlanData(stored);
+  return result.valid ? { state: result.state, errors: [] } : { state: null, errors: result.errors };
+}
+
+/**
+ * Result of restoring the scenarios saved in localStorage.
+ */
+export interface StoredScenariosRestore {
+  /** The scenarios that could be restored, or null when nothing usable is stored */
+  store: ScenarioStore | null;
+  /** The stored scenarios that could not be used */
+  dropped: unknown[];
+  /** Why each dropped scenario could not be used */
+  errors: string[];
+}
+
+/**
+ * Restore the scenarios saved in localStorage. Each scenario's plan is checked
+ * (and migrated) like the saved plan, and scenarios that fail are dropped so
+ * switching to one cannot break the app. When the active scenario is dropped
+ * the store has no active scenario.
+ *
+ * @param stored - The parsed localStorage value
+ * @returns The usable scenarios, plus the dropped ones and why they failed
+ */
+export function restoreStoredScenarios(stored: unknown): StoredScenariosRestore {
+  if (stored === null || stored === undefined) return { store: null, dropped: [], errors: [] };
+  if (!isRecord(stored) || !Array.isArray(stored.scenarios)) {
+    return { store: null, dropped: [stored], errors: ['The saved scenarios are not a list of scenarios'] };
+  }
+
+  const scenarios: Scenario[] = [];
+  const dropped: unknown[] = [];
+  const errors: string[] = [];
+  stored.scenarios.forEach((scenario: unknown, index) => {
+    const label = isRecord(scenario) && typeof scenario.name === 'string' ? `Scenario "${scenario.name}"` : `Scenario ${index + 1}`;
+    if (
+      !isRecord(scenario) ||
+      typeof scenario.id !== 'string' ||
+      typeof scenario.name !== 'string' ||
+      typeof scenario.updatedAt !== 'string'
+    ) {
+      dropped.push(scenario);
+      errors.push(`${label} is missing its id, name or last-changed time`);
+      return;
+    }
+    const result = importPlanData(scenario.state);
+    if (!result.valid) {
+      dropped.push(scenario);
+      errors.push(...result.errors.map((error) => `${label}: ${error}`));
+      return;
+    }
+    scenarios.push({ id: scenario.id, name: scenario.name, state: result.state, updatedAt: scenario.updatedAt });
+  });
+
+  const activeScenarioId = scenarios.some((s) => s.id === stored.activeScenarioId)
+    ? (stored.activeScenarioId as string)
+    : null;
+  return { store: { scenarios, activeScenarioId }, dropped, errors };
+}
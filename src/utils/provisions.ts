@@ -0,0 +1,67 @@
+/**
+ * Parenting Plan Provisions
+ *
+ * Fills the {{variable}} placeholders of library provisions with the values
+ * the parents entered, and keeps the selected provisions in document order.
+ */
+
+import type { SelectedProvision } from '../types';
+import {
+  PROVISION_CATEGORIES,
+  getProvisionById,
+  type ProvisionDefinition,
+} from '../data/provisions';
+
+/** Matches a {{variable}} placeholder, allowing spaces inside the braces */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+/** Printed in place of a value that has not been filled in */
+export const BLANK_VALUE = '__________';
+
+/**
+ * Get the placeholder names in a provision text, in order of first use.
+ *
+ * @example
+ * ```typescript
+ * getPlaceholderNames('At {{place}} by {{time}}'); // ['place', 'time']
+ * ```
+ */
+export function getPlaceholderNames(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))];
+}
+
+/**
+ * Replace the placeholders in a provision text with their values.
+ * Missing or blank values print as a line to be filled in by hand.
+ */
+export function fillProvisionText(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name]?.trim() || BLANK_VALUE);
+}
+
+/**
+ * Get the variables of a selected provision that have no value yet.
+ *
+ * @returns Variable names, or an empty array when the provision is complete or unknown
+ */
+export function getMissingProvisionValues(selected: SelectedProvision): string[] {
+  const provision = getProvisionById(selected.provisionId);
+  if (!provision) return [];
+  return getPlaceholderNames(provision.text).filter((name) => !selected.values[name]?.trim());
+}
+
+/**
+ * Resolve selected provisions against the library and order them by category,
+ * keeping the order they were added within each category. Provisions that are
+ * no longer in the library are dropped.
+ */
+export function getOrderedProvisions(
+  selected: SelectedProvision[]
+): { provision: ProvisionDefinition; values: Record<string, string> }[] {
+  const resolved = selected.flatMap((entry) => {
+    const provision = getProvisionById(entry.provisionId);
+    return provision ? [{ provision, values: entry.values }] : [];
+  });
+  return PROVISION_CATEGORIES.flatMap((category) =>
+    resolved.filter(({ provision }) => provision.category === category.id)
+  );
+}
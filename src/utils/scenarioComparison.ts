@@ -0,0 +1,191 @@
+/**
+ * Scenario Comparison
+ *
+ * Compares two drafts of a plan over one year so parents can see what a
+ * change costs ("if I give you Christmas, what do I lose?"). Differences are
+ * reported from Parent A's side as second scenario minus first scenario: a
+ * positive number means Parent A gains time in the second scenario, and
+ * Parent B loses the same amount.
+ */
+
+import type { AppState } from '../types';
+import {
+  addDays,
+  calculateYearlyStats,
+  formatDateString,
+  getOwnerForDateComplete,
+  type YearlyStats,
+} from '../hooks/useCustodyEngine';
+
+/**
+ * Difference in Parent A's time for one month or one holiday.
+ */
+export interface ComparisonRow {
+  /** Month name (e.g., "Nov") or holiday or birthday name (e.g., "Thanksgiving") */
+  label: string;
+  /** Number of dates the row covers */
+  totalDays: number;
+  /** Parent A's days in the first scenario */
+  parentADaysA: number;
+  /** Parent A's days in the second scenario */
+  parentADaysB: number;
+  /** Change in Parent A's days (second minus first) */
+  daysDelta: number;
+  /** Change in Parent A's share of the year, in percentage points */
+  percentagePointsDelta: number;
+}
+
+/**
+ * Side-by-side comparison of two scenarios for one year.
+ */
+export interface ScenarioComparison {
+  /** Year compared */
+  year: number;
+  /** Yearly stats for the first scenario */
+  statsA: YearlyStats;
+  /** Yearly stats for the second scenario */
+  statsB: YearlyStats;
+  /** Change in Parent A's days for the year (second minus first) */
+  daysDelta: number;
+  /** Change in Parent A's yearly percentage under each scenario's calculation method */
+  percentagePointsDelta: number;
+  /** Differences per month, January through December */
+  monthly: ComparisonRow[];
+  /** Differences per holiday or birthday that falls in either scenario, in calendar order */
+  holidays: ComparisonRow[];
+}
+
+/**
+ * Round a percentage-point value to 2 decimal places.
+ */
+function roundPoints(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Resolve every date of a year under a scenario's plan.
+ */
+function resolveYear(state: AppState, year: number): ReturnType<typeof getOwnerForDateComplete>[] {
+  const results: ReturnType<typeof getOwnerForDateComplete>[] = [];
+  const lastDate = formatDateString(year, 11, 31);
+  for (let date = formatDateString(year, 0, 1); date <= lastDate; date = addDays(date, 1)) {
+    results.push(getOwnerForDateComplete(
+      date,
+      state.config,
+      state.holidays,
+      state.inServiceDays,
+      state.inServiceConfig,
+      state.trackBreaks,
+      state.schoolType,
+      state.scheduleExceptions
+    ));
+  }
+  return results;
+}
+
+/**
+ * Get the holiday or birthday that decided a date, if any.
+ */
+function getOverrideLabel(result: ReturnType<typeof getOwnerForDateComplete>): string | undefined {
+  if (result.isHolidayOverride) return result.holidayName;
+  if (result.isBirthdayOverride) return result.birthdayName;
+  return undefined;
+}
+
+/**
+ * Compare two scenarios over a year, in total, per month and per holiday.
+ *
+ * A holiday row covers every date that holiday (or birthday) decides in either
+ * scenario, so moving or reassigning a holiday shows up in one row.
+ *
+ * @param scenarioA - The first scenario's plan (the baseline)
+ * @param scenarioB - The second scenario's plan
+ * @param year - The year to compare
+ * @returns ScenarioComparison with totals, monthly rows and holiday rows
+ *
+ * @example
+ * ```typescript
+ * const comparison = compareScenarios(draftA.state, draftB.state, 2025);
+ * comparison.holidays.find((row) => row.label === 'Thanksgiving')?.daysDelta; // -5
+ * ```
+ */
+export function compareScenarios(
+  scenarioA: AppState,
+  scenarioB: AppState,
+  year: number
+): ScenarioComparison {
+  const statsA = calculateYearlyStats(
+    year,
+    scenarioA.config,
+    scenarioA.holidays,
+    scenarioA.inServiceDays,
+    scenarioA.inServiceConfig,
+    scenarioA.trackBreaks,
+    scenarioA.schoolType,
+    scenarioA.scheduleExceptions,
+    scenarioA.thirdPartyBlocks
+  );
+  const statsB = calculateYearlyStats(
+    year,
+    scenarioB.config,
+    scenarioB.holidays,
+    scenarioB.inServiceDays,
+    scenarioB.inServiceConfig,
+    scenarioB.trackBreaks,
+    scenarioB.schoolType,
+    scenarioB.scheduleExceptions,
+    scenarioB.thirdPartyBlocks
+  );
+
+  const daysInYear = statsA.parentA.days + statsA.parentB.days;
+  const toPoints = (days: number) => roundPoints((days / daysInYear) * 100);
+
+  const monthly = statsA.monthlyBreakdown.map((monthA, i): ComparisonRow => {
+    const monthB = statsB.monthlyBreakdown[i];
+    const daysDelta = monthB.parentADays - monthA.parentADays;
+    return {
+      label: monthA.month,
+      totalDays: monthA.parentADays + monthA.parentBDays,
+      parentADaysA: monthA.parentADays,
+      parentADaysB: monthB.parentADays,
+      daysDelta,
+      percentagePointsDelta: toPoints(daysDelta),
+    };
+  });
+
+  const resultsA = resolveYear(scenarioA, year);
+  const resultsB = resolveYear(scenarioB, year);
+  const holidayRows = new Map<string, ComparisonRow>();
+  resultsA.forEach((resultA, i) => {
+    const resultB = resultsB[i];
+    const label = getOverrideLabel(resultA) ?? getOverrideLabel(resultB);
+    if (!label) return;
+
+    const row = holidayRows.get(label) ?? {
+      label,
+      totalDays: 0,
+      parentADaysA: 0,
+      parentADaysB: 0,
+      daysDelta: 0,
+      percentagePointsDelta: 0,
+    };
+    row.totalDays++;
+    if (resultA.owner === 'parentA') row.parentADaysA++;
+    if (resultB.owner === 'parentA') row.parentADaysB++;
+    holidayRows.set(label, row);
+  });
+  const holidays = [...holidayRows.values()].map((row) => {
+    const daysDelta = row.parentADaysB - row.parentADaysA;
+    return { ...row, daysDelta, percentagePointsDelta: toPoints(daysDelta) };
+  });
+
+  return {
+    year,
+    statsA,
+    statsB,
+    daysDelta: statsB.parentA.days - statsA.parentA.days,
+    percentagePointsDelta: roundPoints(statsB.parentA.percentage - statsA.parentA.percentage),
+    monthly,
+    holidays,
+  };
+}
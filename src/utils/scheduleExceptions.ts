@@ -0,0 +1,41 @@
+/**
+ * Schedule Exceptions
+ *
+ * One-time changes to the schedule ("this Saturday goes to Parent B instead",
+ * "swap Thanksgiving this year only"). Each exception assigns a date range to
+ * one parent and records why; a swap is recorded as one exception per parent.
+ */
+
+import type { ScheduleException } from '../types';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate an exception before it is stored.
+ *
+ * @param exception - The proposed exception
+ * @returns Object with valid boolean and optional reason string
+ */
+export function validateScheduleException(
+  exception: ScheduleException
+): { valid: boolean; reason?: string } {
+  if (!ISO_DATE.test(exception.startDate) || !ISO_DATE.test(exception.endDate)) {
+    return { valid: false, reason: 'Choose a start and end date' };
+  }
+  if (exception.endDate < exception.startDate) {
+    return { valid: false, reason: 'End date must be on or after the start date' };
+  }
+  if (!exception.reason.trim()) {
+    return { valid: false, reason: 'Enter a reason for the exception' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Sort exceptions by start date for display.
+ */
+export function sortScheduleExceptions(exceptions: ScheduleException[]): ScheduleException[] {
+  return [...exceptions].sort((a, b) =>
+    a.startDate === b.startDate ? a.endDate.localeCompare(b.endDate) : a.startDate.localeCompare(b.startDate)
+  );
+}
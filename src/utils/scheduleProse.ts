@@ -0,0 +1,248 @@
+/**
+ * Schedule Prose Generator
+ *
+ * Describes the regular rotation (the pattern, start date, starting parent and
+ * exchange time) in court language, e.g. "The Father shall have the children
+ * every Monday and Tuesday." Patterns whose cycle is made of whole weeks are
+ * described by weekday; other cycles are described as a sequence of periods.
+ */
+
+import type { AppConfig, ParentId } from '../types';
+import { getPatternByType, isValidCustomPattern, type PatternParent } from '../data/patterns';
+import { addDays } from './holidayExpansion';
+
+/**
+ * How the parties are named in the prose.
+ */
+export interface ScheduleProseOptions {
+  /** How each parent is referred to mid-sentence (e.g., "the Father" or "Jane") */
+  parentNames: Record<ParentId, string>;
+  /** Exchange time as it should be printed (e.g., "6:00 PM") */
+  exchangeTime: string;
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth'];
+
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+/**
+ * Get the other parent ID.
+ */
+function getOtherParent(parent: ParentId): ParentId {
+  return parent === 'parentA' ? 'parentB' : 'parentA';
+}
+
+/**
+ * Capitalize the first letter of a sentence.
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Write a small count in words (e.g., "two"), falling back to digits.
+ */
+function countWord(count: number): string {
+  return NUMBER_WORDS[count] ?? String(count);
+}
+
+/**
+ * Join items as an English list (e.g., "A, B and C"), adding a serial comma
+ * when an item already contains "and".
+ */
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  const useSerialComma = items.some((item) => item.includes(' and '));
+  return `${items.slice(0, -1).join(', ')}${useSerialComma ? ', and ' : ' and '}${items[items.length - 1]}`;
+}
+
+/**
+ * Format a date in full (e.g., "Monday, January 6, 2025").
+ */
+function formatLongDate(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Get the day of the week of a date (0 = Sunday).
+ */
+function getWeekday(date: string): number {
+  return new Date(date + 'T00:00:00').getDay();
+}
+
+/**
+ * Describe a set of days within a week, given as offsets from the first day of
+ * the cycle (e.g., "Monday and Tuesday" or "Monday and Tuesday, and Friday through Sunday").
+ */
+function describeWeekdays(offsets: number[], firstWeekday: number): string {
+  const runs: number[][] = [];
+  for (const offset of [...offsets].sort((a, b) => a - b)) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === offset - 1) {
+      run.push(offset);
+    } else {
+      runs.push([offset]);
+    }
+  }
+
+  const name = (offset: number) => WEEKDAY_NAMES[(firstWeekday + offset) % 7];
+  const phrases = runs.map((run) => {
+    if (run.length === 1) return name(run[0]);
+    if (run.length === 2) return `${name(run[0])} and ${name(run[1])}`;
+    return `${name(run[0])} through ${name(run[run.length - 1])}`;
+  });
+  return joinList(phrases);
+}
+
+/**
+ * Describe a cycle made of whole weeks by weekday.
+ */
+function describeWeeklyCycle(
+  cycle: ParentId[],
+  config: AppConfig,
+  options: ScheduleProseOptions
+): string[] {
+  const { parentNames } = options;
+  const weeks = cycle.length / 7;
+  const firstWeekday = getWeekday(config.startDate);
+  const offsets = [0, 1, 2, 3, 4, 5, 6];
+  const ownerAt = (week: number, offset: number) => cycle[week * 7 + offset];
+
+  const fixedDays = (parent: ParentId) =>
+    offsets.filter((offset) => Array.from({ length: weeks }, (_, week) => ownerAt(week, offset)).every((p) => p === parent));
+  const everyWeek = (parent: ParentId, days: number[]) =>
+    days.length === 7
+      ? `${capitalize(parentNames[parent])} shall have the children at all times under the regular schedule.`
+      : `${capitalize(parentNames[parent])} shall have the children every ${describeWeekdays(days, firstWeekday)}.`;
+
+  const parents: ParentId[] = [config.startingParent, getOtherParent(config.startingParent)];
+  const fixed = parents.map((parent) => ({ parent, days: fixedDays(parent) }));
+  const sentences = fixed.filter(({ days }) => days.length > 0).map(({ parent, days }) => everyWeek(parent, days));
+  const rotating = offsets.filter((offset) => !fixed.some(({ days }) => days.includes(offset)));
+
+  if (rotating.length === 0) {
+    return sentences;
+  }
+
+  if (weeks === 2 && sentences.length > 0) {
+    // Days that are not fixed simply alternate from one week to the next
+    const groups: number[][] = [];
+    for (const offset of rotating) {
+      const group = groups[groups.length - 1];
+      const previous = group?.[group.length - 1];
+      if (group && previous === offset - 1 && ownerAt(0, previous) === ownerAt(0, offset)) {
+        group.push(offset);
+      } else {
+        groups.push([offset]);
+      }
+    }
+    for (const group of groups) {
+      const firstParent = ownerAt(0, group[0]);
+      sentences.push(
+        `${describeWeekdays(group, firstWeekday)} shall alternate between the parents each week, beginning with ${parentNames[firstParent]} on ${formatLongDate(addDays(config.startDate, group[0]))}.`
+      );
+    }
+    return sentences;
+  }
+
+  // Otherwise describe each week of the cycle in turn
+  const weekSentences = Array.from({ length: weeks }, (_, week) => {
+    const clauses = parents
+      .map((parent) => ({ parent, days: offsets.filter((offset) => ownerAt(week, offset) === parent) }))
+      .filter(({ days }) => days.length > 0)
+      .map(({ parent, days }) =>
+        days.length === 7
+          ? `${parentNames[parent]} shall have the children for the entire week`
+          : `${parentNames[parent]} shall have the children ${describeWeekdays(days, firstWeekday)}`
+      );
+    return `In the ${ORDINALS[week]} week of each cycle, ${joinList(clauses)}.`;
+  });
+
+  return [
+    `The regular schedule repeats every ${countWord(weeks)} weeks, beginning ${formatLongDate(config.startDate)}.`,
+    ...weekSentences,
+  ];
+}
+
+/**
+ * Describe a cycle that is not made of whole weeks as a sequence of periods.
+ */
+function describeDayCycle(cycle: ParentId[], config: AppConfig, options: ScheduleProseOptions): string[] {
+  const periods: { parent: ParentId; days: number }[] = [];
+  for (const parent of cycle) {
+    const period = periods[periods.length - 1];
+    if (period && period.parent === parent) {
+      period.days++;
+    } else {
+      periods.push({ parent, days: 1 });
+    }
+  }
+
+  const clauses = periods.map(({ parent, days }, i) =>
+    `${i === 0 ? '' : 'then '}${options.parentNames[parent]} for ${countWord(days)} ${days === 1 ? 'day' : 'days'}`
+  );
+  return [
+    `The regular schedule repeats every ${countWord(cycle.length)} days, beginning ${formatLongDate(config.startDate)}.`,
+    `In each cycle, the children shall be with ${clauses.join(', ')}.`,
+  ];
+}
+
+/**
+ * Describe the regular custody rotation in court language.
+ *
+ * @param config - The schedule configuration (pattern, start date, starting parent)
+ * @param options - How to name the parents and print the exchange time
+ * @returns Paragraphs describing the rotation, ending with the exchange rule
+ *
+ * @example
+ * ```typescript
+ * describeRegularSchedule(
+ *   { startDate: '2025-01-06', selectedPattern: '2-2-5-5', startingParent: 'parentA', exchangeTime: '18:00' },
+ *   { parentNames: { parentA: 'the Father', parentB: 'the Mother' }, exchangeTime: '6:00 PM' }
+ * );
+ * // ['The Father shall have the children every Monday and Tuesday. The Mother shall have ...', ...]
+ * ```
+ */
+export function describeRegularSchedule(config: AppConfig, options: ScheduleProseOptions): string[] {
+  const { parentNames, exchangeTime } = options;
+  const primary = config.startingParent;
+  const other = getOtherParent(primary);
+  const exchangeRule = `Exchanges under the regular schedule shall occur at ${exchangeTime} on the first day of each parent's custodial period.`;
+
+  const pattern = getPatternByType(config.selectedPattern);
+
+  if (pattern?.type === 'same-weekends-monthly') {
+    return [
+      [
+        `${capitalize(parentNames[primary])} shall have the children every Monday through Friday and on the second and fourth weekends of each month.`,
+        `${capitalize(parentNames[other])} shall have the children on the first, third and fifth weekends of each month.`,
+        'A weekend day falling on the 1st through 7th of the month is part of the first weekend, the 8th through 14th the second weekend, the 15th through 21st the third weekend, the 22nd through 28th the fourth weekend, and the 29th or later the fifth weekend.',
+      ].join(' '),
+      exchangeRule,
+    ];
+  }
+
+  let markers: PatternParent[] | undefined = pattern?.pattern;
+  if (pattern?.type === 'custom') {
+    markers = isValidCustomPattern(config.customPattern) ? config.customPattern : undefined;
+  }
+
+  const cycle = (markers ?? []).map((marker) => (marker === 'A' ? primary : other));
+  if (cycle.length === 0 || cycle.every((parent) => parent === primary)) {
+    return [
+      `${capitalize(parentNames[primary])} shall have the children at all times under the regular schedule. ${capitalize(parentNames[other])} shall have no regularly scheduled custodial time.`,
+    ];
+  }
+
+  const sentences = cycle.length % 7 === 0
+    ? describeWeeklyCycle(cycle, config, options)
+    : describeDayCycle(cycle, config, options);
+  return [sentences.join(' '), exchangeRule];
+}
@@ -0,0 +1,466 @@
+/**
+ * School District Calendar Import
+ *
+ * Reads a district's published calendar, as an iCalendar (.ics) file or a CSV
+ * export, and maps its events onto the plan: in-service days, track breaks for
+ * year-round schools, and the year's Spring Break, Winter Break and Summer
+ * Vacation dates (stored as per-year date overrides on the holiday config).
+ *
+ * Events are classified by their names, and the user reviews and corrects each
+ * category before anything is applied.
+ */
+
+import type { HolidayDateOverride, HolidayUserConfig, TrackBreak } from '../types';
+import { getHolidayById } from '../data/holidays';
+import { addDays } from './holidayExpansion';
+import { createHolidayDateOverride, setHolidayDateOverride } from './holidayDateOverrides';
+
+/**
+ * One event read from a district calendar.
+ */
+export interface SchoolCalendarEvent {
+  /** Event name (e.g., "Teacher Workday - No School") */
+  summary: string;
+  /** First date (YYYY-MM-DD) */
+  startDate: string;
+  /** Last date (YYYY-MM-DD), inclusive */
+  endDate: string;
+}
+
+/**
+ * What an imported event becomes in the plan.
+ * - 'in-service': every date of the event is an in-service day
+ * - 'track-break': a track break for year-round school
+ * - 'spring-break' / 'winter-break' / 'summer-vacation': that year's break dates
+ * - 'last-day-of-school': summer vacation starts the next day
+ * - 'first-day-of-school': summer vacation ends the day before
+ * - 'ignore': not imported
+ */
+export type SchoolEventCategory =
+  | 'in-service'
+  | 'track-break'
+  | 'spring-break'
+  | 'winter-break'
+  | 'summer-vacation'
+  | 'last-day-of-school'
+  | 'first-day-of-school'
+  | 'ignore';
+
+/**
+ * Category choices in the order the review step lists them.
+ */
+export const SCHOOL_EVENT_CATEGORIES: { id: SchoolEventCategory; label: string }[] = [
+  { id: 'in-service', label: 'In-service day' },
+  { id: 'track-break', label: 'Track break' },
+  { id: 'spring-break', label: 'Spring Break' },
+  { id: 'winter-break', label: 'Winter Break' },
+  { id: 'summer-vacation', label: 'Summer Vacation' },
+  { id: 'last-day-of-school', label: 'Last day of school' },
+  { id: 'first-day-of-school', label: 'First day of school' },
+  { id: 'ignore', label: "Don't import" },
+];
+
+/**
+ * An event in the review step, with the category it will be imported as.
+ */
+export interface SchoolCalendarImportItem {
+  /** Row identifier */
+  id: string;
+  /** The event read from the file */
+  event: SchoolCalendarEvent;
+  /** What the event becomes; starts as the suggested category */
+  category: SchoolEventCategory;
+}
+
+/**
+ * Result of reading a district calendar file.
+ */
+export interface SchoolCalendarParseResult {
+  /** Events read from the file, in date order */
+  events: SchoolCalendarEvent[];
+  /** Readable problems with entries that were skipped */
+  errors: string[];
+}
+
+/**
+ * The plan settings a district calendar import changes.
+ */
+export interface SchoolCalendarChanges {
+  inServiceDays: string[];
+  trackBreaks: TrackBreak[];
+  holidayConfigs: HolidayUserConfig[];
+}
+
+/**
+ * Name patterns used to suggest a category, checked in order.
+ * Track breaks come first so "Track B Winter Intersession" is not read as Winter Break.
+ */
+const CATEGORY_PATTERNS: { category: SchoolEventCategory; pattern: RegExp }[] = [
+  { category: 'track-break', pattern: /\btrack\b.*\b(break|out|off)\b|intersession|off[- ]track/i },
+  { category: 'winter-break', pattern: /winter (break|recess|vacation)|holiday break|christmas (break|vacation)/i },
+  { category: 'spring-break', pattern: /spring (break|recess|vacation)/i },
+  { category: 'summer-vacation', pattern: /summer (break|recess|vacation)/i },
+  { category: 'last-day-of-school', pattern: /last day (of|for) (school|students)/i },
+  { category: 'first-day-of-school', pattern: /first day (of|for) (school|students)/i },
+  {
+    category: 'in-service',
+    pattern: /in-?service|teacher (work|planning|prep)|professional (development|learning)|staff development|non-student|pupil[- ]free|staff day/i,
+  },
+];
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+/**
+ * Suggest a category for an event from its name.
+ */
+export function classifySchoolEvent(event: SchoolCalendarEvent): SchoolEventCategory {
+  return CATEGORY_PATTERNS.find(({ pattern }) => pattern.test(event.summary))?.category ?? 'ignore';
+}
+
+/**
+ * Check that a year, month and day form a real date, returning it as YYYY-MM-DD.
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Read a CSV date written as YYYY-MM-DD or M/D/YYYY.
+ */
+function parseCsvDate(text: string): string | null {
+  const iso = ISO_DATE.exec(text);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  const us = US_DATE.exec(text);
+  if (us) return toIsoDate(Number(us[3]), Number(us[1]), Number(us[2]));
+  return null;
+}
+
+/**
+ * Read an iCalendar DATE or DATE-TIME value (e.g., "20251124" or "20251124T080000Z").
+ * Only the calendar date is kept.
+ */
+function parseIcsDate(value: string): { date: string; isMidnight: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{6})Z?)?$/.exec(value.trim());
+  if (!match) return null;
+  const date = toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  return date ? { date, isMidnight: !match[4] || match[4] === '000000' } : null;
+}
+
+/**
+ * Undo iCalendar text escaping.
+ */
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\[nN]/g, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * Sort events by date, then by name.
+ */
+function sortEvents(events: SchoolCalendarEvent[]): SchoolCalendarEvent[] {
+  return [...events].sort((a, b) =>
+    a.startDate === b.startDate ? a.summary.localeCompare(b.summary) : a.startDate.localeCompare(b.startDate)
+  );
+}
+
+/**
+ * Read the events of an iCalendar (.ics) file.
+ * All-day events end the day before DTEND, as RFC 5545 makes DTEND exclusive.
+ *
+ * @param text - The file contents
+ */
+export function parseIcsCalendar(text: string): SchoolCalendarParseResult {
+  // Unfold continuation lines (a line break followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: SchoolCalendarEvent[] = [];
+  const errors: string[] = [];
+
+  let properties: Record<string, string> | null = null;
+  let eventNumber = 0;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      properties = {};
+      eventNumber++;
+      continue;
+    }
+    if (!properties) continue;
+
+    if (line === 'END:VEVENT') {
+      const summary = unescapeIcsText(properties.SUMMARY ?? '');
+      const start = parseIcsDate(properties.DTSTART ?? '');
+      const end = properties.DTEND ? parseIcsDate(properties.DTEND) : null;
+
+      if (!summary) {
+        errors.push(`Event ${eventNumber} has no name`);
+      } else if (!start) {
+        errors.push(`"${summary}" has no readable start date`);
+      } else {
+        // An end at midnight belongs to the day before
+        let endDate = end ? (end.isMidnight ? addDays(end.date, -1) : end.date) : start.date;
+        if (endDate < start.date) endDate = start.date;
+        events.push({ summary, startDate: start.date, endDate });
+      }
+      properties = null;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    if (!(name in properties)) {
+      properties[name] = line.slice(separator + 1);
+    }
+  }
+
+  if (eventNumber === 0) {
+    errors.push('The file has no calendar events');
+  }
+  return { events: sortEvents(events), errors };
+}
+
+/**
+ * Split CSV text into rows of fields, honoring quoted fields.
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Read the events of a CSV calendar export. The first row must name the
+ * columns: an event name ("Event", "Name", "Title", "Summary" or "Description"),
+ * a date ("Date" or "Start Date") and optionally an end date ("End Date").
+ *
+ * @param text - The file contents
+ */
+export function parseCsvCalendar(text: string): SchoolCalendarParseResult {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const nameColumn = columns.findIndex((name) => /^(event|name|title|summary|description|subject)/.test(name));
+  const startColumn = columns.findIndex((name) => name === 'date' || /^start/.test(name));
+  const endColumn = columns.findIndex((name) => /^end/.test(name));
+
+  if (nameColumn === -1 || startColumn === -1) {
+    return {
+      events: [],
+      errors: ['The first row must name an event column and a date (or start date) column'],
+    };
+  }
+
+  const events: SchoolCalendarEvent[] = [];
+  const errors: string[] = [];
+  rows.forEach((fields, i) => {
+    const rowNumber = i + 2;
+    const summary = (fields[nameColumn] ?? '').trim();
+    const startText = (fields[startColumn] ?? '').trim();
+    const endText = endColumn === -1 ? '' : (fields[endColumn] ?? '').trim();
+    const startDate = parseCsvDate(startText);
+    const endDate = endText ? parseCsvDate(endText) : startDate;
+
+    if (!summary) {
+      errors.push(`Row ${rowNumber} has no event name`);
+    } else if (!startDate) {
+      errors.push(`Row ${rowNumber}: could not read the date "${startText}"`);
+    } else if (!endDate) {
+      errors.push(`Row ${rowNumber}: could not read the end date "${endText}"`);
+    } else if (endDate < startDate) {
+      errors.push(`Row ${rowNumber}: the end date is before the start date`);
+    } else {
+      events.push({ summary, startDate, endDate });
+    }
+  });
+
+  return { events: sortEvents(events), errors };
+}
+
+/**
+ * Read a district calendar file, choosing the format from its contents.
+ *
+ * @param text - The file contents
+ */
+export function parseSchoolCalendarFile(text: string): SchoolCalendarParseResult {
+  return /^\s*BEGIN:VCALENDAR/i.test(text) ? parseIcsCalendar(text) : parseCsvCalendar(text);
+}
+
+/**
+ * Build the review rows for imported events, each with a suggested category.
+ */
+export function createSchoolCalendarImportItems(events: SchoolCalendarEvent[]): SchoolCalendarImportItem[] {
+  return events.map((event, i) => ({ id: `event-${i}`, event, category: classifySchoolEvent(event) }));
+}
+
+/**
+ * List every date from start to end, inclusive.
+ */
+function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Get the break dates each item sets, by holiday ID. Summer Vacation can also
+ * run from the day after the last day of school to the day before the first
+ * day of the next school year; an explicit summer event takes precedence.
+ */
+function getBreakOverrides(items: SchoolCalendarImportItem[]): Map<string, HolidayDateOverride[]> {
+  const overrides = new Map<string, HolidayDateOverride[]>();
+  const add = (holidayId: string, startDate: string, endDate: string) => {
+    overrides.set(holidayId, setHolidayDateOverride(overrides.get(holidayId), createHolidayDateOverride(startDate, endDate)));
+  };
+
+  const schoolStarts = items
+    .filter((item) => item.category === 'first-day-of-school')
+    .map((item) => item.event.startDate)
+    .sort();
+  for (const item of items) {
+    if (item.category !== 'last-day-of-school') continue;
+    const summerStart = addDays(item.event.endDate, 1);
+    const nextStart = schoolStarts.find((date) => date > summerStart);
+    if (nextStart && nextStart.slice(0, 4) === summerStart.slice(0, 4)) {
+      add('summer-vacation', summerStart, addDays(nextStart, -1));
+    }
+  }
+
+  for (const item of items) {
+    if (item.category === 'spring-break' || item.category === 'winter-break' || item.category === 'summer-vacation') {
+      add(item.category, item.event.startDate, item.event.endDate);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Describe what applying the reviewed items will change, one line per kind.
+ */
+export function summarizeSchoolCalendarImport(items: SchoolCalendarImportItem[]): string[] {
+  const lines: string[] = [];
+  const inServiceDays = new Set(
+    items
+      .filter((item) => item.category === 'in-service')
+      .flatMap((item) => getDatesInRange(item.event.startDate, item.event.endDate))
+  );
+  if (inServiceDays.size > 0) {
+    lines.push(`${inServiceDays.size} in-service day${inServiceDays.size === 1 ? '' : 's'}`);
+  }
+  const trackBreaks = items.filter((item) => item.category === 'track-break').length;
+  if (trackBreaks > 0) {
+    lines.push(`${trackBreaks} track break${trackBreaks === 1 ? '' : 's'}`);
+  }
+  for (const [holidayId, overrides] of getBreakOverrides(items)) {
+    const name = getHolidayById(holidayId)?.name ?? holidayId;
+    lines.push(`${name} dates for ${overrides.map((override) => override.year).join(', ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Apply reviewed items to the plan's school calendar settings.
+ *
+ * In-service days are added to the existing ones, track breaks are added unless
+ * one with the same dates exists, and break dates replace any earlier override
+ * for the same holiday and year.
+ *
+ * @param items - The reviewed import rows
+ * @param current - The plan's current settings (not modified)
+ * @returns The updated settings
+ */
+export function applySchoolCalendarImport(
+  items: SchoolCalendarImportItem[],
+  current: SchoolCalendarChanges
+): SchoolCalendarChanges {
+  const inServiceDays = new Set(current.inServiceDays);
+  const trackBreaks = [...current.trackBreaks];
+
+  for (const { event, category } of items) {
+    if (category === 'in-service') {
+      getDatesInRange(event.startDate, event.endDate).forEach((date) => inServiceDays.add(date));
+    } else if (category === 'track-break') {
+      const exists = trackBreaks.some(
+        (trackBreak) => trackBreak.startDate === event.startDate && trackBreak.endDate === event.endDate
+      );
+      if (!exists) {
+        trackBreaks.push({
+          id: `track-break-${event.startDate}`,
+          name: event.summary,
+          startDate: event.startDate,
+          endDate: event.endDate,
+        });
+      }
+    }
+  }
+
+  let holidayConfigs = current.holidayConfigs;
+  for (const [holidayId, overrides] of getBreakOverrides(items)) {
+    const existing = holidayConfigs.find((config) => config.holidayId === holidayId);
+    if (existing) {
+      const dateOverrides = overrides.reduce(setHolidayDateOverride, existing.dateOverrides ?? []);
+      holidayConfigs = holidayConfigs.map((config) =>
+        config.holidayId === holidayId ? { ...config, dateOverrides } : config
+      );
+      continue;
+    }
+
+    const definition = getHolidayById(holidayId);
+    if (definition) {
+      holidayConfigs = [
+        ...holidayConfigs,
+        {
+          holidayId,
+          enabled: true,
+          assignment: definition.defaultAssignment,
+          dateOverrides: overrides,
+        },
+      ];
+    }
+  }
+
+  return {
+    inServiceDays: [...inServiceDays].sort(),
+    trackBreaks: trackBreaks.sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    holidayConfigs,
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * Summer Vacation Selection
+ *
+ * Parents take turns picking blocks of summer vacation weeks. The first pick
+ * alternates by year (SelectionPriorityConfig.firstPickOddYears picks first in
+ * odd years), each parent may pick up to `blocksPerParent` blocks totalling
+ * `weeksPerParent` weeks, and no run of consecutive weeks may exceed
+ * `maxConsecutiveWeeks`. Picks must be made on or before the selection deadline.
+ *
+ * Summer weeks are consecutive 7-day blocks starting on the first day of the
+ * Summer Vacation window (June 1 by default, or the year's date override); a
+ * trailing partial week is not pickable.
+ */
+
+import type { ParentId } from '../types';
+import type {
+  HolidayDateOverride,
+  HolidayUserConfig,
+  SelectionPriorityConfig,
+  SummerVacationPick,
+  SummerVacationSelection,
+} from '../types/holidays';
+import { getHolidayById, getHolidayDates } from '../data/holidays';
+import { addDays } from './holidayExpansion';
+
+/**
+ * A pickable summer week.
+ */
+export interface SummerWeek {
+  /** Zero-based week index within the summer */
+  index: number;
+  /** First day of the week (YYYY-MM-DD) */
+  startDate: string;
+  /** Last day of the week (YYYY-MM-DD) */
+  endDate: string;
+}
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+function formatDisplayDate(dateStr: string): string {
+  const date = new Date(dateStr + 'T00:00:00');
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Get the pickable summer weeks for a year.
+ *
+ * @param year - Summer year
+ * @param dateOverrides - Optional per-year Summer Vacation dates from the holiday config
+ */
+export function getSummerWeeks(year: number, dateOverrides?: HolidayDateOverride[]): SummerWeek[] {
+  const summer = getHolidayById('summer-vacation');
+  if (!summer) return [];
+
+  const dates = getHolidayDates(summer, year, dateOverrides);
+  const weeks: SummerWeek[] = [];
+  for (let i = 0; i + 7 <= dates.length; i += 7) {
+    weeks.push({ index: weeks.length, startDate: dates[i], endDate: dates[i + 6] });
+  }
+  return weeks;
+}
+
+/**
+ * Get the parent who picks first in a given year.
+ */
+export function getFirstPicker(config: SelectionPriorityConfig, year: number): ParentId {
+  if (year % 2 === 1) return config.firstPickOddYears;
+  return config.firstPickOddYears === 'parentA' ? 'parentB' : 'parentA';
+}
+
+/**
+ * Get the recorded selection for a year, if any.
+ */
+export function getSelectionForYear(
+  selections: SummerVacationSelection[] | undefined,
+  year: number
+): SummerVacationSelection | undefined {
+  return selections?.find((s) => s.year === year);
+}
+
+/**
+ * Parse the selection deadline into an ISO date for a year.
+ * Accepts "YYYY-MM-DD", "MM-DD", "MM/DD" and "Month Day" (e.g. "April 1").
+ * Returns null when the deadline cannot be parsed, in which case it is not enforced.
+ */
+export function getSelectionDeadlineDate(deadline: string, year: number): string | null {
+  const trimmed = deadline.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return trimmed;
+  }
+
+  let month: number | undefined;
+  let day: number | undefined;
+
+  const numeric = trimmed.match(/^(\d{1,2})[-/](\d{1,2})$/);
+  if (numeric) {
+    month = parseInt(numeric[1], 10);
+    day = parseInt(numeric[2], 10);
+  } else {
+    // Month names may be abbreviated to three or more letters ("Apr 1", "April 1st")
+    const named = trimmed.match(/^([a-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?$/i);
+    if (named) {
+      const index = MONTH_NAMES.findIndex((m) => m.startsWith(named[1].toLowerCase()));
+      if (index >= 0) {
+        month = index + 1;
+        day = parseInt(named[2], 10);
+      }
+    }
+  }
+
+  if (!month || !day || month > 12 || day < 1 || day > new Date(year, month, 0).getDate()) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Get the last day covered by a pick (YYYY-MM-DD).
+ */
+export function getPickEndDate(pick: SummerVacationPick): string {
+  return addDays(pick.startDate, pick.weeks * 7 - 1);
+}
+
+/**
+ * Get the number of picks and weeks a parent has used.
+ */
+function getParentUsage(picks: SummerVacationPick[], parent: ParentId): { blocks: number; weeks: number } {
+  const own = picks.filter((p) => p.parent === parent);
+  return { blocks: own.length, weeks: own.reduce((sum, p) => sum + p.weeks, 0) };
+}
+
+function hasPicksLeft(picks: SummerVacationPick[], parent: ParentId, config: SelectionPriorityConfig): boolean {
+  const usage = getParentUsage(picks, parent);
+  return usage.blocks < config.blocksPerParent && usage.weeks < config.weeksPerParent;
+}
+
+/**
+ * Get the parent whose turn it is to pick, or null when both parents are done.
+ * Parents alternate starting with the year's first picker; a parent with no
+ * blocks or weeks left is skipped.
+ */
+export function getNextPicker(
+  config: SelectionPriorityConfig,
+  picks: SummerVacationPick[],
+  year: number
+): ParentId | null {
+  const first = getFirstPicker(config, year);
+  const second: ParentId = first === 'parentA' ? 'parentB' : 'parentA';
+  const order = getParentUsage(picks, first).blocks <= getParentUsage(picks, second).blocks
+    ? [first, second]
+    : [second, first];
+  return order.find((parent) => hasPicksLeft(picks, parent, config)) ?? null;
+}
+
+/**
+ * Get the length of the run of consecutive weeks a pick would create for its parent,
+ * including the parent's existing blocks that touch it.
+ */
+function getConsecutiveWeeks(pick: SummerVacationPick, picks: SummerVacationPick[]): number {
+  const own = picks.filter((p) => p.parent === pick.parent);
+  let total = pick.weeks;
+
+  const endsBefore = (date: string) => own.find((p) => addDays(getPickEndDate(p), 1) === date);
+  const startsAfter = (date: string) => own.find((p) => p.startDate === addDays(date, 1));
+
+  let before = endsBefore(pick.startDate);
+  while (before) {
+    total += before.weeks;
+    before = endsBefore(before.startDate);
+  }
+
+  let after = startsAfter(getPickEndDate(pick));
+  while (after) {
+    total += after.weeks;
+    after = startsAfter(getPickEndDate(after));
+  }
+
+  return total;
+}
+
+/**
+ * Validate whether a parent can make a pick.
+ *
+ * @param pick - The proposed pick
+ * @param picks - Picks already made this year, in order
+ * @param config - Summer vacation selection configuration
+ * @param year - Summer year
+ * @param parentNames - Optional custom parent names for error messages
+ * @param dateOverrides - Optional per-year Summer Vacation dates from the holiday config
+ * @returns Object with valid boolean and optional reason string
+ */
+export function canPickSummerWeeks(
+  pick: SummerVacationPick,
+  picks: SummerVacationPick[],
+  config: SelectionPriorityConfig,
+  year: number,
+  parentNames?: { parentA: string; parentB: string },
+  dateOverrides?: HolidayDateOverride[]
+): { valid: boolean; reason?: string } {
+  const nameOf = (parent: ParentId) => parent === 'parentA'
+    ? (parentNames?.parentA ?? 'Parent A')
+    : (parentNames?.parentB ?? 'Parent B');
+
+  const deadline = getSelectionDeadlineDate(config.selectionDeadline, year);
+  if (deadline && pick.pickedOn > deadline) {
+    return { valid: false, reason: `Selection deadline (${formatDisplayDate(deadline)}) has passed` };
+  }
+
+  const nextPicker = getNextPicker(config, picks, year);
+  if (!nextPicker) {
+    return { valid: false, reason: 'All summer vacation picks have been made' };
+  }
+  if (nextPicker !== pick.parent) {
+    return { valid: false, reason: `It is ${nameOf(nextPicker)}'s turn to pick` };
+  }
+
+  if (!Number.isInteger(pick.weeks) || pick.weeks < 1) {
+    return { valid: false, reason: 'Pick at least one week' };
+  }
+
+  const weeks = getSummerWeeks(year, dateOverrides);
+  const first = weeks.find((w) => w.startDate === pick.startDate);
+  if (!first || first.index + pick.weeks > weeks.length) {
+    return { valid: false, reason: 'Picked weeks must fall within the summer vacation weeks' };
+  }
+
+  const usage = getParentUsage(picks, pick.parent);
+  const weeksLeft = config.weeksPerParent - usage.weeks;
+  if (pick.weeks > weeksLeft) {
+    return { valid: false, reason: `${nameOf(pick.parent)} has only ${weeksLeft} week${weeksLeft === 1 ? '' : 's'} left` };
+  }
+
+  if (config.maxConsecutiveWeeks && getConsecutiveWeeks(pick, picks) > config.maxConsecutiveWeeks) {
+    return { valid: false, reason: `No more than ${config.maxConsecutiveWeeks} consecutive weeks allowed` };
+  }
+
+  const pickEnd = getPickEndDate(pick);
+  const overlapping = picks.find((p) => p.startDate <= pickEnd && getPickEndDate(p) >= pick.startDate);
+  if (overlapping) {
+    return { valid: false, reason: `Overlaps weeks already picked by ${nameOf(overlapping.parent)}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Whether summer picks decide custody: Summer Vacation must be enabled and
+ * assigned by selection priority. Picks made before either was turned off are
+ * kept but ignored.
+ */
+export function isSummerSelectionActive(holidayConfigs: HolidayUserConfig[] | undefined): boolean {
+  const summer = holidayConfigs?.find((config) => config.holidayId === 'summer-vacation');
+  return summer?.enabled === true && summer.assignment === 'selection-priority';
+}
+
+/**
+ * Get the summer vacation pick covering a date, or null if none does.
+ */
+export function getSummerPickForDate(
+  date: string,
+  selections: SummerVacationSelection[] | undefined
+): SummerVacationPick | null {
+  const year = parseInt(date.split('-')[0], 10);
+  const selection = getSelectionForYear(selections, year);
+  if (!selection) return null;
+
+  return selection.picks.find((p) => date >= p.startDate && date <= getPickEndDate(p)) ?? null;
+}
+
+/**
+ * Append a pick to a year's selection, creating the selection if needed.
+ */
+export function addSummerPick(
+  selections: SummerVacationSelection[] | undefined,
+  year: number,
+  pick: SummerVacationPick
+): SummerVacationSelection[] {
+  const existing = selections ?? [];
+  if (!getSelectionForYear(existing, year)) {
+    return [...existing, { year, picks: [pick] }];
+  }
+  return existing.map((s) => (s.year === year ? { ...s, picks: [...s.picks, pick] } : s));
+}
+
+/**
+ * Remove the most recent pick for a year. Picks are undone in reverse order so
+ * the draft order stays valid.
+ */
+export function removeLastSummerPick(
+  selections: SummerVacationSelection[] | undefined,
+  year: number
+): SummerVacationSelection[] {
+  return (selections ?? []).map((s) =>
+    s.year === year ? { ...s, picks: s.picks.slice(0, -1) } : s
+  );
+}
@@ -0,0 +1,275 @@
+/**
+ * Court Template Application
+ *
+ * Maps a court template onto the plan: the regular pattern and exchange time,
+ * each holiday's assignment, odd-year parent, exchange time and expansion
+ * rule, the summer selection rules and split breaks. Anything the plan cannot
+ * represent is listed as unmapped so the user can set it by hand. Descriptive
+ * text (names, notes, timing and split descriptions) is shown from the template
+ * and is not reported.
+ */
+
+import type {
+  AppConfig,
+  CourtTemplate,
+  HolidayUserConfig,
+  MajorBreakConfig,
+  SelectionPriorityConfig,
+  SplitPeriodConfig,
+} from '../types';
+import {
+  createDefaultHolidayConfigs,
+  getHolidayById,
+  DEFAULT_SUMMER_VACATION_CONFIG,
+  DEFAULT_WINTER_BREAK_SPLIT,
+} from '../data/holidays';
+
+/**
+ * A template field that could not be applied to the plan.
+ */
+export interface UnmappedTemplateField {
+  /** Path of the field in the template (e.g., "majorBreaks[2]" or "holidays[0].oddYearParent") */
+  field: string;
+  /** Why the field was not applied */
+  reason: string;
+}
+
+/**
+ * Plan settings produced from a court template.
+ */
+export interface TemplateApplication {
+  /** Regular schedule settings */
+  config: Pick<AppConfig, 'selectedPattern' | 'exchangeTime'>;
+  /** Holiday settings, over the default holiday calendar */
+  holidays: {
+    holidayConfigs: HolidayUserConfig[];
+    winterBreakSplit: SplitPeriodConfig;
+    summerVacationConfig: SelectionPriorityConfig;
+  };
+  /** Template fields that could not be applied, in template order */
+  unmapped: UnmappedTemplateField[];
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Read the month and day of a split date written as "December 26",
+ * "December 26 at 12:00 PM", "Dec 26" or "12-26".
+ *
+ * @returns The date as MM-DD, or null when it cannot be read
+ */
+export function parseSplitDate(splitDate: string): string | null {
+  const text = splitDate.trim();
+  const numeric = /^(\d{1,2})-(\d{1,2})$/.exec(text);
+  const named = /^([A-Za-z]+)\.?\s+(\d{1,2})\b/.exec(text);
+
+  let month = 0;
+  let day = 0;
+  if (numeric) {
+    month = parseInt(numeric[1], 10);
+    day = parseInt(numeric[2], 10);
+  } else if (named && named[1].length >= 3) {
+    const prefix = named[1].toLowerCase();
+    month = MONTH_NAMES.findIndex((name) => name.toLowerCase().startsWith(prefix)) + 1;
+    day = parseInt(named[2], 10);
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Format a month and day for a report (e.g., "March 15").
+ */
+function formatMonthDay(month: number, day: number): string {
+  return `${MONTH_NAMES[month - 1] ?? `Month ${month}`} ${day}`;
+}
+
+/**
+ * Compare a major break's dates with the holiday calendar.
+ *
+ * @returns A report reason when they differ, or null when they match
+ */
+function describeDateDifference(majorBreak: MajorBreakConfig): string | null {
+  const calculation = getHolidayById(majorBreak.breakId)?.dateCalculation;
+  if (!calculation || calculation.type !== 'date-range') {
+    return `Dates are calculated by the holiday calendar; the template's ${formatMonthDay(majorBreak.startMonth, majorBreak.startDay)} – ${formatMonthDay(majorBreak.endMonth, majorBreak.endDay)} is not used`;
+  }
+  if (
+    calculation.startMonth === majorBreak.startMonth &&
+    calculation.startDay === majorBreak.startDay &&
+    calculation.endMonth === majorBreak.endMonth &&
+    calculation.endDay === majorBreak.endDay
+  ) {
+    return null;
+  }
+  return `Dates ${formatMonthDay(majorBreak.startMonth, majorBreak.startDay)} – ${formatMonthDay(majorBreak.endMonth, majorBreak.endDay)} differ from the holiday calendar (${formatMonthDay(calculation.startMonth, calculation.startDay)} – ${formatMonthDay(calculation.endMonth, calculation.endDay)}); the calendar dates are used`;
+}
+
+/**
+ * Apply a court template to the plan settings.
+ *
+ * Holidays the template does not mention keep their calendar defaults. The
+ * Summer Vacation break with weeksPerParent becomes the summer selection rules;
+ * week selection on other breaks is reported. A split break becomes the winter
+ * break split or the holiday's own split configuration, and a holiday assigned
+ * a split or week selection the calendar cannot run alternates by year instead.
+ *
+ * @param template - The court template to apply
+ * @returns The plan settings and the template fields that could not be applied
+ *
+ * @example
+ * ```typescript
+ * const { config, holidays, unmapped } = applyCourtTemplate(NEVADA_8TH_DISTRICT_TEMPLATE);
+ * // unmapped: [{ field: 'holidays[0]', reason: '"new-years-day" is not in the holiday calendar' }, ...]
+ * ```
+ */
+export function applyCourtTemplate(template: CourtTemplate): TemplateApplication {
+  const unmapped: UnmappedTemplateField[] = [];
+  const configs = new Map(createDefaultHolidayConfigs().map((config) => [config.holidayId, config]));
+  let winterBreakSplit = DEFAULT_WINTER_BREAK_SPLIT;
+  let summerVacationConfig = DEFAULT_SUMMER_VACATION_CONFIG;
+  let selectionBreakId: string | null = null;
+
+  // Breaks the template splits at a date the plan can use; Winter Break always has a split
+  const splitBreakIds = new Set([
+    DEFAULT_WINTER_BREAK_SPLIT.holidayId,
+    ...template.majorBreaks
+      .filter((majorBreak) => majorBreak.isSplit && majorBreak.splitDate && parseSplitDate(majorBreak.splitDate))
+      .map((majorBreak) => majorBreak.breakId),
+  ]);
+
+  template.holidays.forEach((holiday, i) => {
+    const config = configs.get(holiday.holidayId);
+    if (!config) {
+      unmapped.push({ field: `holidays[${i}]`, reason: `"${holiday.holidayId}" is not in the holiday calendar` });
+      return;
+    }
+
+    // The calendar only runs week selection for Summer Vacation and only splits
+    // breaks with a split date; otherwise the holiday alternates by year
+    let assignment = holiday.assignment;
+    if (assignment === 'selection-priority' && holiday.holidayId !== DEFAULT_SUMMER_VACATION_CONFIG.holidayId) {
+      unmapped.push({
+        field: `holidays[${i}].assignment`,
+        reason: 'Week selection is only supported for Summer Vacation; the holiday alternates by year instead',
+      });
+      assignment = 'alternate-odd-even';
+    } else if (assignment === 'split-period' && !splitBreakIds.has(holiday.holidayId)) {
+      unmapped.push({
+        field: `holidays[${i}].assignment`,
+        reason: 'A split needs a major break with a readable splitDate; the holiday alternates by year instead',
+      });
+      assignment = 'alternate-odd-even';
+    }
+
+    const usesOddYears = assignment === 'alternate-odd-even' || assignment === 'split-period';
+    if (holiday.oddYearParent && !usesOddYears) {
+      unmapped.push({
+        field: `holidays[${i}].oddYearParent`,
+        reason: `Only used when the holiday alternates by year, not with "${holiday.assignment}"`,
+      });
+    }
+
+    configs.set(holiday.holidayId, {
+      ...config,
+      enabled: holiday.enabled ?? true,
+      assignment,
+      ...(holiday.exchangeTime && { exchangeTime: holiday.exchangeTime }),
+      ...(holiday.oddYearParent && usesOddYears && { oddYearParent: holiday.oddYearParent }),
+      ...(holiday.expansionRule && { expansionRule: holiday.expansionRule }),
+    });
+  });
+
+  template.majorBreaks.forEach((majorBreak, i) => {
+    const field = `majorBreaks[${i}]`;
+    const config = configs.get(majorBreak.breakId);
+    if (!config) {
+      unmapped.push({ field, reason: `"${majorBreak.breakId}" is not in the holiday calendar` });
+      return;
+    }
+
+    const dateDifference = describeDateDifference(majorBreak);
+    if (dateDifference) {
+      unmapped.push({ field, reason: dateDifference });
+    }
+
+    if (majorBreak.weeksPerParent !== undefined) {
+      if (majorBreak.breakId !== DEFAULT_SUMMER_VACATION_CONFIG.holidayId) {
+        unmapped.push({
+          field: `${field}.weeksPerParent`,
+          reason: 'Week selection is only supported for Summer Vacation',
+        });
+      } else if (selectionBreakId) {
+        unmapped.push({
+          field: `${field}.weeksPerParent`,
+          reason: `Only one selection break is supported; "${selectionBreakId}" already uses week selection`,
+        });
+      } else {
+        selectionBreakId = majorBreak.breakId;
+        summerVacationConfig = {
+          holidayId: majorBreak.breakId,
+          weeksPerParent: majorBreak.weeksPerParent,
+          blocksPerParent: Math.min(DEFAULT_SUMMER_VACATION_CONFIG.blocksPerParent, majorBreak.weeksPerParent),
+          selectionDeadline: majorBreak.selectionDeadline ?? DEFAULT_SUMMER_VACATION_CONFIG.selectionDeadline,
+          firstPickOddYears: majorBreak.firstPickOddYears ?? DEFAULT_SUMMER_VACATION_CONFIG.firstPickOddYears,
+          ...(majorBreak.maxConsecutiveWeeks !== undefined && { maxConsecutiveWeeks: majorBreak.maxConsecutiveWeeks }),
+        };
+        configs.set(majorBreak.breakId, { ...config, assignment: 'selection-priority' });
+      }
+    } else {
+      for (const key of ['selectionDeadline', 'firstPickOddYears', 'maxConsecutiveWeeks'] as const) {
+        if (majorBreak[key] !== undefined) {
+          unmapped.push({ field: `${field}.${key}`, reason: 'Only used for breaks with weeksPerParent' });
+        }
+      }
+    }
+
+    if (majorBreak.isSplit) {
+      const splitDate = majorBreak.splitDate ? parseSplitDate(majorBreak.splitDate) : null;
+      if (!majorBreak.splitDate || !splitDate) {
+        unmapped.push({
+          field: majorBreak.splitDate ? `${field}.splitDate` : `${field}.isSplit`,
+          reason: majorBreak.splitDate
+            ? `Could not read a month and day from "${majorBreak.splitDate}"`
+            : 'A split break needs a splitDate',
+        });
+        return;
+      }
+
+      const isWinterBreak = majorBreak.breakId === DEFAULT_WINTER_BREAK_SPLIT.holidayId;
+      const splitConfig: SplitPeriodConfig = {
+        holidayId: majorBreak.breakId,
+        splitPoint: majorBreak.splitDate,
+        splitDate,
+        segment1Name: isWinterBreak ? DEFAULT_WINTER_BREAK_SPLIT.segment1Name : 'First half',
+        segment2Name: isWinterBreak ? DEFAULT_WINTER_BREAK_SPLIT.segment2Name : 'Second half',
+        segment1Assignment: 'alternate-odd-even',
+        segment2Assignment: 'alternate-odd-even',
+      };
+      const current = configs.get(majorBreak.breakId) ?? config;
+      if (isWinterBreak) {
+        winterBreakSplit = splitConfig;
+        configs.set(majorBreak.breakId, { ...current, assignment: 'split-period' });
+      } else {
+        configs.set(majorBreak.breakId, { ...current, assignment: 'split-period', splitConfig });
+      }
+    }
+  });
+
+  return {
+    config: {
+      selectedPattern: template.defaultPattern,
+      exchangeTime: template.defaultExchangeTime,
+    },
+    holidays: {
+      holidayConfigs: [...configs.values()],
+      winterBreakSplit,
+      summerVacationConfig,
+    },
+    unmapped,
+  };
+}
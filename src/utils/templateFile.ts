@@ -0,0 +1,351 @@
+/**
+ * Court Template Files
+ *
+ * Reads court templates written as JSON (see
+ * src/data/templates/court-template.schema.json for the authoring schema),
+ * validates them against the CourtTemplate shape and merges them into a
+ * template registry by semantic version: a template only replaces an installed
+ * template with the same ID when its version is higher.
+ */
+
+import type { CourtTemplate, TemplateRegistry } from '../types';
+import {
+  ASSIGNMENT_TYPES,
+  PARENT_IDS,
+  PATTERN_TYPES,
+  checkBoolean,
+  checkCalendarHolidayId,
+  checkHolidayExpansionRule,
+  checkInteger,
+  checkList,
+  checkOneOf,
+  checkString,
+  checkTime,
+  fail,
+  isRecord,
+  type Scope,
+} from './jsonValidation';
+
+/**
+ * Result of importing a template file.
+ */
+export type TemplateImportResult =
+  | { valid: true; template: CourtTemplate }
+  | { valid: false; errors: string[] };
+
+/**
+ * What merging a template did to the registry.
+ * - 'added': no template with this ID was installed
+ * - 'updated': the template replaced an older version
+ * - 'unchanged': the same version is already installed
+ * - 'older': a newer version is already installed and was kept
+ */
+export type TemplateUpdateStatus = 'added' | 'updated' | 'unchanged' | 'older';
+
+/**
+ * Outcome of merging one template into a registry.
+ */
+export interface TemplateUpdate {
+  /** Template ID */
+  id: string;
+  /** Version of the merged template */
+  version: string;
+  /** What happened to the registry */
+  status: TemplateUpdateStatus;
+  /** Version that was installed before the merge, if any */
+  installedVersion?: string;
+  /** Whether an update changes the major version (the template's rules may differ) */
+  isMajorUpdate?: boolean;
+}
+
+/**
+ * A parsed semantic version (e.g., "1.4.0" or "2.0.0-beta.1").
+ */
+export interface TemplateVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Pre-release identifiers (e.g., ["beta", "1"]); empty for a release */
+  prerelease: string[];
+}
+
+const SEMVER = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+const TEMPLATE_ID = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const TEMPLATE_KEYS = [
+  '$schema',
+  'id',
+  'name',
+  'jurisdiction',
+  'version',
+  'description',
+  'defaultPattern',
+  'defaultExchangeTime',
+  'holidays',
+  'majorBreaks',
+  'requiresChildAge',
+  'notes',
+  'sourceDocument',
+  'lastUpdated',
+];
+const HOLIDAY_KEYS = [
+  'holidayId',
+  'assignment',
+  'oddYearParent',
+  'exchangeTime',
+  'timingDescription',
+  'enabled',
+  'expansionRule',
+];
+const MAJOR_BREAK_KEYS = [
+  'breakId',
+  'name',
+  'startMonth',
+  'startDay',
+  'endMonth',
+  'endDay',
+  'weeksPerParent',
+  'selectionDeadline',
+  'firstPickOddYears',
+  'maxConsecutiveWeeks',
+  'isSplit',
+  'splitDate',
+  'splitDescription',
+];
+
+/**
+ * Parse a semantic version.
+ *
+ * @returns The version parts, or null when the text is not a semantic version
+ */
+export function parseTemplateVersion(version: string): TemplateVersion | null {
+  const match = SEMVER.exec(version);
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Compare two pre-release identifiers: numbers sort numerically and before text.
+ */
+function compareIdentifiers(a: string, b: string): number {
+  const aIsNumber = /^\d+$/.test(a);
+  const bIsNumber = /^\d+$/.test(b);
+  if (aIsNumber && bIsNumber) return Number(a) - Number(b);
+  if (aIsNumber !== bIsNumber) return aIsNumber ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two template versions by semantic versioning precedence.
+ * Versions that cannot be parsed sort before every valid version.
+ *
+ * @returns A negative number when a is older, positive when a is newer, 0 when equal
+ *
+ * @example
+ * ```typescript
+ * compareTemplateVersions('1.10.0', '1.9.2'); // > 0
+ * compareTemplateVersions('2.0.0-beta.1', '2.0.0'); // < 0
+ * ```
+ */
+export function compareTemplateVersions(a: string, b: string): number {
+  const versionA = parseTemplateVersion(a);
+  const versionB = parseTemplateVersion(b);
+  if (!versionA || !versionB) return (versionA ? 1 : 0) - (versionB ? 1 : 0);
+
+  const difference =
+    versionA.major - versionB.major || versionA.minor - versionB.minor || versionA.patch - versionB.patch;
+  if (difference !== 0) return difference;
+
+  // A release is newer than its pre-releases
+  if (versionA.prerelease.length === 0 || versionB.prerelease.length === 0) {
+    return versionB.prerelease.length - versionA.prerelease.length;
+  }
+  for (let i = 0; i < Math.min(versionA.prerelease.length, versionB.prerelease.length); i++) {
+    const result = compareIdentifiers(versionA.prerelease[i], versionB.prerelease[i]);
+    if (result !== 0) return result;
+  }
+  return versionA.prerelease.length - versionB.prerelease.length;
+}
+
+/**
+ * Report fields a template does not define, which are usually misspellings.
+ */
+function checkKnownKeys(scope: Scope, keys: string[]) {
+  for (const key of Object.keys(scope.record)) {
+    if (!keys.includes(key)) {
+      scope.errors.push(`${scope.path}.${key} is not a template field`);
+    }
+  }
+}
+
+/**
+ * Validate a template against the CourtTemplate shape.
+ *
+ * @param data - Parsed template data
+ * @returns Readable error messages; empty when the template is valid
+ */
+export function validateCourtTemplate(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ['The template must be an object'];
+  }
+  const errors: string[] = [];
+  const root: Scope = { errors, record: data, path: 'template' };
+
+  checkKnownKeys(root, TEMPLATE_KEYS);
+  if (typeof data.id !== 'string' || !TEMPLATE_ID.test(data.id)) {
+    fail(root, 'id', 'lowercase letters and numbers joined by hyphens');
+  }
+  checkString(root, 'name');
+  checkString(root, 'jurisdiction');
+  if (typeof data.version !== 'string' || !parseTemplateVersion(data.version)) {
+    fail(root, 'version', 'a semantic version such as "1.0.0"');
+  }
+  checkString(root, 'description');
+  checkOneOf(root, 'defaultPattern', PATTERN_TYPES);
+  checkTime(root, 'defaultExchangeTime');
+  checkList(root, 'holidays', false, (entry) => {
+    checkKnownKeys(entry, HOLIDAY_KEYS);
+    checkCalendarHolidayId(entry, 'holidayId');
+    checkOneOf(entry, 'assignment', ASSIGNMENT_TYPES);
+    checkOneOf(entry, 'oddYearParent', PARENT_IDS, true);
+    checkTime(entry, 'exchangeTime', true);
+    checkString(entry, 'timingDescription', true);
+    checkBoolean(entry, 'enabled', true);
+    checkHolidayExpansionRule(entry);
+  });
+  checkList(root, 'majorBreaks', false, (entry) => {
+    checkKnownKeys(entry, MAJOR_BREAK_KEYS);
+    checkCalendarHolidayId(entry, 'breakId', true);
+    checkString(entry, 'name');
+    checkInteger(entry, 'startMonth', 1, 12);
+    checkInteger(entry, 'startDay', 1, 31);
+    checkInteger(entry, 'endMonth', 1, 12);
+    checkInteger(entry, 'endDay', 1, 31);
+    checkInteger(entry, 'weeksPerParent', 1, 13, true);
+    checkString(entry, 'selectionDeadline', true);
+    checkOneOf(entry, 'firstPickOddYears', PARENT_IDS, true);
+    checkInteger(entry, 'maxConsecutiveWeeks', 1, 13, true);
+    checkBoolean(entry, 'isSplit', true);
+    checkString(entry, 'splitDate', true);
+    checkString(entry, 'splitDescription', true);
+  });
+  checkBoolean(root, 'requiresChildAge');
+  checkString(root, 'notes', true);
+  checkString(root, 'sourceDocument', true);
+  checkString(root, 'lastUpdated', true);
+
+  return errors;
+}
+
+/**
+ * Import parsed template data, dropping the "$schema" reference used for authoring.
+ *
+ * @param data - Parsed JSON from a template file
+ * @returns The template, or readable errors explaining why it cannot be used
+ */
+export function importTemplateData(data: unknown): TemplateImportResult {
+  const errors = validateCourtTemplate(data);
+  if (errors.length > 0 || !isRecord(data)) {
+    return { valid: false, errors };
+  }
+  const template = { ...data };
+  delete template.$schema;
+  return { valid: true, template: template as unknown as CourtTemplate };
+}
+
+/**
+ * Parse and validate the text of a template file.
+ */
+export function parseTemplateFile(text: string): TemplateImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { valid: false, errors: ['The file is not valid JSON'] };
+  }
+  return importTemplateData(data);
+}
+
+/**
+ * Merge a template into a registry, keeping whichever version is newer.
+ *
+ * @param registry - Installed templates by ID (not modified)
+ * @param template - The template to merge
+ * @returns The resulting registry and what happened to it
+ */
+export function mergeTemplate(
+  registry: TemplateRegistry,
+  template: CourtTemplate
+): { registry: TemplateRegistry; update: TemplateUpdate } {
+  const installed = registry[template.id];
+  if (!installed) {
+    return {
+      registry: { ...registry, [template.id]: template },
+      update: { id: template.id, version: template.version, status: 'added' },
+    };
+  }
+
+  const comparison = compareTemplateVersions(template.version, installed.version);
+  const update: TemplateUpdate = {
+    id: template.id,
+    version: template.version,
+    status: comparison > 0 ? 'updated' : comparison === 0 ? 'unchanged' : 'older',
+    installedVersion: installed.version,
+  };
+  if (comparison <= 0) {
+    return { registry, update };
+  }
+
+  const isMajorUpdate =
+    parseTemplateVersion(template.version)?.major !== parseTemplateVersion(installed.version)?.major;
+  return {
+    registry: { ...registry, [template.id]: template },
+    update: { ...update, isMajorUpdate },
+  };
+}
+
+/**
+ * Restore imported templates saved in localStorage, checking each like an
+ * imported file so a corrupt save cannot break the template list.
+ *
+ * @param stored - The parsed localStorage value
+ * @returns The templates that are still valid
+ */
+export function restoreImportedTemplates(stored: unknown): CourtTemplate[] {
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((entry) => {
+    const result = importTemplateData(entry);
+    if (!result.valid) {
+      console.warn('Ignoring saved template that failed validation:', result.errors);
+      return [];
+    }
+    return [result.template];
+  });
+}
+
+/**
+ * Describe the outcome of importing a template for the user.
+ *
+ * @param update - What merging the template did
+ * @param name - The template's display name
+ */
+export function describeTemplateUpdate(update: TemplateUpdate, name: string): string {
+  switch (update.status) {
+    case 'added':
+      return `Added "${name}" (version ${update.version}).`;
+    case 'updated':
+      return (
+        `Updated "${name}" from version ${update.installedVersion} to ${update.version}.` +
+        (update.isMajorUpdate ? ' This is a major update; review its holiday rules before using it.' : '')
+      );
+    case 'unchanged':
+      return `Version ${update.version} of "${name}" is already installed.`;
+    case 'older':
+      return `A newer version (${update.installedVersion}) of "${name}" is already installed; version ${update.version} was not imported.`;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Third-Party Time
+ *
+ * Recurring time the child spends with a third party, such as school
+ * (Mon–Fri 8:00 AM – 3:00 PM) or daycare. Third-party time does not change
+ * custody; it reduces the parent's "face time", which duration stats can
+ * deduct (AppConfig.deductThirdPartyTime).
+ */
+
+import type { ThirdPartyBlock } from '../types';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Short weekday names, indexed by day of the week (0 = Sunday).
+ */
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Validate a third-party block before it is stored.
+ *
+ * @param block - The proposed block
+ * @returns Object with valid boolean and optional reason string
+ */
+export function validateThirdPartyBlock(
+  block: ThirdPartyBlock
+): { valid: boolean; reason?: string } {
+  if (!block.label.trim()) {
+    return { valid: false, reason: 'Enter a label, such as "School"' };
+  }
+  if (block.weekdays.length === 0 || !block.weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    return { valid: false, reason: 'Choose at least one day of the week' };
+  }
+  if (!TIME.test(block.startTime) || !TIME.test(block.endTime)) {
+    return { valid: false, reason: 'Choose a start and end time' };
+  }
+  if (block.endTime <= block.startTime) {
+    return { valid: false, reason: 'End time must be after the start time' };
+  }
+  if ((block.startDate && !ISO_DATE.test(block.startDate)) || (block.endDate && !ISO_DATE.test(block.endDate))) {
+    return { valid: false, reason: 'Dates must be in YYYY-MM-DD format' };
+  }
+  if (block.startDate && block.endDate && block.endDate < block.startDate) {
+    return { valid: false, reason: 'Last date must be on or after the first date' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Describe the days a block recurs on (e.g., "Mon–Fri" or "Mon, Wed, Fri").
+ */
+export function formatWeekdays(weekdays: number[]): string {
+  const days = [...new Set(weekdays)].sort((a, b) => a - b);
+  const isRun = days.length >= 3 && days.every((day, i) => i === 0 || day === days[i - 1] + 1);
+  if (isRun) {
+    return `${WEEKDAY_NAMES[days[0]]}–${WEEKDAY_NAMES[days[days.length - 1]]}`;
+  }
+  return days.map((day) => WEEKDAY_NAMES[day]).join(', ');
+}
@@ -0,0 +1,131 @@
+/**
+ * ZIP Archive Writer
+ *
+ * Builds uncompressed (stored) ZIP archives in the browser, which is all the
+ * Office Open XML formats need. Entries get a fixed timestamp so the same
+ * input always produces the same bytes.
+ */
+
+/**
+ * A file to add to an archive.
+ */
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes (e.g., "word/document.xml") */
+  name: string;
+  /** File contents; strings are encoded as UTF-8 */
+  data: string | Uint8Array;
+}
+
+/** DOS date for 1980-01-01, the earliest date a ZIP entry can carry */
+const FIXED_DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/** General purpose flag marking file names as UTF-8 */
+const UTF8_NAME_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Get the CRC-32 lookup table, building it on first use.
+ */
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * Calculate the CRC-32 checksum of some bytes, as used by ZIP.
+ *
+ * @example
+ * ```typescript
+ * crc32(new TextEncoder().encode('hello')); // 0x3610a686
+ * ```
+ */
+export function crc32(bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = table[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Create a ZIP archive with the entries stored uncompressed, in the given order.
+ *
+ * @param entries - Files to add
+ * @returns The archive bytes
+ */
+export function createZipArchive(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true); // Local file header signature
+    localView.setUint16(4, 20, true); // Version needed to extract (2.0)
+    localView.setUint16(6, UTF8_NAME_FLAG, true);
+    localView.setUint16(8, 0, true); // Compression method: stored
+    localView.setUint16(10, 0, true); // Modification time: midnight
+    localView.setUint16(12, FIXED_DOS_DATE, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true); // Compressed size
+    localView.setUint32(22, data.length, true); // Uncompressed size
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true); // Extra field length
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true); // Central directory header signature
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed to extract
+    centralView.setUint16(8, UTF8_NAME_FLAG, true);
+    centralView.setUint16(10, 0, true); // Compression method: stored
+    centralView.setUint16(12, 0, true);
+    centralView.setUint16(14, FIXED_DOS_DATE, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    centralView.setUint32(42, offset, true); // Offset of the local header
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // End of central directory signature
+  endView.setUint16(8, entries.length, true); // Entries on this disk
+  endView.setUint16(10, entries.length, true); // Total entries
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true); // Offset of the central directory
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...localParts, ...centralParts, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}